@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+/**
+ * Performance gate for deploy pipelines. Calls the analyzer's
+ * /api/ci/gate route and exits non-zero when the build fails its budgets.
+ *
+ *   node scripts/perf-gate.mjs --url https://example.com [--url ...]
+ *     [--server http://localhost:3000] [--strategy mobile|desktop]
+ *     [--runs 3] [--budget <budget id | path to budget.json>]
+ *     [--baseline <entry id | latest>] [--max-regression 10]
+ *     [--build <label>] [--no-save] [--json] [--timeout <seconds>]
+ *
+ * The server defaults to $PERF_ANALYZER_URL and the token to $PERF_CI_TOKEN.
+ * The gate answers once every run is done, which takes minutes for several
+ * URLs and runs; --timeout (default 1800) bounds the wait.
+ * Exit codes: 0 passed, 1 failed, 2 the gate could not be run.
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { Agent, fetch } from "undici";
+
+const args = process.argv.slice(2);
+
+function readOptions(name) {
+  const values = [];
+  args.forEach((arg, index) => {
+    if (arg === `--${name}`) values.push(args[index + 1]);
+  });
+  return values;
+}
+
+function readOption(name, fallback) {
+  return readOptions(name).pop() ?? fallback;
+}
+
+function exit(message) {
+  console.error(`perf-gate: ${message}`);
+  process.exit(2);
+}
+
+const server = readOption(
+  "server",
+  process.env.PERF_ANALYZER_URL || "http://localhost:3000",
+);
+const token = readOption("token", process.env.PERF_CI_TOKEN);
+const urls = readOptions("url");
+if (urls.length === 0) exit("at least one --url is required");
+
+const timeout = Number(readOption("timeout", 1800));
+if (!(timeout > 0)) exit("--timeout must be a number of seconds");
+
+const body = {
+  urls,
+  strategy: readOption("strategy", "mobile"),
+  runs: Number(readOption("runs", 1)),
+  baseline: readOption("baseline"),
+  build: readOption("build", process.env.GITHUB_SHA),
+  save: !args.includes("--no-save"),
+};
+
+const maxRegression = readOption("max-regression");
+if (maxRegression !== undefined) body.maxRegression = Number(maxRegression);
+
+// A budget.json (or single budget) file is sent inline; anything else is an id
+const budget = readOption("budget");
+if (budget !== undefined) {
+  if (existsSync(budget)) {
+    try {
+      body.budget = JSON.parse(readFileSync(budget, "utf8"));
+    } catch (error) {
+      exit(`could not read ${budget}: ${error.message}`);
+    }
+  } else {
+    body.budget = budget;
+  }
+}
+
+const formatValue = (unit, value) => {
+  switch (unit) {
+    case "ms":
+      return `${Math.round(value)}ms`;
+    case "unitless":
+      return value.toFixed(3);
+    case "bytes":
+      return `${Math.round(value / 1024)}KB`;
+    case "score":
+      return String(Math.round(value));
+    default:
+      return String(value);
+  }
+};
+
+const STATUS_MARKS = { pass: "PASS", warning: "WARN", fail: "FAIL" };
+
+function printReport(report) {
+  for (const result of report.results) {
+    console.log(
+      `\n${result.status.toUpperCase()}  ${result.url} (${result.strategy}, ${result.budget.name})`,
+    );
+    if (result.scores.length > 0) {
+      console.log(
+        `  Scores: ${result.scores.join(", ")} (median ${result.medianScore})`,
+      );
+    }
+    for (const check of result.checks) {
+      if (check.mustJustify) {
+        console.log(
+          `  ${STATUS_MARKS[check.status]}  ${check.name}: ${formatValue(check.unit, check.actual)} (must justify)`,
+        );
+        continue;
+      }
+      const limit = check.higherIsBetter ? ">=" : "<=";
+      const baseline =
+        check.baseline !== undefined
+          ? `, baseline ${formatValue(check.unit, check.baseline)}`
+          : "";
+      console.log(
+        `  ${STATUS_MARKS[check.status]}  ${check.name}: ${formatValue(check.unit, check.actual)} (${limit} ${formatValue(check.unit, check.budget)}${baseline})`,
+      );
+    }
+    for (const error of result.errors) console.log(`  ERROR ${error}`);
+  }
+
+  const { summary } = report;
+  console.log(
+    `\nPerformance gate ${report.status}: ${summary.pass} passed, ${summary.warning} warnings, ${summary.fail} failed, ${summary.errors} errors`,
+  );
+}
+
+// Node's fetch gives up after 300s without response headers
+const dispatcher = new Agent({
+  headersTimeout: timeout * 1000,
+  bodyTimeout: timeout * 1000,
+});
+
+let response;
+try {
+  response = await fetch(new URL("/api/ci/gate", server), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(body),
+    dispatcher,
+  });
+} catch (error) {
+  if (error.cause?.code === "UND_ERR_HEADERS_TIMEOUT") {
+    exit(`no result from ${server} after ${timeout}s; raise --timeout`);
+  }
+  exit(`could not reach ${server}: ${error.cause?.message ?? error.message}`);
+}
+
+const data = await response.json().catch(() => ({}));
+if (!response.ok) {
+  exit(data.error || `server responded with ${response.status}`);
+}
+
+if (args.includes("--json")) {
+  console.log(JSON.stringify(data, null, 2));
+} else {
+  printReport(data);
+}
+process.exit(data.status === "passed" ? 0 : 1);
@@ -0,0 +1,39 @@
+#!/usr/bin/env node
+/**
+ * Local webhook receiver for trying out alert rules.
+ *
+ *   node scripts/webhook-receiver.mjs [--port 4000] [--status 200]
+ *
+ * Point an alert rule's channel at http://localhost:4000/ and every
+ * delivery is printed here. Use --status to simulate a failing endpoint.
+ */
+import http from "node:http";
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? fallback : Number(process.argv[index + 1]);
+}
+
+const port = readOption("port", 4000);
+const status = readOption("status", 200);
+
+const server = http.createServer((request, response) => {
+  let body = "";
+  request.on("data", (chunk) => {
+    body += chunk;
+  });
+  request.on("end", () => {
+    console.log(`\n[${new Date().toISOString()}] ${request.method} ${request.url}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify({ received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/ (responding ${status})`);
+});
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { listAIProviders } from "@/lib/aiProviders";
+
+// Which AI providers are configured on the server, without their keys
+export function GET() {
+  return NextResponse.json({ providers: listAIProviders() });
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ComponentAnalysis, PerformanceEntry } from "@/types";
+import { buildAnalysisPrompt } from "@/lib/aiService";
+import {
+  AIProviderError,
+  RemoteAIProvider,
+  aiRateLimiter,
+  getProviderModel,
+  requestAISuggestions,
+  validateAISuggestionRequest,
+} from "@/lib/aiProviders";
+import {
+  cacheSuggestions,
+  getCachedSuggestions,
+  getSuggestionCacheKey,
+} from "@/lib/aiSuggestionRepository";
+import { getClientKey } from "@/lib/rateLimit";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface SuggestionRequest {
+  provider: RemoteAIProvider;
+  entry: PerformanceEntry;
+  components: ComponentAnalysis[];
+}
+
+/**
+ * Generate suggestions for an entry with a server-configured LLM provider
+ * (see `stream/route.ts` for the streaming variant). Cached replies are
+ * returned without calling the provider and do not count towards the rate
+ * limit.
+ */
+export async function POST(request: NextRequest) {
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) {
+    return NextResponse.json(
+      { error: "Request body is too large" },
+      { status: 413 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateAISuggestionRequest(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const { provider, entry, components } = body as SuggestionRequest;
+
+  const model = getProviderModel(provider);
+  if (!model) {
+    return NextResponse.json(
+      { error: `Provider '${provider}' is not configured on the server` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const prompt = buildAnalysisPrompt(entry, components);
+    const key = getSuggestionCacheKey(provider, model, prompt);
+    const cached = await getCachedSuggestions(key);
+    if (cached) {
+      return NextResponse.json({
+        suggestions: cached.suggestions,
+        provider,
+        model: cached.model,
+        cached: true,
+      });
+    }
+
+    const { allowed, retryAfter } = aiRateLimiter.check(
+      getClientKey(request.headers)
+    );
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Too many AI requests, try again shortly" },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+
+    const result = await requestAISuggestions(provider, prompt);
+    await cacheSuggestions({
+      id: key,
+      provider,
+      model: result.model,
+      suggestions: result.suggestions,
+      createdAt: new Date().toISOString(),
+    });
+    return NextResponse.json({ ...result, provider, cached: false });
+  } catch (error) {
+    if (error instanceof AIProviderError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("AI suggestions error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while generating suggestions" },
+      { status: 500 }
+    );
+  }
+}
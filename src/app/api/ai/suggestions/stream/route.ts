@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AISuggestion, ComponentAnalysis, PerformanceEntry } from "@/types";
+import { buildAnalysisPrompt, buildRegeneratePrompt } from "@/lib/aiService";
+import {
+  RemoteAIProvider,
+  aiRateLimiter,
+  getProviderModel,
+  streamAISuggestionsFromProvider,
+  validateAISuggestionRequest,
+} from "@/lib/aiProviders";
+import {
+  CachedSuggestions,
+  cacheSuggestions,
+  getCachedSuggestions,
+  getSuggestionCacheKey,
+} from "@/lib/aiSuggestionRepository";
+import { getClientKey } from "@/lib/rateLimit";
+import { formatServerSentEvent } from "@/lib/sse";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  "X-Accel-Buffering": "no",
+};
+
+interface StreamRequest {
+  provider: RemoteAIProvider;
+  entry: PerformanceEntry;
+  components: ComponentAnalysis[];
+  regenerate?: AISuggestion;
+  exclude?: string[];
+}
+
+/**
+ * Stream suggestions as server-sent events: one `suggestion` event per
+ * validated suggestion, then `done` ({ model, cached }) or `error`
+ * ({ error }). With `regenerate`, a single replacement for that suggestion
+ * is streamed instead, bypassing the cache. Closing the connection cancels
+ * the provider request.
+ */
+export async function POST(request: NextRequest) {
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) {
+    return NextResponse.json(
+      { error: "Request body is too large" },
+      { status: 413 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateAISuggestionRequest(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+  const { provider, entry, components, regenerate, exclude } =
+    body as StreamRequest;
+
+  const model = getProviderModel(provider);
+  if (!model) {
+    return NextResponse.json(
+      { error: `Provider '${provider}' is not configured on the server` },
+      { status: 400 }
+    );
+  }
+
+  const prompt = regenerate
+    ? buildRegeneratePrompt(entry, components, regenerate, exclude ?? [])
+    : buildAnalysisPrompt(entry, components);
+  const key = getSuggestionCacheKey(provider, model, prompt);
+
+  let cached: CachedSuggestions | undefined;
+  try {
+    cached = regenerate ? undefined : await getCachedSuggestions(key);
+  } catch (error) {
+    console.error("AI suggestion cache read error:", error);
+  }
+
+  if (!cached) {
+    const { allowed, retryAfter } = aiRateLimiter.check(
+      getClientKey(request.headers)
+    );
+    if (!allowed) {
+      return NextResponse.json(
+        { error: "Too many AI requests, try again shortly" },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } }
+      );
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal.addEventListener("abort", () => abort.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abort.signal.aborted) {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+        }
+      };
+
+      try {
+        if (cached) {
+          cached.suggestions.forEach((suggestion) =>
+            send("suggestion", suggestion)
+          );
+          send("done", { model: cached.model, cached: true });
+          return;
+        }
+
+        let replaced = false;
+        const result = await streamAISuggestionsFromProvider(
+          provider,
+          prompt,
+          abort.signal,
+          (suggestion) => {
+            if (!regenerate) {
+              send("suggestion", suggestion);
+            } else if (!replaced) {
+              replaced = true;
+              send("suggestion", { ...suggestion, id: regenerate.id });
+            }
+          }
+        );
+        if (!regenerate) {
+          await cacheSuggestions({
+            id: key,
+            provider,
+            model: result.model,
+            suggestions: result.suggestions,
+            createdAt: new Date().toISOString(),
+          }).catch((error) =>
+            console.error("AI suggestion cache write error:", error)
+          );
+        }
+        send("done", { model: result.model, cached: false });
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error("AI suggestions stream error:", error);
+          send("error", {
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to generate suggestions",
+          });
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteRule, getRule, saveRule } from "@/lib/alertRepository";
+import { toAlertRuleInput, validateAlertRuleInput } from "@/lib/alerts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateAlertRuleInput(body, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const existing = await getRule(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const rule = {
+      ...existing,
+      ...toAlertRuleInput(body as Record<string, unknown>),
+    };
+    if (rule.threshold === undefined && rule.regressionPercent === undefined) {
+      return NextResponse.json(
+        { error: "Set a threshold, a regression percentage, or both" },
+        { status: 400 }
+      );
+    }
+
+    await saveRule(rule);
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("Alert rules write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while updating alert rule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const removed = await deleteRule(id);
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Alert rules write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while deleting alert rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRule } from "@/lib/alertRepository";
+import { deliverAlert } from "@/lib/alertDelivery";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Send a sample notification to the rule's channel
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const rule = await getRule(id);
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const delivery = await deliverAlert({
+      event: "test",
+      rule,
+      url: rule.urlPattern || "https://example.com/",
+      strategy: rule.strategy ?? "mobile",
+      reason: `Test notification for "${rule.name}"`,
+      timestamp: new Date().toISOString(),
+    });
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("Alert test error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while sending test alert" },
+      { status: 500 }
+    );
+  }
+}
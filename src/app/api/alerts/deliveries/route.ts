@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listDeliveries } from "@/lib/alertRepository";
+
+// Delivery log, newest first, optionally filtered by ?ruleId= and ?limit=
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const limit = Number(searchParams.get("limit")) || undefined;
+
+  try {
+    const deliveries = await listDeliveries(
+      searchParams.get("ruleId") || undefined,
+      limit
+    );
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Alert deliveries read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading delivery log" },
+      { status: 500 }
+    );
+  }
+}
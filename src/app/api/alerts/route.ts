@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { listRules, saveRule } from "@/lib/alertRepository";
+import {
+  DEFAULT_BASELINE_RUNS,
+  toAlertRuleInput,
+  validateAlertRuleInput,
+} from "@/lib/alerts";
+import { AlertRule } from "@/types";
+
+export async function GET() {
+  try {
+    const rules = await listRules();
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Alert rules read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading alert rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateAlertRuleInput(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const input = toAlertRuleInput(body as Record<string, unknown>);
+  const rule: AlertRule = {
+    id: uuidv4(),
+    name:
+      input.name ||
+      `${input.metric === "score" ? "Score" : input.metric!.toUpperCase()} alert`,
+    urlPattern: input.urlPattern,
+    strategy: input.strategy,
+    metric: input.metric!,
+    threshold: input.threshold,
+    regressionPercent: input.regressionPercent,
+    baselineRuns: input.baselineRuns ?? DEFAULT_BASELINE_RUNS,
+    consecutive: input.consecutive ?? 1,
+    channel: input.channel!,
+    enabled: input.enabled ?? true,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await saveRule(rule);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("Alert rules write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while saving alert rule" },
+      { status: 500 }
+    );
+  }
+}
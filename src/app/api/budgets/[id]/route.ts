@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteBudget, getBudget, saveBudget } from "@/lib/budgetRepository";
+import { validateBudgetInput } from "@/lib/budgets";
+import { BudgetDefinition } from "@/types";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const EDITABLE_FIELDS = [
+  "name",
+  "path",
+  "strategy",
+  "metrics",
+  "resourceSizes",
+  "resourceCounts",
+  "firstPartyHostnames",
+  "mustJustifyVendors",
+] as const;
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateBudgetInput(body, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const existing = await getBudget(id);
+    if (!existing) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    const input = body as Partial<BudgetDefinition>;
+    const budget: BudgetDefinition = { ...existing };
+    for (const field of EDITABLE_FIELDS) {
+      if (field in input) {
+        // null clears optional fields such as strategy
+        Object.assign(budget, { [field]: input[field] ?? undefined });
+      }
+    }
+    budget.updatedAt = new Date().toISOString();
+
+    await saveBudget(budget);
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error("Budgets write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while updating budget" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const removed = await deleteBudget(id);
+    if (!removed) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Budgets write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while deleting budget" },
+      { status: 500 }
+    );
+  }
+}
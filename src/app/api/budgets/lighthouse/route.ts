@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importBudgets, listBudgets } from "@/lib/budgetRepository";
+import {
+  parseLighthouseBudgets,
+  toLighthouseBudgets,
+} from "@/lib/lighthouseBudgets";
+
+// Export every stored budget as a Lighthouse budget.json download
+export async function GET() {
+  try {
+    const budgets = toLighthouseBudgets(await listBudgets());
+    return new NextResponse(JSON.stringify(budgets, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": 'attachment; filename="budget.json"',
+      },
+    });
+  } catch (error) {
+    console.error("Budgets read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while exporting budgets" },
+      { status: 500 }
+    );
+  }
+}
+
+// Import a budget.json document; ?replace=true drops existing budgets first
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "budget.json must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  let parsed: ReturnType<typeof parseLighthouseBudgets>;
+  try {
+    parsed = parseLighthouseBudgets(body);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid budget.json" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const replace = request.nextUrl.searchParams.get("replace") === "true";
+    const budgets = await importBudgets(parsed.budgets, replace);
+    return NextResponse.json(
+      { budgets, warnings: parsed.warnings },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Budgets write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while importing budgets" },
+      { status: 500 }
+    );
+  }
+}
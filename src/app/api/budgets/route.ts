@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { listBudgets, saveBudget } from "@/lib/budgetRepository";
+import { validateBudgetInput } from "@/lib/budgets";
+import { BudgetDefinition } from "@/types";
+
+export async function GET() {
+  try {
+    const budgets = await listBudgets();
+    return NextResponse.json({ budgets });
+  } catch (error) {
+    console.error("Budgets read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading budgets" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateBudgetInput(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const input = body as Partial<BudgetDefinition>;
+  const now = new Date().toISOString();
+  const budget: BudgetDefinition = {
+    id: uuidv4(),
+    name: input.name?.trim() || input.path!,
+    path: input.path!,
+    strategy: input.strategy ?? undefined,
+    metrics: input.metrics ?? {},
+    resourceSizes: input.resourceSizes ?? {},
+    resourceCounts: input.resourceCounts ?? {},
+    firstPartyHostnames: input.firstPartyHostnames,
+    mustJustifyVendors: input.mustJustifyVendors,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await saveBudget(budget);
+    return NextResponse.json({ budget }, { status: 201 });
+  } catch (error) {
+    console.error("Budgets write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while saving budget" },
+      { status: 500 }
+    );
+  }
+}
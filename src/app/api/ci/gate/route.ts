@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  GateInputError,
+  runGate,
+  toGateInput,
+  validateGateInput,
+} from "@/lib/ciGate";
+
+/**
+ * Deploy pipeline gate. Responds 200 with a report whose `status` is
+ * "passed" or "failed"; see `scripts/perf-gate.mjs` for a CLI wrapper.
+ * When PERF_CI_TOKEN is set, requests must send it as a bearer token.
+ */
+export async function POST(request: NextRequest) {
+  const token = process.env.PERF_CI_TOKEN;
+  if (token && request.headers.get("authorization") !== `Bearer ${token}`) {
+    return NextResponse.json(
+      { error: "Missing or invalid CI token" },
+      { status: 401 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateGateInput(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const report = await runGate(toGateInput(body as Record<string, unknown>));
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof GateInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("CI gate error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while running CI gate" },
+      { status: 500 }
+    );
+  }
+}
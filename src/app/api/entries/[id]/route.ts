@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteEntry, getEntry } from "@/lib/entryRepository";
+import { deleteLighthouseReport } from "@/lib/lighthouseReportRepository";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const entry = await getEntry(id);
+    if (!entry) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 });
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error("Entries read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading analysis" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const removed = await deleteEntry(id);
+    if (!removed) {
+      return NextResponse.json({ error: "Analysis not found" }, { status: 404 });
+    }
+    // Imported entries keep their original report under the same id
+    await deleteLighthouseReport(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Entries write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while deleting analysis" },
+      { status: 500 }
+    );
+  }
+}
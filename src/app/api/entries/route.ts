@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import {
+  StoredEntry,
+  clearEntries,
+  getEntry,
+  queryEntries,
+  saveEntry,
+} from "@/lib/entryRepository";
+import { clearLighthouseReports } from "@/lib/lighthouseReportRepository";
+import { evaluateAlerts } from "@/lib/alerts";
+import { Strategy } from "@/types";
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isEntryPayload(body: unknown): body is Omit<StoredEntry, "id"> & {
+  id?: string;
+} {
+  if (!body || typeof body !== "object") return false;
+  const entry = body as Record<string, unknown>;
+  return (
+    typeof entry.url === "string" &&
+    typeof entry.overallScore === "number" &&
+    typeof entry.metrics === "object" &&
+    entry.metrics !== null &&
+    Array.isArray(entry.resourceTimings) &&
+    !Number.isNaN(new Date(entry.timestamp as string).getTime())
+  );
+}
+
+// List entries, optionally filtered by ?url=, ?strategy=, ?from=, ?to=, ?limit=
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  const from = parseDate(searchParams.get("from"));
+  const to = parseDate(searchParams.get("to"));
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: "Invalid date range. Use ISO 8601 dates for 'from' and 'to'." },
+      { status: 400 }
+    );
+  }
+
+  const strategy = searchParams.get("strategy");
+  if (strategy && !["mobile", "desktop"].includes(strategy)) {
+    return NextResponse.json(
+      { error: "Invalid strategy. Must be 'mobile' or 'desktop'." },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(searchParams.get("limit")) || undefined;
+
+  try {
+    const entries = await queryEntries({
+      url: searchParams.get("url") || undefined,
+      strategy: (strategy as Strategy) || undefined,
+      from,
+      to,
+      limit,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Entries read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading analyses" },
+      { status: 500 }
+    );
+  }
+}
+
+// Save an entry. ?backfill=1 marks past runs uploaded from a browser's local
+// history, which are stored without raising alerts.
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (!isEntryPayload(body)) {
+    return NextResponse.json(
+      {
+        error:
+          "Invalid entry. Expected url, timestamp, metrics, resourceTimings and overallScore.",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const id = body.id || uuidv4();
+    const backfill = request.nextUrl.searchParams.get("backfill") === "1";
+    // Re-uploads from the offline queue must not raise alerts twice
+    const isNew = !backfill && !(await getEntry(id));
+    const entry = await saveEntry({ ...body, id });
+
+    if (isNew) {
+      // Webhook deliveries can take seconds, so they are sent after the
+      // response
+      after(() =>
+        evaluateAlerts(entry).catch((error) =>
+          console.error("Alert evaluation error:", error)
+        )
+      );
+    }
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error("Entries write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while saving analysis" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    await clearEntries();
+    await clearLighthouseReports();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Entries write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while clearing analyses" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readLighthouseReport } from "@/lib/lighthouseReportRepository";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Download an imported report as it was uploaded
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const text = await readLighthouseReport(id);
+    if (text === undefined) {
+      return NextResponse.json(
+        { error: "Lighthouse report not found" },
+        { status: 404 }
+      );
+    }
+    return new NextResponse(text, {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="lighthouse-${id}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Lighthouse reports read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading Lighthouse report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import {
+  LighthouseResult,
+  normalizeLighthouseResult,
+  parseLighthouseReport,
+} from "@/lib/lighthouse";
+import { saveLighthouseReport } from "@/lib/lighthouseReportRepository";
+
+// Reports with screenshots and traces run to a few megabytes
+const MAX_REPORT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Import a Lighthouse JSON report (or a PageSpeed response wrapping one):
+ * store the upload unchanged and respond with the normalized
+ * `PageSpeedPayload` plus the id the entry must be saved under, which is
+ * also the report's id.
+ */
+export async function POST(request: NextRequest) {
+  const text = await request.text();
+  if (text.length > MAX_REPORT_BYTES) {
+    return NextResponse.json(
+      { error: "Lighthouse report is too large" },
+      { status: 413 }
+    );
+  }
+
+  let report: LighthouseResult;
+  try {
+    report = parseLighthouseReport(JSON.parse(text));
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error:
+          error instanceof SyntaxError
+            ? "Lighthouse report must be valid JSON"
+            : error instanceof Error
+              ? error.message
+              : "Invalid Lighthouse report",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const id = uuidv4();
+    await saveLighthouseReport(
+      {
+        id,
+        importedAt: new Date().toISOString(),
+        lighthouseVersion: report.lighthouseVersion,
+      },
+      text
+    );
+    return NextResponse.json(
+      { ...normalizeLighthouseResult(report), id, source: "lighthouse" },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Lighthouse reports write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while importing Lighthouse report" },
+      { status: 500 }
+    );
+  }
+}
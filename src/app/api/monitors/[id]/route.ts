@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteMonitor,
+  getMonitor,
+  listRuns,
+  updateMonitor,
+} from "@/lib/monitorRepository";
+import {
+  MonitorInput,
+  toMonitorInput,
+  validateMonitorInput,
+} from "@/lib/monitors";
+import { isMonitorRunning } from "@/lib/monitorRunner";
+import { getNextRun } from "@/lib/schedule";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Monitor details with its most recent runs
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const monitor = await getMonitor(id);
+    if (!monitor) {
+      return NextResponse.json({ error: "Monitor not found" }, { status: 404 });
+    }
+    const runs = await listRuns(id);
+    return NextResponse.json({
+      monitor: { ...monitor, running: isMonitorRunning(id) },
+      runs,
+    });
+  } catch (error) {
+    console.error("Monitors read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading monitor" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateMonitorInput(body, true);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  try {
+    const existing = await getMonitor(id);
+    if (!existing) {
+      return NextResponse.json({ error: "Monitor not found" }, { status: 404 });
+    }
+
+    const input = toMonitorInput(body as Partial<MonitorInput>);
+    // Reschedule from now when the schedule changes or the monitor is
+    // re-enabled, so a stale nextRunAt doesn't trigger an immediate run
+    const reschedule =
+      (input.schedule !== undefined && input.schedule !== existing.schedule) ||
+      (input.enabled === true && !existing.enabled);
+    const monitor = await updateMonitor(id, {
+      ...input,
+      ...(reschedule && {
+        nextRunAt: getNextRun(
+          input.schedule ?? existing.schedule,
+        ).toISOString(),
+      }),
+    });
+
+    return NextResponse.json({ monitor });
+  } catch (error) {
+    console.error("Monitors write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while updating monitor" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const removed = await deleteMonitor(id);
+    if (!removed) {
+      return NextResponse.json({ error: "Monitor not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Monitors write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while deleting monitor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getMonitor } from "@/lib/monitorRepository";
+import { isMonitorRunning, runMonitor } from "@/lib/monitorRunner";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Run a monitor immediately, outside its schedule
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const monitor = await getMonitor(id);
+    if (!monitor) {
+      return NextResponse.json({ error: "Monitor not found" }, { status: 404 });
+    }
+    if (isMonitorRunning(id)) {
+      return NextResponse.json(
+        { error: "Monitor is already running" },
+        { status: 409 }
+      );
+    }
+
+    const run = await runMonitor(monitor);
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Monitor run error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while running monitor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { listMonitors, saveMonitor } from "@/lib/monitorRepository";
+import {
+  MonitorInput,
+  toMonitorInput,
+  validateMonitorInput,
+} from "@/lib/monitors";
+import { isMonitorRunning } from "@/lib/monitorRunner";
+import { getNextRun } from "@/lib/schedule";
+import { Monitor } from "@/types";
+
+export async function GET() {
+  try {
+    const monitors = (await listMonitors()).map((monitor) => ({
+      ...monitor,
+      running: isMonitorRunning(monitor.id),
+    }));
+    return NextResponse.json({ monitors });
+  } catch (error) {
+    console.error("Monitors read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading monitors" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const validationError = validateMonitorInput(body);
+  if (validationError) {
+    return NextResponse.json({ error: validationError }, { status: 400 });
+  }
+
+  const input = toMonitorInput(body as MonitorInput);
+  const now = new Date();
+  const monitor: Monitor = {
+    id: uuidv4(),
+    name: input.name || new URL(input.url!).hostname,
+    url: input.url!,
+    schedule: input.schedule!,
+    strategies: input.strategies ?? ["mobile"],
+    budgets: input.budgets ?? {},
+    enabled: input.enabled ?? true,
+    createdAt: now.toISOString(),
+    nextRunAt: getNextRun(input.schedule!, now).toISOString(),
+  };
+
+  try {
+    await saveMonitor(monitor);
+    return NextResponse.json({ monitor }, { status: 201 });
+  } catch (error) {
+    console.error("Monitors write error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while saving monitor" },
+      { status: 500 }
+    );
+  }
+}
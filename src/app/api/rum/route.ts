@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  RumPayload,
+  SELF_RUM_SITE,
+  isAllowedHost,
+  isSampled,
+  toRumBeacons,
+  validateRumPayload,
+} from "@/lib/rum";
+import { recordBeacons } from "@/lib/rumRepository";
+
+// Beacons come from other sites' pages
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const MAX_BEACON_BYTES = 16 * 1024;
+
+function respond(body: unknown, status: number) {
+  return NextResponse.json(body, { status, headers: CORS_HEADERS });
+}
+
+export function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Ingest a web-vitals beacon. Bodies are JSON but usually arrive as
+ * text/plain from `navigator.sendBeacon`. PERF_RUM_SAMPLE_RATE (0-1) keeps
+ * a share of page views and PERF_RUM_ALLOWED_HOSTS restricts which sites
+ * may report.
+ */
+export async function POST(request: NextRequest) {
+  const text = await request.text();
+  if (text.length > MAX_BEACON_BYTES) {
+    return respond({ error: "Beacon is too large" }, 413);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return respond({ error: "Request body must be valid JSON" }, 400);
+  }
+
+  const validationError = validateRumPayload(body);
+  if (validationError) {
+    return respond({ error: validationError }, 400);
+  }
+  const payload = body as RumPayload;
+
+  const allowedHosts = (process.env.PERF_RUM_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim())
+    .filter(Boolean);
+  // The dashboard's own pages may always report
+  const isSelf =
+    payload.site === SELF_RUM_SITE &&
+    new URL(payload.url).host === request.headers.get("host");
+  if (!isSelf && !isAllowedHost(payload.url, allowedHosts)) {
+    return respond({ error: "Site is not allowed to report" }, 403);
+  }
+
+  const sampleRate = Number(process.env.PERF_RUM_SAMPLE_RATE || 1);
+  if (!isSampled(payload.pageViewId, sampleRate)) {
+    return respond({ stored: 0, sampled: false }, 202);
+  }
+
+  try {
+    const beacons = toRumBeacons(payload, request.headers.get("user-agent"));
+    await recordBeacons(beacons);
+    return respond({ stored: beacons.length, sampled: true }, 202);
+  } catch (error) {
+    console.error("RUM write error:", error);
+    return respond({ error: "Internal server error while storing beacon" }, 500);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { queryBeacons } from "@/lib/rumRepository";
+import { RumSummary, SELF_RUM_SITE, summarizeRum } from "@/lib/rum";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * p75 per page, device class, navigation type and component; ?site=, ?url=,
+ * ?days= (default 7). The dashboard's own beacons are only included with
+ * ?site=this-app.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const days = Number(searchParams.get("days") || 7);
+  if (!Number.isFinite(days) || days <= 0) {
+    return NextResponse.json(
+      { error: "Days must be a positive number" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const recent = await queryBeacons({
+      from: new Date(Date.now() - days * DAY_MS),
+    });
+    const site = searchParams.get("site") || undefined;
+    const url = searchParams.get("url") || undefined;
+    const beacons = recent.filter(
+      (beacon) =>
+        (site ? beacon.site === site : beacon.site !== SELF_RUM_SITE) &&
+        (!url || beacon.url === url)
+    );
+
+    const summary: RumSummary = {
+      // Sites with traffic in the period, for the site filter
+      sites: Array.from(
+        new Set(
+          recent.flatMap((beacon) =>
+            beacon.site && beacon.site !== SELF_RUM_SITE ? [beacon.site] : []
+          )
+        )
+      ),
+      pageViews: new Set(beacons.map((beacon) => beacon.pageViewId)).size,
+      overall: summarizeRum(beacons, "all")[0],
+      pages: summarizeRum(beacons, "url"),
+      devices: summarizeRum(beacons, "deviceClass"),
+      navigationTypes: summarizeRum(beacons, "navigationType"),
+      components: summarizeRum(beacons, "component"),
+    };
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("RUM read error:", error);
+    return NextResponse.json(
+      { error: "Internal server error while reading RUM data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_BATCH_URLS, parseSitemap } from "@/lib/batch";
+import { UnsafeUrlError, assertPublicUrl } from "@/lib/publicUrl";
+
+// Child sitemaps followed when the URL points at a sitemap index
+const MAX_CHILD_SITEMAPS = 20;
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+// ~50,000 URLs, far more than a batch can take
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024;
+
+interface SitemapRequest {
+  url: string;
+}
+
+async function readBody(response: Response): Promise<string> {
+  const tooLarge = () =>
+    new Error(`Sitemap is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024}MB`);
+  if (Number(response.headers.get("content-length")) > MAX_SITEMAP_BYTES) {
+    throw tooLarge();
+  }
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+// Fetch a sitemap from a public host, checking every redirect target too
+async function fetchSitemap(url: string): Promise<string> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = url;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(current);
+      const response = await fetch(current, {
+        method: "GET",
+        headers: {
+          Accept: "application/xml, text/xml",
+        },
+        redirect: "manual",
+        signal,
+      });
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error("Sitemap redirected too many times");
+        }
+        current = new URL(location, current).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sitemap (${response.status})`);
+      }
+
+      return await readBody(response);
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error(
+        `Sitemap did not load within ${FETCH_TIMEOUT_MS / 1000} seconds`,
+      );
+    }
+    throw error;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SitemapRequest = await request.json();
+
+    // Validate required fields
+    if (!body.url) {
+      return NextResponse.json({ error: "URL is required" }, { status: 400 });
+    }
+
+    // Validate URL format
+    try {
+      const parsedUrl = new URL(body.url);
+      if (!["http:", "https:"].includes(parsedUrl.protocol)) {
+        throw new Error("Invalid protocol");
+      }
+    } catch {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid URL format. Please provide a valid HTTP or HTTPS URL.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const root = parseSitemap(await fetchSitemap(body.url));
+    const urls = [...root.urls];
+
+    // Follow one level of sitemap index
+    for (const child of root.sitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+      if (urls.length >= MAX_BATCH_URLS) break;
+      try {
+        urls.push(...parseSitemap(await fetchSitemap(child)).urls);
+      } catch (error) {
+        console.warn(`Skipping sitemap ${child}:`, error);
+      }
+    }
+
+    return NextResponse.json({
+      urls: Array.from(new Set(urls)).slice(0, MAX_BATCH_URLS),
+    });
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Sitemap fetch error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Internal server error while fetching sitemap",
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { WebVitalsReporter } from "@/components/WebVitalsReporter";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -28,6 +29,8 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        {/* Self-monitoring; set NEXT_PUBLIC_PERF_DISABLE_SELF_RUM to opt out */}
+        {!process.env.NEXT_PUBLIC_PERF_DISABLE_SELF_RUM && <WebVitalsReporter />}
         {children}
       </body>
     </html>
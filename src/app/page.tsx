@@ -28,13 +28,31 @@ import {
     HistoryTimeline,
     QuickActions,
     WelcomeCard,
+    SourceBadge,
     DetailedAnalysis,
+    BatchAnalysis,
+    ImportPanel,
+    MonitorsPanel,
+    AlertsPanel,
+    BudgetEditor,
+    RumDashboard,
+    ThirdPartyAnalysis,
+    TraceViewer,
 } from "@/components";
+import type { LoadedTrace } from "@/components/TraceViewer";
 import { usePerformanceStore } from "@/store/performanceStore";
-import { useAutoRefresh, useKeyboardShortcuts, useLocalStorage } from "@/hooks";
-import { PerformanceEntry, calculateOverallScore } from "@/types";
-import { formatDate } from "@/lib/utils";
-import { v4 as uuidv4 } from "uuid";
+import { useBudgets, useKeyboardShortcuts, useLocalStorage } from "@/hooks";
+import { ComponentFocus, PerformanceEntry, Strategy } from "@/types";
+import {
+    formatDate,
+    getEntryStrategy,
+    getFieldMetric,
+    hasLabScore,
+} from "@/lib/utils";
+import { fetchPageSpeedEntry } from "@/lib/pagespeedClient";
+import { aggregateRuns } from "@/lib/runSets";
+import { findEntryForTrace } from "@/lib/trace";
+import { AIProvider, configureAIService } from "@/lib/aiService";
 import {
     BarChart3,
     GitCompare,
@@ -43,17 +61,21 @@ import {
     Target,
     Clock,
     Sparkles,
+    Globe,
 } from "lucide-react";
 
 export default function Home() {
     const {
         entries,
-        historicalData,
         isMonitoring,
         addEntry,
         removeEntry,
         setMonitoring,
         clearEntries,
+        syncStatus,
+        pendingOps,
+        rejectedOps,
+        syncWithServer,
     } = usePerformanceStore();
 
     const [selectedEntry, setSelectedEntry] = useState<PerformanceEntry | null>(
@@ -61,143 +83,80 @@ export default function Home() {
     );
     const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [runProgress, setRunProgress] = useState<{
+        run: number;
+        runs: number;
+    } | null>(null);
     const [showSettings, setShowSettings] = useState(false);
     const [showExport, setShowExport] = useState(false);
+    const [showBatch, setShowBatch] = useState(false);
+    const [showImport, setShowImport] = useState(false);
+    const [trace, setTrace] = useState<LoadedTrace | null>(null);
+    const [showTrace, setShowTrace] = useState(false);
+    // Deep analysis component to bring into view, for one entry
+    const [analysisFocus, setAnalysisFocus] = useState<
+        (ComponentFocus & { entryId: string }) | null
+    >(null);
+    const [showMonitors, setShowMonitors] = useState(false);
+    const [showAlerts, setShowAlerts] = useState(false);
+    const [showBudgets, setShowBudgets] = useState(false);
+    const [showRum, setShowRum] = useState(false);
     const [showClearConfirm, setShowClearConfirm] = useState(false);
     const [activeMainTab, setActiveMainTab] = useState("overview");
     const [settings, setSettings] = useLocalStorage("perf-settings", {
-        autoRefresh: false,
-        refreshInterval: 30,
         showRecommendations: true,
         darkMode: true,
         compactView: false,
-        aiProvider: "local" as "local" | "openai",
-        openaiApiKey: "",
+        aiProvider: "local" as AIProvider,
     });
+    const { budgets, reload: reloadBudgets } = useBudgets();
+
+    // Point suggestion generation at the chosen AI provider
+    useEffect(() => {
+        configureAIService({ provider: settings.aiProvider });
+    }, [settings.aiProvider]);
+
+    // Load shared history from the server and replay offline changes
+    useEffect(() => {
+        syncWithServer();
+    }, [syncWithServer]);
 
     // Reference for URL input focus
     const urlInputRef = useRef<HTMLInputElement>(null);
 
     const handleAnalyze = useCallback(
-        async (url: string) => {
+        async (url: string, strategy: Strategy = "mobile", runs = 1) => {
             setMonitoring(true);
             setIsLoading(true);
 
             try {
-                // Call the PageSpeed Insights API route
-                const response = await fetch("/api/pagespeed", {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                        url,
-                        strategy: "mobile", // TODO: Add device type selector to UI
-                    }),
-                });
-
-                const data = await response.json();
-
-                // Log the full API response for debugging
-                console.log("PageSpeed API Response:", data);
-
-                if (!response.ok) {
-                    console.error("PageSpeed API Error:", data.error);
-                    // For now, show alert and stop loading
-                    alert(`Error: ${data.error}`);
-                    setMonitoring(false);
-                    setIsLoading(false);
-                    return;
+                const results = [];
+                for (let run = 1; run <= runs; run++) {
+                    setRunProgress(runs > 1 ? { run, runs } : null);
+                    results.push(await fetchPageSpeedEntry(url, strategy));
                 }
-
-                // Extract metrics from PageSpeed response
-                // The PageSpeed API returns metrics in lighthouseResult.audits
-                const lighthouseResult = data.lighthouseResult;
-                const audits = lighthouseResult?.audits || {};
-
-                // Log the audits for inspection
-                console.log("Lighthouse Audits:", audits);
-                console.log("Categories:", lighthouseResult?.categories);
-
-                // Extract Core Web Vitals from the response
-                // Values are in milliseconds for timing metrics, unitless for CLS
-                const metrics = {
-                    lcp: audits["largest-contentful-paint"]?.numericValue || 0,
-                    fcp: audits["first-contentful-paint"]?.numericValue || 0,
-                    cls: audits["cumulative-layout-shift"]?.numericValue || 0,
-                    fid: audits["max-potential-fid"]?.numericValue || 0, // FID is approximated by max-potential-fid in Lighthouse
-                    inp:
-                        audits["interaction-to-next-paint"]?.numericValue ||
-                        audits["total-blocking-time"]?.numericValue ||
-                        0, // INP or fallback to TBT
-                    ttfb: audits["server-response-time"]?.numericValue || 0,
-                };
-
-                console.log("Extracted Metrics:", metrics);
-
-                // Extract resource timings from network-requests audit if available
-                const networkRequests =
-                    audits["network-requests"]?.details?.items || [];
-                const resourceTimings = networkRequests
-                    .slice(0, 10)
-                    .map(
-                        (item: {
-                            url?: string;
-                            resourceType?: string;
-                            transferSize?: number;
-                            endTime?: number;
-                            startTime?: number;
-                        }) => ({
-                            name: item.url
-                                ? new URL(item.url).pathname.split("/").pop() ||
-                                  item.url
-                                : "unknown",
-                            initiatorType: item.resourceType || "other",
-                            duration:
-                                (item.endTime || 0) - (item.startTime || 0),
-                            transferSize: item.transferSize || 0,
-                            startTime: item.startTime || 0,
-                        }),
-                    );
-
-                console.log("Resource Timings:", resourceTimings);
-
-                const newEntry: PerformanceEntry = {
-                    id: uuidv4(),
-                    url,
-                    timestamp: new Date(),
-                    metrics,
-                    resourceTimings:
-                        resourceTimings.length > 0
-                            ? resourceTimings
-                            : [
-                                  // Fallback to placeholder if no network data
-                                  {
-                                      name: "page-load",
-                                      initiatorType: "document",
-                                      duration: metrics.lcp,
-                                      transferSize: 0,
-                                      startTime: 0,
-                                  },
-                              ],
-                    overallScore: calculateOverallScore(metrics),
-                };
-
-                console.log("New Entry:", newEntry);
-
-                addEntry(newEntry);
+                const newEntry = addEntry(aggregateRuns(results));
                 setSelectedEntry(newEntry);
             } catch (error) {
                 console.error("Failed to analyze URL:", error);
-                alert("Failed to analyze URL. Check the console for details.");
+                alert(
+                    error instanceof Error
+                        ? `Error: ${error.message}`
+                        : "Failed to analyze URL. Check the console for details.",
+                );
             } finally {
                 setMonitoring(false);
                 setIsLoading(false);
+                setRunProgress(null);
             }
         },
         [addEntry, setMonitoring],
     );
 
+    const traceEntry = trace
+        ? findEntryForTrace(entries, trace.profile)
+        : undefined;
+
     const tabs = [
         {
             id: "overview",
@@ -229,6 +188,11 @@ export default function Home() {
             label: "Resources",
             icon: <Zap className="h-4 w-4" />,
         },
+        {
+            id: "third-parties",
+            label: "Third Parties",
+            icon: <Globe className="h-4 w-4" />,
+        },
         {
             id: "history",
             label: "History",
@@ -244,17 +208,14 @@ export default function Home() {
 
     const handleRefresh = useCallback(() => {
         if (selectedEntry) {
-            handleAnalyze(selectedEntry.url);
+            handleAnalyze(
+                selectedEntry.url,
+                getEntryStrategy(selectedEntry),
+                selectedEntry.runSet?.runs,
+            );
         }
     }, [selectedEntry, handleAnalyze]);
 
-    // Auto-refresh functionality
-    useAutoRefresh({
-        enabled: settings.autoRefresh && !!selectedEntry,
-        intervalSeconds: settings.refreshInterval,
-        onRefresh: handleRefresh,
-    });
-
     // Keyboard shortcuts
     useKeyboardShortcuts({
         onRefresh: selectedEntry ? handleRefresh : undefined,
@@ -263,6 +224,12 @@ export default function Home() {
         onEscape: () => {
             setShowSettings(false);
             setShowExport(false);
+            setShowMonitors(false);
+            setShowAlerts(false);
+            setShowBudgets(false);
+            setShowRum(false);
+            setShowImport(false);
+            setShowTrace(false);
         },
         onSearch: () => urlInputRef.current?.focus(),
     });
@@ -270,14 +237,29 @@ export default function Home() {
     return (
         <div className="min-h-screen bg-background">
             {isLoading && (
-                <LoadingOverlay message="Analyzing website performance..." />
+                <LoadingOverlay
+                    message={
+                        runProgress
+                            ? `Analyzing website performance (run ${runProgress.run} of ${runProgress.runs})...`
+                            : "Analyzing website performance..."
+                    }
+                />
             )}
 
             <Header
                 onExport={selectedEntry ? () => setShowExport(true) : undefined}
+                onImport={() => setShowImport(true)}
+                onTrace={trace ? () => setShowTrace(true) : undefined}
                 onRefresh={selectedEntry ? handleRefresh : undefined}
                 onSettings={() => setShowSettings(true)}
                 isMonitoring={isMonitoring}
+                syncStatus={syncStatus}
+                pendingChanges={pendingOps.length}
+                rejectedChanges={rejectedOps.length}
+                onSync={syncWithServer}
+                onMonitors={() => setShowMonitors(true)}
+                onAlerts={() => setShowAlerts(true)}
+                onRum={() => setShowRum(true)}
             />
 
             <main className="container mx-auto px-4 py-8">
@@ -288,6 +270,7 @@ export default function Home() {
                         onAnalyze={handleAnalyze}
                         isMonitoring={isMonitoring}
                         onStopMonitoring={() => setMonitoring(false)}
+                        onBatch={() => setShowBatch(true)}
                     />
 
                     {/* Stats Overview */}
@@ -314,7 +297,12 @@ export default function Home() {
 
                         {/* Right Column - Tabbed Content */}
                         <div className="lg:col-span-2 space-y-6">
-                            <Tabs tabs={tabs} defaultTab="overview">
+                            <Tabs
+                                tabs={tabs}
+                                defaultTab="overview"
+                                value={activeMainTab}
+                                onChange={setActiveMainTab}
+                            >
                                 {(activeTab) => (
                                     <>
                                         {activeTab === "overview" && (
@@ -332,12 +320,29 @@ export default function Home() {
                                                             </CardHeader>
                                                             <CardContent>
                                                                 <div className="flex flex-col items-center gap-6 sm:flex-row sm:items-start">
-                                                                    <ScoreGauge
-                                                                        score={
-                                                                            selectedEntry.overallScore
-                                                                        }
-                                                                        size="lg"
-                                                                    />
+                                                                    {hasLabScore(
+                                                                        selectedEntry,
+                                                                    ) ? (
+                                                                        <ScoreGauge
+                                                                            score={
+                                                                                selectedEntry.overallScore
+                                                                            }
+                                                                            size="lg"
+                                                                        />
+                                                                    ) : (
+                                                                        <div className="flex h-40 w-40 shrink-0 flex-col items-center justify-center gap-2 rounded-full border-4 border-dashed border-border text-center">
+                                                                            <SourceBadge
+                                                                                source={
+                                                                                    selectedEntry.source
+                                                                                }
+                                                                            />
+                                                                            <p className="px-4 text-xs text-muted-foreground">
+                                                                                No lab score
+                                                                                for HAR
+                                                                                imports
+                                                                            </p>
+                                                                        </div>
+                                                                    )}
                                                                     <div className="flex-1 space-y-4">
                                                                         <div>
                                                                             <h4 className="text-sm font-medium text-muted-foreground">
@@ -349,6 +354,37 @@ export default function Home() {
                                                                                     selectedEntry.timestamp,
                                                                                 )}
                                                                             </p>
+                                                                            {selectedEntry.runSet && (
+                                                                                <p className="text-xs text-muted-foreground">
+                                                                                    Median
+                                                                                    of{" "}
+                                                                                    {
+                                                                                        selectedEntry
+                                                                                            .runSet
+                                                                                            .runs
+                                                                                    }{" "}
+                                                                                    runs
+                                                                                    &middot;
+                                                                                    score{" "}
+                                                                                    {Math.round(
+                                                                                        selectedEntry
+                                                                                            .runSet
+                                                                                            .score
+                                                                                            .min,
+                                                                                    )}
+                                                                                    –
+                                                                                    {Math.round(
+                                                                                        selectedEntry
+                                                                                            .runSet
+                                                                                            .score
+                                                                                            .max,
+                                                                                    )}
+                                                                                    , σ{" "}
+                                                                                    {selectedEntry.runSet.score.stddev.toFixed(
+                                                                                        1,
+                                                                                    )}
+                                                                                </p>
+                                                                            )}
                                                                         </div>
                                                                         <div className="grid grid-cols-3 gap-4 text-center">
                                                                             <div>
@@ -418,6 +454,14 @@ export default function Home() {
                                                                         .lcp ||
                                                                     0
                                                                 }
+                                                                field={getFieldMetric(
+                                                                    selectedEntry,
+                                                                    "lcp",
+                                                                )}
+                                                                spread={
+                                                                    selectedEntry.runSet
+                                                                        ?.metrics.lcp
+                                                                }
                                                                 description="Measures loading performance. Should occur within 2.5s."
                                                             />
                                                             <MetricCard
@@ -429,6 +473,14 @@ export default function Home() {
                                                                         .fcp ||
                                                                     0
                                                                 }
+                                                                field={getFieldMetric(
+                                                                    selectedEntry,
+                                                                    "fcp",
+                                                                )}
+                                                                spread={
+                                                                    selectedEntry.runSet
+                                                                        ?.metrics.fcp
+                                                                }
                                                                 description="Time until first content is rendered on screen."
                                                             />
                                                             <MetricCard
@@ -440,6 +492,14 @@ export default function Home() {
                                                                         .cls ||
                                                                     0
                                                                 }
+                                                                field={getFieldMetric(
+                                                                    selectedEntry,
+                                                                    "cls",
+                                                                )}
+                                                                spread={
+                                                                    selectedEntry.runSet
+                                                                        ?.metrics.cls
+                                                                }
                                                                 description="Measures visual stability. Should be less than 0.1."
                                                             />
                                                             <MetricCard
@@ -451,6 +511,14 @@ export default function Home() {
                                                                         .fid ||
                                                                     0
                                                                 }
+                                                                field={getFieldMetric(
+                                                                    selectedEntry,
+                                                                    "fid",
+                                                                )}
+                                                                spread={
+                                                                    selectedEntry.runSet
+                                                                        ?.metrics.fid
+                                                                }
                                                                 description="Time from first interaction to browser response."
                                                             />
                                                             <MetricCard
@@ -462,6 +530,14 @@ export default function Home() {
                                                                         .inp ||
                                                                     0
                                                                 }
+                                                                field={getFieldMetric(
+                                                                    selectedEntry,
+                                                                    "inp",
+                                                                )}
+                                                                spread={
+                                                                    selectedEntry.runSet
+                                                                        ?.metrics.inp
+                                                                }
                                                                 description="Measures overall responsiveness to user interactions."
                                                             />
                                                             <MetricCard
@@ -473,14 +549,23 @@ export default function Home() {
                                                                         .ttfb ||
                                                                     0
                                                                 }
+                                                                field={getFieldMetric(
+                                                                    selectedEntry,
+                                                                    "ttfb",
+                                                                )}
+                                                                spread={
+                                                                    selectedEntry.runSet
+                                                                        ?.metrics.ttfb
+                                                                }
                                                                 description="Time until first byte of response is received."
                                                             />
                                                         </div>
 
                                                         {/* Historical Chart */}
                                                         <PerformanceChart
-                                                            data={
-                                                                historicalData
+                                                            entries={entries}
+                                                            url={
+                                                                selectedEntry.url
                                                             }
                                                         />
                                                     </>
@@ -505,6 +590,12 @@ export default function Home() {
                                                 {selectedEntry ? (
                                                     <DetailedAnalysis
                                                         entry={selectedEntry}
+                                                        focus={
+                                                            analysisFocus?.entryId ===
+                                                            selectedEntry.id
+                                                                ? analysisFocus
+                                                                : null
+                                                        }
                                                     />
                                                 ) : (
                                                     <Card className="py-16">
@@ -558,6 +649,10 @@ export default function Home() {
                                                 {selectedEntry ? (
                                                     <PerformanceBudget
                                                         entry={selectedEntry}
+                                                        budgets={budgets}
+                                                        onEditBudgets={() =>
+                                                            setShowBudgets(true)
+                                                        }
                                                     />
                                                 ) : (
                                                     <Card className="py-16">
@@ -582,6 +677,12 @@ export default function Home() {
                                                             resources={
                                                                 selectedEntry.resourceTimings
                                                             }
+                                                            metrics={
+                                                                selectedEntry.metrics
+                                                            }
+                                                            pageTimings={
+                                                                selectedEntry.pageTimings
+                                                            }
                                                         />
                                                         <ResourceTable
                                                             resources={
@@ -604,6 +705,32 @@ export default function Home() {
                                             </div>
                                         )}
 
+                                        {activeTab === "third-parties" && (
+                                            <div className="space-y-6">
+                                                {selectedEntry ? (
+                                                    <ThirdPartyAnalysis
+                                                        entry={selectedEntry}
+                                                        entries={entries}
+                                                        budgets={budgets}
+                                                        onEditBudgets={() =>
+                                                            setShowBudgets(true)
+                                                        }
+                                                    />
+                                                ) : (
+                                                    <Card className="py-16">
+                                                        <CardContent className="text-center">
+                                                            <p className="text-lg text-muted-foreground">
+                                                                Select an
+                                                                analysis to see
+                                                                its third
+                                                                parties.
+                                                            </p>
+                                                        </CardContent>
+                                                    </Card>
+                                                )}
+                                            </div>
+                                        )}
+
                                         {activeTab === "history" && (
                                             <div className="space-y-6">
                                                 {entries.length > 0 ? (
@@ -645,6 +772,7 @@ export default function Home() {
                 onClose={() => setShowSettings(false)}
                 settings={settings}
                 onSave={setSettings}
+                onOpenMonitors={() => setShowMonitors(true)}
             />
 
             {/* Export Options */}
@@ -655,6 +783,74 @@ export default function Home() {
                 entries={entries}
             />
 
+            {/* Batch Analysis */}
+            <BatchAnalysis
+                isOpen={showBatch}
+                onClose={() => setShowBatch(false)}
+                onResult={addEntry}
+            />
+
+            {/* Import HAR files and Lighthouse reports */}
+            <ImportPanel
+                isOpen={showImport}
+                onClose={() => setShowImport(false)}
+                onImport={(imported) => {
+                    const added = imported.map((entry) => addEntry(entry));
+                    if (added.length > 0) {
+                        setSelectedEntry(added[added.length - 1]);
+                    }
+                }}
+                onTrace={(loaded) => {
+                    setTrace(loaded);
+                    setShowImport(false);
+                    setShowTrace(true);
+                }}
+            />
+
+            {/* Chrome performance trace */}
+            <TraceViewer
+                isOpen={showTrace}
+                onClose={() => setShowTrace(false)}
+                trace={trace}
+                entry={traceEntry}
+                onShowLongTask={(task) => {
+                    if (!traceEntry) return;
+                    setSelectedEntry(traceEntry);
+                    setActiveMainTab("deep-analysis");
+                    setAnalysisFocus({
+                        entryId: traceEntry.id,
+                        componentId: "javascript",
+                        url: task.scripts[0]?.url,
+                        note: `Long task at ${Math.round(task.start)}ms in the trace (${Math.round(task.duration)}ms, ${Math.round(task.blockingTime)}ms blocking)`,
+                    });
+                    setShowTrace(false);
+                }}
+            />
+
+            {/* Scheduled Monitors */}
+            <MonitorsPanel
+                isOpen={showMonitors}
+                onClose={() => setShowMonitors(false)}
+                onRunComplete={syncWithServer}
+            />
+
+            {/* Regression Alerts */}
+            <AlertsPanel
+                isOpen={showAlerts}
+                onClose={() => setShowAlerts(false)}
+            />
+
+            {/* Performance Budgets */}
+            <BudgetEditor
+                isOpen={showBudgets}
+                onClose={() => setShowBudgets(false)}
+                budgets={budgets}
+                onChange={reloadBudgets}
+            />
+
+            {/* Real User Monitoring */}
+            <RumDashboard isOpen={showRum} onClose={() => setShowRum(false)} />
+
             {/* Clear Confirmation Dialog */}
             {showClearConfirm && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
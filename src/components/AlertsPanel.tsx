@@ -0,0 +1,514 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { Tabs } from "./Tabs";
+import { StrategyBadge } from "./StrategyToggle";
+import {
+  AlertChannelType,
+  AlertDelivery,
+  AlertRule,
+  Strategy,
+} from "@/types";
+import { cn } from "@/lib/utils";
+import {
+  createAlertRule,
+  deleteAlertRule,
+  fetchAlertDeliveries,
+  fetchAlertRules,
+  sendTestAlert,
+  updateAlertRule,
+} from "@/lib/alertsClient";
+import {
+  X,
+  Plus,
+  Send,
+  Pause,
+  Play,
+  Trash2,
+  Loader2,
+  Bell,
+  History,
+  CheckCircle,
+  XCircle,
+} from "lucide-react";
+
+interface AlertsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const METRIC_OPTIONS: { id: AlertRule["metric"]; label: string }[] = [
+  { id: "score", label: "Score" },
+  { id: "lcp", label: "LCP (ms)" },
+  { id: "fcp", label: "FCP (ms)" },
+  { id: "cls", label: "CLS" },
+  { id: "inp", label: "INP (ms)" },
+  { id: "ttfb", label: "TTFB (ms)" },
+];
+
+const CHANNEL_OPTIONS: { id: AlertChannelType; label: string }[] = [
+  { id: "webhook", label: "Generic webhook (JSON)" },
+  { id: "slack", label: "Slack incoming webhook" },
+  { id: "teams", label: "Microsoft Teams webhook" },
+];
+
+const emptyForm = {
+  name: "",
+  urlPattern: "",
+  strategy: "" as Strategy | "",
+  metric: "lcp" as AlertRule["metric"],
+  threshold: "",
+  regressionPercent: "20",
+  baselineRuns: "5",
+  consecutive: "1",
+  channelType: "webhook" as AlertChannelType,
+  channelUrl: "",
+};
+
+const inputClassName =
+  "w-full rounded-lg bg-secondary border border-border p-2 text-foreground";
+
+function describeRule(rule: AlertRule): string {
+  const parts: string[] = [];
+  if (rule.threshold !== undefined) {
+    parts.push(
+      `${rule.metric === "score" ? "below" : "above"} ${rule.threshold}`,
+    );
+  }
+  if (rule.regressionPercent !== undefined) {
+    parts.push(
+      `${rule.regressionPercent}% worse than ${rule.baselineRuns}-run median`,
+    );
+  }
+  const when = parts.join(" or ");
+  return rule.consecutive > 1
+    ? `${when}, ${rule.consecutive} runs in a row`
+    : when;
+}
+
+export function AlertsPanel({ isOpen, onClose }: AlertsPanelProps) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    return Promise.all([fetchAlertRules(), fetchAlertDeliveries()])
+      .then(([nextRules, nextDeliveries]) => {
+        setRules(nextRules);
+        setDeliveries(nextDeliveries);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load alerts"),
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) reload();
+  }, [isOpen, reload]);
+
+  if (!isOpen) return null;
+
+  const handleAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+    await reload();
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    const optionalNumber = (value: string) =>
+      value.trim() === "" ? undefined : Number(value);
+    await handleAction(async () => {
+      await createAlertRule({
+        name: form.name.trim() || undefined,
+        urlPattern: form.urlPattern.trim() || undefined,
+        strategy: form.strategy || undefined,
+        metric: form.metric,
+        threshold: optionalNumber(form.threshold),
+        regressionPercent: optionalNumber(form.regressionPercent),
+        baselineRuns: Number(form.baselineRuns) || undefined,
+        consecutive: Number(form.consecutive) || undefined,
+        channel: { type: form.channelType, url: form.channelUrl.trim() },
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+    });
+    setIsSaving(false);
+  };
+
+  const handleTest = async (id: string) => {
+    setTestingId(id);
+    await handleAction(() => sendTestAlert(id));
+    setTestingId(null);
+  };
+
+  const renderRules = () => (
+    <div className="space-y-3 pt-4">
+      {rules.length === 0 && !showForm && (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          No alert rules yet. Add one to get notified about regressions.
+        </p>
+      )}
+
+      {rules.map((rule) => (
+        <div
+          key={rule.id}
+          className={cn(
+            "rounded-lg border border-border p-4",
+            !rule.enabled && "opacity-60",
+          )}
+        >
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">{rule.name}</p>
+                {rule.strategy && <StrategyBadge strategy={rule.strategy} />}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {rule.metric.toUpperCase()} {describeRule(rule)}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {rule.urlPattern
+                  ? `URLs containing "${rule.urlPattern}"`
+                  : "All URLs"}{" "}
+                → {rule.channel.type}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleTest(rule.id)}
+                disabled={testingId === rule.id}
+                title="Send test notification"
+              >
+                {testingId === rule.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  handleAction(() =>
+                    updateAlertRule(rule.id, { enabled: !rule.enabled }),
+                  )
+                }
+                title={rule.enabled ? "Pause" : "Resume"}
+              >
+                {rule.enabled ? (
+                  <Pause className="h-4 w-4" />
+                ) : (
+                  <Play className="h-4 w-4 text-success" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleAction(() => deleteAlertRule(rule.id))}
+                title="Delete rule"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="space-y-4 rounded-lg border border-border bg-secondary/30 p-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="text-sm">
+              <span className="font-medium">Name (optional)</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Homepage LCP"
+                className={cn(inputClassName, "mt-1")}
+              />
+            </label>
+            <label className="text-sm">
+              <span className="font-medium">URL contains (optional)</span>
+              <input
+                type="text"
+                value={form.urlPattern}
+                onChange={(e) =>
+                  setForm({ ...form, urlPattern: e.target.value })
+                }
+                placeholder="example.com/checkout"
+                className={cn(inputClassName, "mt-1")}
+              />
+            </label>
+            <label className="text-sm">
+              <span className="font-medium">Metric</span>
+              <select
+                value={form.metric}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    metric: e.target.value as AlertRule["metric"],
+                  })
+                }
+                className={cn(inputClassName, "mt-1")}
+              >
+                {METRIC_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm">
+              <span className="font-medium">Strategy</span>
+              <select
+                value={form.strategy}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    strategy: e.target.value as Strategy | "",
+                  })
+                }
+                className={cn(inputClassName, "mt-1")}
+              >
+                <option value="">Mobile and desktop</option>
+                <option value="mobile">Mobile only</option>
+                <option value="desktop">Desktop only</option>
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <label className="text-xs">
+              <span className="text-muted-foreground">
+                {form.metric === "score" ? "Alert below" : "Alert above"}
+              </span>
+              <input
+                type="number"
+                min="0"
+                step={form.metric === "cls" ? "0.01" : "1"}
+                value={form.threshold}
+                onChange={(e) =>
+                  setForm({ ...form, threshold: e.target.value })
+                }
+                className={cn(inputClassName, "mt-1")}
+              />
+            </label>
+            <label className="text-xs">
+              <span className="text-muted-foreground">Regression %</span>
+              <input
+                type="number"
+                min="0"
+                value={form.regressionPercent}
+                onChange={(e) =>
+                  setForm({ ...form, regressionPercent: e.target.value })
+                }
+                className={cn(inputClassName, "mt-1")}
+              />
+            </label>
+            <label className="text-xs">
+              <span className="text-muted-foreground">Median of last</span>
+              <input
+                type="number"
+                min="1"
+                value={form.baselineRuns}
+                onChange={(e) =>
+                  setForm({ ...form, baselineRuns: e.target.value })
+                }
+                className={cn(inputClassName, "mt-1")}
+              />
+            </label>
+            <label className="text-xs">
+              <span className="text-muted-foreground">Runs in a row</span>
+              <input
+                type="number"
+                min="1"
+                value={form.consecutive}
+                onChange={(e) =>
+                  setForm({ ...form, consecutive: e.target.value })
+                }
+                className={cn(inputClassName, "mt-1")}
+              />
+            </label>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-[200px_1fr]">
+            <select
+              value={form.channelType}
+              onChange={(e) =>
+                setForm({
+                  ...form,
+                  channelType: e.target.value as AlertChannelType,
+                })
+              }
+              className={inputClassName}
+              aria-label="Channel"
+            >
+              {CHANNEL_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="url"
+              value={form.channelUrl}
+              onChange={(e) => setForm({ ...form, channelUrl: e.target.value })}
+              placeholder="http://localhost:4000/"
+              className={cn(inputClassName, "font-mono text-sm")}
+              aria-label="Webhook URL"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Run <code>npm run webhook-receiver</code> to print deliveries to a
+            local terminal.
+          </p>
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => {
+                setForm(emptyForm);
+                setShowForm(false);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={handleCreate}
+              disabled={
+                !form.channelUrl.trim() ||
+                (!form.threshold.trim() && !form.regressionPercent.trim()) ||
+                isSaving
+              }
+            >
+              {isSaving ? "Saving..." : "Create rule"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setShowForm(true)}
+        >
+          <Plus className="h-4 w-4" />
+          Add alert rule
+        </Button>
+      )}
+    </div>
+  );
+
+  const renderDeliveries = () => (
+    <div className="pt-4">
+      {deliveries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          Nothing has been sent yet.
+        </p>
+      ) : (
+        <ul className="space-y-3 text-sm">
+          {deliveries.map((delivery) => (
+            <li
+              key={delivery.id}
+              className="rounded-lg border border-border p-3"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <span className="flex items-center gap-2 font-medium">
+                  {delivery.status === "delivered" ? (
+                    <CheckCircle className="h-4 w-4 text-success" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-destructive" />
+                  )}
+                  {delivery.ruleName}
+                  <span className="rounded bg-secondary px-1.5 py-0.5 text-[10px] uppercase text-muted-foreground">
+                    {delivery.event}
+                  </span>
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(delivery.sentAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {delivery.reason}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {delivery.url} ({delivery.strategy})
+              </p>
+              {delivery.error && (
+                <p className="text-xs text-destructive">{delivery.error}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-3xl mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <div>
+              <CardTitle>Regression Alerts</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Checked whenever a new analysis is stored
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="mb-4 text-sm text-destructive">{error}</p>}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Tabs
+              tabs={[
+                {
+                  id: "rules",
+                  label: "Rules",
+                  icon: <Bell className="h-4 w-4" />,
+                },
+                {
+                  id: "deliveries",
+                  label: "Delivery Log",
+                  icon: <History className="h-4 w-4" />,
+                },
+              ]}
+            >
+              {(activeTab) =>
+                activeTab === "rules" ? renderRules() : renderDeliveries()
+              }
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { StrategyToggle } from "./StrategyToggle";
+import { PerformanceEntry, Strategy } from "@/types";
+import { cn, getScoreColor } from "@/lib/utils";
+import { parseUrlList, runWithConcurrency } from "@/lib/batch";
+import { fetchPageSpeedEntry } from "@/lib/pagespeedClient";
+import {
+  X,
+  Play,
+  Square,
+  Upload,
+  FileText,
+  Map as MapIcon,
+  CheckCircle,
+  XCircle,
+  Loader2,
+  Clock,
+} from "lucide-react";
+
+type BatchSource = "paste" | "file" | "sitemap";
+type BatchStatus = "queued" | "running" | "done" | "failed";
+
+interface BatchRow {
+  url: string;
+  status: BatchStatus;
+  entry?: Omit<PerformanceEntry, "id">;
+  error?: string;
+}
+
+interface BatchAnalysisProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResult: (entry: Omit<PerformanceEntry, "id">) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 5];
+
+export function BatchAnalysis({ isOpen, onClose, onResult }: BatchAnalysisProps) {
+  const [source, setSource] = useState<BatchSource>("paste");
+  const [text, setText] = useState("");
+  const [sitemapUrl, setSitemapUrl] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<Strategy>("mobile");
+  const [concurrency, setConcurrency] = useState(2);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isLoadingSitemap, setIsLoadingSitemap] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isOpen) return null;
+
+  const urls = parseUrlList(text);
+  const completed = rows.filter(
+    (r) => r.status === "done" || r.status === "failed",
+  ).length;
+  const succeeded = rows.filter((r) => r.status === "done");
+  const progress = rows.length > 0 ? (completed / rows.length) * 100 : 0;
+  const averageScore =
+    succeeded.length > 0
+      ? Math.round(
+          succeeded.reduce((sum, r) => sum + (r.entry?.overallScore || 0), 0) /
+            succeeded.length,
+        )
+      : null;
+
+  const updateRow = (index: number, patch: Partial<BatchRow>) => {
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    );
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const handleLoadSitemap = async () => {
+    setError(null);
+    setIsLoadingSitemap(true);
+    try {
+      const response = await fetch("/api/sitemap", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url: sitemapUrl.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load sitemap");
+      }
+      setText((data.urls as string[]).join("\n"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load sitemap");
+    } finally {
+      setIsLoadingSitemap(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (urls.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setIsRunning(true);
+    setRows(urls.map((url) => ({ url, status: "queued" })));
+
+    await runWithConcurrency(
+      urls,
+      concurrency,
+      async (url, index) => {
+        updateRow(index, { status: "running" });
+        try {
+          const entry = await fetchPageSpeedEntry(
+            url,
+            strategy,
+            controller.signal,
+          );
+          onResult(entry);
+          updateRow(index, { status: "done", entry });
+        } catch (err) {
+          updateRow(index, {
+            status: "failed",
+            error: controller.signal.aborted
+              ? "Cancelled"
+              : err instanceof Error
+                ? err.message
+                : "Analysis failed",
+          });
+        }
+      },
+      controller.signal,
+    );
+
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    setRows((prev) =>
+      prev.map((row) =>
+        row.status === "queued"
+          ? { ...row, status: "failed", error: "Cancelled" }
+          : row,
+      ),
+    );
+  };
+
+  const handleClose = () => {
+    if (isRunning) return;
+    setRows([]);
+    onClose();
+  };
+
+  const statusIcon = (status: BatchStatus) => {
+    switch (status) {
+      case "queued":
+        return <Clock className="h-4 w-4 text-muted-foreground" />;
+      case "running":
+        return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+      case "done":
+        return <CheckCircle className="h-4 w-4 text-success" />;
+      case "failed":
+        return <XCircle className="h-4 w-4 text-destructive" />;
+    }
+  };
+
+  const sources = [
+    { id: "paste" as const, label: "Paste list", icon: FileText },
+    { id: "file" as const, label: "Upload file", icon: Upload },
+    { id: "sitemap" as const, label: "Sitemap URL", icon: MapIcon },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-3xl mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <CardTitle>Batch Analysis</CardTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClose}
+              disabled={isRunning}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {rows.length === 0 ? (
+            <>
+              {/* Source selection */}
+              <div className="flex gap-2">
+                {sources.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setSource(option.id)}
+                    className={cn(
+                      "flex flex-1 items-center justify-center gap-2 rounded-lg border p-3 text-sm transition-colors",
+                      source === option.id
+                        ? "border-primary bg-primary/10 text-primary"
+                        : "border-border hover:bg-secondary",
+                    )}
+                  >
+                    <option.icon className="h-4 w-4" />
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {source === "file" && (
+                <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-border p-6 text-sm text-muted-foreground hover:border-primary/50">
+                  <Upload className="h-6 w-6" />
+                  {fileName ?? "Choose a .txt list or sitemap.xml"}
+                  <input
+                    type="file"
+                    accept=".txt,.xml,.csv,text/plain,application/xml,text/xml"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                    }}
+                  />
+                </label>
+              )}
+
+              {source === "sitemap" && (
+                <div className="flex gap-2">
+                  <input
+                    type="url"
+                    value={sitemapUrl}
+                    onChange={(e) => setSitemapUrl(e.target.value)}
+                    placeholder="https://example.com/sitemap.xml"
+                    className="flex-1 rounded-lg bg-secondary border border-border p-2 text-foreground"
+                  />
+                  <Button
+                    variant="secondary"
+                    onClick={handleLoadSitemap}
+                    disabled={!sitemapUrl.trim() || isLoadingSitemap}
+                  >
+                    {isLoadingSitemap ? "Loading..." : "Load"}
+                  </Button>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  URLs (one per line, or sitemap XML)
+                </label>
+                <textarea
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={8}
+                  placeholder={"https://example.com/\nhttps://example.com/products"}
+                  className="w-full rounded-lg bg-secondary border border-border p-3 font-mono text-sm text-foreground"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {urls.length} valid URL{urls.length === 1 ? "" : "s"} found
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <StrategyToggle value={strategy} onChange={setStrategy} />
+                <label className="flex items-center gap-2 text-sm">
+                  Concurrent runs
+                  <select
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Number(e.target.value))}
+                    className="rounded-lg bg-secondary border border-border p-2 text-foreground"
+                  >
+                    {CONCURRENCY_OPTIONS.map((n) => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+
+              <Button
+                className="w-full"
+                onClick={handleStart}
+                disabled={urls.length === 0}
+              >
+                <Play className="h-4 w-4" />
+                Analyze {urls.length} URL{urls.length === 1 ? "" : "s"}
+              </Button>
+            </>
+          ) : (
+            <>
+              {/* Progress */}
+              <div>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="text-muted-foreground">
+                    {completed} of {rows.length} complete
+                  </span>
+                  {averageScore !== null && (
+                    <span className={getScoreColor(averageScore)}>
+                      Average score: {averageScore}
+                    </span>
+                  )}
+                </div>
+                <div className="h-2 rounded-full bg-secondary overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all duration-300"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              </div>
+
+              {/* Per-URL summary */}
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-muted-foreground">
+                      <th className="pb-2 text-left">URL</th>
+                      <th className="pb-2 text-center">Score</th>
+                      <th className="pb-2 text-center">LCP</th>
+                      <th className="pb-2 text-center">CLS</th>
+                      <th className="pb-2 text-center">TTFB</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.url} className="border-b border-border/50">
+                        <td className="py-2 pr-4">
+                          <div className="flex items-center gap-2 min-w-0">
+                            {statusIcon(row.status)}
+                            <span
+                              className="truncate max-w-[320px]"
+                              title={row.error ?? row.url}
+                            >
+                              {row.url}
+                            </span>
+                          </div>
+                          {row.error && (
+                            <p className="ml-6 text-xs text-destructive">
+                              {row.error}
+                            </p>
+                          )}
+                        </td>
+                        <td
+                          className={cn(
+                            "py-2 text-center font-bold",
+                            row.entry && getScoreColor(row.entry.overallScore),
+                          )}
+                        >
+                          {row.entry ? Math.round(row.entry.overallScore) : "–"}
+                        </td>
+                        <td className="py-2 text-center font-mono">
+                          {row.entry
+                            ? `${Math.round(row.entry.metrics.lcp || 0)}ms`
+                            : "–"}
+                        </td>
+                        <td className="py-2 text-center font-mono">
+                          {row.entry
+                            ? (row.entry.metrics.cls || 0).toFixed(3)
+                            : "–"}
+                        </td>
+                        <td className="py-2 text-center font-mono">
+                          {row.entry
+                            ? `${Math.round(row.entry.metrics.ttfb || 0)}ms`
+                            : "–"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {isRunning ? (
+                <Button
+                  variant="destructive"
+                  className="w-full"
+                  onClick={handleStop}
+                >
+                  <Square className="h-4 w-4" />
+                  Stop batch
+                </Button>
+              ) : (
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => setRows([])}
+                  >
+                    New batch
+                  </Button>
+                  <Button className="flex-1" onClick={handleClose}>
+                    Done
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
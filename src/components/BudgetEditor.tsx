@@ -0,0 +1,447 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { StrategyBadge } from "./StrategyToggle";
+import { BudgetDefinition, BudgetResourceType, Strategy } from "@/types";
+import { cn } from "@/lib/utils";
+import { BUDGET_METRICS, BUDGET_RESOURCE_TYPES } from "@/lib/budgets";
+import {
+  BUDGET_EXPORT_URL,
+  createBudget,
+  deleteBudget,
+  importLighthouseBudgets,
+  updateBudget,
+} from "@/lib/budgetsClient";
+import { X, Plus, Save, Trash2, Upload, Download } from "lucide-react";
+
+interface BudgetEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  budgets: BudgetDefinition[];
+  onChange: () => void;
+}
+
+const METRIC_UNITS: Record<string, string> = {
+  score: "min",
+  cls: "",
+};
+
+type LimitFields = Record<string, string>;
+
+interface BudgetForm {
+  name: string;
+  path: string;
+  strategy: Strategy | "";
+  metrics: LimitFields;
+  sizes: LimitFields; // KB
+  counts: LimitFields;
+  firstPartyHostnames: string;
+  mustJustifyVendors: string;
+}
+
+const emptyForm: BudgetForm = {
+  name: "",
+  path: "/",
+  strategy: "",
+  metrics: {},
+  sizes: {},
+  counts: {},
+  firstPartyHostnames: "",
+  mustJustifyVendors: "",
+};
+
+const inputClassName =
+  "w-full rounded-lg bg-secondary border border-border p-2 text-sm text-foreground";
+
+function toFields(
+  limits: Partial<Record<string, number>>,
+  scale = 1,
+): LimitFields {
+  return Object.fromEntries(
+    Object.entries(limits)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(Math.round((value! / scale) * 1000) / 1000)]),
+  );
+}
+
+function fromFields(fields: LimitFields, scale = 1) {
+  const limits: Record<string, number> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value.trim() !== "") limits[key] = Number(value) * scale;
+  }
+  return limits;
+}
+
+function toList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toForm(budget: BudgetDefinition): BudgetForm {
+  return {
+    name: budget.name,
+    path: budget.path,
+    strategy: budget.strategy ?? "",
+    metrics: toFields(budget.metrics),
+    sizes: toFields(budget.resourceSizes, 1024),
+    counts: toFields(budget.resourceCounts),
+    firstPartyHostnames: (budget.firstPartyHostnames ?? []).join(", "),
+    mustJustifyVendors: (budget.mustJustifyVendors ?? []).join(", "),
+  };
+}
+
+export function BudgetEditor({
+  isOpen,
+  onClose,
+  budgets,
+  onChange,
+}: BudgetEditorProps) {
+  // null: nothing selected, "new": unsaved budget, otherwise a budget id
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<BudgetForm>(emptyForm);
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const select = (budget: BudgetDefinition | null) => {
+    setError(null);
+    setMessage(null);
+    setSelectedId(budget ? budget.id : "new");
+    setForm(budget ? toForm(budget) : emptyForm);
+  };
+
+  const run = async (action: () => Promise<string | void>) => {
+    setError(null);
+    setMessage(null);
+    setIsSaving(true);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      const input = {
+        name: form.name.trim() || undefined,
+        path: form.path.trim(),
+        strategy: form.strategy || undefined,
+        metrics: fromFields(form.metrics),
+        resourceSizes: fromFields(form.sizes, 1024),
+        resourceCounts: fromFields(form.counts),
+        firstPartyHostnames: toList(form.firstPartyHostnames),
+        mustJustifyVendors: toList(form.mustJustifyVendors),
+      };
+      if (selectedId && selectedId !== "new") {
+        await updateBudget(selectedId, input);
+      } else {
+        const created = await createBudget(input);
+        setSelectedId(created.id);
+      }
+      return "Budget saved";
+    });
+
+  const handleDelete = () =>
+    run(async () => {
+      if (selectedId && selectedId !== "new") await deleteBudget(selectedId);
+      setSelectedId(null);
+      return "Budget deleted";
+    });
+
+  const handleImport = (file: File) =>
+    run(async () => {
+      const result = await importLighthouseBudgets(
+        await file.text(),
+        replaceOnImport,
+      );
+      setSelectedId(null);
+      return [
+        `Imported ${result.budgets.length} budget(s) from ${file.name}.`,
+        ...result.warnings,
+      ].join(" ");
+    });
+
+  const setLimit = (group: "metrics" | "sizes" | "counts", key: string) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setForm({ ...form, [group]: { ...form[group], [key]: e.target.value } });
+
+  const renderResourceRow = (type: BudgetResourceType) => (
+    <tr key={type} className="border-b border-border/50">
+      <td className="py-1.5 pr-3 capitalize">{type.replace("-", " ")}</td>
+      <td className="py-1.5 pr-3">
+        <input
+          type="number"
+          min="0"
+          value={form.sizes[type] ?? ""}
+          onChange={setLimit("sizes", type)}
+          className={inputClassName}
+          aria-label={`${type} size budget in KB`}
+        />
+      </td>
+      <td className="py-1.5">
+        <input
+          type="number"
+          min="0"
+          value={form.counts[type] ?? ""}
+          onChange={setLimit("counts", type)}
+          className={inputClassName}
+          aria-label={`${type} request count budget`}
+        />
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-4xl mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <div>
+              <CardTitle>Performance Budgets</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Matched by URL path; the last matching budget wins and
+                strategy-specific budgets beat generic ones
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Import / export */}
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm hover:bg-secondary">
+              <Upload className="h-4 w-4" />
+              Import budget.json
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={replaceOnImport}
+                onChange={(e) => setReplaceOnImport(e.target.checked)}
+              />
+              Replace existing
+            </label>
+            <a
+              href={BUDGET_EXPORT_URL}
+              download="budget.json"
+              className="ml-auto inline-flex items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm hover:bg-secondary"
+            >
+              <Download className="h-4 w-4" />
+              Export budget.json
+            </a>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            budget.json has no strategies, no score, INP or TTFB budgets and
+            no must-justify vendors; those are left out of the export.
+          </p>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {message && <p className="text-sm text-success">{message}</p>}
+
+          <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+            {/* Budget list */}
+            <div className="space-y-2">
+              {budgets.map((budget) => (
+                <button
+                  key={budget.id}
+                  onClick={() => select(budget)}
+                  className={cn(
+                    "w-full rounded-lg border p-2 text-left text-sm transition-colors",
+                    selectedId === budget.id
+                      ? "border-primary bg-primary/10"
+                      : "border-border hover:bg-secondary",
+                  )}
+                >
+                  <p className="font-medium truncate">{budget.name}</p>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs text-muted-foreground truncate">
+                      {budget.path}
+                    </span>
+                    {budget.strategy && (
+                      <StrategyBadge strategy={budget.strategy} />
+                    )}
+                  </div>
+                </button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => select(null)}
+              >
+                <Plus className="h-4 w-4" />
+                New budget
+              </Button>
+            </div>
+
+            {/* Budget form */}
+            {selectedId === null ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">
+                {budgets.length === 0
+                  ? "No budgets yet; the default budget applies to every page."
+                  : "Select a budget to edit it."}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid gap-3 sm:grid-cols-3">
+                  <label className="text-sm">
+                    <span className="font-medium">Name</span>
+                    <input
+                      type="text"
+                      value={form.name}
+                      onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      placeholder="Product pages"
+                      className={cn(inputClassName, "mt-1")}
+                    />
+                  </label>
+                  <label className="text-sm">
+                    <span className="font-medium">Path</span>
+                    <input
+                      type="text"
+                      value={form.path}
+                      onChange={(e) => setForm({ ...form, path: e.target.value })}
+                      placeholder="/products/*"
+                      className={cn(inputClassName, "mt-1 font-mono")}
+                    />
+                  </label>
+                  <label className="text-sm">
+                    <span className="font-medium">Strategy</span>
+                    <select
+                      value={form.strategy}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          strategy: e.target.value as Strategy | "",
+                        })
+                      }
+                      className={cn(inputClassName, "mt-1")}
+                    >
+                      <option value="">Mobile and desktop</option>
+                      <option value="mobile">Mobile</option>
+                      <option value="desktop">Desktop</option>
+                    </select>
+                  </label>
+                </div>
+
+                <div>
+                  <p className="mb-1 text-sm font-medium">Metrics</p>
+                  <div className="grid grid-cols-3 gap-2 sm:grid-cols-7">
+                    {BUDGET_METRICS.map((metric) => (
+                      <label key={metric} className="text-xs">
+                        <span className="text-muted-foreground">
+                          {metric.toUpperCase()}
+                          {` (${METRIC_UNITS[metric] ?? "ms"})`.replace(" ()", "")}
+                        </span>
+                        <input
+                          type="number"
+                          min="0"
+                          step={metric === "cls" ? "0.01" : "1"}
+                          value={form.metrics[metric] ?? ""}
+                          onChange={setLimit("metrics", metric)}
+                          className={cn(inputClassName, "mt-1")}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="mb-1 text-sm font-medium">Resources</p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border text-xs text-muted-foreground">
+                        <th className="pb-1 text-left">Type</th>
+                        <th className="pb-1 text-left">Size (KB)</th>
+                        <th className="pb-1 text-left">Requests</th>
+                      </tr>
+                    </thead>
+                    <tbody>{BUDGET_RESOURCE_TYPES.map(renderResourceRow)}</tbody>
+                  </table>
+                </div>
+
+                <label className="block text-sm">
+                  <span className="font-medium">First-party hostnames</span>
+                  <input
+                    type="text"
+                    value={form.firstPartyHostnames}
+                    onChange={(e) =>
+                      setForm({ ...form, firstPartyHostnames: e.target.value })
+                    }
+                    placeholder="*.example.com, cdn.example.net"
+                    className={cn(inputClassName, "mt-1 font-mono")}
+                  />
+                  <span className="text-xs text-muted-foreground">
+                    Everything else counts as third-party. Defaults to the
+                    page&apos;s domain.
+                  </span>
+                </label>
+
+                <label className="block text-sm">
+                  <span className="font-medium">Must-justify vendors</span>
+                  <input
+                    type="text"
+                    value={form.mustJustifyVendors}
+                    onChange={(e) =>
+                      setForm({ ...form, mustJustifyVendors: e.target.value })
+                    }
+                    placeholder="Hotjar, Intercom, example-ads.com"
+                    className={cn(inputClassName, "mt-1")}
+                  />
+                  <span className="text-xs text-muted-foreground">
+                    Third-party vendors, as named in the Third Parties tab,
+                    that are flagged in the budget whenever a page loads them.
+                  </span>
+                </label>
+
+                <div className="flex gap-3">
+                  {selectedId !== "new" && (
+                    <Button
+                      variant="destructive"
+                      onClick={handleDelete}
+                      disabled={isSaving}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete
+                    </Button>
+                  )}
+                  <Button
+                    className="flex-1"
+                    onClick={handleSave}
+                    disabled={!form.path.trim() || isSaving}
+                  >
+                    <Save className="h-4 w-4" />
+                    {isSaving ? "Saving..." : "Save budget"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
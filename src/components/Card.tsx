@@ -1,17 +1,19 @@
 'use client';
 
 import { cn } from '@/lib/utils';
-import { ReactNode } from 'react';
+import { HTMLAttributes, ReactNode, Ref } from 'react';
 
-interface CardProps {
+interface CardProps extends HTMLAttributes<HTMLDivElement> {
   children: ReactNode;
   className?: string;
   hover?: boolean;
+  ref?: Ref<HTMLDivElement>; // Passed through as a prop since React 19
 }
 
-export function Card({ children, className, hover = false }: CardProps) {
+export function Card({ children, className, hover = false, ...props }: CardProps) {
   return (
     <div
+      {...props}
       className={cn(
         'rounded-xl border border-border bg-card p-6 shadow-lg',
         hover && 'transition-all duration-200 hover:border-primary/50 hover:shadow-xl',
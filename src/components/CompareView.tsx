@@ -2,8 +2,23 @@
 
 import { useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./Card";
-import { PerformanceEntry, getMetricRating } from "@/types";
-import { cn, getRatingColor, formatDate } from "@/lib/utils";
+import {
+  MetricSpread,
+  PerformanceEntry,
+  Strategy,
+  getMetricRating,
+} from "@/types";
+import {
+  cn,
+  getRatingColor,
+  formatDate,
+  filterByStrategy,
+  getEntryStrategy,
+  hasLabScore,
+} from "@/lib/utils";
+import { getNoiseMargin } from "@/lib/runSets";
+import { StrategyToggle, StrategyBadge } from "./StrategyToggle";
+import { SourceBadge } from "./SourceBadge";
 import {
   ArrowRight,
   TrendingUp,
@@ -18,6 +33,11 @@ interface CompareViewProps {
   onSelect: (ids: [string, string] | null) => void;
 }
 
+// HAR imports have no lab score to compare
+function formatScore(entry: PerformanceEntry): string {
+  return hasLabScore(entry) ? String(Math.round(entry.overallScore)) : "–";
+}
+
 export function CompareView({
   entries,
   selectedIds,
@@ -26,6 +46,18 @@ export function CompareView({
   // Local state for partial selections
   const [firstId, setFirstId] = useState<string>(selectedIds?.[0] || "");
   const [secondId, setSecondId] = useState<string>(selectedIds?.[1] || "");
+  // Only runs of the same device strategy are comparable
+  const [strategy, setStrategy] = useState<Strategy>(() => {
+    const initial = entries.find((e) => e.id === selectedIds?.[0]);
+    return initial ? getEntryStrategy(initial) : "mobile";
+  });
+  const candidates = filterByStrategy(entries, strategy);
+
+  const handleStrategyChange = (next: Strategy) => {
+    setStrategy(next);
+    setFirstId("");
+    setSecondId("");
+  };
 
   const entry1 = selectedIds
     ? entries.find((e) => e.id === selectedIds[0])
@@ -53,7 +85,12 @@ export function CompareView({
     return `${Math.round(value)}ms`;
   };
 
-  const getDiff = (key: string, val1: number, val2: number) => {
+  const getDiff = (
+    key: string,
+    val1: number,
+    val2: number,
+    noiseMargin?: number,
+  ) => {
     const diff = val2 - val1;
     const percentDiff = ((diff / val1) * 100).toFixed(1);
     // For all metrics, lower is better
@@ -62,6 +99,14 @@ export function CompareView({
     if (Math.abs(diff) < 0.01 * val1) {
       return { icon: Minus, color: "text-muted-foreground", text: "Same" };
     }
+    // Multi-run analyses tell us how much runs vary on their own
+    if (noiseMargin !== undefined && Math.abs(diff) <= noiseMargin) {
+      return {
+        icon: Minus,
+        color: "text-muted-foreground",
+        text: `${isImprovement ? "" : "+"}${percentDiff}% (noise)`,
+      };
+    }
 
     return {
       icon: isImprovement ? TrendingDown : TrendingUp,
@@ -70,6 +115,14 @@ export function CompareView({
     };
   };
 
+  const renderSpread = (key: string, spread?: MetricSpread) =>
+    spread && (
+      <span className="block text-xs text-muted-foreground">
+        ±{formatValue(key, spread.stddev)} ({formatValue(key, spread.min)}–
+        {formatValue(key, spread.max)})
+      </span>
+    );
+
   const handleCompare = () => {
     if (firstId && secondId && firstId !== secondId) {
       onSelect([firstId, secondId]);
@@ -84,15 +137,18 @@ export function CompareView({
             <GitCompare className="h-5 w-5 text-primary" />
             Compare Analyses
           </CardTitle>
+          <StrategyToggle value={strategy} onChange={handleStrategyChange} />
         </CardHeader>
         <CardContent>
           <p className="text-muted-foreground mb-4">
             Select two analyses to compare their performance metrics.
+            Multi-run analyses also show their spread, and changes within
+            run-to-run noise are marked.
           </p>
 
-          {entries.length < 2 ? (
+          {candidates.length < 2 ? (
             <div className="text-center py-8 text-muted-foreground">
-              <p>You need at least 2 analyses to compare.</p>
+              <p>You need at least 2 {strategy} analyses to compare.</p>
               <p className="text-sm mt-2">
                 Run more URL analyses to use this feature.
               </p>
@@ -110,13 +166,13 @@ export function CompareView({
                     onChange={(e) => setFirstId(e.target.value)}
                   >
                     <option value="">Select an analysis</option>
-                    {entries.map((entry) => (
+                    {candidates.map((entry) => (
                       <option
                         key={entry.id}
                         value={entry.id}
                         disabled={entry.id === secondId}
                       >
-                        {entry.url} - Score: {Math.round(entry.overallScore)}
+                        {entry.url} - Score: {formatScore(entry)}
                       </option>
                     ))}
                   </select>
@@ -131,13 +187,13 @@ export function CompareView({
                     onChange={(e) => setSecondId(e.target.value)}
                   >
                     <option value="">Select an analysis</option>
-                    {entries.map((entry) => (
+                    {candidates.map((entry) => (
                       <option
                         key={entry.id}
                         value={entry.id}
                         disabled={entry.id === firstId}
                       >
-                        {entry.url} - Score: {Math.round(entry.overallScore)}
+                        {entry.url} - Score: {formatScore(entry)}
                       </option>
                     ))}
                   </select>
@@ -170,22 +226,36 @@ export function CompareView({
               <div
                 className={cn(
                   "mx-auto mb-2 flex h-16 w-16 items-center justify-center rounded-full text-2xl font-bold",
-                  entry1.overallScore >= 90 && "bg-success/20 text-success",
-                  entry1.overallScore >= 50 &&
+                  !hasLabScore(entry1) && "bg-secondary text-muted-foreground",
+                  hasLabScore(entry1) &&
+                    entry1.overallScore >= 90 &&
+                    "bg-success/20 text-success",
+                  hasLabScore(entry1) &&
+                    entry1.overallScore >= 50 &&
                     entry1.overallScore < 90 &&
                     "bg-warning/20 text-warning",
-                  entry1.overallScore < 50 &&
+                  hasLabScore(entry1) &&
+                    entry1.overallScore < 50 &&
                     "bg-destructive/20 text-destructive",
                 )}
               >
-                {Math.round(entry1.overallScore)}
+                {formatScore(entry1)}
               </div>
               <p className="text-sm font-medium truncate max-w-[200px] mx-auto">
                 {entry1.url}
               </p>
-              <p className="text-xs text-muted-foreground">
+              <p className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <StrategyBadge strategy={getEntryStrategy(entry1)} />
+                <SourceBadge source={entry1.source} />
                 {formatDate(entry1.timestamp, { dateOnly: true })}
               </p>
+              {entry1.runSet && (
+                <p className="text-xs text-muted-foreground">
+                  Median of {entry1.runSet.runs} runs, score{" "}
+                  {Math.round(entry1.runSet.score.min)}–
+                  {Math.round(entry1.runSet.score.max)}
+                </p>
+              )}
             </div>
 
             {/* Arrow */}
@@ -196,22 +266,36 @@ export function CompareView({
               <div
                 className={cn(
                   "mx-auto mb-2 flex h-16 w-16 items-center justify-center rounded-full text-2xl font-bold",
-                  entry2.overallScore >= 90 && "bg-success/20 text-success",
-                  entry2.overallScore >= 50 &&
+                  !hasLabScore(entry2) && "bg-secondary text-muted-foreground",
+                  hasLabScore(entry2) &&
+                    entry2.overallScore >= 90 &&
+                    "bg-success/20 text-success",
+                  hasLabScore(entry2) &&
+                    entry2.overallScore >= 50 &&
                     entry2.overallScore < 90 &&
                     "bg-warning/20 text-warning",
-                  entry2.overallScore < 50 &&
+                  hasLabScore(entry2) &&
+                    entry2.overallScore < 50 &&
                     "bg-destructive/20 text-destructive",
                 )}
               >
-                {Math.round(entry2.overallScore)}
+                {formatScore(entry2)}
               </div>
               <p className="text-sm font-medium truncate max-w-[200px] mx-auto">
                 {entry2.url}
               </p>
-              <p className="text-xs text-muted-foreground">
+              <p className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <StrategyBadge strategy={getEntryStrategy(entry2)} />
+                <SourceBadge source={entry2.source} />
                 {formatDate(entry2.timestamp, { dateOnly: true })}
               </p>
+              {entry2.runSet && (
+                <p className="text-xs text-muted-foreground">
+                  Median of {entry2.runSet.runs} runs, score{" "}
+                  {Math.round(entry2.runSet.score.min)}–
+                  {Math.round(entry2.runSet.score.max)}
+                </p>
+              )}
             </div>
           </div>
         </CardContent>
@@ -237,7 +321,14 @@ export function CompareView({
                 {metrics.map((key) => {
                   const val1 = entry1.metrics[key] || 0;
                   const val2 = entry2.metrics[key] || 0;
-                  const diff = getDiff(key, val1, val2);
+                  const spread1 = entry1.runSet?.metrics[key];
+                  const spread2 = entry2.runSet?.metrics[key];
+                  const diff = getDiff(
+                    key,
+                    val1,
+                    val2,
+                    getNoiseMargin(spread1, spread2),
+                  );
                   const rating1 = getMetricRating(getMetricLabel(key), val1);
                   const rating2 = getMetricRating(getMetricLabel(key), val2);
 
@@ -254,6 +345,7 @@ export function CompareView({
                         >
                           {formatValue(key, val1)}
                         </span>
+                        {renderSpread(key, spread1)}
                       </td>
                       <td className="py-4 text-center">
                         <span
@@ -261,6 +353,7 @@ export function CompareView({
                         >
                           {formatValue(key, val2)}
                         </span>
+                        {renderSpread(key, spread2)}
                       </td>
                       <td className="py-4">
                         <div
@@ -1,15 +1,21 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./Card";
 import {
   PerformanceEntry,
   ComponentAnalysis,
+  ComponentFocus,
   AISuggestion,
-  getMetricRating,
 } from "@/types";
-import { cn } from "@/lib/utils";
-import { generateAISuggestions as generateAISuggestionsFromService } from "@/lib/aiService";
+import { cn, hasLabScore } from "@/lib/utils";
+import {
+  generateRuleBasedSuggestions,
+  getAIProvider,
+} from "@/lib/aiService";
+import { streamAISuggestions } from "@/lib/aiClient";
+import { analyzeComponents } from "@/lib/componentAnalysis";
+import { FRAMEWORK_LABELS, getEntryFramework } from "@/lib/frameworks";
 import {
   Zap,
   Image,
@@ -39,256 +45,14 @@ import {
   Copy,
   Check,
   ExternalLink,
+  RefreshCw,
+  Square,
 } from "lucide-react";
 
 interface DetailedAnalysisProps {
   entry: PerformanceEntry;
   onGenerateAISuggestions?: () => void;
-}
-
-// Simulated component analysis based on entry data
-function generateComponentAnalysis(
-  entry: PerformanceEntry,
-): ComponentAnalysis[] {
-  const components: ComponentAnalysis[] = [];
-  const metrics = entry.metrics;
-
-  // Server Response Analysis
-  const ttfbRating = getMetricRating("TTFB", metrics.ttfb || 0);
-  components.push({
-    id: "server-response",
-    name: "Server Response Time",
-    category: "server",
-    status:
-      ttfbRating === "good"
-        ? "excellent"
-        : ttfbRating === "needs-improvement"
-          ? "needs-improvement"
-          : "critical",
-    impact: "high",
-    metrics: {
-      loadTime: metrics.ttfb,
-    },
-    description:
-      ttfbRating === "good"
-        ? "Server is responding quickly with optimal TTFB"
-        : "Server response time is slow, affecting initial page load",
-    affectedMetrics: ["TTFB", "FCP", "LCP"],
-  });
-
-  // JavaScript Execution
-  const jsResources = entry.resourceTimings.filter(
-    (r) => r.initiatorType === "script",
-  );
-  const totalJsTime = jsResources.reduce((sum, r) => sum + r.duration, 0);
-  const totalJsSize = jsResources.reduce((sum, r) => sum + r.transferSize, 0);
-  const jsStatus =
-    totalJsTime < 200
-      ? "excellent"
-      : totalJsTime < 500
-        ? "good"
-        : totalJsTime < 1000
-          ? "needs-improvement"
-          : "critical";
-
-  components.push({
-    id: "javascript",
-    name: "JavaScript Execution",
-    category: "javascript",
-    status: jsStatus,
-    impact: "high",
-    metrics: {
-      loadTime: totalJsTime,
-      size: totalJsSize,
-      blockingTime: metrics.fid,
-    },
-    description:
-      jsStatus === "excellent" || jsStatus === "good"
-        ? "JavaScript bundles are well-optimized"
-        : "Large JavaScript bundles are blocking the main thread",
-    affectedMetrics: ["FID", "INP", "TBT"],
-  });
-
-  // Image Optimization
-  const imageResources = entry.resourceTimings.filter(
-    (r) => r.initiatorType === "img",
-  );
-  const totalImageSize = imageResources.reduce(
-    (sum, r) => sum + r.transferSize,
-    0,
-  );
-  const avgImageTime =
-    imageResources.length > 0
-      ? imageResources.reduce((sum, r) => sum + r.duration, 0) /
-        imageResources.length
-      : 0;
-  const imageStatus =
-    totalImageSize < 200000
-      ? "excellent"
-      : totalImageSize < 500000
-        ? "good"
-        : totalImageSize < 1000000
-          ? "needs-improvement"
-          : "critical";
-
-  components.push({
-    id: "images",
-    name: "Image Optimization",
-    category: "images",
-    status: imageStatus,
-    impact: "high",
-    metrics: {
-      loadTime: avgImageTime,
-      size: totalImageSize,
-    },
-    description:
-      imageStatus === "excellent" || imageStatus === "good"
-        ? "Images are properly optimized and sized"
-        : "Large unoptimized images are slowing down LCP",
-    affectedMetrics: ["LCP", "Speed Index"],
-  });
-
-  // CSS Analysis
-  const cssResources = entry.resourceTimings.filter(
-    (r) => r.initiatorType === "link" || r.name.includes(".css"),
-  );
-  const totalCssSize = cssResources.reduce((sum, r) => sum + r.transferSize, 0);
-  const cssStatus =
-    totalCssSize < 50000
-      ? "excellent"
-      : totalCssSize < 100000
-        ? "good"
-        : totalCssSize < 200000
-          ? "needs-improvement"
-          : "critical";
-
-  components.push({
-    id: "css",
-    name: "CSS Delivery",
-    category: "css",
-    status: cssStatus,
-    impact: "medium",
-    metrics: {
-      size: totalCssSize,
-      renderTime: cssResources.reduce((sum, r) => sum + r.duration, 0),
-    },
-    description:
-      cssStatus === "excellent" || cssStatus === "good"
-        ? "CSS is efficiently delivered and not render-blocking"
-        : "Large CSS files are blocking rendering",
-    affectedMetrics: ["FCP", "LCP"],
-  });
-
-  // Layout Stability
-  const clsRating = getMetricRating("CLS", metrics.cls || 0);
-  components.push({
-    id: "layout-stability",
-    name: "Layout Stability",
-    category: "rendering",
-    status:
-      clsRating === "good"
-        ? "excellent"
-        : clsRating === "needs-improvement"
-          ? "needs-improvement"
-          : "critical",
-    impact: "medium",
-    metrics: {
-      renderTime: (metrics.cls || 0) * 1000,
-    },
-    description:
-      clsRating === "good"
-        ? "Page has minimal layout shifts during loading"
-        : "Significant layout shifts detected - check image dimensions and dynamic content",
-    affectedMetrics: ["CLS"],
-  });
-
-  // Font Loading
-  const fontResources = entry.resourceTimings.filter(
-    (r) =>
-      r.initiatorType === "font" ||
-      r.name.includes("font") ||
-      r.name.includes("woff"),
-  );
-  const fontStatus =
-    fontResources.length === 0
-      ? "excellent"
-      : fontResources.some((r) => r.duration > 200)
-        ? "needs-improvement"
-        : "good";
-
-  components.push({
-    id: "fonts",
-    name: "Font Loading",
-    category: "fonts",
-    status: fontStatus,
-    impact: "low",
-    metrics: {
-      loadTime: fontResources.reduce((sum, r) => sum + r.duration, 0),
-      size: fontResources.reduce((sum, r) => sum + r.transferSize, 0),
-    },
-    description:
-      fontStatus === "excellent" || fontStatus === "good"
-        ? "Fonts are loading efficiently with proper strategies"
-        : "Font loading may be causing FOUT/FOIT issues",
-    affectedMetrics: ["CLS", "FCP"],
-  });
-
-  // Third Party Scripts
-  const thirdPartyResources = entry.resourceTimings.filter(
-    (r) =>
-      !r.name.includes("example.com") &&
-      (r.name.includes("http") || r.name.includes("cdn")),
-  );
-  const thirdPartyStatus =
-    thirdPartyResources.length === 0
-      ? "excellent"
-      : thirdPartyResources.length < 3
-        ? "good"
-        : thirdPartyResources.length < 6
-          ? "needs-improvement"
-          : "critical";
-
-  components.push({
-    id: "third-party",
-    name: "Third-Party Resources",
-    category: "third-party",
-    status: thirdPartyStatus,
-    impact: "medium",
-    metrics: {
-      loadTime: thirdPartyResources.reduce((sum, r) => sum + r.duration, 0),
-      size: thirdPartyResources.reduce((sum, r) => sum + r.transferSize, 0),
-    },
-    description:
-      thirdPartyStatus === "excellent" || thirdPartyStatus === "good"
-        ? "Third-party scripts are minimal and well-managed"
-        : "Multiple third-party scripts may be impacting performance",
-    affectedMetrics: ["TBT", "FID", "INP"],
-  });
-
-  // Main Thread Work
-  const inpRating = getMetricRating("INP", metrics.inp || 0);
-  components.push({
-    id: "main-thread",
-    name: "Main Thread Work",
-    category: "javascript",
-    status:
-      inpRating === "good"
-        ? "excellent"
-        : inpRating === "needs-improvement"
-          ? "needs-improvement"
-          : "critical",
-    impact: "high",
-    metrics: {
-      blockingTime: metrics.inp,
-    },
-    description:
-      inpRating === "good"
-        ? "Main thread is responsive with minimal blocking"
-        : "Heavy main thread work is causing interaction delays",
-    affectedMetrics: ["INP", "FID", "TBT"],
-  });
-
-  return components;
+  focus?: ComponentFocus | null;
 }
 
 function formatBytes(bytes: number): string {
@@ -352,18 +116,35 @@ const priorityConfig = {
   low: { color: "text-muted-foreground", bg: "bg-secondary", icon: Lightbulb },
 };
 
-export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
-  const [components, setComponents] = useState<ComponentAnalysis[]>([]);
+export function DetailedAnalysis({ entry, focus }: DetailedAnalysisProps) {
+  const components = useMemo(() => analyzeComponents(entry), [entry]);
   const [suggestions, setSuggestions] = useState<AISuggestion[]>([]);
-  const [isAnalyzing, setIsAnalyzing] = useState(true);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
+  // Whether the list holds LLM suggestions or the rule-based first paint
+  const [hasAISuggestions, setHasAISuggestions] = useState(false);
+  const [aiError, setAIError] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const streamRef = useRef<AbortController | null>(null);
+  const regenerateRef = useRef<AbortController | null>(null);
   const [expandedSuggestion, setExpandedSuggestion] = useState<string | null>(
     null,
   );
   const [activeSection, setActiveSection] = useState<
-    "components" | "suggestions"
+    "components" | "suggestions" | "audits"
   >("components");
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
+  const focusRef = useRef<HTMLDivElement>(null);
+
+  // Show the component focused elsewhere, e.g. from a trace's long task
+  const [trackedFocus, setTrackedFocus] = useState(focus);
+  if (focus !== trackedFocus) {
+    setTrackedFocus(focus);
+    if (focus) setActiveSection("components");
+  }
+
+  useEffect(() => {
+    focusRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focus]);
 
   const handleCopyCode = async (code: string, id: string) => {
     try {
@@ -375,32 +156,105 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
     }
   };
 
-  useEffect(() => {
-    // Simulate analysis loading
-    setIsAnalyzing(true);
-    const timer = setTimeout(() => {
-      const analysisResult = generateComponentAnalysis(entry);
-      setComponents(analysisResult);
-      setIsAnalyzing(false);
-
-      // Auto-generate AI suggestions after component analysis
-      setTimeout(() => {
-        setIsGeneratingAI(true);
-        // Use the AI service to generate suggestions
-        generateAISuggestionsFromService(entry, analysisResult)
-          .then((aiSuggestions) => {
-            setSuggestions(aiSuggestions);
-            setIsGeneratingAI(false);
-          })
-          .catch((error) => {
-            console.error("Error generating AI suggestions:", error);
+  // Stream LLM suggestions, replacing the rule-based list once the first
+  // one arrives. Partial results are kept when the stream is cancelled.
+  const startAIStream = useCallback(
+    (analysisResult: ComponentAnalysis[]) => {
+      const provider = getAIProvider();
+      if (provider === "local") return;
+
+      streamRef.current?.abort();
+      const controller = new AbortController();
+      streamRef.current = controller;
+      setIsGeneratingAI(true);
+      setAIError(null);
+
+      let received: AISuggestion[] = [];
+      streamAISuggestions(provider, entry, analysisResult, {
+        signal: controller.signal,
+        onSuggestion: (suggestion) => {
+          received = [...received, suggestion];
+          setSuggestions(received);
+          setHasAISuggestions(true);
+        },
+      })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.error("Error generating AI suggestions:", error);
+          setAIError(
+            received.length > 0
+              ? `Stopped early: ${error.message}`
+              : `${error.message}. Showing rule-based suggestions instead.`,
+          );
+        })
+        .finally(() => {
+          if (streamRef.current === controller) {
+            streamRef.current = null;
             setIsGeneratingAI(false);
-          });
-      }, 500);
-    }, 1000);
+          }
+        });
+    },
+    [entry],
+  );
+
+  const handleCancelAI = () => {
+    streamRef.current?.abort();
+    streamRef.current = null;
+    setIsGeneratingAI(false);
+  };
+
+  const handleRegenerate = (suggestion: AISuggestion) => {
+    const provider = getAIProvider();
+    if (provider === "local") return;
+
+    regenerateRef.current?.abort();
+    const controller = new AbortController();
+    regenerateRef.current = controller;
+    setRegeneratingId(suggestion.id);
+    setAIError(null);
+
+    streamAISuggestions(provider, entry, components, {
+      signal: controller.signal,
+      regenerate: suggestion,
+      exclude: suggestions
+        .filter((other) => other.id !== suggestion.id)
+        .map((other) => other.title),
+      onSuggestion: (replacement) =>
+        setSuggestions((current) =>
+          current.map((existing) =>
+            existing.id === suggestion.id ? replacement : existing,
+          ),
+        ),
+    })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error("Error regenerating suggestion:", error);
+        setAIError(`Could not regenerate "${suggestion.title}": ${error.message}`);
+      })
+      .finally(() => {
+        if (regenerateRef.current === controller) {
+          regenerateRef.current = null;
+          setRegeneratingId(null);
+        }
+      });
+  };
+
+  useEffect(() => {
+    // Rule-based suggestions are instant; LLM ones stream in over them
+    setSuggestions(generateRuleBasedSuggestions(entry, components));
+    setHasAISuggestions(false);
+    setAIError(null);
+    startAIStream(components);
 
-    return () => clearTimeout(timer);
-  }, [entry]);
+    return () => {
+      streamRef.current?.abort();
+      streamRef.current = null;
+      regenerateRef.current?.abort();
+      regenerateRef.current = null;
+      setIsGeneratingAI(false);
+      setRegeneratingId(null);
+    };
+  }, [entry, components, startAIStream]);
 
   const criticalCount = components.filter(
     (c) => c.status === "critical",
@@ -411,9 +265,14 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
   const goodCount = components.filter(
     (c) => c.status === "good" || c.status === "excellent",
   ).length;
+  const opportunities = entry.opportunities || [];
+  const failedAudits = entry.failedAudits || [];
+  const auditCount = opportunities.length + failedAudits.length;
+  // Picks the rule pack and code examples for the site's stack
+  const framework = getEntryFramework(entry);
 
   return (
-    <div className="space-y-6">
+    <div className="space-y-6" data-perf-component="DetailedAnalysis">
       {/* Summary Header */}
       <Card className="overflow-hidden">
         <div className="gradient-primary p-6 text-white">
@@ -429,9 +288,11 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
             </div>
             <div className="text-right">
               <div className="text-4xl font-bold">
-                {Math.round(entry.overallScore)}
+                {hasLabScore(entry) ? Math.round(entry.overallScore) : "–"}
+              </div>
+              <div className="text-sm text-white/80">
+                {hasLabScore(entry) ? "Overall Score" : "No lab score (HAR)"}
               </div>
-              <div className="text-sm text-white/80">Overall Score</div>
             </div>
           </div>
         </div>
@@ -514,169 +375,337 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
             </span>
           )}
         </button>
+        <button
+          onClick={() => setActiveSection("audits")}
+          className={cn(
+            "flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors flex items-center justify-center gap-2",
+            activeSection === "audits"
+              ? "bg-card text-foreground shadow-sm"
+              : "text-muted-foreground hover:text-foreground",
+          )}
+        >
+          <Shield className="h-4 w-4" />
+          Lighthouse Audits
+          {auditCount > 0 && (
+            <span className="ml-1 px-1.5 py-0.5 text-xs rounded-full bg-primary text-primary-foreground">
+              {auditCount}
+            </span>
+          )}
+        </button>
       </div>
 
+      {/* Lighthouse Audits Section */}
+      {activeSection === "audits" && (
+        <div className="space-y-4">
+          {auditCount === 0 ? (
+            <Card className="p-8 text-center">
+              <CheckCircle className="h-12 w-12 text-success mx-auto mb-4" />
+              <h3 className="font-semibold text-foreground">
+                No Failing Audits
+              </h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                {entry.categoryScores
+                  ? "Lighthouse reported no opportunities or failing audits."
+                  : "This analysis was recorded without Lighthouse audit data."}
+              </p>
+            </Card>
+          ) : (
+            <>
+              {opportunities.length > 0 && (
+                <Card>
+                  <CardContent className="space-y-3">
+                    <h4 className="font-semibold flex items-center gap-2">
+                      <TrendingUp className="h-4 w-4 text-primary" />
+                      Opportunities
+                    </h4>
+                    {opportunities.map((opportunity) => (
+                      <div
+                        key={opportunity.id}
+                        className="flex items-center justify-between gap-4 rounded-lg bg-secondary/50 p-3"
+                      >
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {opportunity.title}
+                          </p>
+                          <p className="text-xs text-muted-foreground font-mono">
+                            {opportunity.id}
+                          </p>
+                        </div>
+                        <div className="text-right text-xs shrink-0">
+                          {opportunity.savingsMs !== undefined && (
+                            <p className="font-medium text-warning">
+                              Save ~{Math.round(opportunity.savingsMs)}ms
+                            </p>
+                          )}
+                          {opportunity.savingsBytes !== undefined && (
+                            <p className="text-muted-foreground">
+                              {formatBytes(opportunity.savingsBytes)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {(["accessibility", "best-practices", "seo"] as const).map(
+                (category) => {
+                  const audits = failedAudits.filter(
+                    (a) => a.category === category,
+                  );
+                  if (audits.length === 0) return null;
+                  return (
+                    <Card key={category}>
+                      <CardContent className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <h4 className="font-semibold capitalize">
+                            {category.replace("-", " ")}
+                          </h4>
+                          {entry.categoryScores?.[category] !== undefined && (
+                            <span className="text-sm text-muted-foreground">
+                              Score: {entry.categoryScores[category]}
+                            </span>
+                          )}
+                        </div>
+                        {audits.map((audit) => (
+                          <div
+                            key={audit.id}
+                            className="flex items-start gap-3 rounded-lg bg-secondary/50 p-3"
+                          >
+                            <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium">
+                                {audit.title}
+                              </p>
+                              <p className="text-xs text-muted-foreground font-mono">
+                                {audit.id}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  );
+                },
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Component Analysis Section */}
       {activeSection === "components" && (
         <div className="space-y-4">
-          {isAnalyzing ? (
-            // Skeleton loading state
-            <div className="space-y-4">
-              {[1, 2, 3, 4, 5].map((i) => (
-                <Card key={i} className="overflow-hidden">
+          <div className="space-y-3">
+            {components.map((component) => {
+              const config = statusConfig[component.status];
+              const StatusIcon = config.icon;
+              const isFocused = focus?.componentId === component.id;
+
+              return (
+                <Card
+                  key={component.id}
+                  ref={isFocused ? focusRef : undefined}
+                  className={cn(
+                    "overflow-hidden border-l-4 transition-all hover:shadow-md",
+                    config.border,
+                    isFocused && "ring-2 ring-primary",
+                  )}
+                >
                   <div className="p-4">
-                    <div className="flex items-center gap-4">
-                      <div className="w-10 h-10 rounded-lg bg-secondary animate-pulse" />
-                      <div className="flex-1 space-y-2">
-                        <div className="h-4 w-1/3 bg-secondary rounded animate-pulse" />
-                        <div className="h-3 w-2/3 bg-secondary rounded animate-pulse" />
+                    <div className="flex items-start gap-4">
+                      {/* Category Icon */}
+                      <div className={cn("p-2.5 rounded-lg", config.bg)}>
+                        <span className={config.color}>
+                          {categoryIcons[component.category]}
+                        </span>
                       </div>
-                      <div className="w-20 h-6 bg-secondary rounded animate-pulse" />
-                    </div>
-                    <div className="mt-4 h-2 bg-secondary rounded-full overflow-hidden">
-                      <div className="h-full w-full bg-gradient-to-r from-secondary via-muted to-secondary animate-shimmer" />
-                    </div>
-                  </div>
-                </Card>
-              ))}
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {components.map((component) => {
-                const config = statusConfig[component.status];
-                const StatusIcon = config.icon;
 
-                return (
-                  <Card
-                    key={component.id}
-                    className={cn(
-                      "overflow-hidden border-l-4 transition-all hover:shadow-md",
-                      config.border,
-                    )}
-                  >
-                    <div className="p-4">
-                      <div className="flex items-start gap-4">
-                        {/* Category Icon */}
-                        <div className={cn("p-2.5 rounded-lg", config.bg)}>
-                          <span className={config.color}>
-                            {categoryIcons[component.category]}
+                      {/* Content */}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h4 className="font-semibold text-foreground">
+                            {component.name}
+                          </h4>
+                          <span
+                            className={cn(
+                              "text-xs px-2 py-0.5 rounded-full",
+                              component.impact === "high"
+                                ? "bg-destructive/10 text-destructive"
+                                : component.impact === "medium"
+                                  ? "bg-warning/10 text-warning"
+                                  : "bg-muted text-muted-foreground",
+                            )}
+                          >
+                            {component.impact} impact
                           </span>
-                        </div>
-
-                        {/* Content */}
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <h4 className="font-semibold text-foreground">
-                              {component.name}
-                            </h4>
+                          {component.source === "resources" && (
                             <span
-                              className={cn(
-                                "text-xs px-2 py-0.5 rounded-full",
-                                component.impact === "high"
-                                  ? "bg-destructive/10 text-destructive"
-                                  : component.impact === "medium"
-                                    ? "bg-warning/10 text-warning"
-                                    : "bg-muted text-muted-foreground",
-                              )}
+                              className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground"
+                              title="Estimated from resource timings. Run a new analysis for Lighthouse diagnostics."
                             >
-                              {component.impact} impact
+                              estimated
                             </span>
-                          </div>
-                          <p className="text-sm text-muted-foreground">
-                            {component.description}
+                          )}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {component.description}
+                        </p>
+                        {isFocused && focus?.note && (
+                          <p className="mt-2 rounded-md bg-primary/10 px-2 py-1 text-xs text-primary">
+                            {focus.note}
                           </p>
+                        )}
 
-                          {/* Metrics */}
-                          <div className="flex flex-wrap gap-4 mt-3">
-                            {component.metrics.loadTime !== undefined && (
-                              <div className="flex items-center gap-1.5 text-xs">
-                                <Clock className="h-3 w-3 text-muted-foreground" />
-                                <span className="text-muted-foreground">
-                                  Load:
-                                </span>
-                                <span className="font-medium">
-                                  {Math.round(component.metrics.loadTime)}ms
-                                </span>
-                              </div>
-                            )}
-                            {component.metrics.size !== undefined && (
-                              <div className="flex items-center gap-1.5 text-xs">
-                                <Package className="h-3 w-3 text-muted-foreground" />
-                                <span className="text-muted-foreground">
-                                  Size:
-                                </span>
-                                <span className="font-medium">
-                                  {formatBytes(component.metrics.size)}
-                                </span>
-                              </div>
-                            )}
-                            {component.metrics.blockingTime !== undefined && (
-                              <div className="flex items-center gap-1.5 text-xs">
-                                <AlertTriangle className="h-3 w-3 text-muted-foreground" />
-                                <span className="text-muted-foreground">
-                                  Blocking:
-                                </span>
-                                <span className="font-medium">
-                                  {Math.round(component.metrics.blockingTime)}ms
-                                </span>
-                              </div>
-                            )}
-                          </div>
+                        {/* Metrics */}
+                        <div className="flex flex-wrap gap-4 mt-3">
+                          {component.metrics.loadTime !== undefined && (
+                            <div className="flex items-center gap-1.5 text-xs">
+                              <Clock className="h-3 w-3 text-muted-foreground" />
+                              <span className="text-muted-foreground">
+                                Time:
+                              </span>
+                              <span className="font-medium">
+                                {Math.round(component.metrics.loadTime)}ms
+                              </span>
+                            </div>
+                          )}
+                          {component.metrics.size !== undefined && (
+                            <div className="flex items-center gap-1.5 text-xs">
+                              <Package className="h-3 w-3 text-muted-foreground" />
+                              <span className="text-muted-foreground">
+                                Size:
+                              </span>
+                              <span className="font-medium">
+                                {formatBytes(component.metrics.size)}
+                              </span>
+                            </div>
+                          )}
+                          {component.metrics.blockingTime !== undefined && (
+                            <div className="flex items-center gap-1.5 text-xs">
+                              <AlertTriangle className="h-3 w-3 text-muted-foreground" />
+                              <span className="text-muted-foreground">
+                                Blocking:
+                              </span>
+                              <span className="font-medium">
+                                {Math.round(component.metrics.blockingTime)}ms
+                              </span>
+                            </div>
+                          )}
+                          {!!component.metrics.renderTime && (
+                            <div className="flex items-center gap-1.5 text-xs">
+                              <Clock className="h-3 w-3 text-muted-foreground" />
+                              <span className="text-muted-foreground">
+                                Render delay:
+                              </span>
+                              <span className="font-medium">
+                                {Math.round(component.metrics.renderTime)}ms
+                              </span>
+                            </div>
+                          )}
+                          {!!component.metrics.wastedBytes && (
+                            <div className="flex items-center gap-1.5 text-xs">
+                              <TrendingUp className="h-3 w-3 text-muted-foreground" />
+                              <span className="text-muted-foreground">
+                                Avoidable:
+                              </span>
+                              <span className="font-medium">
+                                {formatBytes(component.metrics.wastedBytes)}
+                              </span>
+                            </div>
+                          )}
+                        </div>
 
-                          {/* Affected Metrics */}
-                          <div className="flex flex-wrap gap-1.5 mt-3">
-                            {component.affectedMetrics.map((metric) => (
-                              <span
-                                key={metric}
-                                className="text-xs px-2 py-0.5 rounded bg-secondary text-muted-foreground"
+                        {/* Largest Contributors */}
+                        {component.details && component.details.length > 0 && (
+                          <ul className="mt-3 space-y-1">
+                            {component.details.map((detail, index) => (
+                              <li
+                                key={index}
+                                className={cn(
+                                  "flex items-center justify-between gap-4 text-xs",
+                                  isFocused &&
+                                    focus?.url &&
+                                    detail.url === focus.url &&
+                                    "rounded bg-primary/10 font-medium",
+                                )}
                               >
-                                {metric}
-                              </span>
+                                <span
+                                  className="truncate text-muted-foreground"
+                                  title={detail.url ?? detail.label}
+                                >
+                                  {detail.label}
+                                </span>
+                                <span className="font-mono shrink-0">
+                                  {detail.unit === "ms"
+                                    ? `${Math.round(detail.value)}ms`
+                                    : formatBytes(detail.value)}
+                                </span>
+                              </li>
                             ))}
-                          </div>
-                        </div>
+                          </ul>
+                        )}
 
-                        {/* Status Badge */}
-                        <div
-                          className={cn(
-                            "flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium",
-                            config.bg,
-                            config.color,
-                          )}
-                        >
-                          <StatusIcon className="h-4 w-4" />
-                          {config.label}
+                        {/* Affected Metrics */}
+                        <div className="flex flex-wrap gap-1.5 mt-3">
+                          {component.affectedMetrics.map((metric) => (
+                            <span
+                              key={metric}
+                              className="text-xs px-2 py-0.5 rounded bg-secondary text-muted-foreground"
+                            >
+                              {metric}
+                            </span>
+                          ))}
                         </div>
                       </div>
 
-                      {/* Visual Status Bar */}
-                      <div className="mt-4 h-1.5 bg-secondary rounded-full overflow-hidden">
-                        <div
-                          className={cn(
-                            "h-full rounded-full transition-all duration-1000",
-                            component.status === "excellent" &&
-                              "w-full bg-success",
-                            component.status === "good" && "w-4/5 bg-success",
-                            component.status === "needs-improvement" &&
-                              "w-1/2 bg-warning",
-                            component.status === "critical" &&
-                              "w-1/4 bg-destructive",
-                          )}
-                        />
+                      {/* Status Badge */}
+                      <div
+                        className={cn(
+                          "flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium",
+                          config.bg,
+                          config.color,
+                        )}
+                      >
+                        <StatusIcon className="h-4 w-4" />
+                        {config.label}
                       </div>
                     </div>
-                  </Card>
-                );
-              })}
-            </div>
-          )}
+
+                    {/* Visual Status Bar */}
+                    <div className="mt-4 h-1.5 bg-secondary rounded-full overflow-hidden">
+                      <div
+                        className={cn(
+                          "h-full rounded-full transition-all duration-1000",
+                          component.status === "excellent" &&
+                            "w-full bg-success",
+                          component.status === "good" && "w-4/5 bg-success",
+                          component.status === "needs-improvement" &&
+                            "w-1/2 bg-warning",
+                          component.status === "critical" &&
+                            "w-1/4 bg-destructive",
+                        )}
+                      />
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
         </div>
       )}
 
       {/* AI Suggestions Section */}
       {activeSection === "suggestions" && (
         <div className="space-y-4">
-          {isGeneratingAI ? (
+          {aiError && (
+            <p className="text-sm text-warning flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {aiError}
+            </p>
+          )}
+          {isGeneratingAI && suggestions.length === 0 ? (
             <Card className="p-8">
               <div className="flex flex-col items-center justify-center gap-4">
                 <div className="relative">
@@ -695,6 +724,13 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
                 <div className="w-48 h-2 bg-secondary rounded-full overflow-hidden">
                   <div className="h-full bg-gradient-to-r from-primary via-accent to-primary animate-shimmer rounded-full" />
                 </div>
+                <button
+                  onClick={handleCancelAI}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-sm font-medium hover:bg-secondary transition-colors"
+                >
+                  <Square className="h-3 w-3" />
+                  Stop
+                </button>
               </div>
             </Card>
           ) : suggestions.length === 0 ? (
@@ -709,12 +745,41 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
             </Card>
           ) : (
             <div className="space-y-4">
+              {/* Streaming Status */}
+              {isGeneratingAI && (
+                <Card className="p-3">
+                  <div className="flex items-center gap-3 text-sm">
+                    <Loader2 className="h-4 w-4 text-primary animate-spin" />
+                    <span className="text-muted-foreground">
+                      {hasAISuggestions
+                        ? `Receiving AI suggestions (${suggestions.length} so far)...`
+                        : "Generating AI suggestions. Showing rule-based suggestions until the first one arrives..."}
+                    </span>
+                    <button
+                      onClick={handleCancelAI}
+                      className="ml-auto inline-flex items-center gap-1.5 px-3 py-1 rounded-lg border border-border text-xs font-medium hover:bg-secondary transition-colors"
+                    >
+                      <Square className="h-3 w-3" />
+                      Stop
+                    </button>
+                  </div>
+                </Card>
+              )}
+
               {/* Priority Summary */}
               <Card className="p-4">
                 <div className="flex items-center gap-6">
                   <div className="flex items-center gap-2">
                     <Sparkles className="h-5 w-5 text-primary" />
                     <span className="font-medium">AI-Powered Suggestions</span>
+                    {framework && (
+                      <span
+                        className="text-xs px-2 py-0.5 rounded-full bg-secondary text-muted-foreground"
+                        title="Code examples are tailored to the detected stack"
+                      >
+                        {FRAMEWORK_LABELS[framework]}
+                      </span>
+                    )}
                   </div>
                   <div className="flex gap-4 text-sm">
                     {(["critical", "high", "medium", "low"] as const).map(
@@ -760,6 +825,7 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
                 const config = priorityConfig[suggestion.priority];
                 const PriorityIcon = config.icon;
                 const isExpanded = expandedSuggestion === suggestion.id;
+                const isRegenerating = regeneratingId === suggestion.id;
 
                 return (
                   <Card
@@ -767,7 +833,9 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
                     className={cn(
                       "overflow-hidden transition-all",
                       isExpanded && "ring-2 ring-primary/20",
+                      isRegenerating && "opacity-60",
                     )}
+                    aria-busy={isRegenerating}
                   >
                     <div
                       className="p-4 cursor-pointer"
@@ -834,7 +902,9 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
 
                         {/* Expand Icon */}
                         <button className="p-1 hover:bg-secondary rounded">
-                          {isExpanded ? (
+                          {isRegenerating ? (
+                            <Loader2 className="h-5 w-5 text-primary animate-spin" />
+                          ) : isExpanded ? (
                             <ChevronUp className="h-5 w-5 text-muted-foreground" />
                           ) : (
                             <ChevronDown className="h-5 w-5 text-muted-foreground" />
@@ -962,6 +1032,24 @@ export function DetailedAnalysis({ entry }: DetailedAnalysisProps) {
                             <ExternalLink className="h-4 w-4" />
                             Learn More on web.dev
                           </a>
+                          {hasAISuggestions && !isGeneratingAI && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRegenerate(suggestion);
+                              }}
+                              disabled={regeneratingId !== null}
+                              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg border border-border text-sm font-medium hover:bg-secondary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <RefreshCw
+                                className={cn(
+                                  "h-4 w-4",
+                                  isRegenerating && "animate-spin",
+                                )}
+                              />
+                              Regenerate
+                            </button>
+                          )}
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -4,8 +4,18 @@ import { useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./Card";
 import { Button } from "./Button";
 import { PerformanceEntry } from "@/types";
-import { formatDate } from "@/lib/utils";
-import { Download, FileText, FileJson, Image, X } from "lucide-react";
+import { formatDate, hasLabScore } from "@/lib/utils";
+import { toHar } from "@/lib/har";
+import { getLighthouseReportUrl } from "@/lib/lighthouseReportsClient";
+import {
+  Download,
+  FileText,
+  FileJson,
+  Image,
+  Network,
+  Gauge,
+  X,
+} from "lucide-react";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 
@@ -44,7 +54,13 @@ export function ExportOptions({
       doc.setTextColor(100);
       doc.text(`URL: ${url}`, 20, 35);
       doc.text(`Date: ${formatDate(timestamp)}`, 20, 42);
-      doc.text(`Overall Score: ${Math.round(overallScore)}%`, 20, 49);
+      doc.text(
+        hasLabScore(entry)
+          ? `Overall Score: ${Math.round(overallScore)}%`
+          : "Overall Score: none (imported from a HAR file)",
+        20,
+        49,
+      );
 
       // Metrics Table
       doc.setFontSize(14);
@@ -102,6 +118,24 @@ export function ExportOptions({
     }
   };
 
+  const exportToHAR = () => {
+    if (!entry) return;
+    setExporting("har");
+
+    try {
+      const data = JSON.stringify(toHar(entry), null, 2);
+      const blob = new Blob([data], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `performance-requests-${new Date().toISOString().split("T")[0]}.har`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } finally {
+      setExporting(null);
+    }
+  };
+
   const exportAllToJSON = () => {
     setExporting("json-all");
 
@@ -128,7 +162,7 @@ export function ExportOptions({
       const rows = [
         ["URL", entry.url],
         ["Date", new Date(entry.timestamp).toISOString()],
-        ["Score", entry.overallScore.toString()],
+        ["Score", hasLabScore(entry) ? entry.overallScore.toString() : ""],
         ["LCP (ms)", (entry.metrics.lcp || 0).toString()],
         ["FCP (ms)", (entry.metrics.fcp || 0).toString()],
         ["CLS", (entry.metrics.cls || 0).toString()],
@@ -201,6 +235,31 @@ export function ExportOptions({
                 {exporting === "csv" ? "Exporting..." : "Export as CSV"}
               </Button>
 
+              <Button
+                variant="outline"
+                className="w-full justify-start"
+                onClick={exportToHAR}
+                disabled={
+                  exporting !== null || entry.resourceTimings.length === 0
+                }
+              >
+                <Network className="h-4 w-4 text-blue-500" />
+                {exporting === "har"
+                  ? "Exporting..."
+                  : `Export requests as HAR (${entry.resourceTimings.length})`}
+              </Button>
+
+              {entry.source === "lighthouse" && (
+                <a
+                  href={getLighthouseReportUrl(entry.id)}
+                  download
+                  className="flex h-10 w-full items-center gap-2 rounded-lg border border-border px-4 text-sm font-medium hover:bg-secondary"
+                >
+                  <Gauge className="h-4 w-4 text-orange-500" />
+                  Download original Lighthouse report
+                </a>
+              )}
+
               <div className="border-t border-border pt-4 mt-4">
                 <p className="text-sm text-muted-foreground mb-2">
                   Export all analyses:
@@ -0,0 +1,42 @@
+'use client';
+
+import { FieldMetric } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface FieldDistributionProps {
+  distribution: FieldMetric['distribution'];
+  showLabels?: boolean;
+  className?: string;
+}
+
+const SEGMENTS = [
+  { key: 'good', label: 'Good', color: 'bg-success', text: 'text-success' },
+  { key: 'needsImprovement', label: 'NI', color: 'bg-warning', text: 'text-warning' },
+  { key: 'poor', label: 'Poor', color: 'bg-destructive', text: 'text-destructive' },
+] as const;
+
+export function FieldDistribution({ distribution, showLabels = true, className }: FieldDistributionProps) {
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex h-2 w-full overflow-hidden rounded-full bg-secondary">
+        {SEGMENTS.map((segment) => (
+          <div
+            key={segment.key}
+            className={cn('h-full', segment.color)}
+            style={{ width: `${distribution[segment.key] * 100}%` }}
+            title={`${segment.label}: ${Math.round(distribution[segment.key] * 100)}%`}
+          />
+        ))}
+      </div>
+      {showLabels && (
+        <div className="flex justify-between text-[10px]">
+          {SEGMENTS.map((segment) => (
+            <span key={segment.key} className={segment.text}>
+              {segment.label} {Math.round(distribution[segment.key] * 100)}%
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,23 +6,50 @@ import {
   RefreshCw,
   Settings,
   Keyboard,
+  Cloud,
+  CloudOff,
+  CalendarClock,
+  Bell,
+  Users,
+  Upload,
+  Flame,
 } from "lucide-react";
 import { Button } from "./Button";
 import { ThemeToggle } from "./ThemeToggle";
 import { useState } from "react";
+import type { SyncStatus } from "@/store/performanceStore";
+import { cn } from "@/lib/utils";
 
 interface HeaderProps {
   onExport?: () => void;
+  onImport?: () => void;
+  onTrace?: () => void;
   onRefresh?: () => void;
   onSettings?: () => void;
   isMonitoring?: boolean;
+  syncStatus?: SyncStatus;
+  pendingChanges?: number;
+  rejectedChanges?: number;
+  onSync?: () => void;
+  onMonitors?: () => void;
+  onAlerts?: () => void;
+  onRum?: () => void;
 }
 
 export function Header({
   onExport,
+  onImport,
+  onTrace,
   onRefresh,
   onSettings,
   isMonitoring,
+  syncStatus,
+  pendingChanges = 0,
+  rejectedChanges = 0,
+  onSync,
+  onMonitors,
+  onAlerts,
+  onRum,
 }: HeaderProps) {
   const [showShortcuts, setShowShortcuts] = useState(false);
 
@@ -52,6 +79,80 @@ export function Header({
               </div>
             )}
 
+            {syncStatus && syncStatus !== "idle" && (
+              <button
+                onClick={onSync}
+                disabled={syncStatus === "syncing"}
+                title={
+                  syncStatus === "offline"
+                    ? `Server unreachable. ${pendingChanges} change(s) saved locally; click to retry.`
+                    : rejectedChanges > 0
+                      ? `History is synced with the server. ${rejectedChanges} change(s) were rejected by the server and not saved.`
+                      : "History is synced with the server"
+                }
+                className={cn(
+                  "flex items-center gap-1.5 rounded-full px-3 py-1 text-sm transition-colors",
+                  syncStatus === "offline"
+                    ? "bg-warning/20 text-warning hover:bg-warning/30"
+                    : "text-muted-foreground hover:bg-secondary",
+                )}
+              >
+                {syncStatus === "offline" ? (
+                  <CloudOff className="h-4 w-4" />
+                ) : (
+                  <Cloud
+                    className={cn(
+                      "h-4 w-4",
+                      syncStatus === "syncing" && "animate-pulse",
+                    )}
+                  />
+                )}
+                <span className="hidden sm:inline">
+                  {syncStatus === "offline"
+                    ? "Offline"
+                    : syncStatus === "syncing"
+                      ? "Syncing"
+                      : "Synced"}
+                </span>
+              </button>
+            )}
+
+            {onMonitors && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onMonitors}
+                title="Scheduled Monitors"
+              >
+                <CalendarClock className="h-4 w-4" />
+                <span className="hidden sm:inline">Monitors</span>
+              </Button>
+            )}
+
+            {onAlerts && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onAlerts}
+                title="Regression Alerts"
+              >
+                <Bell className="h-4 w-4" />
+                <span className="hidden sm:inline">Alerts</span>
+              </Button>
+            )}
+
+            {onRum && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRum}
+                title="Real User Monitoring"
+              >
+                <Users className="h-4 w-4" />
+                <span className="hidden sm:inline">RUM</span>
+              </Button>
+            )}
+
             {onRefresh && (
               <Button variant="ghost" size="sm" onClick={onRefresh}>
                 <RefreshCw className="h-4 w-4" />
@@ -59,6 +160,30 @@ export function Header({
               </Button>
             )}
 
+            {onImport && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onImport}
+                title="Import HAR files, Lighthouse reports and traces"
+              >
+                <Upload className="h-4 w-4" />
+                <span className="hidden sm:inline">Import</span>
+              </Button>
+            )}
+
+            {onTrace && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onTrace}
+                title="Open the imported trace"
+              >
+                <Flame className="h-4 w-4" />
+                <span className="hidden sm:inline">Trace</span>
+              </Button>
+            )}
+
             {onExport && (
               <Button variant="outline" size="sm" onClick={onExport}>
                 <Download className="h-4 w-4" />
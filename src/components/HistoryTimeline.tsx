@@ -2,8 +2,9 @@
 
 import { PerformanceEntry } from '@/types';
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
-import { cn } from '@/lib/utils';
+import { cn, hasLabScore } from '@/lib/utils';
 import { Clock, TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { SourceBadge } from './SourceBadge';
 import { formatDistanceToNow } from 'date-fns';
 
 interface HistoryTimelineProps {
@@ -22,11 +23,12 @@ export function HistoryTimeline({
   const displayEntries = entries.slice(0, maxItems);
 
   const getScoreChange = (index: number) => {
-    if (index >= displayEntries.length - 1) return null;
+    // Compare with the previous lab run; HAR imports have no lab score
+    const entry = displayEntries[index];
+    const previousEntry = displayEntries.slice(index + 1).find(hasLabScore);
+    if (!hasLabScore(entry) || !previousEntry) return null;
 
-    const current = displayEntries[index].overallScore;
-    const previous = displayEntries[index + 1].overallScore;
-    const diff = current - previous;
+    const diff = entry.overallScore - previousEntry.overallScore;
 
     if (Math.abs(diff) < 1) {
       return { icon: Minus, color: 'text-muted-foreground', value: 0 };
@@ -95,7 +97,7 @@ export function HistoryTimeline({
                   <div
                     className={cn(
                       'absolute left-2.5 top-4 h-4 w-4 rounded-full border-2 border-background',
-                      getScoreColor(entry.overallScore)
+                      hasLabScore(entry) ? getScoreColor(entry.overallScore) : 'bg-muted-foreground'
                     )}
                   />
 
@@ -110,16 +112,20 @@ export function HistoryTimeline({
                     </div>
 
                     <div className="flex items-center gap-2">
-                      <span
-                        className={cn(
-                          'text-lg font-bold',
-                          entry.overallScore >= 90 && 'text-success',
-                          entry.overallScore >= 50 && entry.overallScore < 90 && 'text-warning',
-                          entry.overallScore < 50 && 'text-destructive'
-                        )}
-                      >
-                        {Math.round(entry.overallScore)}
-                      </span>
+                      {hasLabScore(entry) ? (
+                        <span
+                          className={cn(
+                            'text-lg font-bold',
+                            entry.overallScore >= 90 && 'text-success',
+                            entry.overallScore >= 50 && entry.overallScore < 90 && 'text-warning',
+                            entry.overallScore < 50 && 'text-destructive'
+                          )}
+                        >
+                          {Math.round(entry.overallScore)}
+                        </span>
+                      ) : (
+                        <SourceBadge source={entry.source} />
+                      )}
 
                       {scoreChange && (
                         <div className={cn('flex items-center', scoreChange.color)}>
@@ -0,0 +1,249 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { PerformanceEntry } from "@/types";
+import { cn } from "@/lib/utils";
+import { parseHar } from "@/lib/har";
+import { importLighthouseReport } from "@/lib/lighthouseReportsClient";
+import { TraceProfile, parseTrace } from "@/lib/trace";
+import type { LoadedTrace } from "./TraceViewer";
+import { X, Upload, FolderOpen, CheckCircle, XCircle } from "lucide-react";
+
+type ImportedEntry = Omit<PerformanceEntry, "id"> & { id?: string };
+
+interface ImportResult {
+  fileName: string;
+  message?: string;
+  error?: string;
+}
+
+interface ImportPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (entries: ImportedEntry[]) => void;
+  onTrace?: (trace: LoadedTrace) => void;
+}
+
+// Files picked up from folders; Lighthouse CI also writes HTML reports.
+// DevTools saves traces gzipped.
+const IMPORT_EXTENSIONS = [".har", ".json", ".json.gz"];
+
+const isImportFile = (file: File) =>
+  IMPORT_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext));
+
+async function readText(file: File): Promise<string> {
+  if (!file.name.toLowerCase().endsWith(".gz")) return file.text();
+  const stream = file.stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
+
+// HAR files have a log of entries, Lighthouse reports (and PSI responses
+// wrapping one) a version and traces a list of trace events
+async function parseImport(
+  text: string,
+): Promise<{ entries: ImportedEntry[]; trace?: TraceProfile }> {
+  const json = JSON.parse(text);
+  if (json?.log) return { entries: parseHar(json) };
+  if (json?.lighthouseVersion || json?.lighthouseResult) {
+    return { entries: [await importLighthouseReport(text)] };
+  }
+  if (Array.isArray(json) || json?.traceEvents) {
+    return { entries: [], trace: parseTrace(json) };
+  }
+  throw new Error("Not a HAR file, Lighthouse report or trace");
+}
+
+// Recursively collect the files of dropped folders
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject),
+    );
+    return [file];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // Directory readers return their entries in batches
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const files = await Promise.all(children.map(readEntry));
+  return files.flat().filter(isImportFile);
+}
+
+export function ImportPanel({
+  isOpen,
+  onClose,
+  onImport,
+  onTrace,
+}: ImportPanelProps) {
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const importFile = async (file: File): Promise<ImportResult> => {
+    // Files chosen with a folder keep their path inside it
+    const fileName = file.webkitRelativePath || file.name;
+    try {
+      const { entries, trace } = await parseImport(await readText(file));
+      if (trace) {
+        onTrace?.({ fileName, profile: trace });
+        return {
+          fileName,
+          message: `Trace with ${trace.longTasks.length} long task(s) and ${trace.interactions.length} interaction(s)`,
+        };
+      }
+      onImport(entries);
+      return {
+        fileName,
+        message: `${entries.length} ${entries.length === 1 ? "entry" : "entries"} imported`,
+      };
+    } catch (err) {
+      return {
+        fileName,
+        error:
+          err instanceof SyntaxError
+            ? "Not valid JSON"
+            : err instanceof Error
+              ? err.message
+              : "Import failed",
+      };
+    }
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsImporting(true);
+    const imported: ImportResult[] = [];
+    // One at a time, reports can be large
+    for (const file of files) {
+      imported.push(await importFile(file));
+    }
+    setResults((prev) => [...imported, ...prev]);
+    setIsImporting(false);
+  };
+
+  const handleDrop = async (items: DataTransferItemList) => {
+    // Entries must be taken before the drop event returns
+    const entries = Array.from(items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    const files = await Promise.all(entries.map(readEntry));
+    handleFiles(files.flat());
+  };
+
+  const handleClose = () => {
+    setResults([]);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-lg mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <CardTitle>Import</CardTitle>
+            <Button variant="ghost" size="sm" onClick={handleClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              handleDrop(e.dataTransfer.items);
+            }}
+            className={cn(
+              "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center text-sm text-muted-foreground hover:border-primary/50",
+              isDragging ? "border-primary bg-primary/5" : "border-border",
+            )}
+          >
+            <Upload className="h-6 w-6" />
+            {isImporting
+              ? "Importing..."
+              : "Drop HAR files, Lighthouse reports, traces or folders here, or click to choose"}
+            <span className="text-xs">
+              HAR files come from &ldquo;Export HAR&rdquo; in the DevTools
+              Network panel, reports from{" "}
+              <code>lighthouse --output=json</code> or Lighthouse CI, and
+              traces from &ldquo;Save profile&rdquo; in the Performance panel
+            </span>
+            <input
+              type="file"
+              accept=".har,.json,.gz,application/json"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+          </label>
+
+          <label className="flex cursor-pointer items-center justify-center gap-2 text-sm text-primary hover:underline">
+            <FolderOpen className="h-4 w-4" />
+            Choose a folder
+            <input
+              type="file"
+              multiple
+              className="hidden"
+              // Not in React's input attributes
+              {...{ webkitdirectory: "" }}
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                handleFiles(files.filter(isImportFile));
+                e.target.value = "";
+              }}
+            />
+          </label>
+
+          {results.length > 0 && (
+            <ul className="space-y-2 text-sm">
+              {results.map((result, index) => (
+                <li
+                  key={`${result.fileName}-${index}`}
+                  className="flex items-start gap-2"
+                >
+                  {result.error ? (
+                    <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+                  ) : (
+                    <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-success" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{result.fileName}</p>
+                    <p
+                      className={cn(
+                        "text-xs",
+                        result.error
+                          ? "text-destructive"
+                          : "text-muted-foreground",
+                      )}
+                    >
+                      {result.error ?? result.message}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
 import { PerformanceEntry, getMetricRating } from '@/types';
-import { cn } from '@/lib/utils';
+import { cn, hasLabScore } from '@/lib/utils';
 import {
   TrendingUp,
   TrendingDown,
@@ -38,14 +38,15 @@ export function InsightsSummary({ entries, currentEntry }: InsightsSummaryProps)
     );
   }
 
-  // Calculate insights
-  const avgScore = entries.reduce((sum, e) => sum + e.overallScore, 0) / entries.length;
-  const bestScore = Math.max(...entries.map(e => e.overallScore));
-  const worstScore = Math.min(...entries.map(e => e.overallScore));
+  // Calculate insights from lab runs; HAR imports have no comparable score
+  const labEntries = entries.filter(hasLabScore);
+  const avgScore = labEntries.reduce((sum, e) => sum + e.overallScore, 0) / (labEntries.length || 1);
+  const bestScore = Math.max(...labEntries.map(e => e.overallScore));
+  const worstScore = Math.min(...labEntries.map(e => e.overallScore));
 
   // Find trends (compare last 5 entries)
-  const recentEntries = entries.slice(0, 5);
-  const olderEntries = entries.slice(5, 10);
+  const recentEntries = labEntries.slice(0, 5);
+  const olderEntries = labEntries.slice(5, 10);
 
   let trend: 'up' | 'down' | 'stable' = 'stable';
   if (recentEntries.length > 0 && olderEntries.length > 0) {
@@ -89,13 +90,13 @@ export function InsightsSummary({ entries, currentEntry }: InsightsSummaryProps)
     {
       icon: BarChart3,
       label: 'Average Score',
-      value: `${Math.round(avgScore)}`,
+      value: labEntries.length > 0 ? `${Math.round(avgScore)}` : '–',
       color: avgScore >= 90 ? 'text-success' : avgScore >= 50 ? 'text-warning' : 'text-destructive',
     },
     {
       icon: Target,
       label: 'Best Score',
-      value: `${Math.round(bestScore)}`,
+      value: labEntries.length > 0 ? `${Math.round(bestScore)}` : '–',
       color: 'text-success',
     },
     {
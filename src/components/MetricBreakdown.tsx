@@ -1,9 +1,11 @@
 'use client';
 
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
-import { PerformanceEntry, METRIC_THRESHOLDS, getMetricRating } from '@/types';
-import { cn } from '@/lib/utils';
+import { PerformanceEntry, METRIC_THRESHOLDS, MetricKey, getMetricRating } from '@/types';
+import { cn, formatMetricValue, getFieldMetric } from '@/lib/utils';
 import { getRatingColor } from '@/lib/utils';
+import { FieldDistribution } from './FieldDistribution';
+import { getMetricTips } from '@/lib/rules';
 
 interface MetricBreakdownProps {
   entry: PerformanceEntry;
@@ -14,73 +16,31 @@ const METRIC_INFO = {
     name: 'Largest Contentful Paint',
     abbr: 'LCP',
     description: 'LCP measures when the largest content element becomes visible. It\'s a key indicator of perceived load speed.',
-    tips: [
-      'Optimize and compress images',
-      'Use next-gen image formats (WebP, AVIF)',
-      'Preload critical resources',
-      'Use a CDN for static assets',
-      'Minimize render-blocking resources',
-    ],
   },
   fcp: {
     name: 'First Contentful Paint',
     abbr: 'FCP',
     description: 'FCP measures when the first content is painted to the screen. It marks when users first see something.',
-    tips: [
-      'Eliminate render-blocking resources',
-      'Inline critical CSS',
-      'Reduce server response time',
-      'Preconnect to required origins',
-      'Avoid large network payloads',
-    ],
   },
   cls: {
     name: 'Cumulative Layout Shift',
     abbr: 'CLS',
     description: 'CLS measures visual stability by tracking unexpected layout shifts during the page lifecycle.',
-    tips: [
-      'Always include size attributes on images/videos',
-      'Reserve space for ad slots',
-      'Avoid inserting content above existing content',
-      'Use CSS aspect-ratio for media',
-      'Preload fonts to avoid FOIT/FOUT',
-    ],
   },
   fid: {
     name: 'First Input Delay',
     abbr: 'FID',
     description: 'FID measures the time from first user interaction to when the browser can respond to it.',
-    tips: [
-      'Break up long JavaScript tasks',
-      'Use web workers for heavy computation',
-      'Reduce JavaScript execution time',
-      'Minimize main thread work',
-      'Keep request counts low',
-    ],
   },
   inp: {
     name: 'Interaction to Next Paint',
     abbr: 'INP',
     description: 'INP measures responsiveness by observing all interactions and reporting the worst latency.',
-    tips: [
-      'Optimize event handlers',
-      'Use requestAnimationFrame for visual updates',
-      'Debounce/throttle rapid events',
-      'Avoid layout thrashing',
-      'Use CSS containment',
-    ],
   },
   ttfb: {
     name: 'Time to First Byte',
     abbr: 'TTFB',
     description: 'TTFB measures the time from request start until the first byte of response is received.',
-    tips: [
-      'Use a CDN',
-      'Optimize server-side code',
-      'Use HTTP/2 or HTTP/3',
-      'Implement caching strategies',
-      'Reduce DNS lookup time',
-    ],
   },
 };
 
@@ -93,6 +53,7 @@ export function MetricBreakdown({ entry }: MetricBreakdownProps) {
         const info = METRIC_INFO[key as keyof typeof METRIC_INFO];
         const threshold = METRIC_THRESHOLDS[info.abbr];
         const rating = getMetricRating(info.abbr, value as number);
+        const field = getFieldMetric(entry, key as MetricKey);
 
         // Calculate percentage for progress bar
         const maxValue = threshold ? threshold.needsImprovement * 1.5 : 100;
@@ -161,17 +122,46 @@ export function MetricBreakdown({ entry }: MetricBreakdownProps) {
                 </div>
               )}
 
+              {/* Lab vs Field */}
+              {field && (
+                <div className="grid gap-4 rounded-lg border border-border p-4 sm:grid-cols-2">
+                  <div>
+                    <p className="text-xs text-muted-foreground">Lab (Lighthouse)</p>
+                    <p className={cn('text-lg font-bold', getRatingColor(rating))}>
+                      {formatMetricValue(info.abbr, value as number)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">
+                      Field p75 ({field.scope === 'page' ? 'this page' : 'whole origin'})
+                    </p>
+                    <p
+                      className={cn(
+                        'text-lg font-bold',
+                        getRatingColor(getMetricRating(info.abbr, field.metric.p75))
+                      )}
+                    >
+                      {formatMetricValue(info.abbr, field.metric.p75)}
+                    </p>
+                  </div>
+                  <FieldDistribution
+                    distribution={field.metric.distribution}
+                    className="sm:col-span-2"
+                  />
+                </div>
+              )}
+
               {/* Description */}
               <p className="text-sm text-muted-foreground">{info.description}</p>
 
               {/* Tips */}
-              {rating !== 'good' && (
+              {rating !== 'good' && getMetricTips(key as MetricKey).length > 0 && (
                 <div className="rounded-lg bg-secondary/50 p-4">
                   <h4 className="mb-2 text-sm font-medium text-foreground">
                     Optimization Tips:
                   </h4>
                   <ul className="space-y-1">
-                    {info.tips.slice(0, 3).map((tip, index) => (
+                    {getMetricTips(key as MetricKey).slice(0, 3).map((tip, index) => (
                       <li key={index} className="flex items-start gap-2 text-sm text-muted-foreground">
                         <span className="mt-1.5 h-1.5 w-1.5 shrink-0 rounded-full bg-primary" />
                         {tip}
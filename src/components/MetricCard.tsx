@@ -2,7 +2,8 @@
 
 import { Card } from './Card';
 import { cn } from '@/lib/utils';
-import { getMetricRating, METRIC_THRESHOLDS } from '@/types';
+import { getMetricRating, METRIC_THRESHOLDS, FieldData, FieldMetric, MetricSpread } from '@/types';
+import { FieldDistribution } from './FieldDistribution';
 import { formatMetricValue, getRatingColor, getRatingBgColor } from '@/lib/utils';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
 
@@ -12,9 +13,11 @@ interface MetricCardProps {
   value: number;
   previousValue?: number;
   description: string;
+  field?: { metric: FieldMetric; scope: FieldData['scope'] };
+  spread?: MetricSpread; // Across the runs of a multi-run analysis
 }
 
-export function MetricCard({ name, fullName, value, previousValue, description }: MetricCardProps) {
+export function MetricCard({ name, fullName, value, previousValue, description, field, spread }: MetricCardProps) {
   const rating = getMetricRating(name, value);
   const threshold = METRIC_THRESHOLDS[name];
 
@@ -59,6 +62,43 @@ export function MetricCard({ name, fullName, value, previousValue, description }
         </span>
       </div>
 
+      {spread && (
+        <div className="mt-2 flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            Range{' '}
+            <span className="font-mono text-foreground">
+              {formatMetricValue(name, spread.min)}–{formatMetricValue(name, spread.max)}
+            </span>
+          </span>
+          <span title="Standard deviation across runs">
+            σ <span className="font-mono text-foreground">{formatMetricValue(name, spread.stddev)}</span>
+          </span>
+        </div>
+      )}
+
+      {field && (
+        <div className="mt-3 space-y-2 rounded-lg bg-secondary/50 p-3">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">
+              Lab <span className="font-mono text-foreground">{formatMetricValue(name, value)}</span>
+            </span>
+            <span className="text-muted-foreground">
+              Field p75{' '}
+              <span
+                className={cn(
+                  'font-mono font-medium',
+                  getRatingColor(getMetricRating(name, field.metric.p75))
+                )}
+              >
+                {formatMetricValue(name, field.metric.p75)}
+              </span>
+              {field.scope === 'origin' && ' (origin)'}
+            </span>
+          </div>
+          <FieldDistribution distribution={field.metric.distribution} />
+        </div>
+      )}
+
       <p className="mt-3 text-xs text-muted-foreground">{description}</p>
 
       {threshold && (
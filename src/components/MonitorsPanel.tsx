@@ -0,0 +1,527 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { StrategyBadge } from "./StrategyToggle";
+import {
+  MetricBudgets,
+  MonitorRun,
+  MonitorRunStatus,
+  Strategy,
+} from "@/types";
+import { cn } from "@/lib/utils";
+import {
+  MonitorWithStatus,
+  createMonitor,
+  deleteMonitor,
+  fetchMonitorRuns,
+  fetchMonitors,
+  runMonitorNow,
+  updateMonitor,
+} from "@/lib/monitorsClient";
+import {
+  X,
+  Plus,
+  Play,
+  Pause,
+  Trash2,
+  Loader2,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react";
+
+interface MonitorsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after a run finishes so the page can pull the new entries
+  onRunComplete?: () => void;
+}
+
+const SCHEDULE_PRESETS = [
+  { value: "@every 15m", label: "Every 15 minutes" },
+  { value: "@hourly", label: "Every hour" },
+  { value: "0 */6 * * *", label: "Every 6 hours" },
+  { value: "@daily", label: "Daily (00:00 UTC)" },
+  { value: "@weekly", label: "Weekly (Sunday 00:00 UTC)" },
+];
+
+const BUDGET_FIELDS: {
+  key: keyof MetricBudgets;
+  label: string;
+  unit: string;
+}[] = [
+  { key: "score", label: "Min score", unit: "" },
+  { key: "lcp", label: "LCP", unit: "ms" },
+  { key: "fcp", label: "FCP", unit: "ms" },
+  { key: "cls", label: "CLS", unit: "" },
+  { key: "inp", label: "INP", unit: "ms" },
+  { key: "ttfb", label: "TTFB", unit: "ms" },
+];
+
+const STATUS_STYLES: Record<
+  MonitorRunStatus,
+  { label: string; className: string; icon: typeof CheckCircle }
+> = {
+  passed: { label: "Passed", className: "text-success", icon: CheckCircle },
+  "over-budget": {
+    label: "Over budget",
+    className: "text-warning",
+    icon: AlertTriangle,
+  },
+  failed: { label: "Failed", className: "text-destructive", icon: XCircle },
+};
+
+function StatusBadge({ status }: { status?: MonitorRunStatus }) {
+  if (!status) {
+    return <span className="text-xs text-muted-foreground">Not run yet</span>;
+  }
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={cn("flex items-center gap-1 text-xs", style.className)}>
+      <style.icon className="h-3.5 w-3.5" />
+      {style.label}
+    </span>
+  );
+}
+
+const emptyForm = {
+  url: "",
+  name: "",
+  schedule: "@daily",
+  strategies: ["mobile"] as Strategy[],
+  budgets: {} as Record<string, string>,
+};
+
+export function MonitorsPanel({
+  isOpen,
+  onClose,
+  onRunComplete,
+}: MonitorsPanelProps) {
+  const [monitors, setMonitors] = useState<MonitorWithStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<MonitorRun[]>([]);
+
+  const reload = useCallback(() => {
+    return fetchMonitors()
+      .then((result) => {
+        setMonitors(result);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load monitors",
+        ),
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    reload();
+    // Pick up scheduled runs while the panel is open
+    const timer = setInterval(reload, 30000);
+    return () => clearInterval(timer);
+  }, [isOpen, reload]);
+
+  if (!isOpen) return null;
+
+  const handleAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+    await reload();
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    const budgets: MetricBudgets = {};
+    for (const [key, value] of Object.entries(form.budgets)) {
+      if (value.trim() !== "") {
+        budgets[key as keyof MetricBudgets] = Number(value);
+      }
+    }
+    await handleAction(async () => {
+      await createMonitor({
+        url: form.url.trim(),
+        name: form.name.trim() || undefined,
+        schedule: form.schedule,
+        strategies: form.strategies,
+        budgets,
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+    });
+    setIsSaving(false);
+  };
+
+  const handleRunNow = (id: string) => {
+    setMonitors((prev) =>
+      prev.map((m) => (m.id === id ? { ...m, running: true } : m)),
+    );
+    handleAction(async () => {
+      await runMonitorNow(id);
+      onRunComplete?.();
+      if (expandedId === id) setRuns(await fetchMonitorRuns(id));
+    });
+  };
+
+  const handleToggleRuns = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setRuns([]);
+    try {
+      setRuns(await fetchMonitorRuns(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load runs");
+    }
+  };
+
+  const toggleStrategy = (strategy: Strategy) => {
+    const strategies = form.strategies.includes(strategy)
+      ? form.strategies.filter((s) => s !== strategy)
+      : [...form.strategies, strategy];
+    setForm({ ...form, strategies });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-3xl mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <div>
+              <CardTitle>Scheduled Monitors</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Run on the server and saved to history, even with this tab
+                closed
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {/* Monitor list */}
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : monitors.length === 0 && !showForm ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No monitors yet. Add one to track a URL on a schedule.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {monitors.map((monitor) => (
+                <div
+                  key={monitor.id}
+                  className={cn(
+                    "rounded-lg border border-border p-4",
+                    !monitor.enabled && "opacity-60",
+                  )}
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{monitor.name}</p>
+                        {monitor.strategies.map((s) => (
+                          <StrategyBadge key={s} strategy={s} />
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {monitor.url}
+                      </p>
+                      <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                        <span className="font-mono">{monitor.schedule}</span>
+                        {monitor.running ? (
+                          <span className="flex items-center gap-1 text-primary">
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            Running
+                          </span>
+                        ) : (
+                          <StatusBadge status={monitor.lastStatus} />
+                        )}
+                        {monitor.enabled && monitor.nextRunAt && (
+                          <span>
+                            Next run{" "}
+                            {formatDistanceToNow(new Date(monitor.nextRunAt), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRunNow(monitor.id)}
+                        disabled={monitor.running}
+                        title="Run now"
+                      >
+                        <Play className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          handleAction(() =>
+                            updateMonitor(monitor.id, {
+                              enabled: !monitor.enabled,
+                            }),
+                          )
+                        }
+                        title={monitor.enabled ? "Pause" : "Resume"}
+                      >
+                        {monitor.enabled ? (
+                          <Pause className="h-4 w-4" />
+                        ) : (
+                          <Play className="h-4 w-4 text-success" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          handleAction(() => deleteMonitor(monitor.id))
+                        }
+                        title="Delete monitor"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleRuns(monitor.id)}
+                        title="Run history"
+                      >
+                        {expandedId === monitor.id ? (
+                          <ChevronUp className="h-4 w-4" />
+                        ) : (
+                          <ChevronDown className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {/* Run history */}
+                  {expandedId === monitor.id && (
+                    <div className="mt-3 border-t border-border pt-3">
+                      {runs.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">
+                          No runs recorded yet.
+                        </p>
+                      ) : (
+                        <ul className="space-y-2 text-xs">
+                          {runs.map((run) => (
+                            <li key={run.id}>
+                              <div className="flex items-center justify-between">
+                                <StatusBadge status={run.status} />
+                                <span className="text-muted-foreground">
+                                  {formatDistanceToNow(
+                                    new Date(run.finishedAt),
+                                    { addSuffix: true },
+                                  )}
+                                </span>
+                              </div>
+                              {run.error && (
+                                <p className="ml-5 text-destructive">
+                                  {run.error}
+                                </p>
+                              )}
+                              {run.violations.map((v, i) => (
+                                <p
+                                  key={i}
+                                  className="ml-5 text-muted-foreground"
+                                >
+                                  {v.metric.toUpperCase()} ({v.strategy}):{" "}
+                                  {v.metric === "cls"
+                                    ? v.actual.toFixed(3)
+                                    : Math.round(v.actual)}{" "}
+                                  vs budget {v.budget}
+                                </p>
+                              ))}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* New monitor form */}
+          {showForm ? (
+            <div className="space-y-4 rounded-lg border border-border bg-secondary/30 p-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium mb-1">URL</label>
+                  <input
+                    type="url"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                    placeholder="https://example.com"
+                    className="w-full rounded-lg bg-secondary border border-border p-2 text-foreground"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Name (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Homepage"
+                    className="w-full rounded-lg bg-secondary border border-border p-2 text-foreground"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Schedule
+                </label>
+                <div className="flex gap-2">
+                  <select
+                    value={
+                      SCHEDULE_PRESETS.some((p) => p.value === form.schedule)
+                        ? form.schedule
+                        : ""
+                    }
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        schedule: e.target.value || form.schedule,
+                      })
+                    }
+                    className="rounded-lg bg-secondary border border-border p-2 text-foreground"
+                  >
+                    {SCHEDULE_PRESETS.map((preset) => (
+                      <option key={preset.value} value={preset.value}>
+                        {preset.label}
+                      </option>
+                    ))}
+                    <option value="">Custom cron</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={form.schedule}
+                    onChange={(e) =>
+                      setForm({ ...form, schedule: e.target.value })
+                    }
+                    placeholder="*/30 * * * *"
+                    className="flex-1 rounded-lg bg-secondary border border-border p-2 font-mono text-sm text-foreground"
+                  />
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Cron expressions are evaluated in UTC. Use &quot;@every
+                  30m&quot; for a fixed interval.
+                </p>
+              </div>
+
+              <div className="flex items-center gap-4 text-sm">
+                <span className="font-medium">Strategies</span>
+                {(["mobile", "desktop"] as const).map((strategy) => (
+                  <label key={strategy} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.strategies.includes(strategy)}
+                      onChange={() => toggleStrategy(strategy)}
+                    />
+                    <span className="capitalize">{strategy}</span>
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Budgets (optional)
+                </label>
+                <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
+                  {BUDGET_FIELDS.map((field) => (
+                    <label key={field.key} className="text-xs">
+                      <span className="text-muted-foreground">
+                        {field.label}
+                        {field.unit && ` (${field.unit})`}
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        step={field.key === "cls" ? "0.01" : "1"}
+                        value={form.budgets[field.key] ?? ""}
+                        onChange={(e) =>
+                          setForm({
+                            ...form,
+                            budgets: {
+                              ...form.budgets,
+                              [field.key]: e.target.value,
+                            },
+                          })
+                        }
+                        className="mt-1 w-full rounded-lg bg-secondary border border-border p-2 text-foreground"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => {
+                    setForm(emptyForm);
+                    setShowForm(false);
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={handleCreate}
+                  disabled={
+                    !form.url.trim() ||
+                    form.strategies.length === 0 ||
+                    isSaving
+                  }
+                >
+                  {isSaving ? "Saving..." : "Create monitor"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setShowForm(true)}
+            >
+              <Plus className="h-4 w-4" />
+              Add monitor
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,102 +1,87 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
-import { PerformanceEntry, METRIC_THRESHOLDS } from '@/types';
-import { cn } from '@/lib/utils';
+import { BudgetCheck, BudgetDefinition, PerformanceEntry } from '@/types';
+import { cn, formatBytes, getEntryStrategy } from '@/lib/utils';
+import { DEFAULT_BUDGET, buildBudgetChecks, findBudget } from '@/lib/budgets';
 import { CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
 
 interface PerformanceBudgetProps {
   entry: PerformanceEntry;
-  budgets?: {
-    lcp?: number;
-    fcp?: number;
-    cls?: number;
-    ttfb?: number;
-    totalSize?: number;
-    requestCount?: number;
-  };
+  budgets?: BudgetDefinition[];
+  onEditBudgets?: () => void;
 }
 
-const DEFAULT_BUDGETS = {
-  lcp: 2500,
-  fcp: 1800,
-  cls: 0.1,
-  ttfb: 800,
-  totalSize: 1000000, // 1MB
-  requestCount: 50,
+const formatCheckValue = (unit: BudgetCheck['unit'], v: number) => {
+  switch (unit) {
+    case 'ms':
+      return `${Math.round(v)}ms`;
+    case 'unitless':
+      return v.toFixed(3);
+    case 'bytes':
+      return formatBytes(v);
+    case 'score':
+      return `${Math.round(v)}`;
+    default:
+      return `${v}`;
+  }
 };
 
-export function PerformanceBudget({ entry, budgets = DEFAULT_BUDGETS }: PerformanceBudgetProps) {
-  const totalSize = entry.resourceTimings.reduce((sum, r) => sum + r.transferSize, 0);
-  const requestCount = entry.resourceTimings.length;
+export function PerformanceBudget({ entry, budgets = [], onEditBudgets }: PerformanceBudgetProps) {
+  const hasFieldData = !!(entry.fieldData?.page || entry.fieldData?.origin);
+  // Field p75 is what users experience, so it is preferred when CrUX has data
+  const [source, setSource] = useState<'field' | 'lab'>('field');
 
-  const checks = [
-    {
-      name: 'LCP',
-      description: 'Largest Contentful Paint',
-      actual: entry.metrics.lcp || 0,
-      budget: budgets.lcp || DEFAULT_BUDGETS.lcp,
-      format: (v: number) => `${Math.round(v)}ms`,
-      threshold: METRIC_THRESHOLDS.LCP,
-    },
-    {
-      name: 'FCP',
-      description: 'First Contentful Paint',
-      actual: entry.metrics.fcp || 0,
-      budget: budgets.fcp || DEFAULT_BUDGETS.fcp,
-      format: (v: number) => `${Math.round(v)}ms`,
-      threshold: METRIC_THRESHOLDS.FCP,
-    },
-    {
-      name: 'CLS',
-      description: 'Cumulative Layout Shift',
-      actual: entry.metrics.cls || 0,
-      budget: budgets.cls || DEFAULT_BUDGETS.cls,
-      format: (v: number) => v.toFixed(3),
-      threshold: METRIC_THRESHOLDS.CLS,
-    },
-    {
-      name: 'TTFB',
-      description: 'Time to First Byte',
-      actual: entry.metrics.ttfb || 0,
-      budget: budgets.ttfb || DEFAULT_BUDGETS.ttfb,
-      format: (v: number) => `${Math.round(v)}ms`,
-      threshold: METRIC_THRESHOLDS.TTFB,
-    },
-    {
-      name: 'Page Size',
-      description: 'Total transfer size',
-      actual: totalSize,
-      budget: budgets.totalSize || DEFAULT_BUDGETS.totalSize,
-      format: (v: number) => `${(v / 1024 / 1024).toFixed(2)}MB`,
-      threshold: { good: 500000, needsImprovement: 1000000 },
-    },
-    {
-      name: 'Requests',
-      description: 'Total HTTP requests',
-      actual: requestCount,
-      budget: budgets.requestCount || DEFAULT_BUDGETS.requestCount,
-      format: (v: number) => `${v}`,
-      threshold: { good: 30, needsImprovement: 50 },
-    },
-  ];
+  const matched = findBudget(budgets, entry.url, getEntryStrategy(entry));
+  const checks = buildBudgetChecks(entry, matched ?? DEFAULT_BUDGET, {
+    useField: hasFieldData && source === 'field',
+  });
 
-  const getStatus = (actual: number, budget: number, threshold: { good: number; needsImprovement: number }) => {
-    if (actual <= threshold.good) return 'pass';
-    if (actual <= budget) return 'warning';
-    return 'fail';
-  };
-
-  const passCount = checks.filter(c => getStatus(c.actual, c.budget, c.threshold) === 'pass').length;
-  const warningCount = checks.filter(c => getStatus(c.actual, c.budget, c.threshold) === 'warning').length;
-  const failCount = checks.filter(c => getStatus(c.actual, c.budget, c.threshold) === 'fail').length;
+  const passCount = checks.filter(c => c.status === 'pass').length;
+  const warningCount = checks.filter(c => c.status === 'warning').length;
+  const failCount = checks.filter(c => c.status === 'fail').length;
 
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle>Performance Budget</CardTitle>
-          <div className="flex gap-4 text-sm">
+          <div>
+            <CardTitle>Performance Budget</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {matched ? (
+                <>
+                  {matched.name} <span className="font-mono">({matched.path})</span>
+                </>
+              ) : (
+                'Default budget'
+              )}
+              {onEditBudgets && (
+                <button onClick={onEditBudgets} className="ml-2 text-primary hover:underline">
+                  Edit budgets
+                </button>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            {hasFieldData && (
+              <div className="flex rounded-lg border border-border bg-secondary/50 p-1 text-xs">
+                {(['field', 'lab'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSource(option)}
+                    className={cn(
+                      'rounded-md px-2.5 py-1 font-medium transition-colors',
+                      source === option
+                        ? 'bg-primary text-primary-foreground'
+                        : 'text-muted-foreground hover:text-foreground'
+                    )}
+                  >
+                    {option === 'field' ? 'Field p75' : 'Lab'}
+                  </button>
+                ))}
+              </div>
+            )}
             <span className="flex items-center gap-1 text-success">
               <CheckCircle className="h-4 w-4" /> {passCount} Pass
             </span>
@@ -112,11 +97,16 @@ export function PerformanceBudget({ entry, budgets = DEFAULT_BUDGETS }: Performa
       <CardContent>
         <div className="space-y-4">
           {checks.map((check) => {
-            const status = getStatus(check.actual, check.budget, check.threshold);
-            const percentage = Math.min((check.actual / check.budget) * 100, 150);
+            const status = check.status;
+            // Scores fill up to 100; other checks fill up to their budget
+            const percentage = check.higherIsBetter
+              ? Math.min(check.actual, 100)
+              : check.budget > 0
+                ? Math.min((check.actual / check.budget) * 100, 150)
+                : 150;
 
             return (
-              <div key={check.name} className="space-y-2">
+              <div key={check.id} className="space-y-2">
                 <div className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
                     {status === 'pass' && <CheckCircle className="h-4 w-4 text-success" />}
@@ -124,40 +114,55 @@ export function PerformanceBudget({ entry, budgets = DEFAULT_BUDGETS }: Performa
                     {status === 'fail' && <XCircle className="h-4 w-4 text-destructive" />}
                     <span className="font-medium">{check.name}</span>
                     <span className="text-muted-foreground">({check.description})</span>
+                    {hasFieldData && (
+                      <span className="rounded bg-secondary px-1.5 py-0.5 text-[10px] uppercase text-muted-foreground">
+                        {check.source}
+                      </span>
+                    )}
                   </div>
-                  <div className="text-right">
-                    <span
-                      className={cn(
-                        'font-mono',
-                        status === 'pass' && 'text-success',
-                        status === 'warning' && 'text-warning',
-                        status === 'fail' && 'text-destructive'
-                      )}
-                    >
-                      {check.format(check.actual)}
+                  {check.mustJustify ? (
+                    <span className="font-mono text-warning">
+                      {formatCheckValue(check.unit, check.actual)}
+                      <span className="text-muted-foreground"> · must justify</span>
                     </span>
-                    <span className="text-muted-foreground"> / {check.format(check.budget)}</span>
-                  </div>
+                  ) : (
+                    <div className="text-right">
+                      <span
+                        className={cn(
+                          'font-mono',
+                          status === 'pass' && 'text-success',
+                          status === 'warning' && 'text-warning',
+                          status === 'fail' && 'text-destructive'
+                        )}
+                      >
+                        {formatCheckValue(check.unit, check.actual)}
+                      </span>
+                      <span className="text-muted-foreground"> / {formatCheckValue(check.unit, check.budget)}</span>
+                    </div>
+                  )}
                 </div>
-                <div className="relative h-2 rounded-full bg-secondary overflow-hidden">
-                  <div
-                    className={cn(
-                      'absolute h-full rounded-full transition-all duration-500',
-                      status === 'pass' && 'bg-success',
-                      status === 'warning' && 'bg-warning',
-                      status === 'fail' && 'bg-destructive'
-                    )}
-                    style={{ width: `${Math.min(percentage, 100)}%` }}
-                  />
-                  {percentage > 100 && (
+                {/* Flagged vendors have no limit to fill up to */}
+                {!check.mustJustify && (
+                  <div className="relative h-2 rounded-full bg-secondary overflow-hidden">
                     <div
-                      className="absolute h-full bg-destructive/50 animate-pulse"
-                      style={{ left: '100%', width: `${percentage - 100}%` }}
+                      className={cn(
+                        'absolute h-full rounded-full transition-all duration-500',
+                        status === 'pass' && 'bg-success',
+                        status === 'warning' && 'bg-warning',
+                        status === 'fail' && 'bg-destructive'
+                      )}
+                      style={{ width: `${Math.min(percentage, 100)}%` }}
                     />
-                  )}
-                  {/* Budget line */}
-                  <div className="absolute right-0 top-0 h-full w-0.5 bg-foreground/50" />
-                </div>
+                    {percentage > 100 && (
+                      <div
+                        className="absolute h-full bg-destructive/50 animate-pulse"
+                        style={{ left: '100%', width: `${percentage - 100}%` }}
+                      />
+                    )}
+                    {/* Budget line */}
+                    <div className="absolute right-0 top-0 h-full w-0.5 bg-foreground/50" />
+                  </div>
+                )}
               </div>
             );
           })}
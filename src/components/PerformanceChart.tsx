@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
 import {
   LineChart,
@@ -11,127 +12,271 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import { HistoricalData } from '@/types';
-import { format, parseISO } from 'date-fns';
+import { PerformanceEntry, Strategy } from '@/types';
+import { format, parseISO, subDays } from 'date-fns';
+import {
+  TrendAggregation,
+  TrendInterval,
+  TrendMetric,
+  computeTrends,
+} from '@/lib/trends';
+import { fetchEntries } from '@/lib/entriesClient';
+import { StrategyToggle } from './StrategyToggle';
 
 interface PerformanceChartProps {
-  data: HistoricalData[];
-  metric?: 'all' | 'lcp' | 'fcp' | 'cls' | 'ttfb' | 'score';
+  entries: PerformanceEntry[];
+  url?: string;
 }
 
+const METRICS: { id: TrendMetric; label: string }[] = [
+  { id: 'score', label: 'Score' },
+  { id: 'lcp', label: 'LCP' },
+  { id: 'fcp', label: 'FCP' },
+  { id: 'cls', label: 'CLS' },
+  { id: 'inp', label: 'INP' },
+  { id: 'ttfb', label: 'TTFB' },
+];
+
+const AGGREGATIONS: { id: TrendAggregation; label: string }[] = [
+  { id: 'median', label: 'Median' },
+  { id: 'p75', label: 'p75' },
+  { id: 'min', label: 'Min' },
+  { id: 'max', label: 'Max' },
+];
+
+const RANGES = [
+  { id: '7', label: 'Last 7 days' },
+  { id: '30', label: 'Last 30 days' },
+  { id: '90', label: 'Last 90 days' },
+  { id: 'all', label: 'All time' },
+];
+
 const COLORS = {
-  lcp: '#3b82f6',
-  fcp: '#8b5cf6',
-  cls: '#22d3ee',
-  ttfb: '#f59e0b',
-  score: '#22c55e',
+  value: '#3b82f6',
+  range: '#94a3b8',
 };
 
-export function PerformanceChart({ data, metric = 'all' }: PerformanceChartProps) {
-  const formatDate = (dateStr: string) => {
-    try {
-      return format(parseISO(dateStr), 'MMM d');
-    } catch {
-      return dateStr;
-    }
-  };
-
-  const formatValue = (value: number, name: string) => {
-    if (name === 'cls') return value.toFixed(3);
-    if (name === 'score') return `${Math.round(value)}%`;
-    return `${Math.round(value)}ms`;
-  };
-
-  const CustomTooltip = ({ active, payload, label }: { active?: boolean; payload?: Array<{ name: string; value: number; color: string }>; label?: string }) => {
-    if (active && payload && payload.length) {
-      return (
-        <div className="rounded-lg border border-border bg-card p-3 shadow-lg">
-          <p className="mb-2 text-sm font-medium text-card-foreground">
-            {label ? formatDate(label) : ''}
-          </p>
-          {payload.map((entry, index) => (
-            <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name.toUpperCase()}: {formatValue(entry.value, entry.name)}
-            </p>
-          ))}
-        </div>
-      );
-    }
-    return null;
-  };
-
-  const getLines = () => {
-    if (metric === 'all') {
-      return (
-        <>
-          <Line
-            type="monotone"
-            dataKey="lcp"
-            stroke={COLORS.lcp}
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 4 }}
-          />
-          <Line
-            type="monotone"
-            dataKey="fcp"
-            stroke={COLORS.fcp}
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 4 }}
-          />
-          <Line
-            type="monotone"
-            dataKey="ttfb"
-            stroke={COLORS.ttfb}
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 4 }}
-          />
-        </>
-      );
-    }
+const formatDate = (dateStr: string) => {
+  try {
+    return format(parseISO(dateStr), 'MMM d');
+  } catch {
+    return dateStr;
+  }
+};
+
+const formatValue = (value: number, metric: TrendMetric) => {
+  if (metric === 'cls') return value.toFixed(3);
+  if (metric === 'score') return `${Math.round(value)}%`;
+  return `${Math.round(value)}ms`;
+};
 
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{ name: string; value: number; color: string; payload: { count: number } }>;
+  label?: string;
+  metric: TrendMetric;
+}
+
+function TrendTooltip({ active, payload, label, metric }: TooltipProps) {
+  if (active && payload && payload.length) {
     return (
-      <Line
-        type="monotone"
-        dataKey={metric}
-        stroke={COLORS[metric]}
-        strokeWidth={2}
-        dot={false}
-        activeDot={{ r: 4 }}
-      />
+      <div className="rounded-lg border border-border bg-card p-3 shadow-lg">
+        <p className="mb-2 text-sm font-medium text-card-foreground">
+          {label ? formatDate(label) : ''}
+        </p>
+        {payload.map((entry, index) => (
+          <p key={index} className="text-sm" style={{ color: entry.color }}>
+            {entry.name}: {formatValue(entry.value, metric)}
+          </p>
+        ))}
+        <p className="mt-1 text-xs text-muted-foreground">
+          {payload[0].payload.count} run(s)
+        </p>
+      </div>
     );
-  };
+  }
+  return null;
+}
+
+const selectClassName =
+  'rounded-lg bg-secondary border border-border px-2 py-1.5 text-sm text-foreground';
+
+export function PerformanceChart({ entries, url }: PerformanceChartProps) {
+  const urls = useMemo(() => Array.from(new Set(entries.map((e) => e.url))), [entries]);
+
+  const [selectedUrl, setSelectedUrl] = useState<string>(url ?? urls[0] ?? '');
+  // Mobile and desktop runs are never plotted on the same series
+  const [strategy, setStrategy] = useState<Strategy>('mobile');
+  const [metric, setMetric] = useState<TrendMetric>('score');
+  const [aggregation, setAggregation] = useState<TrendAggregation>('median');
+  const [interval, setTrendInterval] = useState<TrendInterval>('day');
+  const [range, setRange] = useState('30');
+  const [serverEntries, setServerEntries] = useState<PerformanceEntry[] | null>(null);
+
+  // Follow the analysis selected elsewhere on the page
+  const [trackedUrl, setTrackedUrl] = useState(url);
+  if (url !== trackedUrl) {
+    setTrackedUrl(url);
+    if (url) setSelectedUrl(url);
+  }
+
+  const from = useMemo(
+    () => (range === 'all' ? undefined : subDays(new Date(), Number(range))),
+    [range]
+  );
+
+  // The server holds the full history; the local cache is the fallback
+  useEffect(() => {
+    let cancelled = false;
+    fetchEntries({ url: selectedUrl || undefined, from })
+      .then((result) => {
+        if (!cancelled) setServerEntries(result);
+      })
+      .catch(() => {
+        if (!cancelled) setServerEntries(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedUrl, from, entries]);
+
+  // Local entries not yet synced still count towards today's bucket
+  const history = useMemo(() => {
+    if (!serverEntries) return entries;
+    const ids = new Set(serverEntries.map((e) => e.id));
+    return [...serverEntries, ...entries.filter((e) => !ids.has(e.id))];
+  }, [serverEntries, entries]);
+
+  const points = computeTrends(history, {
+    metric,
+    strategy,
+    interval,
+    url: selectedUrl || undefined,
+    from,
+  });
 
   return (
-    <Card>
+    <Card data-perf-component="PerformanceChart">
       <CardHeader>
         <CardTitle>Performance Trends</CardTitle>
+        <StrategyToggle value={strategy} onChange={setStrategy} />
       </CardHeader>
       <CardContent>
-        <div className="h-[300px] w-full">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-              <XAxis
-                dataKey="date"
-                tickFormatter={formatDate}
-                stroke="#94a3b8"
-                fontSize={12}
-              />
-              <YAxis stroke="#94a3b8" fontSize={12} />
-              <Tooltip content={<CustomTooltip />} />
-              <Legend
-                wrapperStyle={{ paddingTop: '20px' }}
-                formatter={(value) => (
-                  <span className="text-sm text-muted-foreground">{value.toUpperCase()}</span>
-                )}
-              />
-              {getLines()}
-            </LineChart>
-          </ResponsiveContainer>
+        <div className="mb-4 flex flex-wrap gap-2">
+          <select
+            className={`${selectClassName} max-w-[240px]`}
+            value={selectedUrl}
+            onChange={(e) => setSelectedUrl(e.target.value)}
+            aria-label="URL"
+          >
+            <option value="">All URLs</option>
+            {urls.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+          <select
+            className={selectClassName}
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as TrendMetric)}
+            aria-label="Metric"
+          >
+            {METRICS.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={selectClassName}
+            value={aggregation}
+            onChange={(e) => setAggregation(e.target.value as TrendAggregation)}
+            aria-label="Aggregation"
+          >
+            {AGGREGATIONS.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={selectClassName}
+            value={interval}
+            onChange={(e) => setTrendInterval(e.target.value as TrendInterval)}
+            aria-label="Interval"
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+          </select>
+          <select
+            className={selectClassName}
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            aria-label="Date range"
+          >
+            {RANGES.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.label}
+              </option>
+            ))}
+          </select>
         </div>
+
+        {points.length === 0 ? (
+          <p className="flex h-[300px] items-center justify-center text-sm text-muted-foreground">
+            No {strategy} runs in this range yet.
+          </p>
+        ) : (
+          <div className="h-[300px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={formatDate}
+                  stroke="#94a3b8"
+                  fontSize={12}
+                />
+                <YAxis stroke="#94a3b8" fontSize={12} />
+                <Tooltip content={<TrendTooltip metric={metric} />} />
+                <Legend
+                  wrapperStyle={{ paddingTop: '20px' }}
+                  formatter={(value) => (
+                    <span className="text-sm text-muted-foreground">{value}</span>
+                  )}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="min"
+                  name="Min"
+                  stroke={COLORS.range}
+                  strokeDasharray="4 4"
+                  strokeWidth={1}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="max"
+                  name="Max"
+                  stroke={COLORS.range}
+                  strokeDasharray="4 4"
+                  strokeWidth={1}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey={aggregation}
+                  name={AGGREGATIONS.find((a) => a.id === aggregation)?.label}
+                  stroke={COLORS.value}
+                  strokeWidth={2}
+                  dot={points.length < 20}
+                  activeDot={{ r: 4 }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,11 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
-import { PerformanceEntry } from '@/types';
+import { PerformanceEntry, Strategy } from '@/types';
 import { formatDistanceToNow } from 'date-fns';
 import { ExternalLink, Trash2 } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { cn, filterByStrategy, getEntryStrategy, hasLabScore } from '@/lib/utils';
 import { Button } from './Button';
+import { StrategyToggle, StrategyBadge } from './StrategyToggle';
+import { SourceBadge } from './SourceBadge';
 
 interface RecentAnalysesProps {
   entries: PerformanceEntry[];
@@ -15,6 +18,9 @@ interface RecentAnalysesProps {
 }
 
 export function RecentAnalyses({ entries, onSelect, onDelete, selectedId }: RecentAnalysesProps) {
+  const [strategy, setStrategy] = useState<Strategy | 'all'>('all');
+  const visibleEntries = filterByStrategy(entries, strategy);
+
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-success bg-success/20';
     if (score >= 50) return 'text-warning bg-warning/20';
@@ -25,15 +31,18 @@ export function RecentAnalyses({ entries, onSelect, onDelete, selectedId }: Rece
     <Card>
       <CardHeader>
         <CardTitle>Recent Analyses</CardTitle>
+        <StrategyToggle value={strategy} onChange={setStrategy} includeAll />
       </CardHeader>
       <CardContent>
-        {entries.length === 0 ? (
+        {visibleEntries.length === 0 ? (
           <p className="text-center text-muted-foreground py-8">
-            No analyses yet. Enter a URL above to get started.
+            {entries.length === 0
+              ? 'No analyses yet. Enter a URL above to get started.'
+              : `No ${strategy} analyses yet.`}
           </p>
         ) : (
           <div className="space-y-2 max-h-[400px] overflow-y-auto pr-2">
-            {entries.map((entry) => (
+            {visibleEntries.map((entry) => (
               <div
                 key={entry.id}
                 onClick={() => onSelect(entry)}
@@ -46,18 +55,24 @@ export function RecentAnalyses({ entries, onSelect, onDelete, selectedId }: Rece
                   <div
                     className={cn(
                       'flex h-10 w-10 shrink-0 items-center justify-center rounded-lg text-sm font-bold',
-                      getScoreColor(entry.overallScore)
+                      hasLabScore(entry)
+                        ? getScoreColor(entry.overallScore)
+                        : 'text-muted-foreground bg-secondary'
                     )}
                   >
-                    {Math.round(entry.overallScore)}
+                    {hasLabScore(entry) ? Math.round(entry.overallScore) : '–'}
                   </div>
                   <div className="min-w-0">
                     <p className="truncate text-sm font-medium text-card-foreground">
                       {entry.url}
                     </p>
-                    <p className="text-xs text-muted-foreground">
-                      {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
-                    </p>
+                    <div className="flex items-center gap-2">
+                      <StrategyBadge strategy={getEntryStrategy(entry)} />
+                      <SourceBadge source={entry.source} />
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                      </p>
+                    </div>
                   </div>
                 </div>
                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -1,8 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./Card";
-import { PerformanceEntry, getMetricRating } from "@/types";
+import { AISuggestion, PerformanceEntry } from "@/types";
+import { evaluateRules, sortSuggestions } from "@/lib/rules";
+import { analyzeComponents } from "@/lib/componentAnalysis";
+import { FRAMEWORK_LABELS, getEntryFramework } from "@/lib/frameworks";
 import {
   AlertTriangle,
   CheckCircle,
@@ -12,7 +15,7 @@ import {
   ChevronUp,
   ExternalLink,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, hasLabScore } from "@/lib/utils";
 
 interface RecommendationsProps {
   entry: PerformanceEntry | null;
@@ -23,142 +26,43 @@ interface Recommendation {
   title: string;
   description: string;
   actions?: string[];
+  codeExample?: string;
   learnMoreUrl?: string;
 }
 
+const RECOMMENDATION_TYPES: Record<
+  AISuggestion["priority"],
+  Recommendation["type"]
+> = {
+  critical: "critical",
+  high: "warning",
+  medium: "warning",
+  low: "info",
+};
+
 export function Recommendations({ entry }: RecommendationsProps) {
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const components = useMemo(
+    () => (entry ? analyzeComponents(entry) : []),
+    [entry],
+  );
 
   const getRecommendations = (): Recommendation[] => {
     if (!entry) return [];
 
-    const recommendations: Recommendation[] = [];
-    const { metrics } = entry;
-
-    // LCP recommendations
-    if (metrics.lcp) {
-      const lcpRating = getMetricRating("LCP", metrics.lcp);
-      if (lcpRating === "poor") {
-        recommendations.push({
-          type: "critical",
-          title: "Optimize Largest Contentful Paint",
-          description:
-            "Your LCP is too slow. The largest element takes too long to render.",
-          actions: [
-            "Optimize and compress images (use WebP/AVIF)",
-            "Use a CDN to serve static assets",
-            "Preload critical resources",
-            "Remove render-blocking JavaScript",
-          ],
-          learnMoreUrl: "https://web.dev/lcp/",
-        });
-      } else if (lcpRating === "needs-improvement") {
-        recommendations.push({
-          type: "warning",
-          title: "Improve LCP Performance",
-          description:
-            "Your LCP could be better. Try optimizing the largest content element.",
-          actions: [
-            "Lazy load non-critical images",
-            "Preload the LCP image",
-            "Use responsive images with srcset",
-          ],
-          learnMoreUrl: "https://web.dev/lcp/",
-        });
-      }
-    }
-
-    // CLS recommendations
-    if (metrics.cls !== undefined) {
-      const clsRating = getMetricRating("CLS", metrics.cls);
-      if (clsRating === "poor") {
-        recommendations.push({
-          type: "critical",
-          title: "Fix Layout Shifts",
-          description:
-            "High CLS detected. Elements are moving during page load.",
-          actions: [
-            "Add width/height to images and videos",
-            "Reserve space for ads and embeds",
-            "Avoid inserting content above existing content",
-            "Preload fonts to prevent FOUT/FOIT",
-          ],
-          learnMoreUrl: "https://web.dev/cls/",
-        });
-      } else if (clsRating === "needs-improvement") {
-        recommendations.push({
-          type: "warning",
-          title: "Reduce Layout Shifts",
-          description:
-            "Consider using CSS aspect-ratio and reserving space for dynamic content.",
-          actions: [
-            "Use CSS aspect-ratio for media",
-            "Set explicit sizes on images",
-          ],
-          learnMoreUrl: "https://web.dev/cls/",
-        });
-      }
-    }
-
-    // TTFB recommendations
-    if (metrics.ttfb) {
-      const ttfbRating = getMetricRating("TTFB", metrics.ttfb);
-      if (ttfbRating === "poor") {
-        recommendations.push({
-          type: "critical",
-          title: "Reduce Server Response Time",
-          description:
-            "High TTFB detected. Your server is taking too long to respond.",
-          actions: [
-            "Use a Content Delivery Network (CDN)",
-            "Optimize database queries",
-            "Enable HTTP/2 or HTTP/3",
-            "Implement server-side caching",
-          ],
-          learnMoreUrl: "https://web.dev/ttfb/",
-        });
-      }
-    }
-
-    // FCP recommendations
-    if (metrics.fcp) {
-      const fcpRating = getMetricRating("FCP", metrics.fcp);
-      if (fcpRating === "poor") {
-        recommendations.push({
-          type: "warning",
-          title: "Improve First Contentful Paint",
-          description:
-            "Eliminate render-blocking resources and inline critical CSS.",
-          actions: [
-            "Inline critical CSS in the <head>",
-            "Defer non-critical JavaScript",
-            "Remove unused CSS",
-          ],
-          learnMoreUrl: "https://web.dev/fcp/",
-        });
-      }
-    }
-
-    // INP recommendations
-    if (metrics.inp) {
-      const inpRating = getMetricRating("INP", metrics.inp);
-      if (inpRating === "poor") {
-        recommendations.push({
-          type: "critical",
-          title: "Improve Interaction Responsiveness",
-          description: "Your page is slow to respond to user interactions.",
-          actions: [
-            "Break up long tasks into smaller chunks",
-            "Use web workers for heavy computations",
-            "Optimize event handlers",
-          ],
-          learnMoreUrl: "https://web.dev/inp/",
-        });
-      }
-    }
+    const recommendations: Recommendation[] = sortSuggestions(
+      evaluateRules({ entry, components }),
+    ).map((suggestion) => ({
+      type: RECOMMENDATION_TYPES[suggestion.priority],
+      title: suggestion.title,
+      description: suggestion.description,
+      actions: suggestion.actions,
+      codeExample: suggestion.codeExample,
+      learnMoreUrl: suggestion.learnMoreUrl,
+    }));
 
     // Add success if everything is good
-    if (entry.overallScore >= 90) {
+    if (hasLabScore(entry) && entry.overallScore >= 90) {
       recommendations.push({
         type: "success",
         title: "Excellent Performance!",
@@ -191,6 +95,7 @@ export function Recommendations({ entry }: RecommendationsProps) {
   };
 
   const recommendations = getRecommendations();
+  const framework = entry ? getEntryFramework(entry) : undefined;
 
   const getIcon = (type: Recommendation["type"]) => {
     switch (type) {
@@ -229,6 +134,7 @@ export function Recommendations({ entry }: RecommendationsProps) {
           <span>Recommendations</span>
           {entry && recommendations.length > 0 && (
             <span className="text-xs font-normal text-muted-foreground">
+              {framework && `${FRAMEWORK_LABELS[framework]} · `}
               {recommendations.length} item
               {recommendations.length !== 1 ? "s" : ""}
             </span>
@@ -293,6 +199,11 @@ export function Recommendations({ entry }: RecommendationsProps) {
                         </li>
                       ))}
                     </ul>
+                    {rec.codeExample && (
+                      <pre className="mt-2 max-h-64 overflow-auto rounded-lg border border-border bg-background p-3 text-xs">
+                        <code>{rec.codeExample}</code>
+                      </pre>
+                    )}
                     {rec.learnMoreUrl && (
                       <a
                         href={rec.learnMoreUrl}
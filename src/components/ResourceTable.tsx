@@ -38,6 +38,7 @@ export function ResourceTable({ resources }: ResourceTableProps) {
               <tr className="border-b border-border text-left text-sm text-muted-foreground">
                 <th className="pb-3 pr-4">Resource</th>
                 <th className="pb-3 pr-4">Type</th>
+                <th className="pb-3 pr-4">Priority</th>
                 <th className="pb-3 pr-4">Duration</th>
                 <th className="pb-3">Size</th>
               </tr>
@@ -51,16 +52,32 @@ export function ResourceTable({ resources }: ResourceTableProps) {
                   <td className="py-3 pr-4">
                     <div className="flex items-center gap-2">
                       {getResourceIcon(resource.initiatorType)}
-                      <span className="max-w-[200px] truncate text-card-foreground">
+                      <span
+                        className="max-w-[200px] truncate text-card-foreground"
+                        title={resource.name}
+                      >
                         {resource.name.split('/').pop() || resource.name}
                       </span>
+                      {resource.renderBlocking && (
+                        <span className="rounded bg-destructive/20 px-1.5 py-0.5 text-[10px] font-medium text-destructive">
+                          Blocking
+                        </span>
+                      )}
                     </div>
+                    {resource.origin && (
+                      <p className="ml-6 max-w-[200px] truncate text-xs text-muted-foreground">
+                        {resource.origin}
+                      </p>
+                    )}
                   </td>
                   <td className="py-3 pr-4">
                     <span className="rounded-full bg-secondary px-2 py-1 text-xs capitalize">
                       {resource.initiatorType}
                     </span>
                   </td>
+                  <td className="py-3 pr-4 text-xs text-muted-foreground">
+                    {resource.priority || '–'}
+                  </td>
                   <td className="py-3 pr-4 font-mono text-warning">
                     {formatDuration(resource.duration)}
                   </td>
@@ -0,0 +1,415 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { Tabs } from "./Tabs";
+import { getMetricRating } from "@/types";
+import { cn, formatMetricValue, getRatingColor } from "@/lib/utils";
+import {
+  RUM_METRICS,
+  RumSummary,
+  RumSummaryRow,
+  SELF_RUM_SITE,
+  buildRumSnippet,
+} from "@/lib/rum";
+import { RUM_ENDPOINT, fetchRumSummary } from "@/lib/rumClient";
+import {
+  X,
+  Loader2,
+  RefreshCw,
+  FileText,
+  Smartphone,
+  Navigation,
+  Code,
+  Copy,
+  Check,
+  MousePointerClick,
+} from "lucide-react";
+
+interface RumDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const RANGE_OPTIONS = [
+  { days: 1, label: "Last 24 hours" },
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+];
+
+type RumView = "sites" | "self";
+
+const inputClassName =
+  "rounded-lg bg-secondary border border-border p-2 text-sm text-foreground";
+
+function formatPage(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+export function RumDashboard({ isOpen, onClose }: RumDashboardProps) {
+  const [summary, setSummary] = useState<RumSummary | null>(null);
+  // "self" shows the dashboard's own Web Vitals (see WebVitalsReporter)
+  const [view, setView] = useState<RumView>("sites");
+  const [site, setSite] = useState("");
+  const [days, setDays] = useState(7);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showSetup, setShowSetup] = useState(false);
+  const [snippetSite, setSnippetSite] = useState("");
+  const [sampleRate, setSampleRate] = useState("1");
+  const [copied, setCopied] = useState(false);
+
+  const reload = useCallback(() => {
+    return fetchRumSummary({
+      site: view === "self" ? SELF_RUM_SITE : site,
+      days,
+    })
+      .then((next) => {
+        setSummary(next);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load RUM data"),
+      )
+      .finally(() => setIsLoading(false));
+  }, [view, site, days]);
+
+  useEffect(() => {
+    if (isOpen) reload();
+  }, [isOpen, reload]);
+
+  if (!isOpen) return null;
+
+  const snippet = buildRumSnippet(`${window.location.origin}${RUM_ENDPOINT}`, {
+    site: snippetSite.trim(),
+    sampleRate: Math.min(Math.max(Number(sampleRate) || 0, 0), 1),
+  });
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(snippet);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const renderTable = (
+    rows: RumSummaryRow[],
+    label: string,
+    formatKey: (key: string) => string = (key) => key,
+    metrics = RUM_METRICS,
+  ) =>
+    rows.length === 0 ? (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No beacons in this period.
+      </p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-xs text-muted-foreground">
+              <th className="py-2 text-left">{label}</th>
+              <th className="py-2 text-right">Views</th>
+              {metrics.map((name) => (
+                <th key={name} className="py-2 text-right">
+                  {name} p75
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b border-border/50">
+                <td
+                  className="max-w-[260px] truncate py-2 pr-3"
+                  title={row.key}
+                >
+                  {formatKey(row.key)}
+                </td>
+                <td className="py-2 text-right font-mono">{row.pageViews}</td>
+                {metrics.map((name) => {
+                  const metric = row.metrics[name];
+                  return (
+                    <td
+                      key={name}
+                      className="py-2 text-right font-mono"
+                      title={metric ? `${metric.count} samples` : undefined}
+                    >
+                      {metric ? (
+                        <span
+                          className={getRatingColor(
+                            getMetricRating(name, metric.p75),
+                          )}
+                        >
+                          {formatMetricValue(name, metric.p75)}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">–</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+
+  const renderOverall = (overall?: RumSummaryRow) => (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+      {RUM_METRICS.map((name) => {
+        const metric = overall?.metrics[name];
+        return (
+          <div key={name} className="rounded-lg bg-secondary/50 p-3">
+            <p className="text-xs text-muted-foreground">{name} p75</p>
+            <p
+              className={cn(
+                "text-xl font-bold",
+                metric
+                  ? getRatingColor(getMetricRating(name, metric.p75))
+                  : "text-muted-foreground",
+              )}
+            >
+              {metric ? formatMetricValue(name, metric.p75) : "–"}
+            </p>
+            {metric && (
+              <p className="text-xs text-muted-foreground">
+                {metric.count} samples
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderSelf = (data: RumSummary) => (
+    <div className="space-y-4">
+      {renderOverall(data.overall)}
+      <Tabs
+        tabs={[
+          {
+            id: "components",
+            label: "Component Interactions",
+            icon: <MousePointerClick className="h-4 w-4" />,
+          },
+          {
+            id: "devices",
+            label: "Devices",
+            icon: <Smartphone className="h-4 w-4" />,
+          },
+        ]}
+      >
+        {(activeTab) =>
+          activeTab === "components" ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Slowest interaction per page view inside each heavy
+                component, from click or key press to the next paint.
+              </p>
+              {renderTable(data.components, "Component", undefined, ["INP"])}
+            </div>
+          ) : (
+            renderTable(data.devices, "Device")
+          )
+        }
+      </Tabs>
+    </div>
+  );
+
+  const renderSites = (data: RumSummary) => (
+    <Tabs
+      tabs={[
+        {
+          id: "pages",
+          label: "Pages",
+          icon: <FileText className="h-4 w-4" />,
+        },
+        {
+          id: "devices",
+          label: "Devices",
+          icon: <Smartphone className="h-4 w-4" />,
+        },
+        {
+          id: "navigation",
+          label: "Navigation Types",
+          icon: <Navigation className="h-4 w-4" />,
+        },
+      ]}
+    >
+      {(activeTab) =>
+        activeTab === "pages"
+          ? renderTable(data.pages, "Page", formatPage)
+          : activeTab === "devices"
+            ? renderTable(data.devices, "Device")
+            : renderTable(data.navigationTypes, "Navigation")
+      }
+    </Tabs>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-5xl mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <div>
+              <CardTitle>Real User Monitoring</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                75th percentile of Web Vitals reported by visitors&apos;
+                browsers
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex rounded-lg border border-border bg-secondary/50 p-1 text-sm">
+              {(
+                [
+                  ["sites", "Your sites"],
+                  ["self", "This app"],
+                ] as const
+              ).map(([option, label]) => (
+                <button
+                  key={option}
+                  onClick={() => {
+                    setView(option);
+                    setShowSetup(false);
+                  }}
+                  className={cn(
+                    "rounded-md px-3 py-1 font-medium transition-colors",
+                    view === option
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:text-foreground",
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {view === "sites" && (
+              <select
+                value={site}
+                onChange={(e) => setSite(e.target.value)}
+                className={inputClassName}
+                aria-label="Site"
+              >
+                <option value="">All sites</option>
+                {summary?.sites.map((key) => (
+                  <option key={key} value={key}>
+                    {key}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className={inputClassName}
+              aria-label="Period"
+            >
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button variant="ghost" size="sm" onClick={() => reload()}>
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+            {summary && (
+              <span className="text-sm text-muted-foreground">
+                {summary.pageViews} page views
+              </span>
+            )}
+            {view === "sites" && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={() => setShowSetup(!showSetup)}
+              >
+                <Code className="h-4 w-4" />
+                {showSetup ? "Hide snippet" : "Add to a site"}
+              </Button>
+            )}
+          </div>
+
+          {showSetup && (
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <p className="text-sm text-muted-foreground">
+                Paste this into the pages you want to measure. Metrics are
+                sent once per page view, when the page is hidden.
+              </p>
+              <div className="flex flex-wrap gap-3">
+                <label className="text-sm">
+                  <span className="mr-2 font-medium">Site key</span>
+                  <input
+                    type="text"
+                    value={snippetSite}
+                    onChange={(e) => setSnippetSite(e.target.value)}
+                    placeholder="optional, e.g. shop"
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="text-sm">
+                  <span className="mr-2 font-medium">Sample rate</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={sampleRate}
+                    onChange={(e) => setSampleRate(e.target.value)}
+                    className={cn(inputClassName, "w-24")}
+                  />
+                </label>
+              </div>
+              <div className="relative">
+                <textarea
+                  readOnly
+                  value={snippet}
+                  rows={10}
+                  className="w-full rounded-lg bg-secondary border border-border p-3 font-mono text-xs text-foreground"
+                />
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="absolute right-2 top-2"
+                  onClick={handleCopy}
+                >
+                  {copied ? (
+                    <Check className="h-4 w-4" />
+                  ) : (
+                    <Copy className="h-4 w-4" />
+                  )}
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            summary &&
+            (view === "self" ? renderSelf(summary) : renderSites(summary))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
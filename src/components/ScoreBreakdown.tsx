@@ -1,7 +1,8 @@
 'use client';
 
 import { Card, CardHeader, CardTitle, CardContent } from './Card';
-import { PerformanceEntry, getMetricRating } from '@/types';
+import { PerformanceEntry, LighthouseCategory, getMetricRating } from '@/types';
+import { ScoreGauge } from './ScoreGauge';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 
 interface ScoreBreakdownProps {
@@ -17,6 +18,13 @@ const WEIGHTS = {
   ttfb: { weight: 10, label: 'TTFB' },
 };
 
+const CATEGORY_LABELS: Record<LighthouseCategory, string> = {
+  performance: 'Performance',
+  accessibility: 'Accessibility',
+  'best-practices': 'Best Practices',
+  seo: 'SEO',
+};
+
 const COLORS = {
   good: '#22c55e',
   'needs-improvement': '#f59e0b',
@@ -46,6 +54,11 @@ export function ScoreBreakdown({ entry }: ScoreBreakdownProps) {
     {} as Record<string, number>
   );
 
+  // Scores reported by Lighthouse itself, in category order
+  const categoryScores = (Object.keys(CATEGORY_LABELS) as LighthouseCategory[])
+    .filter((category) => entry.categoryScores?.[category] !== undefined)
+    .map((category) => [category, entry.categoryScores![category]!] as const);
+
   const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: { name: string; rating: string; actualValue: number; value: number } }> }) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
@@ -117,6 +130,22 @@ export function ScoreBreakdown({ entry }: ScoreBreakdownProps) {
               </div>
             </div>
 
+            {categoryScores.length > 0 && (
+              <div className="rounded-lg bg-secondary/50 p-4">
+                <h4 className="mb-3 font-medium">Lighthouse Categories</h4>
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  {categoryScores.map(([category, score]) => (
+                    <div key={category} className="flex flex-col items-center gap-1">
+                      <ScoreGauge score={score} size="sm" showLabel={false} />
+                      <p className="text-xs text-muted-foreground">
+                        {CATEGORY_LABELS[category]}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="rounded-lg bg-secondary/50 p-4">
               <h4 className="mb-2 font-medium">Weight Distribution</h4>
               <p className="text-sm text-muted-foreground">
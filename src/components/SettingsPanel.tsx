@@ -1,8 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./Card";
 import { Button } from "./Button";
+import { AIProvider } from "@/lib/aiService";
+import type { AIProviderStatus } from "@/lib/aiProviders";
+import { fetchAIProviders } from "@/lib/aiClient";
 import {
   X,
   Save,
@@ -11,23 +14,46 @@ import {
   Key,
   ChevronDown,
   ChevronUp,
+  CalendarClock,
 } from "lucide-react";
 
 interface Settings {
-  autoRefresh: boolean;
-  refreshInterval: number;
   showRecommendations: boolean;
   darkMode: boolean;
   compactView: boolean;
-  aiProvider: "local" | "openai";
-  openaiApiKey: string;
+  aiProvider: AIProvider;
 }
 
+const PROVIDER_LABELS: Record<AIProvider, string> = {
+  local: "Local (Rule-based Analysis)",
+  openai: "OpenAI",
+  anthropic: "Anthropic Claude",
+  custom: "Custom (OpenAI-compatible)",
+};
+
+// Server environment needed to enable each provider
+const PROVIDER_ENV: Record<AIProvider, string> = {
+  local: "",
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  custom: "PERF_AI_CUSTOM_ENDPOINT and PERF_AI_CUSTOM_MODEL",
+};
+
+const PROVIDER_DESCRIPTIONS: Record<AIProvider, string> = {
+  local: "Uses built-in rules to generate suggestions. No API key required.",
+  openai: "Uses OpenAI for more detailed, context-aware suggestions.",
+  anthropic: "Uses Anthropic Claude for more detailed, context-aware suggestions.",
+  custom:
+    "Uses any OpenAI-compatible endpoint, such as a local Ollama, LM Studio or vLLM server.",
+};
+
+
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   settings: Settings;
   onSave: (settings: Settings) => void;
+  onOpenMonitors?: () => void;
 }
 
 export function SettingsPanel({
@@ -35,13 +61,24 @@ export function SettingsPanel({
   onClose,
   settings,
   onSave,
+  onOpenMonitors,
 }: SettingsPanelProps) {
+  // Built field by field so keys saved by older versions are dropped
   const [localSettings, setLocalSettings] = useState<Settings>({
-    ...settings,
+    showRecommendations: settings.showRecommendations,
+    darkMode: settings.darkMode,
+    compactView: settings.compactView,
     aiProvider: settings.aiProvider || "local",
-    openaiApiKey: settings.openaiApiKey || "",
   });
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [providers, setProviders] = useState<AIProviderStatus[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchAIProviders()
+      .then(setProviders)
+      .catch((error) => console.error("Failed to load AI providers:", error));
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
@@ -52,13 +89,10 @@ export function SettingsPanel({
 
   const handleReset = () => {
     const defaultSettings: Settings = {
-      autoRefresh: false,
-      refreshInterval: 30,
       showRecommendations: true,
       darkMode: true,
       compactView: false,
       aiProvider: "local",
-      openaiApiKey: "",
     };
     setLocalSettings(defaultSettings);
   };
@@ -75,49 +109,26 @@ export function SettingsPanel({
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Auto Refresh */}
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="font-medium">Auto Refresh</p>
-              <p className="text-sm text-muted-foreground">
-                Automatically refresh analysis
-              </p>
-            </div>
-            <label className="relative inline-flex cursor-pointer items-center">
-              <input
-                type="checkbox"
-                checked={localSettings.autoRefresh}
-                onChange={(e) =>
-                  setLocalSettings({
-                    ...localSettings,
-                    autoRefresh: e.target.checked,
-                  })
-                }
-                className="peer sr-only"
-              />
-              <div className="peer h-6 w-11 rounded-full bg-secondary after:absolute after:left-[2px] after:top-[2px] after:h-5 after:w-5 after:rounded-full after:bg-white after:transition-all after:content-[''] peer-checked:bg-primary peer-checked:after:translate-x-full" />
-            </label>
-          </div>
-
-          {/* Refresh Interval */}
-          {localSettings.autoRefresh && (
-            <div>
-              <label className="block font-medium mb-2">
-                Refresh Interval (seconds)
-              </label>
-              <input
-                type="number"
-                min="10"
-                max="300"
-                value={localSettings.refreshInterval}
-                onChange={(e) =>
-                  setLocalSettings({
-                    ...localSettings,
-                    refreshInterval: parseInt(e.target.value) || 30,
-                  })
-                }
-                className="w-full rounded-lg bg-secondary border border-border p-3 text-foreground"
-              />
+          {/* Scheduled Monitors */}
+          {onOpenMonitors && (
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">Scheduled Monitors</p>
+                <p className="text-sm text-muted-foreground">
+                  Re-run analyses on the server on a schedule
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onClose();
+                  onOpenMonitors();
+                }}
+              >
+                <CalendarClock className="h-4 w-4" />
+                Manage
+              </Button>
             </div>
           )}
 
@@ -196,46 +207,50 @@ export function SettingsPanel({
                   onChange={(e) =>
                     setLocalSettings({
                       ...localSettings,
-                      aiProvider: e.target.value as "local" | "openai",
+                      aiProvider: e.target.value as Settings["aiProvider"],
                     })
                   }
                   className="w-full rounded-lg bg-secondary border border-border p-3 text-foreground"
                 >
-                  <option value="local">Local (Rule-based Analysis)</option>
-                  <option value="openai">OpenAI GPT-4</option>
+                  {(Object.keys(PROVIDER_LABELS) as AIProvider[]).map(
+                    (id) => {
+                      const status = providers?.find(
+                        (provider) => provider.id === id,
+                      );
+                      return (
+                        <option
+                          key={id}
+                          value={id}
+                          disabled={!!providers && !status?.configured}
+                        >
+                          {PROVIDER_LABELS[id]}
+                          {status?.model ? ` (${status.model})` : ""}
+                          {providers && !status?.configured
+                            ? " – not configured"
+                            : ""}
+                        </option>
+                      );
+                    },
+                  )}
                 </select>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {localSettings.aiProvider === "local"
-                    ? "Uses built-in rules to generate suggestions. No API key required."
-                    : "Uses OpenAI GPT-4 for more detailed, context-aware suggestions."}
+                  {PROVIDER_DESCRIPTIONS[localSettings.aiProvider]}
                 </p>
               </div>
 
-              {/* OpenAI API Key */}
-              {localSettings.aiProvider === "openai" && (
-                <div>
-                  <label className="block font-medium mb-2 flex items-center gap-2">
-                    <Key className="h-4 w-4" />
-                    OpenAI API Key
-                  </label>
-                  <input
-                    type="password"
-                    value={localSettings.openaiApiKey}
-                    onChange={(e) =>
-                      setLocalSettings({
-                        ...localSettings,
-                        openaiApiKey: e.target.value,
-                      })
-                    }
-                    placeholder="sk-..."
-                    className="w-full rounded-lg bg-secondary border border-border p-3 text-foreground font-mono text-sm"
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Your API key is stored locally and never sent to our
-                    servers.
-                  </p>
-                </div>
-              )}
+              <p className="text-xs text-muted-foreground flex gap-2">
+                <Key className="h-4 w-4 shrink-0" />
+                <span>
+                  API keys are read from the server environment and never
+                  sent to the browser.
+                  {providers &&
+                    providers.some((provider) => !provider.configured) &&
+                    ` To enable a provider, set ${providers
+                      .filter((provider) => !provider.configured)
+                      .map((provider) => PROVIDER_ENV[provider.id])
+                      .join(", ")} on the server.`}
+                </span>
+              </p>
             </div>
           )}
 
@@ -0,0 +1,32 @@
+'use client';
+
+import { EntrySource } from '@/types';
+import { Gauge, Network } from 'lucide-react';
+
+const SOURCES: Record<EntrySource, { label: string; title: string; icon: typeof Gauge }> = {
+  har: {
+    label: 'HAR',
+    title: 'Imported from a HAR file: timings only, no lab score',
+    icon: Network,
+  },
+  lighthouse: {
+    label: 'Lighthouse',
+    title: 'Imported from a Lighthouse report',
+    icon: Gauge,
+  },
+};
+
+// How an imported entry was captured; PageSpeed runs show no badge
+export function SourceBadge({ source }: { source?: EntrySource }) {
+  if (!source) return null;
+  const { label, title, icon: Icon } = SOURCES[source];
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded bg-secondary px-1.5 py-0.5 text-[10px] font-medium uppercase text-muted-foreground"
+      title={title}
+    >
+      <Icon className="h-3 w-3" />
+      {label}
+    </span>
+  );
+}
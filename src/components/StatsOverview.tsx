@@ -2,6 +2,7 @@
 
 import { Card } from './Card';
 import { PerformanceEntry } from '@/types';
+import { hasLabScore } from '@/lib/utils';
 import { TrendingUp, Clock, Zap, BarChart3 } from 'lucide-react';
 
 interface StatsOverviewProps {
@@ -10,22 +11,24 @@ interface StatsOverviewProps {
 
 export function StatsOverview({ entries }: StatsOverviewProps) {
   const calculateStats = () => {
-    if (entries.length === 0) {
+    // Averages only cover lab runs; HAR imports still count as analyses
+    const labEntries = entries.filter(hasLabScore);
+    if (labEntries.length === 0) {
       return {
         avgScore: 0,
         avgLcp: 0,
-        totalAnalyses: 0,
+        totalAnalyses: entries.length,
         improvement: 0,
       };
     }
 
-    const avgScore = entries.reduce((sum, e) => sum + e.overallScore, 0) / entries.length;
-    const avgLcp = entries.reduce((sum, e) => sum + (e.metrics.lcp || 0), 0) / entries.length;
+    const avgScore = labEntries.reduce((sum, e) => sum + e.overallScore, 0) / labEntries.length;
+    const avgLcp = labEntries.reduce((sum, e) => sum + (e.metrics.lcp || 0), 0) / labEntries.length;
 
     // Calculate improvement (compare first half to second half)
-    const midPoint = Math.floor(entries.length / 2);
-    const recentAvg = entries.slice(0, midPoint).reduce((sum, e) => sum + e.overallScore, 0) / (midPoint || 1);
-    const olderAvg = entries.slice(midPoint).reduce((sum, e) => sum + e.overallScore, 0) / (entries.length - midPoint || 1);
+    const midPoint = Math.floor(labEntries.length / 2);
+    const recentAvg = labEntries.slice(0, midPoint).reduce((sum, e) => sum + e.overallScore, 0) / (midPoint || 1);
+    const olderAvg = labEntries.slice(midPoint).reduce((sum, e) => sum + e.overallScore, 0) / (labEntries.length - midPoint || 1);
     const improvement = recentAvg - olderAvg;
 
     return {
@@ -0,0 +1,69 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { Strategy } from '@/types';
+import { Layers, Monitor, Smartphone } from 'lucide-react';
+
+type StrategyOption = Strategy | 'all';
+
+interface StrategyToggleProps<T extends StrategyOption> {
+  value: T;
+  onChange: (value: T) => void;
+  includeAll?: boolean;
+  className?: string;
+}
+
+const OPTIONS = [
+  { id: 'all', label: 'All', icon: Layers },
+  { id: 'mobile', label: 'Mobile', icon: Smartphone },
+  { id: 'desktop', label: 'Desktop', icon: Monitor },
+] as const;
+
+export function StrategyToggle<T extends StrategyOption>({
+  value,
+  onChange,
+  includeAll = false,
+  className,
+}: StrategyToggleProps<T>) {
+  const options = includeAll ? OPTIONS : OPTIONS.filter((o) => o.id !== 'all');
+
+  return (
+    <div
+      className={cn('inline-flex rounded-lg border border-border bg-secondary/50 p-1', className)}
+      role="radiogroup"
+      aria-label="Device strategy"
+    >
+      {options.map((option) => (
+        <button
+          key={option.id}
+          type="button"
+          role="radio"
+          aria-checked={value === option.id}
+          onClick={() => onChange(option.id as T)}
+          className={cn(
+            'flex items-center gap-1.5 rounded-md px-2.5 py-1 text-xs font-medium transition-colors',
+            value === option.id
+              ? 'bg-primary text-primary-foreground'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          <option.icon className="h-3.5 w-3.5" />
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function StrategyBadge({ strategy }: { strategy: Strategy }) {
+  const Icon = strategy === 'desktop' ? Monitor : Smartphone;
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded bg-secondary px-1.5 py-0.5 text-[10px] font-medium uppercase text-muted-foreground"
+      title={`${strategy} analysis`}
+    >
+      <Icon className="h-3 w-3" />
+      {strategy}
+    </span>
+  );
+}
@@ -12,15 +12,25 @@ interface Tab {
 interface TabsProps {
   tabs: Tab[];
   defaultTab?: string;
+  value?: string; // Controlled active tab
   onChange?: (tabId: string) => void;
   children: (activeTab: string) => ReactNode;
 }
 
-export function Tabs({ tabs, defaultTab, onChange, children }: TabsProps) {
-  const [activeTab, setActiveTab] = useState(defaultTab || tabs[0]?.id || '');
+export function Tabs({
+  tabs,
+  defaultTab,
+  value,
+  onChange,
+  children,
+}: TabsProps) {
+  const [selectedTab, setSelectedTab] = useState(
+    defaultTab || tabs[0]?.id || ''
+  );
+  const activeTab = value ?? selectedTab;
 
   const handleTabChange = (tabId: string) => {
-    setActiveTab(tabId);
+    setSelectedTab(tabId);
     onChange?.(tabId);
   };
 
@@ -0,0 +1,318 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { format } from "date-fns";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { BudgetDefinition, PerformanceEntry } from "@/types";
+import { cn, formatBytes, getEntryStrategy } from "@/lib/utils";
+import { findBudget } from "@/lib/budgets";
+import {
+  THIRD_PARTY_CATEGORY_LABELS,
+  ThirdPartyCategory,
+  computeVendorHistory,
+  summarizeThirdParties,
+} from "@/lib/thirdParty";
+import { AlertTriangle, Globe } from "lucide-react";
+
+interface ThirdPartyAnalysisProps {
+  entry: PerformanceEntry;
+  entries: PerformanceEntry[];
+  budgets?: BudgetDefinition[];
+  onEditBudgets?: () => void;
+}
+
+type CostMetric = "bytes" | "blockingTime";
+
+// Vendors plotted in the cost-over-time chart
+const MAX_CHART_VENDORS = 5;
+const CHART_COLORS = ["#3b82f6", "#f59e0b", "#10b981", "#ef4444", "#8b5cf6"];
+
+const formatMs = (value: number | undefined) =>
+  value === undefined ? "–" : `${Math.round(value)}ms`;
+
+const formatCost = (metric: CostMetric, value: number) =>
+  metric === "bytes" ? formatBytes(value) : `${Math.round(value)}ms`;
+
+export function ThirdPartyAnalysis({
+  entry,
+  entries,
+  budgets = [],
+  onEditBudgets,
+}: ThirdPartyAnalysisProps) {
+  const [category, setCategory] = useState<ThirdPartyCategory | "all">("all");
+  const [metric, setMetric] = useState<CostMetric>("bytes");
+
+  const strategy = getEntryStrategy(entry);
+  const budget = findBudget(budgets, entry.url, strategy);
+  const firstPartyHostnames = budget?.firstPartyHostnames;
+  const flagged = new Set(
+    (budget?.mustJustifyVendors ?? []).map((vendor) => vendor.toLowerCase()),
+  );
+
+  const vendors = useMemo(
+    () => summarizeThirdParties(entry, firstPartyHostnames),
+    [entry, firstPartyHostnames],
+  );
+  const history = useMemo(
+    () =>
+      computeVendorHistory(entries, {
+        url: entry.url,
+        strategy,
+        firstPartyHostnames,
+      }),
+    [entries, entry.url, strategy, firstPartyHostnames],
+  );
+
+  const hasDiagnostics = !!entry.diagnostics?.thirdParty;
+  const categories = Array.from(new Set(vendors.map((v) => v.category)));
+  const visible = vendors.filter(
+    (v) => category === "all" || v.category === category,
+  );
+  const totals = {
+    bytes: vendors.reduce((total, v) => total + v.bytes, 0),
+    blockingTime: vendors.reduce(
+      (total, v) => total + (v.blockingTime ?? 0),
+      0,
+    ),
+  };
+
+  // The most expensive vendors of the selected run, across its history
+  const chartVendors = [...vendors]
+    .sort((a, b) => (b[metric] ?? 0) - (a[metric] ?? 0))
+    .slice(0, MAX_CHART_VENDORS)
+    .map((v) => v.entity);
+  // Keyed by vendor outside the data keys: names like "example.net" would
+  // be read as nested paths
+  const chartData = history.map((point) => ({
+    date: point.timestamp,
+    costs: Object.fromEntries(
+      chartVendors.map((vendor) => [
+        vendor,
+        point.vendors[vendor]?.[metric] ?? 0,
+      ]),
+    ),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Globe className="h-5 w-5" />
+                Third-Party Impact
+              </CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {vendors.length} vendor(s), {formatBytes(totals.bytes)}
+                {hasDiagnostics &&
+                  `, ${Math.round(totals.blockingTime)}ms blocking time`}
+                {onEditBudgets && (
+                  <button
+                    onClick={onEditBudgets}
+                    className="ml-2 text-primary hover:underline"
+                  >
+                    Flag vendors
+                  </button>
+                )}
+              </p>
+            </div>
+            {categories.length > 1 && (
+              <select
+                value={category}
+                onChange={(e) =>
+                  setCategory(e.target.value as ThirdPartyCategory | "all")
+                }
+                className="rounded-lg bg-secondary border border-border px-2 py-1.5 text-sm text-foreground"
+                aria-label="Category"
+              >
+                <option value="all">All categories</option>
+                {categories.map((c) => (
+                  <option key={c} value={c}>
+                    {THIRD_PARTY_CATEGORY_LABELS[c]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {vendors.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No third-party requests were made.
+            </p>
+          ) : (
+            <>
+              {!hasDiagnostics && (
+                <p className="mb-3 text-xs text-muted-foreground">
+                  Main-thread and blocking time come from Lighthouse
+                  diagnostics; run a new analysis to see them.
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-xs text-muted-foreground">
+                      <th className="py-2 text-left">Vendor</th>
+                      <th className="py-2 text-left">Category</th>
+                      <th className="py-2 text-right">Requests</th>
+                      <th className="py-2 text-right">Transfer</th>
+                      <th className="py-2 text-right">Main thread</th>
+                      <th className="py-2 text-right">Blocking</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visible.map((vendor) => (
+                      <tr
+                        key={vendor.entity}
+                        className="border-b border-border/50"
+                      >
+                        <td
+                          className="max-w-[260px] py-2 pr-3"
+                          title={vendor.hosts.join(", ")}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span className="truncate font-medium">
+                              {vendor.entity}
+                            </span>
+                            {flagged.has(vendor.entity.toLowerCase()) && (
+                              <span className="flex shrink-0 items-center gap-1 rounded-full bg-warning/10 px-2 py-0.5 text-xs text-warning">
+                                <AlertTriangle className="h-3 w-3" />
+                                must justify
+                              </span>
+                            )}
+                          </div>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {vendor.hosts.join(", ")}
+                          </p>
+                        </td>
+                        <td className="py-2 pr-3 text-muted-foreground">
+                          {THIRD_PARTY_CATEGORY_LABELS[vendor.category]}
+                        </td>
+                        <td className="py-2 text-right font-mono">
+                          {vendor.requests || "–"}
+                        </td>
+                        <td className="py-2 text-right font-mono">
+                          {formatBytes(vendor.bytes)}
+                        </td>
+                        <td className="py-2 text-right font-mono">
+                          {formatMs(vendor.mainThreadTime)}
+                        </td>
+                        <td
+                          className={cn(
+                            "py-2 text-right font-mono",
+                            (vendor.blockingTime ?? 0) >= 250 &&
+                              "text-destructive",
+                          )}
+                        >
+                          {formatMs(vendor.blockingTime)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vendor Cost Over Time</CardTitle>
+          <div className="flex rounded-lg border border-border bg-secondary/50 p-1 text-xs">
+            {(
+              [
+                ["bytes", "Transfer"],
+                ["blockingTime", "Blocking time"],
+              ] as const
+            ).map(([option, label]) => (
+              <button
+                key={option}
+                onClick={() => setMetric(option)}
+                className={cn(
+                  "rounded-md px-2.5 py-1 font-medium transition-colors",
+                  metric === option
+                    ? "bg-primary text-primary-foreground"
+                    : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {history.length < 2 || chartVendors.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Analyze this page again to track how its vendors change.
+            </p>
+          ) : (
+            <div className="h-[300px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={chartData}
+                  margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis
+                    dataKey="date"
+                    tickFormatter={(date) => format(new Date(date), "MMM d")}
+                    stroke="#94a3b8"
+                    fontSize={12}
+                  />
+                  <YAxis
+                    stroke="#94a3b8"
+                    fontSize={12}
+                    tickFormatter={(value) => formatCost(metric, value)}
+                  />
+                  <Tooltip
+                    labelFormatter={(date) =>
+                      format(new Date(date), "MMM d, HH:mm")
+                    }
+                    formatter={(value) => formatCost(metric, Number(value))}
+                    contentStyle={{
+                      background: "var(--card)",
+                      border: "1px solid var(--border)",
+                      borderRadius: 8,
+                    }}
+                  />
+                  <Legend
+                    formatter={(value) => (
+                      <span className="text-sm text-muted-foreground">
+                        {value}
+                      </span>
+                    )}
+                  />
+                  {chartVendors.map((vendor, index) => (
+                    <Line
+                      key={vendor}
+                      type="monotone"
+                      dataKey={(point: (typeof chartData)[number]) =>
+                        point.costs[vendor]
+                      }
+                      name={vendor}
+                      stroke={CHART_COLORS[index % CHART_COLORS.length]}
+                      strokeWidth={2}
+                      dot={chartData.length < 20}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,482 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "./Card";
+import { Button } from "./Button";
+import { PerformanceEntry, getMetricRating } from "@/types";
+import { cn, formatDuration, getRatingColor } from "@/lib/utils";
+import {
+  LongTask,
+  TRACE_CATEGORY_LABELS,
+  TraceCategory,
+  TraceInteraction,
+  TraceProfile,
+  TraceSlice,
+} from "@/lib/trace";
+import { X, ZoomIn, ZoomOut, RotateCcw, FileCode } from "lucide-react";
+
+export interface LoadedTrace {
+  fileName: string;
+  profile: TraceProfile;
+}
+
+interface TraceViewerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trace: LoadedTrace | null;
+  entry?: PerformanceEntry; // Analysis of the traced page
+  onShowLongTask?: (task: LongTask) => void;
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const CATEGORY_COLORS: Record<TraceCategory, string> = {
+  scripting: "bg-yellow-500/80",
+  rendering: "bg-violet-500/80",
+  painting: "bg-green-500/80",
+  loading: "bg-blue-500/80",
+  gc: "bg-orange-500/80",
+  other: "bg-slate-400/60",
+};
+
+const INTERACTION_PHASES = [
+  { key: "inputDelay", label: "Input delay", color: "bg-amber-500" },
+  { key: "processing", label: "Processing", color: "bg-blue-500" },
+  {
+    key: "presentationDelay",
+    label: "Presentation delay",
+    color: "bg-violet-500",
+  },
+] as const;
+
+// Call-tree rows drawn; deeper frames are rarely worth the height
+const MAX_DEPTH = 24;
+const ROW_HEIGHT = 16;
+// Slices narrower than this share of the view are skipped, and only the
+// longest ones are drawn
+const MIN_SLICE_SHARE = 1 / 1500;
+const MAX_VISIBLE_SLICES = 2000;
+const ZOOM_STEP = 2;
+const MARKER_COUNT = 5;
+
+// The range around an event, with some context on both sides
+function around(start: number, duration: number): TimeRange {
+  const padding = Math.max(duration * 0.1, 1);
+  return { start: start - padding, end: start + duration + padding };
+}
+
+export function TraceViewer({
+  isOpen,
+  onClose,
+  trace,
+  entry,
+  onShowLongTask,
+}: TraceViewerProps) {
+  const [view, setView] = useState<TimeRange | null>(null);
+  const [hovered, setHovered] = useState<TraceSlice | null>(null);
+
+  // Start every trace zoomed out
+  const [trackedTrace, setTrackedTrace] = useState(trace);
+  if (trace !== trackedTrace) {
+    setTrackedTrace(trace);
+    setView(null);
+    setHovered(null);
+  }
+
+  const profile = trace?.profile;
+  const full: TimeRange = { start: 0, end: profile?.duration || 1 };
+  const range = view ?? full;
+  const span = range.end - range.start;
+
+  const visibleSlices = useMemo(
+    () =>
+      (profile?.slices ?? [])
+        .filter(
+          (slice) =>
+            slice.depth < MAX_DEPTH &&
+            slice.start < range.end &&
+            slice.start + slice.duration > range.start &&
+            slice.duration >= span * MIN_SLICE_SHARE,
+        )
+        .sort((a, b) => b.duration - a.duration)
+        .slice(0, MAX_VISIBLE_SLICES),
+    [profile, range.start, range.end, span],
+  );
+
+  if (!isOpen || !trace || !profile) return null;
+
+  const toPercent = (time: number) => ((time - range.start) / span) * 100;
+  const barStyle = (start: number, duration: number) => {
+    const left = Math.max(0, toPercent(start));
+    const right = Math.min(100, toPercent(start + duration));
+    return { left: `${left}%`, width: `${Math.max(right - left, 0.1)}%` };
+  };
+
+  const zoom = (factor: number) => {
+    const center = range.start + span / 2;
+    const nextSpan = Math.min(full.end - full.start, span / factor);
+    if (nextSpan >= full.end - full.start) {
+      setView(null);
+      return;
+    }
+    setView({ start: center - nextSpan / 2, end: center + nextSpan / 2 });
+  };
+
+  const depth = Math.min(
+    MAX_DEPTH,
+    Math.max(0, ...visibleSlices.map((slice) => slice.depth + 1)),
+  );
+  const markers = Array.from(
+    { length: MARKER_COUNT },
+    (_, i) => range.start + (span * i) / (MARKER_COUNT - 1),
+  );
+  const slowest = profile.interactions.reduce<TraceInteraction | null>(
+    (worst, interaction) =>
+      !worst || interaction.duration > worst.duration ? interaction : worst,
+    null,
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <Card className="w-full max-w-6xl mx-4 animate-slide-in max-h-[90vh] overflow-y-auto">
+        <CardHeader>
+          <div className="flex items-center justify-between w-full">
+            <div className="min-w-0">
+              <CardTitle>Performance Trace</CardTitle>
+              <p className="truncate text-sm text-muted-foreground">
+                {trace.fileName}
+                {profile.url && ` · ${profile.url}`} ·{" "}
+                {formatDuration(profile.duration)}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+            {[
+              ["Long tasks", String(profile.longTasks.length)],
+              ["Blocking time", formatDuration(profile.totalBlockingTime)],
+              ["Interactions", String(profile.interactions.length)],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-lg bg-secondary/50 p-3">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-lg font-semibold">{value}</p>
+              </div>
+            ))}
+            <div className="rounded-lg bg-secondary/50 p-3">
+              <p className="text-xs text-muted-foreground">
+                Slowest interaction
+              </p>
+              <p
+                className={cn(
+                  "text-lg font-semibold",
+                  slowest &&
+                    getRatingColor(getMetricRating("INP", slowest.duration)),
+                )}
+              >
+                {slowest ? formatDuration(slowest.duration) : "–"}
+              </p>
+            </div>
+          </div>
+
+          {/* Flame chart */}
+          <div>
+            <div className="mb-3 flex flex-wrap items-center gap-3">
+              {(Object.keys(CATEGORY_COLORS) as TraceCategory[]).map(
+                (category) => (
+                  <span
+                    key={category}
+                    className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                  >
+                    <span
+                      className={cn(
+                        "h-2.5 w-2.5 rounded-sm",
+                        CATEGORY_COLORS[category],
+                      )}
+                    />
+                    {TRACE_CATEGORY_LABELS[category]}
+                  </span>
+                ),
+              )}
+              <div className="ml-auto flex items-center gap-1">
+                <span className="mr-1 text-xs text-muted-foreground">
+                  Click a task or interaction to zoom
+                </span>
+                <button
+                  onClick={() => zoom(ZOOM_STEP)}
+                  className="rounded p-1.5 text-muted-foreground hover:bg-secondary hover:text-foreground"
+                  aria-label="Zoom in"
+                >
+                  <ZoomIn className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => zoom(1 / ZOOM_STEP)}
+                  disabled={!view}
+                  className="rounded p-1.5 text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-40"
+                  aria-label="Zoom out"
+                >
+                  <ZoomOut className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setView(null)}
+                  disabled={!view}
+                  className="rounded p-1.5 text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-40"
+                  aria-label="Reset zoom"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex justify-between border-b border-border pb-1 text-xs text-muted-foreground">
+              {markers.map((time, i) => (
+                <span key={i}>{formatDuration(time)}</span>
+              ))}
+            </div>
+
+            <div className="relative mt-2 overflow-hidden">
+              {/* Interactions */}
+              <div className="relative h-5">
+                {profile.interactions.map((interaction) => (
+                  <button
+                    key={interaction.id}
+                    onClick={() =>
+                      setView(around(interaction.start, interaction.duration))
+                    }
+                    title={`${interaction.type}: ${formatDuration(interaction.duration)}`}
+                    className="absolute top-0.5 flex h-4 overflow-hidden rounded-sm"
+                    style={barStyle(interaction.start, interaction.duration)}
+                  >
+                    {INTERACTION_PHASES.map((phase) => (
+                      <span
+                        key={phase.key}
+                        className={cn("h-full", phase.color)}
+                        style={{
+                          width: `${(interaction[phase.key] / interaction.duration) * 100}%`,
+                        }}
+                      />
+                    ))}
+                  </button>
+                ))}
+              </div>
+
+              {/* Long tasks */}
+              <div className="relative h-5 border-b border-border/50">
+                {profile.longTasks.map((task, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setView(around(task.start, task.duration))}
+                    title={`Long task: ${formatDuration(task.duration)}`}
+                    className="absolute top-0.5 h-4 rounded-sm bg-destructive/70 hover:bg-destructive"
+                    style={barStyle(task.start, task.duration)}
+                  />
+                ))}
+              </div>
+
+              {/* Main thread */}
+              <div
+                className="relative mt-1"
+                style={{ height: Math.max(depth, 1) * ROW_HEIGHT }}
+                onMouseLeave={() => setHovered(null)}
+              >
+                {visibleSlices.map((slice, index) => (
+                  <div
+                    key={index}
+                    onMouseEnter={() => setHovered(slice)}
+                    className={cn(
+                      "absolute overflow-hidden whitespace-nowrap border-r border-background/40 px-1 text-[10px] leading-[15px] text-black/80",
+                      CATEGORY_COLORS[slice.category],
+                      hovered === slice && "ring-1 ring-foreground",
+                    )}
+                    style={{
+                      ...barStyle(slice.start, slice.duration),
+                      top: slice.depth * ROW_HEIGHT,
+                      height: ROW_HEIGHT - 1,
+                    }}
+                  >
+                    {slice.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <p className="mt-2 h-4 truncate text-xs text-muted-foreground">
+              {hovered
+                ? `${hovered.name} · ${hovered.duration.toFixed(1)}ms at ${formatDuration(hovered.start)}` +
+                  (hovered.url ? ` · ${hovered.url}` : "")
+                : "Hover an event for details"}
+            </p>
+          </div>
+
+          {/* Interactions */}
+          <div>
+            <h4 className="mb-2 font-semibold">Interactions</h4>
+            {profile.interactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No interactions were recorded. Click or type on the page while
+                recording to measure them.
+              </p>
+            ) : (
+              <>
+                <div className="mb-2 flex gap-4">
+                  {INTERACTION_PHASES.map((phase) => (
+                    <span
+                      key={phase.key}
+                      className="flex items-center gap-1.5 text-xs text-muted-foreground"
+                    >
+                      <span
+                        className={cn("h-2.5 w-2.5 rounded-sm", phase.color)}
+                      />
+                      {phase.label}
+                    </span>
+                  ))}
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-xs text-muted-foreground">
+                      <th className="py-2 text-left">Event</th>
+                      <th className="py-2 text-right">At</th>
+                      <th className="py-2 text-right">Duration</th>
+                      <th className="py-2 pl-4 text-left">Breakdown</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.interactions.map((interaction) => (
+                      <tr
+                        key={interaction.id}
+                        className="cursor-pointer border-b border-border/50 hover:bg-secondary/30"
+                        onClick={() =>
+                          setView(
+                            around(interaction.start, interaction.duration),
+                          )
+                        }
+                      >
+                        <td className="py-2 font-medium">{interaction.type}</td>
+                        <td className="py-2 text-right font-mono">
+                          {formatDuration(interaction.start)}
+                        </td>
+                        <td
+                          className={cn(
+                            "py-2 text-right font-mono",
+                            getRatingColor(
+                              getMetricRating("INP", interaction.duration),
+                            ),
+                          )}
+                        >
+                          {Math.round(interaction.duration)}ms
+                        </td>
+                        <td className="py-2 pl-4">
+                          <div className="flex h-2 w-full max-w-[240px] overflow-hidden rounded-full bg-secondary">
+                            {INTERACTION_PHASES.map((phase) => (
+                              <span
+                                key={phase.key}
+                                className={phase.color}
+                                style={{
+                                  width: `${(interaction[phase.key] / interaction.duration) * 100}%`,
+                                }}
+                              />
+                            ))}
+                          </div>
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {INTERACTION_PHASES.map(
+                              (phase) =>
+                                `${phase.label} ${Math.round(interaction[phase.key])}ms`,
+                            ).join(" · ")}
+                          </p>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+
+          {/* Long tasks */}
+          <div>
+            <h4 className="mb-2 font-semibold">Long Tasks</h4>
+            {profile.longTasks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No task ran longer than 50ms.
+              </p>
+            ) : (
+              <>
+                {!entry && (
+                  <p className="mb-2 text-xs text-muted-foreground">
+                    Analyze {profile.url ?? "the traced page"} to open long
+                    tasks in its JavaScript analysis.
+                  </p>
+                )}
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-xs text-muted-foreground">
+                      <th className="py-2 text-right">At</th>
+                      <th className="py-2 text-right">Duration</th>
+                      <th className="py-2 text-right">Blocking</th>
+                      <th className="py-2 pl-4 text-left">Top script</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.longTasks.map((task, index) => {
+                      const script = task.scripts[0];
+                      return (
+                        <tr
+                          key={index}
+                          className="cursor-pointer border-b border-border/50 hover:bg-secondary/30"
+                          onClick={() =>
+                            setView(around(task.start, task.duration))
+                          }
+                        >
+                          <td className="py-2 text-right font-mono">
+                            {formatDuration(task.start)}
+                          </td>
+                          <td className="py-2 text-right font-mono">
+                            {Math.round(task.duration)}ms
+                          </td>
+                          <td className="py-2 text-right font-mono text-destructive">
+                            {Math.round(task.blockingTime)}ms
+                          </td>
+                          <td
+                            className="max-w-[320px] truncate py-2 pl-4 text-muted-foreground"
+                            title={script?.url}
+                          >
+                            {script
+                              ? `${script.url} (${Math.round(script.duration)}ms)`
+                              : "No script"}
+                          </td>
+                          <td className="py-2 text-right">
+                            {entry && onShowLongTask && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  onShowLongTask(task);
+                                }}
+                                title="Show in the JavaScript analysis"
+                              >
+                                <FileCode className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
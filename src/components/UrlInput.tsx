@@ -3,26 +3,48 @@
 import { useState, forwardRef } from "react";
 import { Button } from "./Button";
 import { Card } from "./Card";
-import { Globe, Play, Square, Command } from "lucide-react";
+import {
+  Globe,
+  Play,
+  Square,
+  Command,
+  Smartphone,
+  Monitor,
+  ListChecks,
+} from "lucide-react";
+import { Strategy } from "@/types";
+import { cn } from "@/lib/utils";
+import { RUN_COUNT_OPTIONS } from "@/lib/runSets";
 
 interface UrlInputProps {
-  onAnalyze: (url: string) => void;
+  onAnalyze: (url: string, strategy: Strategy, runs: number) => void;
   isMonitoring: boolean;
   onStopMonitoring: () => void;
+  onBatch?: () => void;
 }
 
 export const UrlInput = forwardRef<HTMLInputElement, UrlInputProps>(
-  function UrlInput({ onAnalyze, isMonitoring, onStopMonitoring }, ref) {
+  function UrlInput(
+    { onAnalyze, isMonitoring, onStopMonitoring, onBatch },
+    ref,
+  ) {
     const [url, setUrl] = useState("");
+    const [strategy, setStrategy] = useState<Strategy>("mobile");
+    const [runs, setRuns] = useState(1);
     const [isFocused, setIsFocused] = useState(false);
 
     const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (url.trim()) {
-        onAnalyze(url.trim());
+        onAnalyze(url.trim(), strategy, runs);
       }
     };
 
+    const strategies = [
+      { id: "mobile" as const, label: "Mobile", icon: Smartphone },
+      { id: "desktop" as const, label: "Desktop", icon: Monitor },
+    ];
+
     return (
       <Card className="gradient-primary border-0">
         <form
@@ -49,6 +71,45 @@ export const UrlInput = forwardRef<HTMLInputElement, UrlInputProps>(
               </div>
             )}
           </div>
+          <div
+            className="flex h-12 rounded-lg bg-white/10 p-1 ring-2 ring-white/20"
+            role="radiogroup"
+            aria-label="Device strategy"
+          >
+            {strategies.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="radio"
+                aria-checked={strategy === option.id}
+                onClick={() => setStrategy(option.id)}
+                disabled={isMonitoring}
+                className={cn(
+                  "flex flex-1 items-center justify-center gap-2 rounded-md px-3 text-sm font-medium transition-colors disabled:cursor-not-allowed",
+                  strategy === option.id
+                    ? "bg-white text-blue-600"
+                    : "text-white/70 hover:text-white",
+                )}
+              >
+                <option.icon className="h-4 w-4" />
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={runs}
+            onChange={(e) => setRuns(Number(e.target.value))}
+            disabled={isMonitoring}
+            title="Run the analysis several times and keep the median run"
+            aria-label="Number of runs"
+            className="h-12 rounded-lg bg-white/10 px-3 text-sm font-medium text-white outline-none ring-2 ring-white/20 disabled:cursor-not-allowed [&>option]:text-foreground"
+          >
+            {RUN_COUNT_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                {count === 1 ? "1 run" : `${count} runs (median)`}
+              </option>
+            ))}
+          </select>
           {isMonitoring ? (
             <Button
               type="button"
@@ -69,6 +130,17 @@ export const UrlInput = forwardRef<HTMLInputElement, UrlInputProps>(
               Analyze
             </button>
           )}
+          {onBatch && !isMonitoring && (
+            <button
+              type="button"
+              onClick={onBatch}
+              title="Analyze a list of URLs or a sitemap"
+              className="inline-flex items-center justify-center gap-2 rounded-lg font-medium transition-all duration-200 h-12 px-4 text-base text-white ring-2 ring-white/20 hover:bg-white/10"
+            >
+              <ListChecks className="h-4 w-4" />
+              Batch
+            </button>
+          )}
         </form>
       </Card>
     );
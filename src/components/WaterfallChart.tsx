@@ -1,12 +1,22 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "./Card";
-import { ResourceTiming } from "@/types";
+import {
+  BudgetResourceType,
+  PerformanceEntry,
+  ResourceTiming,
+  ResourceTimingPhases,
+} from "@/types";
 import { formatDuration, formatBytes } from "@/lib/utils";
 import { cn } from "@/lib/utils";
+import { BUDGET_RESOURCE_LABELS, getResourceGroup } from "@/lib/budgets";
+import { ZoomIn, ZoomOut, RotateCcw } from "lucide-react";
 
 interface WaterfallChartProps {
   resources: ResourceTiming[];
+  metrics?: PerformanceEntry["metrics"]; // Draws FCP and LCP lines
+  pageTimings?: PerformanceEntry["pageTimings"]; // DCL and Load, from HARs
 }
 
 const TYPE_COLORS: Record<string, string> = {
@@ -20,7 +30,202 @@ const TYPE_COLORS: Record<string, string> = {
   other: "bg-gray-500",
 };
 
-export function WaterfallChart({ resources }: WaterfallChartProps) {
+const PHASES: {
+  key: keyof ResourceTimingPhases;
+  label: string;
+  color: string;
+}[] = [
+  { key: "queueing", label: "Queueing", color: "bg-gray-400" },
+  { key: "dns", label: "DNS", color: "bg-teal-500" },
+  { key: "connect", label: "Connect", color: "bg-orange-500" },
+  { key: "ssl", label: "SSL", color: "bg-purple-500" },
+  { key: "wait", label: "Wait", color: "bg-green-500" },
+  { key: "download", label: "Download", color: "bg-blue-500" },
+];
+
+const MILESTONES = [
+  { key: "fcp", label: "FCP", color: "bg-success" },
+  { key: "lcp", label: "LCP", color: "bg-destructive" },
+] as const;
+
+const PAGE_MILESTONES = [
+  { key: "onContentLoad", label: "DCL", color: "bg-primary" },
+  { key: "onLoad", label: "Load", color: "bg-warning" },
+] as const;
+
+// Chrome's priority names, shortened for the row badge
+const PRIORITY_LABELS: Record<string, string> = {
+  VeryHigh: "Highest",
+  High: "High",
+  Medium: "Medium",
+  Low: "Low",
+  VeryLow: "Lowest",
+};
+
+const MIN_SPAN = 10; // ms, the deepest zoom
+const ZOOM_STEP = 1.5;
+const MAX_HEADERS = 12;
+
+const selectClassName =
+  "rounded-lg bg-secondary border border-border px-2 py-1.5 text-xs text-foreground";
+
+function getHostname(resource: ResourceTiming): string {
+  try {
+    return new URL(resource.url ?? resource.name).hostname;
+  } catch {
+    return "(relative)";
+  }
+}
+
+// Phases in drawing order; `connect` is drawn without its SSL part
+function getSegments(timings: ResourceTimingPhases) {
+  let offset = 0;
+  return PHASES.flatMap((phase) => {
+    const value =
+      phase.key === "connect"
+        ? (timings.connect ?? 0) - (timings.ssl ?? 0)
+        : (timings[phase.key] ?? 0);
+    if (value <= 0) return [];
+    const segment = { ...phase, offset, duration: value };
+    offset += value;
+    return [segment];
+  });
+}
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export function WaterfallChart({
+  resources,
+  metrics,
+  pageTimings,
+}: WaterfallChartProps) {
+  const [typeFilter, setTypeFilter] = useState<BudgetResourceType | "all">(
+    "all",
+  );
+  const [domainFilter, setDomainFilter] = useState("all");
+  // Visible time range; null shows everything
+  const [view, setView] = useState<TimeRange | null>(null);
+  // Hovered row, or the row clicked to keep its details open
+  const [hovered, setHovered] = useState<ResourceTiming | null>(null);
+  const [pinned, setPinned] = useState<ResourceTiming | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; view: TimeRange } | null>(null);
+  // A drag ends with a click, which should not pin the row under it
+  const draggedRef = useRef(false);
+
+  // Start over when another analysis is shown
+  const [trackedResources, setTrackedResources] = useState(resources);
+  if (resources !== trackedResources) {
+    setTrackedResources(resources);
+    setTypeFilter("all");
+    setDomainFilter("all");
+    setView(null);
+    setHovered(null);
+    setPinned(null);
+  }
+
+  const sortedResources = [...resources].sort(
+    (a, b) => a.startTime - b.startTime,
+  );
+  const domains = Array.from(new Set(sortedResources.map(getHostname)));
+  const types = Array.from(new Set(sortedResources.map(getResourceGroup)));
+  const visibleResources = sortedResources.filter(
+    (r) =>
+      (typeFilter === "all" || getResourceGroup(r) === typeFilter) &&
+      (domainFilter === "all" || getHostname(r) === domainFilter),
+  );
+
+  const milestones = [
+    ...MILESTONES.flatMap((milestone) => {
+      const time = metrics?.[milestone.key];
+      return time ? [{ ...milestone, time }] : [];
+    }),
+    ...PAGE_MILESTONES.flatMap((milestone) => {
+      const time = pageTimings?.[milestone.key];
+      return time ? [{ ...milestone, time }] : [];
+    }),
+  ];
+
+  // The full timeline covers every request and the milestones
+  const full: TimeRange = {
+    start: Math.min(0, ...sortedResources.map((r) => r.startTime)),
+    end: Math.max(
+      MIN_SPAN,
+      ...sortedResources.map((r) => r.startTime + r.duration),
+      ...milestones.map((m) => m.time),
+    ),
+  };
+  const range = view ?? full;
+  const span = range.end - range.start;
+  const toPercent = (time: number) => ((time - range.start) / span) * 100;
+
+  const clampView = (start: number, end: number): TimeRange | null => {
+    const fullSpan = full.end - full.start;
+    const width = Math.max(end - start, MIN_SPAN);
+    if (width >= fullSpan) return null;
+    const clampedStart = Math.min(
+      Math.max(start, full.start),
+      full.end - width,
+    );
+    return { start: clampedStart, end: clampedStart + width };
+  };
+
+  // Keeps the time at `ratio` of the track (the middle by default) in place
+  const zoom = (factor: number, ratio = 0.5) => {
+    const anchor = range.start + span * ratio;
+    const start = anchor - (span / factor) * ratio;
+    setView(clampView(start, start + span / factor));
+  };
+
+  // Ctrl/Cmd + wheel zooms around the pointer. React wheel listeners are
+  // passive, so this one is attached by hand to be able to cancel scrolling.
+  const zoomRef = useRef(zoom);
+  useEffect(() => {
+    zoomRef.current = zoom;
+  });
+  useEffect(() => {
+    const rows = rowsRef.current;
+    const track = trackRef.current;
+    if (!rows || !track) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      const rect = track.getBoundingClientRect();
+      const ratio = Math.min(
+        Math.max((e.clientX - rect.left) / rect.width, 0),
+        1,
+      );
+      zoomRef.current(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, ratio);
+    };
+    rows.addEventListener("wheel", onWheel, { passive: false });
+    return () => rows.removeEventListener("wheel", onWheel);
+  }, [resources.length]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    draggedRef.current = false;
+    if (!view) return;
+    dragRef.current = { x: e.clientX, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const track = trackRef.current;
+    if (!drag || !track) return;
+    draggedRef.current = true;
+    const width = drag.view.end - drag.view.start;
+    const shift =
+      ((drag.x - e.clientX) / track.getBoundingClientRect().width) * width;
+    setView(clampView(drag.view.start + shift, drag.view.end + shift));
+  };
+
+  const stopDragging = () => {
+    dragRef.current = null;
+  };
+
   if (resources.length === 0) {
     return (
       <Card>
@@ -36,56 +241,129 @@ export function WaterfallChart({ resources }: WaterfallChartProps) {
     );
   }
 
-  // Sort by start time
-  const sortedResources = [...resources].sort(
-    (a, b) => a.startTime - b.startTime,
-  );
-
-  // Calculate the total timeline
-  const maxEndTime = Math.max(
-    ...sortedResources.map((r) => r.startTime + r.duration),
-  );
-  const minStartTime = Math.min(...sortedResources.map((r) => r.startTime));
-  const totalDuration = maxEndTime - minStartTime;
-
   // Generate timeline markers
   const markers: number[] = [];
   const markerCount = 5;
   for (let i = 0; i <= markerCount; i++) {
-    markers.push(Math.round((totalDuration / markerCount) * i));
+    markers.push(range.start + (span / markerCount) * i);
   }
 
+  const hasPhases = resources.some((r) => r.timings);
+  const details = pinned ?? hovered;
+
   return (
-    <Card>
+    <Card data-perf-component="WaterfallChart">
       <CardHeader>
-        <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center justify-between gap-3 w-full">
           <CardTitle>Resource Waterfall</CardTitle>
-          <div className="flex gap-4 text-xs">
-            {Object.entries(TYPE_COLORS)
-              .slice(0, 5)
-              .map(([type, color]) => (
-                <div key={type} className="flex items-center gap-1">
-                  <div className={cn("h-3 w-3 rounded", color)} />
-                  <span className="capitalize text-muted-foreground">
-                    {type}
-                  </span>
-                </div>
-              ))}
+          <div className="flex flex-wrap gap-3 text-xs">
+            {hasPhases
+              ? PHASES.map((phase) => (
+                  <div key={phase.key} className="flex items-center gap-1">
+                    <div className={cn("h-3 w-3 rounded", phase.color)} />
+                    <span className="text-muted-foreground">
+                      {phase.label}
+                    </span>
+                  </div>
+                ))
+              : Object.entries(TYPE_COLORS)
+                  .slice(0, 5)
+                  .map(([type, color]) => (
+                    <div key={type} className="flex items-center gap-1">
+                      <div className={cn("h-3 w-3 rounded", color)} />
+                      <span className="capitalize text-muted-foreground">
+                        {type}
+                      </span>
+                    </div>
+                  ))}
           </div>
         </div>
       </CardHeader>
       <CardContent>
+        {/* Filters and zoom */}
+        <div className="mb-3 flex flex-wrap items-center gap-2">
+          <select
+            className={selectClassName}
+            value={typeFilter}
+            onChange={(e) =>
+              setTypeFilter(e.target.value as BudgetResourceType | "all")
+            }
+            aria-label="Resource type"
+          >
+            <option value="all">All types</option>
+            {types.map((type) => (
+              <option key={type} value={type}>
+                {BUDGET_RESOURCE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <select
+            className={cn(selectClassName, "max-w-[220px]")}
+            value={domainFilter}
+            onChange={(e) => setDomainFilter(e.target.value)}
+            aria-label="Domain"
+          >
+            <option value="all">All domains</option>
+            {domains.map((domain) => (
+              <option key={domain} value={domain}>
+                {domain}
+              </option>
+            ))}
+          </select>
+          <div className="ml-auto flex items-center gap-1">
+            <span className="mr-1 text-xs text-muted-foreground">
+              {view ? "Drag to pan" : "Ctrl + scroll to zoom"}
+            </span>
+            <button
+              onClick={() => zoom(ZOOM_STEP)}
+              className="rounded p-1.5 text-muted-foreground hover:bg-secondary hover:text-foreground"
+              aria-label="Zoom in"
+            >
+              <ZoomIn className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => zoom(1 / ZOOM_STEP)}
+              disabled={!view}
+              className="rounded p-1.5 text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-40"
+              aria-label="Zoom out"
+            >
+              <ZoomOut className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setView(null)}
+              disabled={!view}
+              className="rounded p-1.5 text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-40"
+              aria-label="Reset zoom"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
         {/* Timeline header */}
         <div className="mb-2 flex border-b border-border pb-2">
-          <div className="w-48 shrink-0 text-xs text-muted-foreground">
+          <div className="w-56 shrink-0 text-xs text-muted-foreground">
             Resource
           </div>
-          <div className="flex-1 relative">
+          <div ref={trackRef} className="flex-1 relative">
             <div className="flex justify-between text-xs text-muted-foreground">
               {markers.map((time, i) => (
-                <span key={i}>{formatDuration(time)}</span>
+                <span key={i}>{formatDuration(Math.round(time))}</span>
               ))}
             </div>
+            {milestones.map((milestone) => {
+              const left = toPercent(milestone.time);
+              if (left < 0 || left > 100) return null;
+              return (
+                <span
+                  key={milestone.key}
+                  className="absolute -top-4 -translate-x-1/2 text-[10px] font-medium text-muted-foreground"
+                  style={{ left: `${left}%` }}
+                >
+                  {milestone.label}
+                </span>
+              );
+            })}
           </div>
           <div className="w-20 shrink-0 text-right text-xs text-muted-foreground">
             Size
@@ -93,31 +371,77 @@ export function WaterfallChart({ resources }: WaterfallChartProps) {
         </div>
 
         {/* Resources */}
-        <div className="space-y-1 max-h-[400px] overflow-y-auto">
-          {sortedResources.map((resource, index) => {
-            const startPercent =
-              ((resource.startTime - minStartTime) / totalDuration) * 100;
-            const widthPercent = (resource.duration / totalDuration) * 100;
+        <div
+          ref={rowsRef}
+          className={cn(
+            "space-y-1 max-h-[400px] overflow-y-auto select-none",
+            view && "cursor-grab active:cursor-grabbing",
+          )}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={stopDragging}
+          onPointerLeave={() => {
+            stopDragging();
+            setHovered(null);
+          }}
+        >
+          {visibleResources.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No requests match the filters.
+            </p>
+          )}
+          {visibleResources.map((resource, index) => {
+            const startPercent = toPercent(resource.startTime);
+            const widthPercent = (resource.duration / span) * 100;
             const color =
               TYPE_COLORS[resource.initiatorType] || TYPE_COLORS.other;
 
             return (
               <div
                 key={index}
-                className="flex items-center group hover:bg-secondary/30 rounded px-1 py-1 transition-colors"
+                className={cn(
+                  "flex items-center rounded px-1 py-1 transition-colors hover:bg-secondary/30",
+                  details === resource && "bg-secondary/50",
+                )}
+                onMouseEnter={() => setHovered(resource)}
+                onClick={() => {
+                  if (draggedRef.current) return;
+                  setPinned(pinned === resource ? null : resource);
+                }}
               >
                 {/* Resource name */}
-                <div className="w-48 shrink-0 pr-2">
+                <div className="flex w-56 shrink-0 items-center gap-1.5 pr-2">
                   <p
-                    className="text-xs truncate text-card-foreground"
+                    className="flex-1 text-xs truncate text-card-foreground"
                     title={resource.name}
                   >
                     {resource.name.split("/").pop() || resource.name}
                   </p>
+                  {resource.renderBlocking && (
+                    <span
+                      className="shrink-0 rounded bg-destructive/10 px-1 text-[10px] text-destructive"
+                      title="Render-blocking"
+                    >
+                      RB
+                    </span>
+                  )}
+                  {resource.priority && (
+                    <span
+                      className="shrink-0 rounded bg-secondary px-1 text-[10px] text-muted-foreground"
+                      title={`Priority: ${resource.priority}`}
+                    >
+                      {PRIORITY_LABELS[resource.priority] ?? resource.priority}
+                    </span>
+                  )}
+                  {resource.protocol && (
+                    <span className="shrink-0 text-[10px] text-muted-foreground">
+                      {resource.protocol}
+                    </span>
+                  )}
                 </div>
 
                 {/* Waterfall bar */}
-                <div className="flex-1 relative h-5">
+                <div className="flex-1 relative h-5 overflow-hidden">
                   {/* Grid lines */}
                   <div className="absolute inset-0 flex justify-between">
                     {markers.map((_, i) => (
@@ -125,36 +449,50 @@ export function WaterfallChart({ resources }: WaterfallChartProps) {
                     ))}
                   </div>
 
+                  {/* Milestones */}
+                  {milestones.map((milestone) => (
+                    <div
+                      key={milestone.key}
+                      className={cn(
+                        "absolute top-0 h-full w-px opacity-70",
+                        milestone.color,
+                      )}
+                      style={{ left: `${toPercent(milestone.time)}%` }}
+                    />
+                  ))}
+
                   {/* Bar */}
-                  <div
-                    className={cn(
-                      "absolute h-4 top-0.5 rounded-sm transition-all",
-                      color,
-                      "group-hover:opacity-80",
-                    )}
-                    style={{
-                      left: `${startPercent}%`,
-                      width: `${Math.max(widthPercent, 0.5)}%`,
-                    }}
-                  >
-                    {/* Tooltip on hover */}
-                    <div className="absolute bottom-full left-0 mb-1 hidden group-hover:block z-10">
-                      <div className="rounded bg-card border border-border p-2 shadow-lg text-xs whitespace-nowrap">
-                        <p className="font-medium">
-                          {resource.name.split("/").pop()}
-                        </p>
-                        <p className="text-muted-foreground">
-                          Start: {formatDuration(resource.startTime)}
-                        </p>
-                        <p className="text-muted-foreground">
-                          Duration: {formatDuration(resource.duration)}
-                        </p>
-                        <p className="text-muted-foreground">
-                          Size: {formatBytes(resource.transferSize)}
-                        </p>
-                      </div>
+                  {resource.timings ? (
+                    <div
+                      className="absolute top-0.5 flex h-4 overflow-hidden rounded-sm"
+                      style={{
+                        left: `${startPercent}%`,
+                        width: `${Math.max(widthPercent, 0.5)}%`,
+                      }}
+                    >
+                      {getSegments(resource.timings).map((segment) => (
+                        <div
+                          key={segment.key}
+                          className={cn("h-full", segment.color)}
+                          style={{
+                            width: `${
+                              (segment.duration /
+                                Math.max(resource.duration, 1)) *
+                              100
+                            }%`,
+                          }}
+                        />
+                      ))}
                     </div>
-                  </div>
+                  ) : (
+                    <div
+                      className={cn("absolute h-4 top-0.5 rounded-sm", color)}
+                      style={{
+                        left: `${startPercent}%`,
+                        width: `${Math.max(widthPercent, 0.5)}%`,
+                      }}
+                    />
+                  )}
                 </div>
 
                 {/* Size */}
@@ -168,25 +506,110 @@ export function WaterfallChart({ resources }: WaterfallChartProps) {
           })}
         </div>
 
+        {/* Request details */}
+        <div className="mt-3 min-h-[72px] rounded-lg border border-border p-3 text-xs">
+          {details ? (
+            <div className="space-y-2">
+              <p className="break-all font-mono text-card-foreground">
+                {details.url ?? details.name}
+              </p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                {details.statusCode !== undefined && (
+                  <span>Status: {details.statusCode}</span>
+                )}
+                {details.protocol && (
+                  <span>Protocol: {details.protocol}</span>
+                )}
+                {details.priority && (
+                  <span>Priority: {details.priority}</span>
+                )}
+                <span>Type: {details.mimeType || details.initiatorType}</span>
+                <span>Start: {formatDuration(details.startTime)}</span>
+                <span>Duration: {formatDuration(details.duration)}</span>
+                <span>Size: {formatBytes(details.transferSize)}</span>
+                {details.renderBlocking && (
+                  <span className="text-destructive">Render-blocking</span>
+                )}
+              </div>
+              {details.timings && (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {getSegments(details.timings).map((segment) => (
+                    <span
+                      key={segment.key}
+                      className="flex items-center gap-1"
+                    >
+                      <span
+                        className={cn("h-2 w-2 rounded-sm", segment.color)}
+                      />
+                      {segment.label}{" "}
+                      {formatDuration(Math.round(segment.duration))}
+                    </span>
+                  ))}
+                  {details.timingsEstimated && (
+                    <span className="text-muted-foreground">
+                      (estimated from round-trip time and server latency)
+                    </span>
+                  )}
+                </div>
+              )}
+              {(
+                [
+                  ["Request headers", details.requestHeaders],
+                  ["Response headers", details.responseHeaders],
+                ] as const
+              ).map(
+                ([label, headers]) =>
+                  headers &&
+                  headers.length > 0 && (
+                    <div key={label}>
+                      <p className="font-medium text-card-foreground">
+                        {label}
+                      </p>
+                      <ul className="font-mono text-muted-foreground">
+                        {headers.slice(0, MAX_HEADERS).map((header, i) => (
+                          <li key={i} className="truncate">
+                            {header.name}: {header.value}
+                          </li>
+                        ))}
+                        {headers.length > MAX_HEADERS && (
+                          <li>…and {headers.length - MAX_HEADERS} more</li>
+                        )}
+                      </ul>
+                    </div>
+                  ),
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">
+              Hover over a request for its details; click to keep them open.
+            </p>
+          )}
+        </div>
+
         {/* Summary */}
         <div className="mt-4 pt-4 border-t border-border grid grid-cols-3 gap-4 text-center">
           <div>
             <p className="text-2xl font-bold text-primary">
-              {resources.length}
+              {visibleResources.length}
             </p>
             <p className="text-xs text-muted-foreground">Total Requests</p>
           </div>
           <div>
             <p className="text-2xl font-bold text-accent">
               {formatBytes(
-                resources.reduce((sum, r) => sum + r.transferSize, 0),
+                visibleResources.reduce((sum, r) => sum + r.transferSize, 0),
               )}
             </p>
             <p className="text-xs text-muted-foreground">Total Size</p>
           </div>
           <div>
             <p className="text-2xl font-bold text-warning">
-              {formatDuration(totalDuration)}
+              {formatDuration(
+                Math.max(
+                  0,
+                  ...sortedResources.map((r) => r.startTime + r.duration),
+                ) - Math.min(...sortedResources.map((r) => r.startTime)),
+              )}
             </p>
             <p className="text-xs text-muted-foreground">Total Time</p>
           </div>
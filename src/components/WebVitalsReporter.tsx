@@ -0,0 +1,18 @@
+"use client";
+
+import { useEffect } from "react";
+import { SELF_RUM_SITE } from "@/lib/rum";
+import { startRum } from "@/lib/rumReporter";
+
+/**
+ * Reports the dashboard's own Web Vitals, plus interaction latency of the
+ * components marked with `data-perf-component`, to the local RUM route.
+ * Shown under "This app" in the RUM dashboard.
+ */
+export function WebVitalsReporter() {
+  useEffect(() => {
+    startRum({ site: SELF_RUM_SITE, trackComponents: true });
+  }, []);
+
+  return null;
+}
@@ -25,3 +25,14 @@ export { InsightsSummary } from "./InsightsSummary";
 export { QuickActions } from "./QuickActions";
 export { WelcomeCard } from "./WelcomeCard";
 export { DetailedAnalysis } from "./DetailedAnalysis";
+export { StrategyToggle, StrategyBadge } from "./StrategyToggle";
+export { SourceBadge } from "./SourceBadge";
+export { BatchAnalysis } from "./BatchAnalysis";
+export { FieldDistribution } from "./FieldDistribution";
+export { MonitorsPanel } from "./MonitorsPanel";
+export { AlertsPanel } from "./AlertsPanel";
+export { BudgetEditor } from "./BudgetEditor";
+export { RumDashboard } from "./RumDashboard";
+export { ThirdPartyAnalysis } from "./ThirdPartyAnalysis";
+export { ImportPanel } from "./ImportPanel";
+export { TraceViewer } from "./TraceViewer";
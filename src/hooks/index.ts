@@ -1,3 +1,3 @@
-export { useAutoRefresh } from './useAutoRefresh';
 export { useKeyboardShortcuts } from './useKeyboardShortcuts';
 export { useLocalStorage } from './useLocalStorage';
+export { useBudgets } from './useBudgets';
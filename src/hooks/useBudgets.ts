@@ -0,0 +1,22 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BudgetDefinition } from '@/types';
+import { fetchBudgets } from '@/lib/budgetsClient';
+
+// Stored performance budgets; stays empty (defaults apply) when the server is unreachable
+export function useBudgets() {
+  const [budgets, setBudgets] = useState<BudgetDefinition[]>([]);
+
+  const reload = useCallback(() => {
+    fetchBudgets()
+      .then(setBudgets)
+      .catch((error) => console.warn('Failed to load budgets:', error));
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { budgets, reload };
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The monitor runner needs Node APIs (fs, timers), so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startMonitorRunner } = await import("./lib/monitorRunner");
+    startMonitorRunner();
+  }
+}
@@ -0,0 +1,93 @@
+import { AISuggestion, ComponentAnalysis, PerformanceEntry } from "@/types";
+import type { AIProvider } from "./aiService";
+import type { AIProviderStatus } from "./aiProviders";
+import { readServerSentEvents } from "./sse";
+
+/**
+ * Browser client for the `/api/ai` routes. API keys live on the server, so
+ * requests only name the provider. Every function throws when the server
+ * cannot be reached or rejects the request.
+ */
+
+export interface AISuggestionsResult {
+  suggestions: AISuggestion[];
+  provider: AIProvider;
+  model: string;
+  cached: boolean;
+}
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export async function fetchAIProviders(): Promise<AIProviderStatus[]> {
+  const data = await request<{ providers: AIProviderStatus[] }>(
+    "/api/ai/providers",
+  );
+  return data.providers;
+}
+
+export function fetchAISuggestions(
+  provider: Exclude<AIProvider, "local">,
+  entry: PerformanceEntry,
+  components: ComponentAnalysis[],
+  signal?: AbortSignal,
+): Promise<AISuggestionsResult> {
+  return request<AISuggestionsResult>("/api/ai/suggestions", {
+    method: "POST",
+    body: JSON.stringify({ provider, entry, components }),
+    signal,
+  });
+}
+
+export interface StreamSuggestionsOptions {
+  signal?: AbortSignal;
+  regenerate?: AISuggestion; // Stream one replacement for this suggestion
+  exclude?: string[]; // Titles the replacement should not repeat
+  onSuggestion: (suggestion: AISuggestion) => void;
+}
+
+/**
+ * Stream suggestions from `/api/ai/suggestions/stream`, calling
+ * `onSuggestion` as each one arrives. Resolves when the stream is done and
+ * rejects on errors; aborting `signal` rejects with an AbortError.
+ */
+export async function streamAISuggestions(
+  provider: Exclude<AIProvider, "local">,
+  entry: PerformanceEntry,
+  components: ComponentAnalysis[],
+  { signal, regenerate, exclude, onSuggestion }: StreamSuggestionsOptions,
+): Promise<Omit<AISuggestionsResult, "suggestions" | "provider">> {
+  const response = await fetch("/api/ai/suggestions/stream", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ provider, entry, components, regenerate, exclude }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data);
+    if (event === "suggestion") onSuggestion(payload as AISuggestion);
+    else if (event === "error") throw new Error(payload.error);
+    else if (event === "done") return payload;
+  }
+  throw new Error("Suggestion stream ended unexpectedly");
+}
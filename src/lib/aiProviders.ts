@@ -0,0 +1,472 @@
+import { AISuggestion } from "@/types";
+import {
+  AIProvider,
+  AIResponseError,
+  createSuggestionStreamParser,
+  parseAISuggestions,
+  validateAISuggestion,
+} from "./aiService";
+import { createRateLimiter } from "./rateLimit";
+import { readServerSentEvents } from "./sse";
+
+/**
+ * Server-side LLM calls for `/api/ai/suggestions`. Keys and endpoints come
+ * from the environment and never reach the browser:
+ *
+ * - openai: OPENAI_API_KEY, PERF_AI_OPENAI_MODEL
+ * - anthropic: ANTHROPIC_API_KEY, PERF_AI_ANTHROPIC_MODEL
+ * - custom (OpenAI-compatible, e.g. Ollama's http://localhost:11434/v1):
+ *   PERF_AI_CUSTOM_ENDPOINT, PERF_AI_CUSTOM_MODEL, PERF_AI_CUSTOM_API_KEY
+ *
+ * Each attempt is bounded by PERF_AI_TIMEOUT_MS; rate limiting, network
+ * errors, server errors and malformed replies are retried with backoff.
+ * Streamed replies are only retried until their first suggestion arrives.
+ */
+
+export type RemoteAIProvider = Exclude<AIProvider, "local">;
+
+export const AI_PROVIDERS: RemoteAIProvider[] = ["openai", "anthropic", "custom"];
+
+const OPENAI_ENDPOINT = "https://api.openai.com/v1";
+const OPENAI_MODEL = "gpt-4-turbo-preview";
+const ANTHROPIC_ENDPOINT = "https://api.anthropic.com/v1";
+const ANTHROPIC_MODEL = "claude-sonnet-4-5";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+const SYSTEM_PROMPT =
+  "You are a web performance expert. Analyze the provided performance data and return actionable suggestions. Respond with JSON only, without markdown or commentary.";
+const MAX_TOKENS = 4000;
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+// PERF_AI_RATE_LIMIT provider calls per client per minute (0 disables),
+// shared by the plain and streaming suggestion routes
+export const aiRateLimiter = createRateLimiter(
+  Number(process.env.PERF_AI_RATE_LIMIT ?? 10),
+  60_000,
+);
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryable = false,
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
+
+interface ProviderSettings {
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+}
+
+export interface AIProviderStatus {
+  id: AIProvider;
+  configured: boolean;
+  model?: string;
+}
+
+function getProviderSettings(
+  provider: RemoteAIProvider,
+): ProviderSettings | null {
+  const env = process.env;
+  switch (provider) {
+    case "openai":
+      return env.OPENAI_API_KEY
+        ? {
+            endpoint: OPENAI_ENDPOINT,
+            model: env.PERF_AI_OPENAI_MODEL || OPENAI_MODEL,
+            apiKey: env.OPENAI_API_KEY,
+          }
+        : null;
+    case "anthropic":
+      return env.ANTHROPIC_API_KEY
+        ? {
+            endpoint: ANTHROPIC_ENDPOINT,
+            model: env.PERF_AI_ANTHROPIC_MODEL || ANTHROPIC_MODEL,
+            apiKey: env.ANTHROPIC_API_KEY,
+          }
+        : null;
+    case "custom":
+      return env.PERF_AI_CUSTOM_ENDPOINT && env.PERF_AI_CUSTOM_MODEL
+        ? {
+            endpoint: env.PERF_AI_CUSTOM_ENDPOINT.replace(/\/+$/, ""),
+            model: env.PERF_AI_CUSTOM_MODEL,
+            apiKey: env.PERF_AI_CUSTOM_API_KEY || undefined,
+          }
+        : null;
+  }
+}
+
+/**
+ * Which providers the server can use, for the settings panel. Never
+ * includes keys or endpoints.
+ */
+export function listAIProviders(): AIProviderStatus[] {
+  return [
+    { id: "local", configured: true },
+    ...AI_PROVIDERS.map((id) => {
+      const settings = getProviderSettings(id);
+      return { id, configured: !!settings, model: settings?.model };
+    }),
+  ];
+}
+
+// Model the provider would use, or null when it is not configured
+export function getProviderModel(provider: RemoteAIProvider): string | null {
+  return getProviderSettings(provider)?.model ?? null;
+}
+
+/**
+ * Validate a suggestion request body. Returns an error message suitable for
+ * a 400 response, or null when the body is valid.
+ */
+export function validateAISuggestionRequest(body: unknown): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+  const input = body as Record<string, unknown>;
+
+  if (!AI_PROVIDERS.includes(input.provider as RemoteAIProvider)) {
+    return `Provider must be one of ${AI_PROVIDERS.join(", ")}`;
+  }
+
+  const entry = input.entry as Record<string, unknown> | undefined;
+  if (
+    !entry ||
+    typeof entry !== "object" ||
+    typeof entry.url !== "string" ||
+    !entry.metrics ||
+    typeof entry.metrics !== "object" ||
+    typeof entry.overallScore !== "number" ||
+    !Array.isArray(entry.resourceTimings)
+  ) {
+    return "Entry must be a performance entry with url, metrics, overallScore and resourceTimings";
+  }
+
+  if (
+    !Array.isArray(input.components) ||
+    !input.components.every(
+      (component) =>
+        component &&
+        typeof component.name === "string" &&
+        typeof component.status === "string" &&
+        typeof component.description === "string",
+    )
+  ) {
+    return "Components must be an array of component analyses";
+  }
+
+  // Streaming only: replace a single suggestion
+  if (input.regenerate !== undefined) {
+    const error = validateAISuggestion(input.regenerate);
+    if (error) return `Invalid suggestion to regenerate: ${error}`;
+  }
+  if (
+    input.exclude !== undefined &&
+    (!Array.isArray(input.exclude) ||
+      !input.exclude.every((title) => typeof title === "string"))
+  ) {
+    return "Exclude must be an array of suggestion titles";
+  }
+
+  return null;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+async function toHttpError(
+  response: Response,
+  label: string,
+): Promise<AIProviderError> {
+  const body = await response.json().catch(() => null);
+  return new AIProviderError(
+    `${label} API error (${response.status}): ${body?.error?.message || response.statusText}`,
+    502,
+    isRetryableStatus(response.status),
+  );
+}
+
+// Request for the provider's chat API, OpenAI-style for openai and custom
+function buildProviderRequest(
+  provider: RemoteAIProvider,
+  settings: ProviderSettings,
+  prompt: string,
+  stream: boolean,
+): { url: string; init: RequestInit } {
+  if (provider === "anthropic") {
+    return {
+      url: `${settings.endpoint}/messages`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": settings.apiKey!,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          system: SYSTEM_PROMPT,
+          messages: [{ role: "user", content: prompt }],
+          temperature: 0.7,
+          max_tokens: MAX_TOKENS,
+          stream,
+        }),
+      },
+    };
+  }
+
+  return {
+    url: `${settings.endpoint}/chat/completions`,
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.apiKey
+          ? { Authorization: `Bearer ${settings.apiKey}` }
+          : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.7,
+        max_tokens: MAX_TOKENS,
+        stream,
+      }),
+    },
+  };
+}
+
+const PROVIDER_LABELS: Record<RemoteAIProvider, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  custom: "Custom endpoint",
+};
+
+async function fetchProvider(
+  provider: RemoteAIProvider,
+  settings: ProviderSettings,
+  prompt: string,
+  stream: boolean,
+  signal: AbortSignal,
+): Promise<Response> {
+  const { url, init } = buildProviderRequest(provider, settings, prompt, stream);
+  const response = await fetch(url, { ...init, signal });
+  if (!response.ok) {
+    throw await toHttpError(response, PROVIDER_LABELS[provider]);
+  }
+  return response;
+}
+
+// Text of a complete (non-streamed) reply
+async function readReply(
+  provider: RemoteAIProvider,
+  response: Response,
+): Promise<string> {
+  const data = await response.json();
+  if (provider !== "anthropic") return data.choices?.[0]?.message?.content;
+  return (data.content || [])
+    .filter((block: { type: string }) => block.type === "text")
+    .map((block: { text: string }) => block.text)
+    .join("");
+}
+
+// Text deltas of a streamed reply
+async function* readReplyStream(
+  provider: RemoteAIProvider,
+  response: Response,
+): AsyncGenerator<string> {
+  if (!response.body) throw new AIResponseError("Empty response");
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    if (provider !== "anthropic") {
+      if (data === "[DONE]") return;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) yield delta;
+    } else if (event === "error") {
+      const message = JSON.parse(data).error?.message;
+      throw new AIProviderError(`Anthropic stream error: ${message}`, 502, true);
+    } else if (event === "content_block_delta") {
+      const delta = JSON.parse(data).delta;
+      if (delta?.type === "text_delta") yield delta.text;
+    }
+  }
+}
+
+// Map low-level failures of one attempt to an AIProviderError
+function toProviderError(error: unknown, timeoutMs: number): AIProviderError {
+  if (error instanceof AIProviderError) return error;
+  if (error instanceof AIResponseError) {
+    // Models occasionally produce malformed output; another sample may not
+    return new AIProviderError(`Malformed suggestions: ${error.message}`, 502, true);
+  }
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new AIProviderError(
+      `Provider did not respond within ${timeoutMs}ms`,
+      504,
+      true,
+    );
+  }
+  return new AIProviderError(
+    `Could not reach provider: ${error instanceof Error ? error.message : error}`,
+    502,
+    true,
+  );
+}
+
+async function attempt(
+  provider: RemoteAIProvider,
+  settings: ProviderSettings,
+  prompt: string,
+  timeoutMs: number,
+): Promise<AISuggestion[]> {
+  try {
+    const response = await fetchProvider(
+      provider,
+      settings,
+      prompt,
+      false,
+      AbortSignal.timeout(timeoutMs),
+    );
+    return parseAISuggestions(await readReply(provider, response));
+  } catch (error) {
+    throw toProviderError(error, timeoutMs);
+  }
+}
+
+async function streamAttempt(
+  provider: RemoteAIProvider,
+  settings: ProviderSettings,
+  prompt: string,
+  timeoutMs: number,
+  signal: AbortSignal,
+  onSuggestion: (suggestion: AISuggestion) => void,
+): Promise<AISuggestion[]> {
+  const suggestions: AISuggestion[] = [];
+  const parser = createSuggestionStreamParser((error) =>
+    console.warn(`AI provider (${provider}) rejected suggestion:`, error),
+  );
+
+  try {
+    const response = await fetchProvider(
+      provider,
+      settings,
+      prompt,
+      true,
+      AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]),
+    );
+    for await (const text of readReplyStream(provider, response)) {
+      for (const suggestion of parser.push(text)) {
+        suggestions.push(suggestion);
+        onSuggestion(suggestion);
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) throw error;
+    const providerError = toProviderError(error, timeoutMs);
+    // Suggestions already sent cannot be taken back, so never retry then
+    if (suggestions.length > 0) providerError.retryable = false;
+    throw providerError;
+  }
+
+  if (suggestions.length === 0) {
+    throw new AIProviderError(
+      "Malformed suggestions: reply contained no valid suggestions",
+      502,
+      true,
+    );
+  }
+  return suggestions;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function resolveSettings(provider: RemoteAIProvider): ProviderSettings {
+  const settings = getProviderSettings(provider);
+  if (!settings) {
+    throw new AIProviderError(
+      `Provider '${provider}' is not configured on the server`,
+      400,
+    );
+  }
+  return settings;
+}
+
+function getTimeout(): number {
+  return Number(process.env.PERF_AI_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+}
+
+// Run attempts until one succeeds, the error is final or attempts run out
+async function withRetries<T>(
+  provider: RemoteAIProvider,
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const providerError = error as AIProviderError;
+      if (!providerError.retryable || attemptNumber >= MAX_ATTEMPTS) {
+        throw providerError;
+      }
+      console.warn(
+        `AI provider (${provider}) attempt ${attemptNumber} failed, retrying:`,
+        providerError.message,
+      );
+      await sleep(
+        Math.min(RETRY_DELAY_MS * 2 ** (attemptNumber - 1), MAX_RETRY_DELAY_MS),
+      );
+    }
+  }
+}
+
+/**
+ * Generate suggestions with a configured provider. Throws `AIProviderError`
+ * when the provider is not configured or every attempt failed.
+ */
+export async function requestAISuggestions(
+  provider: RemoteAIProvider,
+  prompt: string,
+): Promise<{ suggestions: AISuggestion[]; model: string }> {
+  const settings = resolveSettings(provider);
+  const timeoutMs = getTimeout();
+  const suggestions = await withRetries(provider, () =>
+    attempt(provider, settings, prompt, timeoutMs),
+  );
+  return { suggestions, model: settings.model };
+}
+
+/**
+ * Streaming variant of `requestAISuggestions`: `onSuggestion` is called for
+ * each suggestion as soon as it has been parsed and validated. Aborting
+ * `signal` cancels the provider request.
+ */
+export async function streamAISuggestionsFromProvider(
+  provider: RemoteAIProvider,
+  prompt: string,
+  signal: AbortSignal,
+  onSuggestion: (suggestion: AISuggestion) => void,
+): Promise<{ suggestions: AISuggestion[]; model: string }> {
+  const settings = resolveSettings(provider);
+  const timeoutMs = getTimeout();
+  const suggestions = await withRetries(
+    provider,
+    () =>
+      streamAttempt(provider, settings, prompt, timeoutMs, signal, onSuggestion),
+    signal,
+  );
+  return { suggestions, model: settings.model };
+}
@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+import { AISuggestion } from "@/types";
+import { createJsonCollection } from "./jsonStore";
+import type { RemoteAIProvider } from "./aiProviders";
+
+/**
+ * Server-side cache of LLM suggestions, newest first. Entries are keyed by
+ * a hash of the provider, model and analysis prompt, which is built from
+ * the entry's metrics, audits and resources, so re-opening an entry (or an
+ * identical re-run) does not call the provider again.
+ */
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHED = 200;
+
+export interface CachedSuggestions {
+  id: string; // Cache key
+  provider: RemoteAIProvider;
+  model: string;
+  suggestions: AISuggestion[];
+  createdAt: string;
+}
+
+const cache = createJsonCollection<CachedSuggestions>("ai-suggestions");
+
+export function getSuggestionCacheKey(
+  provider: RemoteAIProvider,
+  model: string,
+  prompt: string,
+): string {
+  return createHash("sha256")
+    .update(`${provider}\n${model}\n${prompt}`)
+    .digest("hex");
+}
+
+export async function getCachedSuggestions(
+  key: string,
+): Promise<CachedSuggestions | undefined> {
+  const cached = await cache.get(key);
+  if (!cached) return undefined;
+  return Date.now() - new Date(cached.createdAt).getTime() < CACHE_TTL_MS
+    ? cached
+    : undefined;
+}
+
+export async function cacheSuggestions(
+  item: CachedSuggestions,
+): Promise<void> {
+  const cutoff = Date.now() - CACHE_TTL_MS;
+  await cache.update((items) =>
+    [
+      item,
+      ...items.filter(
+        (existing) =>
+          existing.id !== item.id &&
+          new Date(existing.createdAt).getTime() >= cutoff,
+      ),
+    ].slice(0, MAX_CACHED),
+  );
+}
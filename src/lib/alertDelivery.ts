@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from "uuid";
+import { AlertDelivery, AlertEvent, AlertRule, Strategy } from "@/types";
+import { recordDelivery } from "./alertRepository";
+
+/**
+ * Sends alert notifications to webhooks and records every attempt in the
+ * delivery log. Slack and Teams channels get payloads their incoming
+ * webhooks render; generic webhooks get a flat JSON document.
+ */
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export interface AlertNotification {
+  event: AlertEvent;
+  rule: AlertRule;
+  url: string;
+  strategy: Strategy;
+  value?: number;
+  baseline?: number;
+  reason: string;
+  entryId?: string;
+  timestamp: string;
+}
+
+const EVENT_TITLES: Record<AlertEvent, string> = {
+  triggered: "Performance alert",
+  resolved: "Performance alert resolved",
+  test: "Test alert",
+};
+
+// Teams theme colors per event
+const EVENT_COLORS: Record<AlertEvent, string> = {
+  triggered: "D93025",
+  resolved: "1E8E3E",
+  test: "1A73E8",
+};
+
+export function formatAlertValue(
+  metric: AlertRule["metric"],
+  value: number,
+): string {
+  if (metric === "cls") return value.toFixed(3);
+  if (metric === "score") return String(Math.round(value));
+  return `${Math.round(value)}ms`;
+}
+
+function buildFacts(notification: AlertNotification) {
+  const { rule, value, baseline } = notification;
+  const facts = [
+    { name: "URL", value: notification.url },
+    { name: "Strategy", value: notification.strategy },
+    { name: "Metric", value: rule.metric.toUpperCase() },
+  ];
+  if (value !== undefined) {
+    facts.push({ name: "Value", value: formatAlertValue(rule.metric, value) });
+  }
+  if (baseline !== undefined) {
+    facts.push({
+      name: "Baseline (median)",
+      value: formatAlertValue(rule.metric, baseline),
+    });
+  }
+  return facts;
+}
+
+export function buildAlertPayload(notification: AlertNotification): unknown {
+  const { rule, event } = notification;
+  const title = `${EVENT_TITLES[event]}: ${rule.name}`;
+  const facts = buildFacts(notification);
+
+  switch (rule.channel.type) {
+    case "slack":
+      return {
+        text: `${title} - ${notification.reason}`,
+        blocks: [
+          {
+            type: "section",
+            text: {
+              type: "mrkdwn",
+              text: `*${title}*\n${notification.reason}`,
+            },
+          },
+          {
+            type: "section",
+            fields: facts.map((fact) => ({
+              type: "mrkdwn",
+              text: `*${fact.name}*\n${fact.value}`,
+            })),
+          },
+        ],
+      };
+    case "teams":
+      return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        themeColor: EVENT_COLORS[event],
+        summary: title,
+        title,
+        text: notification.reason,
+        sections: [{ facts }],
+      };
+    default:
+      return {
+        event,
+        rule: { id: rule.id, name: rule.name, metric: rule.metric },
+        url: notification.url,
+        strategy: notification.strategy,
+        metric: rule.metric,
+        value: notification.value,
+        baseline: notification.baseline,
+        reason: notification.reason,
+        entryId: notification.entryId,
+        timestamp: notification.timestamp,
+      };
+  }
+}
+
+/**
+ * POST the notification to the rule's channel. Never throws; the outcome is
+ * returned and written to the delivery log.
+ */
+export async function deliverAlert(
+  notification: AlertNotification,
+): Promise<AlertDelivery> {
+  const { rule } = notification;
+  const delivery: AlertDelivery = {
+    id: uuidv4(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    event: notification.event,
+    url: notification.url,
+    strategy: notification.strategy,
+    metric: rule.metric,
+    value: notification.value,
+    baseline: notification.baseline,
+    reason: notification.reason,
+    entryId: notification.entryId,
+    status: "failed",
+    sentAt: new Date().toISOString(),
+  };
+
+  try {
+    const response = await fetch(rule.channel.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(buildAlertPayload(notification)),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    delivery.statusCode = response.status;
+    if (response.ok) {
+      delivery.status = "delivered";
+    } else {
+      delivery.error = `Webhook responded with ${response.status} ${response.statusText}`;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      delivery.error = `Webhook did not respond within ${DELIVERY_TIMEOUT_MS / 1000}s`;
+    } else if (error instanceof Error) {
+      // fetch() hides the network error (ECONNREFUSED etc.) in `cause`
+      delivery.error =
+        error.cause instanceof Error ? error.cause.message : error.message;
+    } else {
+      delivery.error = "Delivery failed";
+    }
+  }
+
+  return recordDelivery(delivery);
+}
@@ -0,0 +1,71 @@
+import { AlertDelivery, AlertRule } from "@/types";
+import { createJsonCollection } from "./jsonStore";
+
+/**
+ * Server-side storage for alert rules, their per-URL firing state and the
+ * delivery log.
+ */
+
+// Delivery log entries kept across all rules, newest first
+const MAX_DELIVERIES = 500;
+
+// Consecutive breaches of one rule for one URL and strategy
+export interface AlertState {
+  id: string; // `${ruleId}|${url}|${strategy}`
+  breaches: number;
+  firing: boolean;
+}
+
+const rules = createJsonCollection<AlertRule>("alert-rules");
+const states = createJsonCollection<AlertState>("alert-state");
+const deliveries = createJsonCollection<AlertDelivery>("alert-deliveries");
+
+export async function listRules(): Promise<AlertRule[]> {
+  return (await rules.list()).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+}
+
+export function getRule(id: string): Promise<AlertRule | undefined> {
+  return rules.get(id);
+}
+
+export function saveRule(rule: AlertRule): Promise<AlertRule> {
+  return rules.put(rule);
+}
+
+export async function deleteRule(id: string): Promise<boolean> {
+  const removed = await rules.remove(id);
+  if (removed) {
+    await states.update((items) =>
+      items.filter((state) => !state.id.startsWith(`${id}|`)),
+    );
+  }
+  return removed;
+}
+
+export function getAlertState(id: string): Promise<AlertState | undefined> {
+  return states.get(id);
+}
+
+export function saveAlertState(state: AlertState): Promise<AlertState> {
+  return states.put(state);
+}
+
+export async function listDeliveries(
+  ruleId?: string,
+  limit = 100,
+): Promise<AlertDelivery[]> {
+  return (await deliveries.list())
+    .filter((delivery) => !ruleId || delivery.ruleId === ruleId)
+    .slice(0, limit);
+}
+
+export async function recordDelivery(
+  delivery: AlertDelivery,
+): Promise<AlertDelivery> {
+  await deliveries.update((items) =>
+    [delivery, ...items].slice(0, MAX_DELIVERIES),
+  );
+  return delivery;
+}
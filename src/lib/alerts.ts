@@ -0,0 +1,268 @@
+import { AlertRule, PerformanceEntry } from "@/types";
+import { getEntryStrategy, hasLabScore } from "./utils";
+import { getTrendValue, percentile } from "./trends";
+import { queryEntries } from "./entryRepository";
+import { getAlertState, listRules, saveAlertState } from "./alertRepository";
+import { deliverAlert, formatAlertValue } from "./alertDelivery";
+
+/**
+ * Alert rule evaluation. Every new entry is checked against the enabled
+ * rules for its URL and strategy; a rule fires once it has breached for
+ * `consecutive` runs in a row and sends a resolved notice when the next
+ * run is back within limits. HAR imports are not lab runs: they neither
+ * trigger alerts nor count towards baselines.
+ */
+
+export type AlertRuleInput = Pick<
+  AlertRule,
+  | "name"
+  | "urlPattern"
+  | "strategy"
+  | "metric"
+  | "threshold"
+  | "regressionPercent"
+  | "baselineRuns"
+  | "consecutive"
+  | "channel"
+  | "enabled"
+>;
+
+export const DEFAULT_BASELINE_RUNS = 5;
+
+const ALERT_METRICS = ["lcp", "fcp", "cls", "fid", "inp", "ttfb", "score"];
+const CHANNEL_TYPES = ["webhook", "slack", "teams"];
+
+type EntryLike = Pick<
+  PerformanceEntry,
+  "id" | "url" | "metrics" | "overallScore" | "strategy" | "source"
+> & { timestamp: Date | string };
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Validate a create (full) or edit (partial) request body. Returns an error
+ * message suitable for a 400 response, or null when the input is valid.
+ */
+export function validateAlertRuleInput(
+  body: unknown,
+  partial = false,
+): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+  const input = body as Partial<Record<keyof AlertRuleInput, unknown>>;
+
+  if (!partial || input.metric !== undefined) {
+    if (!ALERT_METRICS.includes(input.metric as string)) {
+      return `Metric must be one of ${ALERT_METRICS.join(", ")}`;
+    }
+  }
+
+  if (!partial || input.channel !== undefined) {
+    const channel = input.channel as AlertRule["channel"] | undefined;
+    if (!channel || !CHANNEL_TYPES.includes(channel.type)) {
+      return `Channel type must be one of ${CHANNEL_TYPES.join(", ")}`;
+    }
+    try {
+      const parsed = new URL(channel.url);
+      if (!["http:", "https:"].includes(parsed.protocol)) {
+        throw new Error("Invalid protocol");
+      }
+    } catch {
+      return "Channel URL must be a valid HTTP or HTTPS URL";
+    }
+  }
+
+  for (const key of ["threshold", "regressionPercent"] as const) {
+    if (
+      input[key] !== undefined &&
+      input[key] !== null &&
+      (typeof input[key] !== "number" || (input[key] as number) < 0)
+    ) {
+      return `${key} must be a non-negative number`;
+    }
+  }
+  if (!partial && input.threshold == null && input.regressionPercent == null) {
+    return "Set a threshold, a regression percentage, or both";
+  }
+
+  for (const key of ["baselineRuns", "consecutive"] as const) {
+    if (input[key] !== undefined && !isPositiveInteger(input[key])) {
+      return `${key} must be a positive whole number`;
+    }
+  }
+
+  if (
+    input.strategy !== undefined &&
+    input.strategy !== null &&
+    !["mobile", "desktop"].includes(input.strategy as string)
+  ) {
+    return "Strategy must be 'mobile' or 'desktop'";
+  }
+  for (const key of ["name", "urlPattern"] as const) {
+    if (input[key] !== undefined && typeof input[key] !== "string") {
+      return `${key} must be a string`;
+    }
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "Enabled must be true or false";
+  }
+
+  return null;
+}
+
+/**
+ * Pick the client-settable fields from a validated body. `null` clears an
+ * optional field.
+ */
+export function toAlertRuleInput(
+  body: Partial<Record<keyof AlertRuleInput, unknown>>,
+): Partial<AlertRuleInput> {
+  const input: Partial<AlertRuleInput> = {};
+  const optional = (value: unknown) => (value === null ? undefined : value);
+
+  if (body.name !== undefined) input.name = (body.name as string).trim();
+  if (body.urlPattern !== undefined) {
+    input.urlPattern = (body.urlPattern as string).trim() || undefined;
+  }
+  if (body.strategy !== undefined) {
+    input.strategy = optional(body.strategy) as AlertRule["strategy"];
+  }
+  if (body.metric !== undefined) {
+    input.metric = body.metric as AlertRule["metric"];
+  }
+  if (body.threshold !== undefined) {
+    input.threshold = optional(body.threshold) as number | undefined;
+  }
+  if (body.regressionPercent !== undefined) {
+    input.regressionPercent = optional(body.regressionPercent) as
+      | number
+      | undefined;
+  }
+  if (body.baselineRuns !== undefined) {
+    input.baselineRuns = body.baselineRuns as number;
+  }
+  if (body.consecutive !== undefined) {
+    input.consecutive = body.consecutive as number;
+  }
+  if (body.channel !== undefined) {
+    const channel = body.channel as AlertRule["channel"];
+    input.channel = { type: channel.type, url: channel.url.trim() };
+  }
+  if (body.enabled !== undefined) input.enabled = body.enabled as boolean;
+  return input;
+}
+
+export function ruleMatches(rule: AlertRule, entry: EntryLike): boolean {
+  return (
+    rule.enabled &&
+    (!rule.urlPattern || entry.url.includes(rule.urlPattern)) &&
+    (!rule.strategy || rule.strategy === getEntryStrategy(entry))
+  );
+}
+
+/**
+ * Why `value` breaches the rule, or null when it is within limits. The
+ * score is better when higher; every other metric is better when lower.
+ */
+export function checkRule(
+  rule: AlertRule,
+  value: number,
+  baseline?: number,
+): string | null {
+  const label = rule.metric.toUpperCase();
+  const format = (n: number) => formatAlertValue(rule.metric, n);
+  const higherIsBetter = rule.metric === "score";
+
+  if (rule.threshold !== undefined) {
+    const breached = higherIsBetter
+      ? value < rule.threshold
+      : value > rule.threshold;
+    if (breached) {
+      return `${label} ${format(value)} is ${higherIsBetter ? "below" : "above"} the threshold of ${format(rule.threshold)}`;
+    }
+  }
+
+  if (rule.regressionPercent !== undefined && baseline) {
+    const change = higherIsBetter
+      ? ((baseline - value) / baseline) * 100
+      : ((value - baseline) / baseline) * 100;
+    if (change >= rule.regressionPercent) {
+      return `${label} ${format(value)} is ${Math.round(change)}% worse than the ${rule.baselineRuns}-run median of ${format(baseline)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a newly stored entry against every matching rule and deliver the
+ * resulting notifications.
+ */
+export async function evaluateAlerts(entry: EntryLike): Promise<void> {
+  if (!hasLabScore(entry)) return;
+  const rules = (await listRules()).filter((rule) => ruleMatches(rule, entry));
+  if (rules.length === 0) return;
+
+  const strategy = getEntryStrategy(entry);
+  const time = new Date(entry.timestamp).getTime();
+  // Previous runs of the same page, newest first
+  const history = (await queryEntries({ url: entry.url, strategy })).filter(
+    (previous) =>
+      previous.id !== entry.id &&
+      hasLabScore(previous) &&
+      new Date(previous.timestamp).getTime() < time,
+  );
+
+  for (const rule of rules) {
+    const value = getTrendValue(entry, rule.metric);
+    if (value === undefined) continue;
+
+    const baselineValues = history
+      .map((previous) => getTrendValue(previous, rule.metric))
+      .filter((v): v is number => v !== undefined)
+      .slice(0, rule.baselineRuns)
+      .sort((a, b) => a - b);
+    const baseline =
+      baselineValues.length > 0 ? percentile(baselineValues, 50) : undefined;
+
+    const stateId = `${rule.id}|${entry.url}|${strategy}`;
+    const state = (await getAlertState(stateId)) ?? {
+      id: stateId,
+      breaches: 0,
+      firing: false,
+    };
+    const reason = checkRule(rule, value, baseline);
+    const notification = {
+      rule,
+      url: entry.url,
+      strategy,
+      value,
+      baseline,
+      entryId: entry.id,
+      timestamp: new Date().toISOString(),
+    };
+
+    if (reason) {
+      state.breaches += 1;
+      if (!state.firing && state.breaches >= rule.consecutive) {
+        state.firing = true;
+        await deliverAlert({ ...notification, event: "triggered", reason });
+      }
+    } else {
+      if (state.firing) {
+        await deliverAlert({
+          ...notification,
+          event: "resolved",
+          reason: `${rule.metric.toUpperCase()} is back within limits at ${formatAlertValue(rule.metric, value)}`,
+        });
+      }
+      state.breaches = 0;
+      state.firing = false;
+    }
+
+    await saveAlertState(state);
+  }
+}
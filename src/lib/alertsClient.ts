@@ -0,0 +1,77 @@
+import { AlertDelivery, AlertRule } from "@/types";
+import type { AlertRuleInput } from "./alerts";
+
+/**
+ * Browser client for the `/api/alerts` routes. Every function throws when
+ * the server cannot be reached or rejects the request.
+ */
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export async function fetchAlertRules(): Promise<AlertRule[]> {
+  const data = await request<{ rules: AlertRule[] }>("/api/alerts");
+  return data.rules;
+}
+
+export async function createAlertRule(
+  input: Partial<AlertRuleInput> &
+    Pick<AlertRuleInput, "metric" | "channel">,
+): Promise<AlertRule> {
+  const data = await request<{ rule: AlertRule }>("/api/alerts", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return data.rule;
+}
+
+export async function updateAlertRule(
+  id: string,
+  input: Partial<AlertRuleInput>,
+): Promise<AlertRule> {
+  const data = await request<{ rule: AlertRule }>(
+    `/api/alerts/${encodeURIComponent(id)}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    },
+  );
+  return data.rule;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  await request(`/api/alerts/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+}
+
+export async function sendTestAlert(id: string): Promise<AlertDelivery> {
+  const data = await request<{ delivery: AlertDelivery }>(
+    `/api/alerts/${encodeURIComponent(id)}/test`,
+    { method: "POST" },
+  );
+  return data.delivery;
+}
+
+export async function fetchAlertDeliveries(
+  ruleId?: string,
+): Promise<AlertDelivery[]> {
+  const params = new URLSearchParams();
+  if (ruleId) params.set("ruleId", ruleId);
+  const data = await request<{ deliveries: AlertDelivery[] }>(
+    `/api/alerts/deliveries?${params.toString()}`,
+  );
+  return data.deliveries;
+}
@@ -0,0 +1,97 @@
+/**
+ * Helpers for batch analysis: turning pasted text, text files and sitemaps
+ * into a URL list, and running work items with a concurrency limit.
+ */
+
+export const MAX_BATCH_URLS = 500;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const parsed = new URL(value);
+    return ["http:", "https:"].includes(parsed.protocol);
+  } catch {
+    return false;
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+export function isSitemapXml(text: string): boolean {
+  return /<(urlset|sitemapindex)[\s>]/i.test(text);
+}
+
+/**
+ * Extract `<loc>` entries from a sitemap. For a sitemap index the returned
+ * `sitemaps` hold the child sitemap locations to fetch next.
+ */
+export function parseSitemap(xml: string): {
+  urls: string[];
+  sitemaps: string[];
+} {
+  const locs = Array.from(xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi))
+    .map((match) => decodeXmlEntities(match[1].trim()))
+    .filter(isHttpUrl);
+
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    return { urls: [], sitemaps: locs };
+  }
+  return { urls: locs, sitemaps: [] };
+}
+
+/**
+ * Parse a pasted list or uploaded file into unique HTTP(S) URLs. Accepts one
+ * URL per line (commas and whitespace also separate) or sitemap XML.
+ */
+export function parseUrlList(text: string): string[] {
+  const candidates = isSitemapXml(text)
+    ? parseSitemap(text).urls
+    : text
+        .split(/[\s,]+/)
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#"))
+        .filter(isHttpUrl);
+
+  return Array.from(new Set(candidates)).slice(0, MAX_BATCH_URLS);
+}
+
+/**
+ * Run `worker` over every item with at most `limit` calls in flight. Results
+ * keep the input order; a rejected item does not stop the others.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await worker(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    runNext,
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,53 @@
+import { v4 as uuidv4 } from "uuid";
+import { BudgetDefinition } from "@/types";
+import { createJsonCollection } from "./jsonStore";
+import type { BudgetInput } from "./lighthouseBudgets";
+
+/**
+ * Server-side storage for performance budgets. Budgets are listed in
+ * creation order, which decides precedence when several paths match.
+ */
+
+const budgets = createJsonCollection<BudgetDefinition>("budgets");
+
+export async function listBudgets(): Promise<BudgetDefinition[]> {
+  return (await budgets.list()).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+}
+
+export function getBudget(id: string): Promise<BudgetDefinition | undefined> {
+  return budgets.get(id);
+}
+
+export function saveBudget(
+  budget: BudgetDefinition,
+): Promise<BudgetDefinition> {
+  return budgets.put(budget);
+}
+
+export function deleteBudget(id: string): Promise<boolean> {
+  return budgets.remove(id);
+}
+
+/**
+ * Store imported budgets, optionally replacing every existing budget.
+ */
+export async function importBudgets(
+  inputs: BudgetInput[],
+  replace = false,
+): Promise<BudgetDefinition[]> {
+  const now = Date.now();
+  // Stagger timestamps so the budget.json order survives sorting
+  const created = inputs.map((input, index) => {
+    const timestamp = new Date(now + index).toISOString();
+    return {
+      ...input,
+      id: uuidv4(),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+  });
+  await budgets.update((items) => [...(replace ? [] : items), ...created]);
+  return created;
+}
@@ -0,0 +1,438 @@
+import {
+  BudgetCheck,
+  BudgetCheckStatus,
+  BudgetDefinition,
+  BudgetResourceType,
+  BudgetViolation,
+  MetricBudgets,
+  METRIC_THRESHOLDS,
+  MetricKey,
+  PerformanceEntry,
+  ResourceTiming,
+  Strategy,
+} from "@/types";
+import { isThirdParty, summarizeThirdParties } from "./thirdParty";
+import { getEntryStrategy, getFieldMetric, hasLabScore } from "./utils";
+
+/**
+ * Performance budgets: metric limits plus byte and request-count limits per
+ * resource type, matched to pages by Lighthouse-style path patterns.
+ */
+
+export const BUDGET_RESOURCE_TYPES: BudgetResourceType[] = [
+  "total",
+  "document",
+  "script",
+  "stylesheet",
+  "image",
+  "media",
+  "font",
+  "other",
+  "third-party",
+];
+
+export const BUDGET_METRICS: (MetricKey | "score")[] = [
+  "score",
+  "lcp",
+  "fcp",
+  "cls",
+  "inp",
+  "fid",
+  "ttfb",
+];
+
+// Used when no stored budget matches the page
+export const DEFAULT_BUDGET: Pick<
+  BudgetDefinition,
+  "metrics" | "resourceSizes" | "resourceCounts"
+> = {
+  metrics: { lcp: 2500, fcp: 1800, cls: 0.1, ttfb: 800 },
+  resourceSizes: { total: 1000000 }, // 1MB
+  resourceCounts: { total: 50 },
+};
+
+/**
+ * Compare an entry against metric budgets. Metric budgets are upper limits;
+ * the score budget is a lower limit.
+ */
+export function evaluateBudgets(
+  entry: Pick<
+    PerformanceEntry,
+    "metrics" | "overallScore" | "strategy" | "source"
+  >,
+  budgets: MetricBudgets,
+): BudgetViolation[] {
+  const strategy = getEntryStrategy(entry);
+  const violations: BudgetViolation[] = [];
+
+  for (const [metric, budget] of Object.entries(budgets)) {
+    if (budget === undefined) continue;
+
+    if (metric === "score") {
+      if (hasLabScore(entry) && entry.overallScore < budget) {
+        violations.push({
+          metric,
+          strategy,
+          actual: entry.overallScore,
+          budget,
+        });
+      }
+      continue;
+    }
+
+    const actual = entry.metrics[metric as MetricKey];
+    if (actual !== undefined && actual > budget) {
+      violations.push({
+        metric: metric as MetricKey,
+        strategy,
+        actual,
+        budget,
+      });
+    }
+  }
+
+  return violations;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Lighthouse path matching: `*` matches any characters, a trailing `$`
+ * anchors the end, and anything else is a prefix match against the URL's
+ * path and query string.
+ */
+export function matchesBudgetPath(path: string, url: string): boolean {
+  let target: string;
+  try {
+    const parsed = new URL(url);
+    target = parsed.pathname + parsed.search;
+  } catch {
+    return false;
+  }
+
+  const anchored = path.endsWith("$");
+  const body = anchored ? path.slice(0, -1) : path;
+  const pattern = body.split("*").map(escapeRegExp).join(".*");
+  return new RegExp(`^${pattern}${anchored ? "$" : ""}`).test(target);
+}
+
+/**
+ * The budget that applies to a page. As in Lighthouse the last matching
+ * budget wins, except that strategy-specific budgets beat generic ones.
+ */
+export function findBudget(
+  budgets: BudgetDefinition[],
+  url: string,
+  strategy: Strategy,
+): BudgetDefinition | undefined {
+  const matches = budgets.filter(
+    (budget) =>
+      (!budget.strategy || budget.strategy === strategy) &&
+      matchesBudgetPath(budget.path, url),
+  );
+  return (
+    matches.filter((budget) => budget.strategy).pop() ?? matches.pop()
+  );
+}
+
+// Lighthouse `resourceType` and `initiatorType` values per budget group
+const RESOURCE_GROUPS: Record<string, BudgetResourceType> = {
+  Document: "document",
+  Script: "script",
+  Stylesheet: "stylesheet",
+  Image: "image",
+  Media: "media",
+  Font: "font",
+  document: "document",
+  script: "script",
+  css: "stylesheet",
+  link: "stylesheet",
+  img: "image",
+  image: "image",
+  media: "media",
+  video: "media",
+  audio: "media",
+  font: "font",
+};
+
+export function getResourceGroup(
+  resource: Pick<ResourceTiming, "resourceType" | "initiatorType">,
+): BudgetResourceType {
+  return (
+    RESOURCE_GROUPS[resource.resourceType ?? ""] ??
+    RESOURCE_GROUPS[resource.initiatorType] ??
+    "other"
+  );
+}
+
+export type ResourceSummary = Record<
+  BudgetResourceType,
+  { bytes: number; count: number }
+>;
+
+/**
+ * Transfer size and request count of an entry per budget resource group.
+ */
+export function summarizeResources(
+  entry: Pick<PerformanceEntry, "url" | "resourceTimings">,
+  firstPartyHostnames?: string[],
+): ResourceSummary {
+  const summary = Object.fromEntries(
+    BUDGET_RESOURCE_TYPES.map((type) => [type, { bytes: 0, count: 0 }]),
+  ) as ResourceSummary;
+
+  const add = (type: BudgetResourceType, resource: ResourceTiming) => {
+    summary[type].bytes += resource.transferSize;
+    summary[type].count += 1;
+  };
+
+  for (const resource of entry.resourceTimings) {
+    add("total", resource);
+    add(getResourceGroup(resource), resource);
+    if (isThirdParty(resource, entry.url, firstPartyHostnames)) {
+      add("third-party", resource);
+    }
+  }
+
+  return summary;
+}
+
+export const BUDGET_METRIC_LABELS: Record<MetricKey | "score", string> = {
+  score: "Performance Score",
+  lcp: "Largest Contentful Paint",
+  fcp: "First Contentful Paint",
+  cls: "Cumulative Layout Shift",
+  inp: "Interaction to Next Paint",
+  fid: "First Input Delay",
+  ttfb: "Time to First Byte",
+};
+
+export const BUDGET_RESOURCE_LABELS: Record<BudgetResourceType, string> = {
+  total: "All resources",
+  document: "Documents",
+  script: "Scripts",
+  stylesheet: "Stylesheets",
+  image: "Images",
+  media: "Media",
+  font: "Fonts",
+  other: "Other",
+  "third-party": "Third-party",
+};
+
+// Within the "good" threshold (or budget, if stricter) passes; within budget warns
+function getCheckStatus(
+  actual: number,
+  budget: number,
+  good: number,
+): BudgetCheckStatus {
+  if (actual <= Math.min(good, budget)) return "pass";
+  if (actual <= budget) return "warning";
+  return "fail";
+}
+
+/**
+ * Check an entry against a budget. With `useField`, metric checks use the
+ * CrUX p75 where the entry has field data and fall back to lab values.
+ * Must-justify vendors found on the page are listed as warnings.
+ */
+export function buildBudgetChecks(
+  entry: Pick<
+    PerformanceEntry,
+    | "url"
+    | "metrics"
+    | "overallScore"
+    | "source"
+    | "resourceTimings"
+    | "fieldData"
+    | "diagnostics"
+  >,
+  budget: Pick<
+    BudgetDefinition,
+    | "metrics"
+    | "resourceSizes"
+    | "resourceCounts"
+    | "firstPartyHostnames"
+    | "mustJustifyVendors"
+  >,
+  { useField = false }: { useField?: boolean } = {},
+): BudgetCheck[] {
+  const resources = summarizeResources(entry, budget.firstPartyHostnames);
+  const checks: BudgetCheck[] = [];
+
+  for (const key of BUDGET_METRICS) {
+    const limit = budget.metrics[key];
+    if (limit === undefined) continue;
+
+    if (key === "score") {
+      if (!hasLabScore(entry)) continue;
+      // Higher is better: the budget is a minimum score
+      const actual = entry.overallScore;
+      checks.push({
+        id: "metric:score",
+        name: "Score",
+        description: BUDGET_METRIC_LABELS.score,
+        unit: "score",
+        actual,
+        source: "lab",
+        budget: limit,
+        status:
+          actual >= Math.max(90, limit)
+            ? "pass"
+            : actual >= limit
+              ? "warning"
+              : "fail",
+        higherIsBetter: true,
+      });
+      continue;
+    }
+
+    const field = useField ? getFieldMetric(entry, key) : undefined;
+    const actual = field ? field.metric.p75 : entry.metrics[key] || 0;
+    const threshold = METRIC_THRESHOLDS[key.toUpperCase()];
+    checks.push({
+      id: `metric:${key}`,
+      name: key.toUpperCase(),
+      description: BUDGET_METRIC_LABELS[key],
+      unit: key === "cls" ? "unitless" : "ms",
+      actual,
+      source: field
+        ? `field p75${field.scope === "origin" ? ", origin" : ""}`
+        : "lab",
+      budget: limit,
+      status: getCheckStatus(actual, limit, threshold?.good ?? limit),
+    });
+  }
+
+  for (const type of BUDGET_RESOURCE_TYPES) {
+    const label = BUDGET_RESOURCE_LABELS[type];
+
+    const sizeLimit = budget.resourceSizes[type];
+    if (sizeLimit !== undefined) {
+      checks.push({
+        id: `size:${type}`,
+        name: type === "total" ? "Page Size" : `${label} Size`,
+        description: `Transfer size (${label.toLowerCase()})`,
+        unit: "bytes",
+        actual: resources[type].bytes,
+        source: "lab",
+        budget: sizeLimit,
+        status: getCheckStatus(
+          resources[type].bytes,
+          sizeLimit,
+          sizeLimit * 0.8,
+        ),
+      });
+    }
+
+    const countLimit = budget.resourceCounts[type];
+    if (countLimit !== undefined) {
+      checks.push({
+        id: `count:${type}`,
+        name: type === "total" ? "Requests" : `${label} Requests`,
+        description: `HTTP requests (${label.toLowerCase()})`,
+        unit: "count",
+        actual: resources[type].count,
+        source: "lab",
+        budget: countLimit,
+        status: getCheckStatus(
+          resources[type].count,
+          countLimit,
+          countLimit * 0.8,
+        ),
+      });
+    }
+  }
+
+  if (budget.mustJustifyVendors?.length) {
+    const flagged = new Set(
+      budget.mustJustifyVendors.map((vendor) => vendor.toLowerCase()),
+    );
+    const vendors = summarizeThirdParties(entry, budget.firstPartyHostnames);
+    for (const vendor of vendors) {
+      if (!flagged.has(vendor.entity.toLowerCase())) continue;
+      checks.push({
+        id: `vendor:${vendor.entity}`,
+        name: vendor.entity,
+        description: "Third-party vendor that must justify its cost",
+        unit: "bytes",
+        actual: vendor.bytes,
+        source: "lab",
+        budget: 0,
+        // Flagged vendors are reviewed, never failed
+        status: "warning",
+        mustJustify: true,
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Validate a create (full) or edit (partial) request body. Returns an error
+ * message suitable for a 400 response, or null when the input is valid.
+ */
+export function validateBudgetInput(
+  body: unknown,
+  partial = false,
+): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+  const input = body as Partial<Record<keyof BudgetDefinition, unknown>>;
+
+  if (!partial || input.path !== undefined) {
+    if (typeof input.path !== "string" || !input.path.startsWith("/")) {
+      return "Path must start with '/', e.g. '/' or '/products/*'";
+    }
+  }
+
+  if (
+    input.strategy !== undefined &&
+    input.strategy !== null &&
+    !["mobile", "desktop"].includes(input.strategy as string)
+  ) {
+    return "Strategy must be 'mobile' or 'desktop'";
+  }
+
+  const groups = [
+    ["metrics", BUDGET_METRICS],
+    ["resourceSizes", BUDGET_RESOURCE_TYPES],
+    ["resourceCounts", BUDGET_RESOURCE_TYPES],
+  ] as const;
+  for (const [key, allowed] of groups) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (!value || typeof value !== "object") return `${key} must be an object`;
+    for (const [name, limit] of Object.entries(value)) {
+      if (!(allowed as readonly string[]).includes(name)) {
+        return `Unknown ${key} entry '${name}'`;
+      }
+      if (typeof limit !== "number" || limit < 0) {
+        return `Budget for '${name}' must be a non-negative number`;
+      }
+    }
+  }
+
+  if (
+    input.firstPartyHostnames !== undefined &&
+    (!Array.isArray(input.firstPartyHostnames) ||
+      !input.firstPartyHostnames.every((h) => typeof h === "string"))
+  ) {
+    return "firstPartyHostnames must be a list of hostnames";
+  }
+  if (
+    input.mustJustifyVendors !== undefined &&
+    (!Array.isArray(input.mustJustifyVendors) ||
+      !input.mustJustifyVendors.every((v) => typeof v === "string"))
+  ) {
+    return "mustJustifyVendors must be a list of vendor names";
+  }
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "Name must be a string";
+  }
+
+  return null;
+}
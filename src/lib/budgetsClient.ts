@@ -0,0 +1,74 @@
+import { BudgetDefinition } from "@/types";
+import type { BudgetInput } from "./lighthouseBudgets";
+
+/**
+ * Browser client for the `/api/budgets` routes. Every function throws when
+ * the server cannot be reached or rejects the request.
+ */
+
+// Download link for the Lighthouse budget.json export
+export const BUDGET_EXPORT_URL = "/api/budgets/lighthouse";
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export async function fetchBudgets(): Promise<BudgetDefinition[]> {
+  const data = await request<{ budgets: BudgetDefinition[] }>("/api/budgets");
+  return data.budgets;
+}
+
+export async function createBudget(
+  input: Partial<BudgetInput> & Pick<BudgetInput, "path">,
+): Promise<BudgetDefinition> {
+  const data = await request<{ budget: BudgetDefinition }>("/api/budgets", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return data.budget;
+}
+
+export async function updateBudget(
+  id: string,
+  input: Partial<BudgetInput>,
+): Promise<BudgetDefinition> {
+  const data = await request<{ budget: BudgetDefinition }>(
+    `/api/budgets/${encodeURIComponent(id)}`,
+    {
+      method: "PATCH",
+      // undefined would drop the key; null tells the server to clear it
+      body: JSON.stringify({
+        ...input,
+        ...("strategy" in input && { strategy: input.strategy ?? null }),
+      }),
+    },
+  );
+  return data.budget;
+}
+
+export async function deleteBudget(id: string): Promise<void> {
+  await request(`/api/budgets/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+}
+
+export async function importLighthouseBudgets(
+  budgetJson: string,
+  replace = false,
+): Promise<{ budgets: BudgetDefinition[]; warnings: string[] }> {
+  return request(`${BUDGET_EXPORT_URL}?replace=${replace}`, {
+    method: "POST",
+    body: budgetJson,
+  });
+}
@@ -0,0 +1,532 @@
+import type { SuggestionRule } from "./rules";
+
+/**
+ * Built-in rules, in the order their suggestions are listed before sorting.
+ * Code examples are framework-neutral; `frameworkRules.ts` adds examples
+ * for the stacks we detect.
+ */
+
+export const BUILTIN_RULES: SuggestionRule[] = [
+  {
+    id: "optimize-ttfb",
+    title: "Optimize Server Response Time (TTFB)",
+    description:
+      "Your TTFB of {ttfb} exceeds the recommended 800ms threshold. This is the foundation of your page load - everything else waits for the server to respond.",
+    when: { metric: "ttfb", gt: 800 },
+    priority: "high",
+    escalate: [{ when: { metric: "ttfb", gt: 1800 }, priority: "critical" }],
+    category: "performance",
+    effort: "medium",
+    potentialGain: 15,
+    estimatedImpact: "Could improve FCP by 20-40% and overall load time",
+    affectedComponents: ["server-response"],
+    metric: "ttfb",
+    learnMoreUrl: "https://web.dev/ttfb/",
+    actions: [
+      "Use a Content Delivery Network (CDN)",
+      "Implement server-side caching",
+      "Optimize database queries and server-side code",
+      "Enable HTTP/2 or HTTP/3",
+      "Reduce DNS lookup time",
+    ],
+    codeExample: `// 1. Let a CDN cache rendered pages
+// Response header for HTML pages
+Cache-Control: public, s-maxage=600, stale-while-revalidate=86400
+
+// 2. Cache expensive server work (e.g. in Redis)
+const cached = await redis.get(cacheKey);
+if (cached) return cached;
+
+const html = await renderPage();
+await redis.set(cacheKey, html, { EX: 600 });
+return html;
+
+// 3. Find the slow part of the response with Server-Timing
+Server-Timing: db;dur=120, render;dur=45
+
+// 4. Connect to required origins early
+<link rel="preconnect" href="https://api.example.com" />`,
+  },
+  {
+    id: "optimize-lcp",
+    title: "Improve Largest Contentful Paint (LCP)",
+    description:
+      "LCP of {lcp} is above the recommended 2500ms threshold. The largest visible element (usually hero image or heading) is taking too long to render.",
+    when: { metric: "lcp", gt: 2500 },
+    priority: "high",
+    escalate: [{ when: { metric: "lcp", gt: 4000 }, priority: "critical" }],
+    category: "performance",
+    effort: "medium",
+    potentialGain: 20,
+    estimatedImpact: "Could improve overall score by 15-25 points",
+    affectedComponents: ["images", "server-response", "css"],
+    metric: "lcp",
+    learnMoreUrl: "https://web.dev/lcp/",
+    actions: [
+      "Preload the LCP image and never lazy load it",
+      "Optimize and compress images (use WebP/AVIF)",
+      "Use a CDN to serve static assets",
+      "Remove render-blocking JavaScript and CSS",
+      "Use responsive images with srcset",
+    ],
+    codeExample: `// 1. Preload LCP image in document head
+<link
+  rel="preload"
+  as="image"
+  href="/hero-image.webp"
+  fetchpriority="high"
+/>
+
+// 2. Give the LCP image high priority and explicit dimensions
+<img
+  src="/hero.webp"
+  alt="Hero"
+  width="1200"
+  height="600"
+  fetchpriority="high"
+  decoding="async"
+/>
+
+// 3. Inline critical CSS for above-the-fold content
+// Use critters or critical npm packages
+
+// 4. Avoid lazy loading LCP element
+// Remove loading="lazy" from hero images`,
+  },
+  {
+    id: "fix-cls",
+    title: "Fix Layout Shift Issues (CLS)",
+    description:
+      "CLS of {cls} indicates layout instability. Users are experiencing content jumping around as the page loads.",
+    when: { metric: "cls", gt: 0.1 },
+    priority: "high",
+    escalate: [{ when: { metric: "cls", gt: 0.25 }, priority: "critical" }],
+    category: "performance",
+    effort: "easy",
+    potentialGain: 18,
+    estimatedImpact: "Dramatically improves user experience and Core Web Vitals",
+    affectedComponents: ["layout-stability", "images", "fonts"],
+    metric: "cls",
+    learnMoreUrl: "https://web.dev/cls/",
+    actions: [
+      "Add width/height to images and videos",
+      "Reserve space for ads and embeds",
+      "Avoid inserting content above existing content",
+      "Use CSS aspect-ratio for media",
+      "Preload fonts to prevent FOUT/FOIT",
+    ],
+    codeExample: `// 1. Always set explicit dimensions on images
+<img
+  src="photo.jpg"
+  width="800"
+  height="600"
+  alt="Description"
+/>
+
+// 2. Use CSS aspect-ratio for responsive images
+.image-container {
+  aspect-ratio: 16 / 9;
+  width: 100%;
+}
+
+// 3. Reserve space for dynamic content (ads, embeds)
+.ad-slot {
+  min-height: 250px;
+  background: #f0f0f0;
+}
+
+// 4. Avoid inserting content above existing content
+// Bad: prepending to DOM
+// Good: appending or using fixed position
+
+// 5. Use transform for animations instead of layout properties
+.animated {
+  transform: translateX(100px); /* Good */
+  /* left: 100px; */ /* Bad - causes layout shift */
+}
+
+// 6. Preload fonts to prevent FOUT
+<link
+  rel="preload"
+  href="/fonts/inter.woff2"
+  as="font"
+  type="font/woff2"
+  crossorigin
+/>`,
+  },
+  {
+    id: "improve-fcp",
+    title: "Improve First Contentful Paint (FCP)",
+    description:
+      "FCP of {fcp} leaves visitors looking at a blank screen. Eliminate render-blocking resources and inline critical CSS.",
+    when: { metric: "fcp", rating: ["poor"] },
+    priority: "medium",
+    category: "performance",
+    effort: "medium",
+    potentialGain: 8,
+    estimatedImpact: "Content appears sooner, improving perceived load speed",
+    affectedComponents: ["css", "javascript"],
+    metric: "fcp",
+    learnMoreUrl: "https://web.dev/fcp/",
+    actions: [
+      "Inline critical CSS in the <head>",
+      "Defer non-critical JavaScript",
+      "Remove unused CSS",
+      "Preconnect to required origins",
+      "Avoid large network payloads",
+    ],
+  },
+  {
+    id: "optimize-js-bundle",
+    title: "Reduce JavaScript Bundle Size & Execution Time",
+    description:
+      "Large JavaScript bundles ({javascript.size}) are blocking the main thread for {javascript.loadTime}, delaying interactivity.",
+    when: { component: "javascript", status: ["critical", "needs-improvement"] },
+    priority: "high",
+    escalate: [{ when: { component: "javascript", status: ["critical"] }, priority: "critical" }],
+    category: "performance",
+    effort: "hard",
+    potentialGain: 22,
+    estimatedImpact: "Could reduce TBT by 40-60% and improve INP significantly",
+    affectedComponents: ["javascript", "main-thread"],
+    actions: [
+      "Split code with dynamic imports",
+      "Remove unused dependencies and tree-shake exports",
+      "Replace heavy libraries with lighter alternatives",
+      "Defer non-critical scripts",
+    ],
+    codeExample: `// 1. Load heavy modules only when they are needed
+button.addEventListener('click', async () => {
+  const { renderChart } = await import('./chart.js');
+  renderChart(data);
+});
+
+// 2. Analyze what is in your bundle
+// npx source-map-explorer 'dist/**/*.js'
+
+// 3. Tree-shake unused exports
+// package.json
+{
+  "sideEffects": false
+}
+
+// 4. Replace heavy libraries with lighter alternatives
+// moment.js (300KB) → date-fns (13KB) or dayjs (2KB)
+// lodash (70KB) → lodash-es (tree-shakeable)
+
+// 5. Defer non-critical scripts
+<script src="analytics.js" defer></script>`,
+  },
+  {
+    id: "optimize-images",
+    title: "Optimize Images for Web",
+    description:
+      "Images totaling {images.size} are a major bottleneck. Modern formats and proper sizing can reduce this by 50-80%.",
+    when: { component: "images", status: ["critical", "needs-improvement"] },
+    priority: "medium",
+    escalate: [{ when: { component: "images", status: ["critical"] }, priority: "high" }],
+    category: "performance",
+    effort: "easy",
+    potentialGain: 15,
+    estimatedImpact: "Could reduce page weight by 40-70%",
+    affectedComponents: ["images"],
+    actions: [
+      "Serve WebP or AVIF with fallbacks",
+      "Size images responsively with srcset and sizes",
+      "Lazy load below-the-fold images",
+    ],
+    codeExample: `// 1. Serve modern formats with fallbacks
+<picture>
+  <source srcset="photo.avif" type="image/avif" />
+  <source srcset="photo.webp" type="image/webp" />
+  <img src="photo.jpg" alt="..." loading="lazy" />
+</picture>
+
+// 2. Use responsive images
+<img
+  srcset="
+    photo-400.jpg 400w,
+    photo-800.jpg 800w,
+    photo-1200.jpg 1200w
+  "
+  sizes="(max-width: 600px) 100vw, 50vw"
+  src="photo-800.jpg"
+  alt="..."
+/>
+
+// 3. Lazy load below-the-fold images
+<img src="photo.jpg" loading="lazy" alt="..." />
+
+// 4. Resize and compress at build time, e.g. with sharp
+import sharp from 'sharp';
+
+await sharp('photo.jpg')
+  .resize({ width: 1200 })
+  .avif({ quality: 50 })
+  .toFile('photo-1200.avif');`,
+  },
+  {
+    id: "improve-inp",
+    title: "Improve Interaction Responsiveness (INP)",
+    description:
+      "INP of {inp} means user interactions feel slow. Users expect responses within 100ms.",
+    when: { metric: "inp", gt: 200 },
+    priority: "medium",
+    escalate: [{ when: { metric: "inp", gt: 500 }, priority: "critical" }],
+    category: "performance",
+    effort: "hard",
+    potentialGain: 12,
+    estimatedImpact: "Dramatically improves perceived performance and user satisfaction",
+    affectedComponents: ["main-thread", "javascript"],
+    metric: "inp",
+    learnMoreUrl: "https://web.dev/inp/",
+    actions: [
+      "Break up long tasks into smaller chunks",
+      "Optimize event handlers",
+      "Use web workers for heavy computations",
+      "Debounce/throttle rapid events",
+      "Avoid layout thrashing",
+    ],
+    codeExample: `// 1. Break up long tasks and yield to the main thread
+async function processLargeArray(items) {
+  for (let i = 0; i < items.length; i++) {
+    processItem(items[i]);
+    if (i % 100 === 0) {
+      // Let the browser handle pending input
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+}
+
+// 2. Paint feedback first, do the heavy work after
+button.addEventListener('click', () => {
+  showSpinner();
+  requestAnimationFrame(() => setTimeout(saveAndRecalculate, 0));
+});
+
+// 3. Debounce expensive handlers
+let timer;
+input.addEventListener('input', (e) => {
+  clearTimeout(timer);
+  timer = setTimeout(() => search(e.target.value), 300);
+});
+
+// 4. Use Web Workers for heavy computation
+const worker = new Worker('/heavy-computation.js');
+worker.postMessage(data);
+worker.onmessage = (e) => render(e.data);
+
+// 5. Skip rendering work for off-screen content
+.list-item {
+  content-visibility: auto;
+  contain-intrinsic-size: auto 50px;
+}`,
+  },
+  {
+    id: "improve-fid",
+    title: "Reduce First Input Delay (FID)",
+    description:
+      "FID of {fid} means the main thread is busy when visitors first interact with the page.",
+    when: { metric: "fid", gt: 100 },
+    priority: "low",
+    escalate: [{ when: { metric: "fid", gt: 300 }, priority: "medium" }],
+    category: "performance",
+    effort: "medium",
+    potentialGain: 5,
+    estimatedImpact: "Faster response to the first click or tap",
+    affectedComponents: ["main-thread", "javascript"],
+    metric: "fid",
+    learnMoreUrl: "https://web.dev/fid/",
+    actions: [
+      "Break up long JavaScript tasks",
+      "Use web workers for heavy computation",
+      "Reduce JavaScript execution time",
+      "Minimize main thread work",
+      "Keep request counts low",
+    ],
+  },
+  {
+    id: "optimize-css",
+    title: "Optimize CSS Delivery",
+    description:
+      "Render-blocking CSS is delaying first paint. Inlining critical CSS and deferring the rest can significantly improve FCP.",
+    when: { component: "css", status: ["needs-improvement", "critical"] },
+    priority: "medium",
+    category: "performance",
+    effort: "medium",
+    potentialGain: 10,
+    estimatedImpact: "Could improve FCP by 15-25%",
+    affectedComponents: ["css"],
+    actions: [
+      "Inline critical CSS",
+      "Defer non-critical stylesheets",
+      "Remove unused CSS",
+    ],
+    codeExample: `// 1. Inline critical CSS (above-the-fold styles)
+// Extract it with the critical or critters npm packages
+<style>
+  /* Header, hero and layout styles only */
+</style>
+
+// 2. Defer non-critical CSS
+<link
+  rel="preload"
+  href="styles.css"
+  as="style"
+  onload="this.onload=null;this.rel='stylesheet'"
+/>
+<noscript>
+  <link rel="stylesheet" href="styles.css" />
+</noscript>
+
+// 3. Remove unused CSS with PurgeCSS
+// postcss.config.js
+module.exports = {
+  plugins: [
+    require('@fullhuman/postcss-purgecss')({
+      content: ['./src/**/*.{html,js}'],
+    }),
+  ],
+}
+
+// 4. Use CSS containment for complex components
+.widget {
+  contain: layout style paint;
+}
+
+// 5. Avoid @import in CSS (causes sequential loading)
+/* Bad */
+@import url('other.css');
+
+/* Good - use link tags instead */
+<link rel="stylesheet" href="other.css" />`,
+  },
+  {
+    id: "optimize-fonts",
+    title: "Optimize Web Font Loading",
+    description:
+      "Font loading is causing layout shifts or invisible text (FOIT/FOUT). Proper font loading strategy improves both CLS and perceived performance.",
+    when: { component: "fonts", status: ["needs-improvement"] },
+    priority: "low",
+    category: "performance",
+    effort: "easy",
+    potentialGain: 5,
+    estimatedImpact: "Reduces CLS and improves text visibility during load",
+    affectedComponents: ["fonts"],
+    actions: [
+      "Use font-display: swap",
+      "Preload critical fonts",
+      "Subset fonts and prefer variable fonts",
+    ],
+    codeExample: `// 1. Preload critical fonts
+<link
+  rel="preload"
+  href="/fonts/inter-var.woff2"
+  as="font"
+  type="font/woff2"
+  crossorigin
+/>
+
+// 2. Use font-display: swap
+@font-face {
+  font-family: 'Inter';
+  src: url('/fonts/inter.woff2') format('woff2');
+  font-display: swap;
+}
+
+// 3. Subset fonts to reduce size
+// Use glyphhanger or fonttools to subset
+
+// 4. Use variable fonts (single file, multiple weights)
+@font-face {
+  font-family: 'Inter';
+  src: url('/fonts/inter-var.woff2') format('woff2');
+  font-weight: 100 900;
+  font-display: swap;
+}`,
+  },
+  {
+    id: "manage-third-party",
+    title: "Manage Third-Party Scripts",
+    description:
+      "Third-party scripts are impacting main thread performance. Consider loading them asynchronously or using a facade pattern.",
+    when: { component: "third-party", status: ["critical", "needs-improvement"] },
+    priority: "medium",
+    category: "performance",
+    effort: "medium",
+    potentialGain: 8,
+    estimatedImpact: "Could reduce TBT by 20-40%",
+    affectedComponents: ["third-party", "main-thread"],
+    actions: [
+      "Load third-party scripts after the page is interactive",
+      "Use facades for heavy embeds",
+      "Self-host critical third-party resources",
+    ],
+    codeExample: `// 1. Load third-party scripts without blocking rendering
+<script src="https://analytics.example.com/script.js" async></script>
+
+// 2. Load non-essential widgets once the page is idle
+window.addEventListener('load', () => {
+  requestIdleCallback(() => {
+    const script = document.createElement('script');
+    script.src = 'https://chat.example.com/widget.js';
+    document.body.appendChild(script);
+  });
+});
+
+// 3. Use a facade for heavy embeds
+// https://github.com/paulirish/lite-youtube-embed
+<lite-youtube videoid="VIDEO_ID"></lite-youtube>
+
+// 4. Self-host critical third-party resources
+// Download and serve from your domain
+
+// 5. Use Partytown to run scripts in web worker
+<script type="text/partytown" src="https://analytics.js"></script>`,
+  },
+  {
+    id: "implement-caching",
+    title: "Implement Comprehensive Caching Strategy",
+    description:
+      "A proper caching strategy can dramatically reduce load times for returning visitors and reduce server load.",
+    when: { score: { lt: 80 } },
+    priority: "medium",
+    category: "best-practices",
+    effort: "medium",
+    potentialGain: 10,
+    estimatedImpact: "Near-instant loads for returning visitors",
+    affectedComponents: ["server-response"],
+    actions: [
+      "Set long cache lifetimes for static assets",
+      "Use stale-while-revalidate for pages and API responses",
+      "Enable Gzip or Brotli compression",
+    ],
+    codeExample: `// 1. Cache fingerprinted static assets for a year (nginx)
+location ~* \\.(js|css|woff2|avif|webp)$ {
+  add_header Cache-Control "public, max-age=31536000, immutable";
+}
+
+// 2. Let the CDN serve stale pages while revalidating
+location / {
+  add_header Cache-Control "public, s-maxage=86400, stale-while-revalidate=59";
+}
+
+// 3. Enable Brotli compression
+brotli on;
+brotli_types text/css application/javascript application/json image/svg+xml;
+
+// 4. Fall back to cached API responses in a Service Worker
+self.addEventListener('fetch', (event) => {
+  if (!event.request.url.includes('/api/')) return;
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        const copy = response.clone();
+        caches.open('api-cache').then((cache) => cache.put(event.request, copy));
+        return response;
+      })
+      .catch(() => caches.match(event.request))
+  );
+});`,
+  },
+];
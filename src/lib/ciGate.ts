@@ -0,0 +1,427 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  BudgetCheck,
+  BudgetDefinition,
+  MetricKey,
+  PerformanceEntry,
+  Strategy,
+} from "@/types";
+import {
+  BUDGET_METRIC_LABELS,
+  DEFAULT_BUDGET,
+  buildBudgetChecks,
+  findBudget,
+  validateBudgetInput,
+} from "./budgets";
+import { getBudget, listBudgets } from "./budgetRepository";
+import { parseLighthouseBudgets } from "./lighthouseBudgets";
+import {
+  StoredEntry,
+  getEntry,
+  queryEntries,
+  saveEntry,
+} from "./entryRepository";
+import { runPageSpeed, validateAnalysisInput } from "./pagespeed";
+import { evaluateAlerts } from "./alerts";
+import { getEntryStrategy, hasLabScore } from "./utils";
+import { PageSpeedPayload } from "./lighthouse";
+import { MAX_RUNS, aggregateRuns } from "./runSets";
+
+/**
+ * CI gate: analyze one or more URLs for a build, check the median run
+ * against a budget set and, optionally, a baseline entry, and produce a
+ * machine-readable pass/fail report. Warnings never fail the gate.
+ */
+
+export const MAX_GATE_URLS = 10;
+export const MAX_GATE_RUNS = MAX_RUNS;
+export const DEFAULT_MAX_REGRESSION = 10; // Percent
+
+type BudgetLimits = Pick<
+  BudgetDefinition,
+  | "metrics"
+  | "resourceSizes"
+  | "resourceCounts"
+  | "firstPartyHostnames"
+  | "mustJustifyVendors"
+>;
+
+export interface GateInput {
+  urls: string[];
+  strategy: Strategy;
+  runs: number;
+  /**
+   * Stored budget id, an inline budget, or a Lighthouse budget.json array.
+   * Stored budgets matching each URL (or the default budget) when unset.
+   */
+  budget?: string | Partial<BudgetLimits> | unknown[];
+  baseline?: string; // Entry id for the same URL and strategy, or "latest"
+  maxRegression: number;
+  save: boolean;
+  build?: string; // Free-form build label, e.g. a commit SHA
+}
+
+export type GateCheck = BudgetCheck & {
+  baseline?: number; // Baseline value for regression checks
+};
+
+export interface GateUrlResult {
+  url: string;
+  strategy: Strategy;
+  status: "passed" | "failed" | "error";
+  budget: { id?: string; name: string; path?: string };
+  entryId?: string; // Stored median run, when saved
+  scores: number[]; // Score of every successful run
+  medianScore?: number;
+  baseline?: { entryId: string; timestamp: string };
+  checks: GateCheck[];
+  errors: string[];
+}
+
+export interface GateReport {
+  status: "passed" | "failed";
+  build?: string;
+  strategy: Strategy;
+  runs: number;
+  startedAt: string;
+  finishedAt: string;
+  summary: { pass: number; warning: number; fail: number; errors: number };
+  results: GateUrlResult[];
+}
+
+// Rejected gate input discovered while resolving budgets or baselines
+export class GateInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GateInputError";
+  }
+}
+
+/**
+ * Validate a gate request body. Returns an error message suitable for a 400
+ * response, or null when the input is valid.
+ */
+export function validateGateInput(body: unknown): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+  const input = body as Record<string, unknown>;
+
+  const urls = input.urls ?? (input.url !== undefined ? [input.url] : []);
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return "Provide a URL in 'url' or a list in 'urls'";
+  }
+  if (urls.length > MAX_GATE_URLS) {
+    return `At most ${MAX_GATE_URLS} URLs can be checked per request`;
+  }
+  for (const url of urls) {
+    const error = validateAnalysisInput(
+      url as string,
+      (input.strategy as string | undefined) ?? "mobile",
+    );
+    if (error) return error;
+  }
+
+  if (
+    input.runs !== undefined &&
+    (!Number.isInteger(input.runs) ||
+      (input.runs as number) < 1 ||
+      (input.runs as number) > MAX_GATE_RUNS)
+  ) {
+    return `Runs must be a whole number between 1 and ${MAX_GATE_RUNS}`;
+  }
+
+  if (input.budget !== undefined && typeof input.budget !== "string") {
+    if (!input.budget || typeof input.budget !== "object") {
+      return "Budget must be a budget id, a budget object or a budget.json array";
+    }
+    if (!Array.isArray(input.budget)) {
+      const error = validateBudgetInput(input.budget, true);
+      if (error) return `Invalid budget: ${error}`;
+    }
+  }
+
+  if (input.baseline !== undefined && typeof input.baseline !== "string") {
+    return "Baseline must be an entry id or 'latest'";
+  }
+  if (
+    input.maxRegression !== undefined &&
+    (typeof input.maxRegression !== "number" || input.maxRegression < 0)
+  ) {
+    return "maxRegression must be a non-negative percentage";
+  }
+  if (input.save !== undefined && typeof input.save !== "boolean") {
+    return "Save must be true or false";
+  }
+  if (input.build !== undefined && typeof input.build !== "string") {
+    return "Build must be a string";
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a validated body, filling in defaults.
+ */
+export function toGateInput(body: Record<string, unknown>): GateInput {
+  const urls = (body.urls ?? [body.url]) as string[];
+  return {
+    urls: Array.from(new Set(urls.map((url) => url.trim()))),
+    strategy: (body.strategy as Strategy | undefined) ?? "mobile",
+    runs: (body.runs as number | undefined) ?? 1,
+    budget: body.budget as GateInput["budget"],
+    baseline: (body.baseline as string | undefined)?.trim() || undefined,
+    maxRegression:
+      (body.maxRegression as number | undefined) ?? DEFAULT_MAX_REGRESSION,
+    save: (body.save as boolean | undefined) ?? true,
+    build: body.build as string | undefined,
+  };
+}
+
+/**
+ * Resolve the budget set for the gate: the candidates are matched per URL
+ * with `findBudget`, falling back to the default budget.
+ */
+async function resolveBudgets(
+  budget: GateInput["budget"],
+): Promise<BudgetDefinition[]> {
+  if (budget === undefined) return listBudgets();
+
+  if (typeof budget === "string") {
+    const stored = await getBudget(budget);
+    if (!stored) throw new GateInputError(`Budget '${budget}' not found`);
+    // An explicitly chosen budget applies to every URL
+    return [{ ...stored, path: "/", strategy: undefined }];
+  }
+
+  const now = new Date().toISOString();
+  if (Array.isArray(budget)) {
+    let parsed;
+    try {
+      parsed = parseLighthouseBudgets(budget);
+    } catch (error) {
+      throw new GateInputError(
+        `Invalid budget.json: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    return parsed.budgets.map((input, index) => ({
+      ...input,
+      id: `budget.json#${index + 1}`,
+      createdAt: now,
+      updatedAt: now,
+    }));
+  }
+
+  return [
+    {
+      id: "inline",
+      name: "Inline budget",
+      path: "/",
+      metrics: budget.metrics ?? {},
+      resourceSizes: budget.resourceSizes ?? {},
+      resourceCounts: budget.resourceCounts ?? {},
+      firstPartyHostnames: budget.firstPartyHostnames,
+      mustJustifyVendors: budget.mustJustifyVendors,
+      createdAt: now,
+      updatedAt: now,
+    },
+  ];
+}
+
+// Changes smaller than this are treated as noise whatever the percentage
+const REGRESSION_FLOORS: Record<MetricKey | "score", number> = {
+  score: 2,
+  lcp: 100,
+  fcp: 100,
+  inp: 50,
+  fid: 20,
+  ttfb: 50,
+  cls: 0.01,
+};
+
+/**
+ * Compare a run against a baseline entry. A metric fails when it regressed
+ * by more than `maxRegression` percent and warns on smaller regressions.
+ */
+export function buildBaselineChecks(
+  entry: Pick<PerformanceEntry, "metrics" | "overallScore">,
+  baseline: Pick<PerformanceEntry, "metrics" | "overallScore">,
+  maxRegression: number,
+): GateCheck[] {
+  const checks: GateCheck[] = [];
+  const ratio = maxRegression / 100;
+
+  const scoreLimit = Math.min(
+    baseline.overallScore * (1 - ratio),
+    baseline.overallScore - REGRESSION_FLOORS.score,
+  );
+  checks.push({
+    id: "baseline:score",
+    name: "Score vs baseline",
+    description: BUDGET_METRIC_LABELS.score,
+    unit: "score",
+    actual: entry.overallScore,
+    budget: scoreLimit,
+    baseline: baseline.overallScore,
+    source: "lab",
+    status:
+      entry.overallScore >= baseline.overallScore
+        ? "pass"
+        : entry.overallScore >= scoreLimit
+          ? "warning"
+          : "fail",
+    higherIsBetter: true,
+  });
+
+  for (const [key, floor] of Object.entries(REGRESSION_FLOORS)) {
+    if (key === "score") continue;
+    const metric = key as MetricKey;
+    const actual = entry.metrics[metric];
+    const previous = baseline.metrics[metric];
+    if (actual === undefined || previous === undefined) continue;
+
+    const limit = Math.max(previous * (1 + ratio), previous + floor);
+    checks.push({
+      id: `baseline:${metric}`,
+      name: `${metric.toUpperCase()} vs baseline`,
+      description: BUDGET_METRIC_LABELS[metric],
+      unit: metric === "cls" ? "unitless" : "ms",
+      actual,
+      budget: limit,
+      baseline: previous,
+      source: "lab",
+      status:
+        actual <= previous ? "pass" : actual <= limit ? "warning" : "fail",
+    });
+  }
+
+  return checks;
+}
+
+async function resolveBaseline(
+  baseline: string | undefined,
+  url: string,
+  strategy: Strategy,
+) {
+  if (!baseline) return undefined;
+  if (baseline === "latest") {
+    // HAR imports have no lab score to compare against
+    const entries = await queryEntries({ url, strategy });
+    return entries.find(hasLabScore);
+  }
+  const entry = await getEntry(baseline);
+  if (!entry) throw new GateInputError(`Baseline entry '${baseline}' not found`);
+  // An explicit id only makes sense for the page and device it measured
+  if (entry.url !== url || getEntryStrategy(entry) !== strategy) {
+    throw new GateInputError(
+      `Baseline entry '${baseline}' is for ${entry.url} (${getEntryStrategy(entry)}), not ${url} (${strategy})`,
+    );
+  }
+  if (!hasLabScore(entry)) {
+    throw new GateInputError(
+      `Baseline entry '${baseline}' is a HAR import without a lab score`,
+    );
+  }
+  return entry;
+}
+
+async function checkUrl(
+  url: string,
+  input: GateInput,
+  budgets: BudgetDefinition[],
+  baseline: StoredEntry | undefined,
+): Promise<GateUrlResult> {
+  const { strategy } = input;
+  const matched = findBudget(budgets, url, strategy);
+  const result: GateUrlResult = {
+    url,
+    strategy,
+    status: "passed",
+    budget: matched
+      ? { id: matched.id, name: matched.name, path: matched.path }
+      : { name: "Default budget" },
+    scores: [],
+    checks: [],
+    errors: [],
+  };
+
+  const payloads: PageSpeedPayload[] = [];
+  for (let run = 1; run <= input.runs; run++) {
+    try {
+      payloads.push(await runPageSpeed(url, strategy));
+    } catch (error) {
+      result.errors.push(
+        `Run ${run}: ${error instanceof Error ? error.message : "Analysis failed"}`,
+      );
+    }
+  }
+  if (payloads.length === 0) {
+    result.status = "error";
+    return result;
+  }
+
+  result.scores = payloads.map((payload) => payload.overallScore);
+  const median = aggregateRuns(payloads);
+  result.medianScore = median.overallScore;
+
+  result.checks = buildBudgetChecks(median, matched ?? DEFAULT_BUDGET);
+  if (baseline) {
+    result.baseline = { entryId: baseline.id, timestamp: baseline.timestamp };
+    result.checks.push(
+      ...buildBaselineChecks(median, baseline, input.maxRegression),
+    );
+  }
+  if (result.checks.some((check) => check.status === "fail")) {
+    result.status = "failed";
+  }
+
+  if (input.save) {
+    const entry = await saveEntry({ ...median, id: uuidv4() });
+    result.entryId = entry.id;
+    await evaluateAlerts(entry).catch((error) =>
+      console.error("Alert evaluation error:", error),
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Run the gate. URLs are analyzed one at a time to stay within PageSpeed
+ * quota. Throws `GateInputError` for unknown budgets or baselines.
+ */
+export async function runGate(input: GateInput): Promise<GateReport> {
+  const startedAt = new Date().toISOString();
+  const budgets = await resolveBudgets(input.budget);
+
+  // Resolve every baseline before running, so bad input fails before any
+  // analysis and a new entry never becomes its own baseline
+  const baselines: (StoredEntry | undefined)[] = [];
+  for (const url of input.urls) {
+    baselines.push(await resolveBaseline(input.baseline, url, input.strategy));
+  }
+
+  const results: GateUrlResult[] = [];
+  for (const [index, url] of input.urls.entries()) {
+    results.push(await checkUrl(url, input, budgets, baselines[index]));
+  }
+
+  const checks = results.flatMap((result) => result.checks);
+  return {
+    status: results.every((result) => result.status === "passed")
+      ? "passed"
+      : "failed",
+    build: input.build,
+    strategy: input.strategy,
+    runs: input.runs,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    summary: {
+      pass: checks.filter((check) => check.status === "pass").length,
+      warning: checks.filter((check) => check.status === "warning").length,
+      fail: checks.filter((check) => check.status === "fail").length,
+      errors: results.reduce((sum, result) => sum + result.errors.length, 0),
+    },
+    results,
+  };
+}
@@ -0,0 +1,482 @@
+import {
+  ComponentAnalysis,
+  DiagnosticItem,
+  PerformanceEntry,
+  getMetricRating,
+} from "@/types";
+import { getResourceGroup } from "./budgets";
+import { isThirdParty } from "./thirdParty";
+import { formatBytes, formatDuration } from "./utils";
+
+/**
+ * Component-level breakdown for the detailed analysis and the suggestion
+ * rules. Values come from the Lighthouse diagnostics stored on the entry;
+ * entries saved without them (older runs, imports) fall back to what their
+ * resource timings show, marked with `source: "resources"`.
+ */
+
+type ComponentStatus = ComponentAnalysis["status"];
+type ComponentDetail = NonNullable<ComponentAnalysis["details"]>[number];
+type ComponentBase = Pick<
+  ComponentAnalysis,
+  "id" | "name" | "category" | "impact" | "affectedMetrics"
+>;
+
+type AnalyzedEntry = Pick<
+  PerformanceEntry,
+  "url" | "metrics" | "resourceTimings" | "diagnostics"
+>;
+
+const STATUSES: ComponentStatus[] = [
+  "excellent",
+  "good",
+  "needs-improvement",
+  "critical",
+];
+
+// Contributors listed per component
+const MAX_DETAILS = 5;
+
+// Status for a value against its excellent, good and needs-improvement limits
+function rate(
+  value: number,
+  limits: [number, number, number],
+): ComponentStatus {
+  const index = limits.findIndex((limit) => value < limit);
+  return STATUSES[index === -1 ? STATUSES.length - 1 : index];
+}
+
+function worst(...statuses: ComponentStatus[]): ComponentStatus {
+  return STATUSES[Math.max(...statuses.map((s) => STATUSES.indexOf(s)))];
+}
+
+function fromRating(
+  rating: ReturnType<typeof getMetricRating>,
+): ComponentStatus {
+  return rating === "good"
+    ? "excellent"
+    : rating === "needs-improvement"
+      ? "needs-improvement"
+      : "critical";
+}
+
+function isHealthy(status: ComponentStatus): boolean {
+  return status === "excellent" || status === "good";
+}
+
+// File name, or the host for bare origins ("Unattributable" stays as is)
+function shortUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname.split("/").filter(Boolean).pop() || parsed.hostname;
+  } catch {
+    return url;
+  }
+}
+
+function toDetails(
+  items: DiagnosticItem[],
+  unit: ComponentDetail["unit"],
+): ComponentDetail[] {
+  return items
+    .slice(0, MAX_DETAILS)
+    .map((item) => ({
+      label: shortUrl(item.url),
+      url: item.url,
+      value: item.value,
+      unit,
+    }));
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${count} ${count === 1 ? noun : nouns}`;
+}
+
+function analyzeServer(entry: AnalyzedEntry): ComponentAnalysis {
+  const ttfb = entry.metrics.ttfb || 0;
+  const status = fromRating(getMetricRating("TTFB", ttfb));
+  return {
+    id: "server-response",
+    name: "Server Response Time",
+    category: "server",
+    status,
+    impact: "high",
+    metrics: { loadTime: entry.metrics.ttfb },
+    description: isHealthy(status)
+      ? `The server responded in ${formatDuration(ttfb)}`
+      : `The server took ${formatDuration(ttfb)} to respond, delaying everything else on the page`,
+    affectedMetrics: ["TTFB", "FCP", "LCP"],
+  };
+}
+
+function analyzeJavaScript(entry: AnalyzedEntry): ComponentAnalysis {
+  const scripts = entry.resourceTimings.filter(
+    (r) => getResourceGroup(r) === "script",
+  );
+  const size = sum(scripts, (r) => r.transferSize);
+  const { bootup, unusedJavascript, totalBlockingTime } =
+    entry.diagnostics ?? {};
+  const base: ComponentBase = {
+    id: "javascript",
+    name: "JavaScript Execution",
+    category: "javascript",
+    impact: "high",
+    affectedMetrics: ["TBT", "INP", "FID"],
+  };
+
+  if (bootup) {
+    const unused = unusedJavascript?.wastedBytes ?? 0;
+    return {
+      ...base,
+      status: worst(
+        rate(bootup.total, [600, 1300, 3500]),
+        rate(unused, [50_000, 150_000, 500_000]),
+      ),
+      metrics: {
+        loadTime: bootup.total,
+        size,
+        blockingTime: totalBlockingTime,
+        wastedBytes: unusedJavascript?.wastedBytes,
+      },
+      description:
+        `Scripts spent ${formatDuration(bootup.total)} of CPU time parsing and running` +
+        (unused > 0
+          ? `, and ${formatBytes(unused)} of the ${formatBytes(size)} downloaded is never used`
+          : ""),
+      details: toDetails(bootup.scripts, "ms"),
+      source: "diagnostics",
+    };
+  }
+
+  const status = rate(size, [100_000, 300_000, 1_000_000]);
+  return {
+    ...base,
+    status,
+    metrics: { loadTime: sum(scripts, (r) => r.duration), size },
+    description: `${formatBytes(size)} of JavaScript in ${plural(scripts.length, "request")}. ${
+      isHealthy(status)
+        ? "Bundles are a reasonable size."
+        : "Large bundles are likely blocking the main thread."
+    }`,
+    details: toDetails(
+      scripts
+        .map((r) => ({ url: r.url ?? r.name, value: r.transferSize }))
+        .sort((a, b) => b.value - a.value),
+      "bytes",
+    ),
+    source: "resources",
+  };
+}
+
+function analyzeImages(entry: AnalyzedEntry): ComponentAnalysis {
+  const images = entry.resourceTimings.filter(
+    (r) => getResourceGroup(r) === "image",
+  );
+  const size = sum(images, (r) => r.transferSize);
+  const savings = entry.diagnostics?.imageSavings;
+  const base: ComponentBase = {
+    id: "images",
+    name: "Image Optimization",
+    category: "images",
+    impact: "high",
+    affectedMetrics: ["LCP", "Speed Index"],
+  };
+
+  if (savings) {
+    return {
+      ...base,
+      status:
+        images.length === 0
+          ? "excellent"
+          : rate(savings.wastedBytes, [25_000, 100_000, 400_000]),
+      metrics: { size, wastedBytes: savings.wastedBytes },
+      description:
+        savings.wastedBytes > 0
+          ? `${formatBytes(savings.wastedBytes)} of the ${formatBytes(size)} of images could be saved with modern formats, proper sizing and lazy loading`
+          : `${plural(images.length, "image")} (${formatBytes(size)}) are properly compressed and sized`,
+      details: toDetails(savings.items, "bytes"),
+      source: "diagnostics",
+    };
+  }
+
+  const status = rate(size, [200_000, 500_000, 1_000_000]);
+  return {
+    ...base,
+    status,
+    metrics: { size },
+    description: `${formatBytes(size)} of images in ${plural(images.length, "request")}. ${
+      isHealthy(status)
+        ? "Image weight is reasonable."
+        : "Large images are likely slowing down LCP."
+    }`,
+    details: toDetails(
+      images
+        .map((r) => ({ url: r.url ?? r.name, value: r.transferSize }))
+        .sort((a, b) => b.value - a.value),
+      "bytes",
+    ),
+    source: "resources",
+  };
+}
+
+function analyzeCss(entry: AnalyzedEntry): ComponentAnalysis {
+  const stylesheets = entry.resourceTimings.filter(
+    (r) => getResourceGroup(r) === "stylesheet",
+  );
+  const size = sum(stylesheets, (r) => r.transferSize);
+  const { unusedCss, renderBlocking } = entry.diagnostics ?? {};
+  const base: ComponentBase = {
+    id: "css",
+    name: "CSS Delivery",
+    category: "css",
+    impact: "medium",
+    affectedMetrics: ["FCP", "LCP"],
+  };
+
+  if (unusedCss || renderBlocking) {
+    const urls = new Set(stylesheets.map((r) => r.url ?? r.name));
+    const blocking = (renderBlocking?.items ?? []).filter((item) =>
+      urls.has(item.url),
+    );
+    const blockingMs = sum(blocking, (item) => item.value);
+    const unused = unusedCss?.wastedBytes ?? 0;
+    const status = worst(
+      rate(blockingMs, [100, 300, 1000]),
+      rate(unused, [20_000, 50_000, 150_000]),
+    );
+    const findings = [
+      blocking.length > 0 &&
+        `${plural(blocking.length, "render-blocking stylesheet")} ${
+          blockingMs > 0
+            ? `delay first paint by about ${formatDuration(blockingMs)}`
+            : "hold back first paint"
+        }`,
+      unused > 0 && `${formatBytes(unused)} of CSS is unused`,
+    ].filter(Boolean);
+
+    return {
+      ...base,
+      status,
+      metrics: {
+        size,
+        renderTime: blockingMs,
+        wastedBytes: unusedCss?.wastedBytes,
+      },
+      description:
+        findings.length > 0
+          ? findings.join("; ")
+          : `${formatBytes(size)} of CSS, delivered without blocking rendering`,
+      details: [
+        ...toDetails(blocking, "ms"),
+        ...toDetails(unusedCss?.items ?? [], "bytes"),
+      ].slice(0, MAX_DETAILS),
+      source: "diagnostics",
+    };
+  }
+
+  const blocking = stylesheets.filter((r) => r.renderBlocking);
+  const status = rate(size, [50_000, 100_000, 200_000]);
+  return {
+    ...base,
+    status,
+    metrics: { size, renderTime: sum(blocking, (r) => r.duration) },
+    description: `${formatBytes(size)} of CSS in ${plural(stylesheets.length, "request")}. ${
+      isHealthy(status)
+        ? "Stylesheets are a reasonable size."
+        : "Large stylesheets are likely blocking rendering."
+    }`,
+    source: "resources",
+  };
+}
+
+function analyzeLayoutStability(entry: AnalyzedEntry): ComponentAnalysis {
+  const cls = entry.metrics.cls || 0;
+  const status = fromRating(getMetricRating("CLS", cls));
+  return {
+    id: "layout-stability",
+    name: "Layout Stability",
+    category: "rendering",
+    status,
+    impact: "medium",
+    metrics: {},
+    description: isHealthy(status)
+      ? `Content barely moves while loading (CLS ${cls.toFixed(3)})`
+      : `Content shifts while loading (CLS ${cls.toFixed(3)}). Check image dimensions and content inserted above the fold`,
+    affectedMetrics: ["CLS"],
+  };
+}
+
+function analyzeFonts(entry: AnalyzedEntry): ComponentAnalysis {
+  const fonts = entry.resourceTimings.filter(
+    (r) => getResourceGroup(r) === "font",
+  );
+  const fontDisplay = entry.diagnostics?.fontDisplay;
+  const base: ComponentBase & Pick<ComponentAnalysis, "metrics"> = {
+    id: "fonts",
+    name: "Font Loading",
+    category: "fonts",
+    impact: "low",
+    metrics: {
+      loadTime: Math.max(0, ...fonts.map((r) => r.duration)),
+      size: sum(fonts, (r) => r.transferSize),
+    },
+    affectedMetrics: ["CLS", "FCP"],
+  };
+
+  if (fonts.length === 0) {
+    return {
+      ...base,
+      status: "excellent",
+      description: "No web fonts are loaded",
+      source: fontDisplay ? "diagnostics" : "resources",
+    };
+  }
+
+  if (fontDisplay) {
+    const invisibleMs = Math.max(0, ...fontDisplay.map((item) => item.value));
+    return {
+      ...base,
+      status: fontDisplay.length > 0 ? "needs-improvement" : "good",
+      description:
+        fontDisplay.length > 0
+          ? `${plural(fontDisplay.length, "font")} without font-display can hide text for up to ${formatDuration(invisibleMs)}`
+          : `${plural(fonts.length, "font")}, all with font-display set`,
+      details: toDetails(fontDisplay, "ms"),
+      source: "diagnostics",
+    };
+  }
+
+  const slow = fonts.some((r) => r.duration > 200);
+  return {
+    ...base,
+    status: slow ? "needs-improvement" : "good",
+    description: slow
+      ? `${plural(fonts.length, "font")}, some slow to load, which may cause invisible or shifting text`
+      : `${plural(fonts.length, "font")}, all loading quickly`,
+    source: "resources",
+  };
+}
+
+function analyzeThirdParty(entry: AnalyzedEntry): ComponentAnalysis {
+  const thirdParty = entry.diagnostics?.thirdParty;
+  const base: ComponentBase = {
+    id: "third-party",
+    name: "Third-Party Resources",
+    category: "third-party",
+    impact: "medium",
+    affectedMetrics: ["TBT", "INP", "FID"],
+  };
+
+  if (thirdParty) {
+    const blockingTime = sum(thirdParty, (e) => e.blockingTime);
+    const size = sum(thirdParty, (e) => e.transferSize);
+    const byCost = [...thirdParty].sort(
+      (a, b) =>
+        b.blockingTime - a.blockingTime || b.transferSize - a.transferSize,
+    );
+    return {
+      ...base,
+      status:
+        thirdParty.length === 0
+          ? "excellent"
+          : rate(blockingTime, [50, 250, 600]),
+      metrics: {
+        loadTime: sum(thirdParty, (e) => e.mainThreadTime),
+        size,
+        blockingTime,
+      },
+      description:
+        thirdParty.length === 0
+          ? "No third-party code was loaded"
+          : `${plural(thirdParty.length, "third party", "third parties")} add ${formatBytes(size)} and block the main thread for ${formatDuration(blockingTime)}`,
+      details: byCost.slice(0, MAX_DETAILS).map((e) =>
+        blockingTime > 0
+          ? { label: e.entity, value: e.blockingTime, unit: "ms" }
+          : { label: e.entity, value: e.transferSize, unit: "bytes" },
+      ),
+      source: "diagnostics",
+    };
+  }
+
+  const resources = entry.resourceTimings.filter((r) =>
+    isThirdParty(r, entry.url),
+  );
+  const status =
+    resources.length === 0 ? "excellent" : rate(resources.length, [3, 6, 15]);
+  return {
+    ...base,
+    status,
+    metrics: {
+      loadTime: sum(resources, (r) => r.duration),
+      size: sum(resources, (r) => r.transferSize),
+    },
+    description:
+      resources.length === 0
+        ? "No third-party requests were made"
+        : `${plural(resources.length, "request")} to other domains${
+            isHealthy(status) ? "" : " may be slowing the page down"
+          }`,
+    source: "resources",
+  };
+}
+
+function analyzeMainThread(entry: AnalyzedEntry): ComponentAnalysis {
+  const { mainThread, totalBlockingTime } = entry.diagnostics ?? {};
+  const base: ComponentBase = {
+    id: "main-thread",
+    name: "Main Thread Work",
+    category: "javascript",
+    impact: "high",
+    affectedMetrics: ["TBT", "INP", "FID"],
+  };
+
+  if (mainThread && totalBlockingTime !== undefined) {
+    const [top] = mainThread.groups;
+    return {
+      ...base,
+      status: rate(totalBlockingTime, [100, 200, 600]),
+      metrics: { loadTime: mainThread.total, blockingTime: totalBlockingTime },
+      description:
+        `${formatDuration(mainThread.total)} of main-thread work` +
+        (top
+          ? `, mostly ${top.label.toLowerCase()} (${formatDuration(top.duration)})`
+          : "") +
+        `, blocking input for ${formatDuration(totalBlockingTime)}`,
+      details: mainThread.groups.slice(0, MAX_DETAILS).map((group) => ({
+        label: group.label,
+        value: group.duration,
+        unit: "ms",
+      })),
+      source: "diagnostics",
+    };
+  }
+
+  const inp = entry.metrics.inp || 0;
+  const status = fromRating(getMetricRating("INP", inp));
+  return {
+    ...base,
+    status,
+    metrics: { blockingTime: entry.metrics.inp },
+    description: isHealthy(status)
+      ? "The main thread is responsive with minimal blocking"
+      : "Heavy main-thread work is delaying interactions",
+    source: "resources",
+  };
+}
+
+export function analyzeComponents(entry: AnalyzedEntry): ComponentAnalysis[] {
+  return [
+    analyzeServer(entry),
+    analyzeJavaScript(entry),
+    analyzeImages(entry),
+    analyzeCss(entry),
+    analyzeLayoutStability(entry),
+    analyzeFonts(entry),
+    analyzeThirdParty(entry),
+    analyzeMainThread(entry),
+  ];
+}
@@ -0,0 +1,32 @@
+import type { SuggestionRule } from "./rules";
+import customRulesJson from "./customRules.json";
+
+/**
+ * Team-specific suggestion rules, loaded after the built-in ones; a rule
+ * with the id of a built-in rule replaces it. Add typed rules to
+ * `CUSTOM_RULES`, or plain data to `customRules.json`, e.g.
+ *
+ *   [{
+ *     "id": "hero-image-weight",
+ *     "title": "Shrink hero images",
+ *     "description": "Images weigh {images.size} in total.",
+ *     "when": { "resources": "image", "bytes": { "gt": 1000000 } },
+ *     "priority": "high",
+ *     "category": "performance",
+ *     "effort": "easy",
+ *     "potentialGain": 10,
+ *     "estimatedImpact": "Faster LCP on mobile",
+ *     "affectedComponents": ["images"],
+ *     "actions": ["Export hero images at 2x their display size at most"]
+ *   }]
+ *
+ * Limit a rule to a stack with `{ "framework": ["wordpress"] }` in `when`,
+ * and give per-stack code in `examples`, e.g. `{ "nextjs": "..." }`.
+ *
+ * JSON rules are validated when the registry loads; invalid ones are
+ * skipped with a console error.
+ */
+
+export const CUSTOM_RULES: SuggestionRule[] = [];
+
+export const CUSTOM_JSON_RULES: unknown[] = customRulesJson;
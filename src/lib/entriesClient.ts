@@ -0,0 +1,86 @@
+import { PerformanceEntry } from "@/types";
+import type { StoredEntry } from "./entryRepository";
+
+/**
+ * Browser client for the `/api/entries` routes. Every function throws when
+ * the server cannot be reached or rejects the request.
+ */
+
+// The server answered with an error status
+export class EntriesApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "EntriesApiError";
+  }
+}
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+  // Proxies may answer errors with HTML
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new EntriesApiError(
+      data.error || `Request failed (${response.status})`,
+      response.status,
+    );
+  }
+  return data as T;
+}
+
+export function reviveEntry(entry: StoredEntry): PerformanceEntry {
+  return { ...entry, timestamp: new Date(entry.timestamp) };
+}
+
+export async function fetchEntries(
+  query: { url?: string; from?: Date; to?: Date; limit?: number } = {},
+): Promise<PerformanceEntry[]> {
+  const params = new URLSearchParams();
+  if (query.url) params.set("url", query.url);
+  if (query.from) params.set("from", query.from.toISOString());
+  if (query.to) params.set("to", query.to.toISOString());
+  if (query.limit) params.set("limit", String(query.limit));
+
+  const data = await request<{ entries: StoredEntry[] }>(
+    `/api/entries?${params.toString()}`,
+  );
+  return data.entries.map(reviveEntry);
+}
+
+// Backfilled entries are past runs and raise no alerts
+export async function createEntry(
+  entry: PerformanceEntry,
+  options: { backfill?: boolean } = {},
+): Promise<void> {
+  const query = options.backfill ? "?backfill=1" : "";
+  await request(`/api/entries${query}`, {
+    method: "POST",
+    body: JSON.stringify(entry),
+  });
+}
+
+export async function deleteEntry(id: string): Promise<void> {
+  try {
+    await request(`/api/entries/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  } catch (error) {
+    // Already gone on the server (e.g. removed from another browser)
+    if (error instanceof EntriesApiError && error.status === 404) {
+      return;
+    }
+    throw error;
+  }
+}
+
+export async function clearEntries(): Promise<void> {
+  await request("/api/entries", { method: "DELETE" });
+}
@@ -0,0 +1,72 @@
+import { PerformanceEntry, Strategy } from "@/types";
+import { getEntryStrategy } from "./utils";
+import { createJsonCollection } from "./jsonStore";
+
+/**
+ * Server-side repository of analyses shared by every browser. Entries are
+ * stored with ISO string timestamps.
+ */
+
+export type StoredEntry = Omit<PerformanceEntry, "timestamp"> & {
+  timestamp: string;
+};
+
+export interface EntryQuery {
+  url?: string;
+  strategy?: Strategy;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+const entries = createJsonCollection<StoredEntry>("entries");
+
+export function toStoredEntry(
+  entry: PerformanceEntry | StoredEntry,
+): StoredEntry {
+  return { ...entry, timestamp: new Date(entry.timestamp).toISOString() };
+}
+
+/**
+ * Entries matching the query, newest first.
+ */
+export async function queryEntries(
+  query: EntryQuery = {},
+): Promise<StoredEntry[]> {
+  const from = query.from?.getTime() ?? -Infinity;
+  const to = query.to?.getTime() ?? Infinity;
+
+  const matches = (await entries.list())
+    .filter((entry) => !query.url || entry.url === query.url)
+    .filter(
+      (entry) => !query.strategy || getEntryStrategy(entry) === query.strategy,
+    )
+    .filter((entry) => {
+      const time = new Date(entry.timestamp).getTime();
+      return time >= from && time <= to;
+    })
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+    );
+
+  return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+export function getEntry(id: string): Promise<StoredEntry | undefined> {
+  return entries.get(id);
+}
+
+export function saveEntry(
+  entry: PerformanceEntry | StoredEntry,
+): Promise<StoredEntry> {
+  return entries.put(toStoredEntry(entry));
+}
+
+export function deleteEntry(id: string): Promise<boolean> {
+  return entries.remove(id);
+}
+
+export function clearEntries(): Promise<void> {
+  return entries.clear();
+}
@@ -0,0 +1,909 @@
+import type { RulePack } from "./rules";
+
+/**
+ * Framework rule packs, selected by the stack detected on the analyzed
+ * page. Examples replace the generic code of the built-in rule with the
+ * same id; Next.js falls back to React examples and Nuxt to Vue ones.
+ */
+
+export const FRAMEWORK_RULE_PACKS: RulePack[] = [
+  {
+    framework: "nextjs",
+    rules: [
+      {
+        id: "nextjs-client-boundaries",
+        title: "Keep Client Components Small",
+        description:
+          "This Next.js page ships {javascript.size} of JavaScript. Every component under a 'use client' boundary is bundled and hydrated in the browser, so move data fetching and static markup back to Server Components.",
+        when: { component: "javascript", status: ["critical", "needs-improvement"] },
+        priority: "medium",
+        category: "performance",
+        effort: "medium",
+        potentialGain: 10,
+        estimatedImpact: "Less JavaScript to download and hydrate, improving TBT and INP",
+        affectedComponents: ["javascript", "main-thread"],
+        learnMoreUrl: "https://nextjs.org/docs/app/building-your-application/rendering/composition-patterns",
+        actions: [
+          "Move 'use client' down to the interactive leaves",
+          "Fetch data in Server Components instead of useEffect",
+          "Pass Server Components to Client Components as children",
+        ],
+        codeExample: `// app/products/page.tsx - a Server Component, ships no JavaScript
+import { AddToCart } from './AddToCart';
+
+export default async function ProductsPage() {
+  const products = await getProducts();
+
+  return products.map((product) => (
+    <article key={product.id}>
+      <h2>{product.name}</h2>
+      <p>{product.description}</p>
+      <AddToCart productId={product.id} />
+    </article>
+  ));
+}
+
+// app/products/AddToCart.tsx - only the button is a Client Component
+'use client';
+
+export function AddToCart({ productId }) {
+  const [pending, setPending] = useState(false);
+  // ...
+}`,
+      },
+    ],
+    examples: {
+      "optimize-ttfb": `// 1. Enable server-side caching in Next.js
+// next.config.js
+module.exports = {
+  async headers() {
+    return [{
+      source: '/:path*',
+      headers: [
+        {
+          key: 'Cache-Control',
+          value: 'public, s-maxage=31536000, stale-while-revalidate=59'
+        }
+      ],
+    }]
+  }
+}
+
+// 2. Use Edge Runtime for faster cold starts
+export const runtime = 'edge';
+
+// 3. Implement stale-while-revalidate pattern
+export async function getStaticProps() {
+  return {
+    props: { data },
+    revalidate: 60, // ISR: regenerate every 60 seconds
+  }
+}`,
+      "optimize-lcp": `// 1. Preload LCP image in document head
+<link
+  rel="preload"
+  as="image"
+  href="/hero-image.webp"
+  fetchpriority="high"
+/>
+
+// 2. Use Next.js Image with priority flag
+import Image from 'next/image';
+
+<Image
+  src="/hero.webp"
+  alt="Hero"
+  width={1200}
+  height={600}
+  priority  // This preloads the image
+  placeholder="blur"
+  blurDataURL="data:image/jpeg;base64,/9j..."
+/>
+
+// 3. Inline critical CSS for above-the-fold content
+// Use critters or critical npm packages
+
+// 4. Avoid lazy loading LCP element
+// Remove loading="lazy" from hero images`,
+      "optimize-js-bundle": `// 1. Use dynamic imports for code splitting
+import dynamic from 'next/dynamic';
+
+const HeavyChart = dynamic(() => import('./HeavyChart'), {
+  loading: () => <ChartSkeleton />,
+  ssr: false  // Don't include in server bundle
+});
+
+// 2. Analyze bundle with webpack-bundle-analyzer
+// next.config.js
+const withBundleAnalyzer = require('@next/bundle-analyzer')({
+  enabled: process.env.ANALYZE === 'true',
+});
+module.exports = withBundleAnalyzer({});
+
+// 3. Tree-shake unused exports
+// package.json
+{
+  "sideEffects": false
+}
+
+// 4. Replace heavy libraries with lighter alternatives
+// moment.js (300KB) → date-fns (13KB) or dayjs (2KB)
+// lodash (70KB) → lodash-es (tree-shakeable)
+
+// 5. Use React.lazy for route-based splitting
+const Dashboard = React.lazy(() => import('./Dashboard'));
+
+// 6. Defer non-critical scripts
+<script src="analytics.js" defer></script>`,
+      "optimize-images": `// 1. Use Next.js Image component (automatic optimization)
+import Image from 'next/image';
+
+<Image
+  src="/photo.jpg"
+  alt="Description"
+  width={800}
+  height={600}
+  sizes="(max-width: 768px) 100vw, 50vw"
+  placeholder="blur"
+  quality={85}
+/>
+
+// 2. Serve modern formats with fallbacks
+<picture>
+  <source srcset="photo.avif" type="image/avif" />
+  <source srcset="photo.webp" type="image/webp" />
+  <img src="photo.jpg" alt="..." loading="lazy" />
+</picture>
+
+// 3. Use responsive images
+<img
+  srcset="
+    photo-400.jpg 400w,
+    photo-800.jpg 800w,
+    photo-1200.jpg 1200w
+  "
+  sizes="(max-width: 600px) 100vw, 50vw"
+  src="photo-800.jpg"
+  alt="..."
+/>
+
+// 4. Lazy load below-the-fold images
+<img src="photo.jpg" loading="lazy" alt="..." />
+
+// 5. Use blur placeholder for perceived performance
+// Generate with: npx plaiceholder ./public/image.jpg`,
+      "optimize-css": `// 1. Inline critical CSS (above-the-fold styles)
+// Use critters with Next.js
+// next.config.js
+const withCritters = require('critters-webpack-plugin');
+
+// 2. Defer non-critical CSS
+<link
+  rel="preload"
+  href="styles.css"
+  as="style"
+  onload="this.onload=null;this.rel='stylesheet'"
+/>
+<noscript>
+  <link rel="stylesheet" href="styles.css" />
+</noscript>
+
+// 3. Remove unused CSS with PurgeCSS
+// postcss.config.js
+module.exports = {
+  plugins: [
+    require('@fullhuman/postcss-purgecss')({
+      content: ['./src/**/*.{js,jsx,ts,tsx}'],
+    }),
+  ],
+}
+
+// 4. Use CSS containment for complex components
+.widget {
+  contain: layout style paint;
+}
+
+// 5. Avoid @import in CSS (causes sequential loading)
+/* Bad */
+@import url('other.css');
+
+/* Good - use link tags instead */
+<link rel="stylesheet" href="other.css" />`,
+      "optimize-fonts": `// 1. Use Next.js built-in font optimization
+import { Inter } from 'next/font/google';
+
+const inter = Inter({
+  subsets: ['latin'],
+  display: 'swap',
+  preload: true,
+});
+
+export default function Layout({ children }) {
+  return (
+    <html className={inter.className}>
+      <body>{children}</body>
+    </html>
+  );
+}
+
+// 2. Preload critical fonts
+<link
+  rel="preload"
+  href="/fonts/inter-var.woff2"
+  as="font"
+  type="font/woff2"
+  crossorigin
+/>
+
+// 3. Use font-display: swap
+@font-face {
+  font-family: 'Inter';
+  src: url('/fonts/inter.woff2') format('woff2');
+  font-display: swap;
+}
+
+// 4. Subset fonts to reduce size
+// Use glyphhanger or fonttools to subset
+
+// 5. Use variable fonts (single file, multiple weights)
+@font-face {
+  font-family: 'Inter';
+  src: url('/fonts/inter-var.woff2') format('woff2');
+  font-weight: 100 900;
+  font-display: swap;
+}`,
+      "manage-third-party": `// 1. Load third-party scripts with next/script
+import Script from 'next/script';
+
+<Script
+  src="https://analytics.example.com/script.js"
+  strategy="lazyOnload"  // Load after page is interactive
+/>
+
+// 2. Use facade pattern for heavy embeds
+function YouTubeEmbed({ videoId }) {
+  const [loaded, setLoaded] = useState(false);
+
+  if (!loaded) {
+    return (
+      <button onClick={() => setLoaded(true)}>
+        <img src={\`https://i.ytimg.com/vi/\${videoId}/hqdefault.jpg\`} />
+        <span>▶ Play Video</span>
+      </button>
+    );
+  }
+
+  return <iframe src={\`https://youtube.com/embed/\${videoId}\`} />;
+}
+
+// 3. Self-host critical third-party resources
+// Download and serve from your domain
+
+// 4. Use Partytown to run scripts in web worker
+import { Partytown } from '@builder.io/partytown/react';
+
+<Partytown forward={['dataLayer.push']} />
+<script type="text/partytown" src="https://analytics.js" />`,
+      "implement-caching": `// 1. Configure caching headers
+// next.config.js
+module.exports = {
+  async headers() {
+    return [
+      {
+        source: '/static/:path*',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=31536000, immutable',
+          },
+        ],
+      },
+      {
+        source: '/:path*',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, s-maxage=86400, stale-while-revalidate=59',
+          },
+        ],
+      },
+    ];
+  },
+};
+
+// 2. Use Service Worker for offline caching
+// next.config.js with next-pwa
+const withPWA = require('next-pwa')({
+  dest: 'public',
+  runtimeCaching: [
+    {
+      urlPattern: /^https:\\/\\/api\\./,
+      handler: 'NetworkFirst',
+      options: {
+        cacheName: 'api-cache',
+        expiration: { maxEntries: 50, maxAgeSeconds: 300 },
+      },
+    },
+  ],
+});
+
+// 3. Implement stale-while-revalidate with SWR
+import useSWR from 'swr';
+
+function Profile() {
+  const { data } = useSWR('/api/user', fetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 60000,
+  });
+}`,
+    },
+  },
+  {
+    framework: "react",
+    rules: [
+      {
+        id: "react-prerender",
+        title: "Render the First View Before JavaScript Loads",
+        description:
+          "FCP of {fcp} on a client-rendered React app means visitors see a blank page until the bundle has downloaded and run. Prerendering or server rendering sends meaningful HTML in the first response.",
+        when: { any: [{ metric: "fcp", rating: ["poor"] }, { metric: "lcp", gt: 4000 }] },
+        priority: "high",
+        category: "performance",
+        effort: "hard",
+        potentialGain: 15,
+        estimatedImpact: "Content paints as soon as the HTML arrives, improving FCP and LCP",
+        affectedComponents: ["javascript", "server-response"],
+        learnMoreUrl: "https://web.dev/articles/rendering-on-the-web",
+        actions: [
+          "Prerender static routes at build time",
+          "Server render dynamic routes with a framework",
+          "Show an HTML shell with the layout while JavaScript loads",
+        ],
+        codeExample: `// 1. Prerender routes with React Router (framework mode)
+// react-router.config.ts
+import type { Config } from '@react-router/dev/config';
+
+export default {
+  ssr: false,
+  async prerender() {
+    return ['/', '/pricing', '/about'];
+  },
+} satisfies Config;
+
+// 2. Or render to static HTML at build time (React 19)
+import { prerender } from 'react-dom/static';
+
+const { prelude } = await prerender(<App url="/pricing" />);
+
+// 3. Hydrate the prerendered markup instead of rendering from scratch
+import { hydrateRoot } from 'react-dom/client';
+
+hydrateRoot(document.getElementById('root'), <App />);`,
+      },
+    ],
+    examples: {
+      "optimize-lcp": `// 1. Preload the LCP image from the component that renders it (React 19)
+import { preload } from 'react-dom';
+
+function Hero() {
+  preload('/hero.webp', { as: 'image', fetchPriority: 'high' });
+
+  return (
+    <img
+      src="/hero.webp"
+      alt="Hero"
+      width={1200}
+      height={600}
+      fetchPriority="high"
+    />
+  );
+}
+
+// 2. Don't wait for data fetched in useEffect to show the hero
+// Render it from static props or the initial HTML instead
+
+// 3. Avoid lazy loading LCP element
+// Remove loading="lazy" from hero images`,
+      "optimize-js-bundle": `// 1. Split routes and heavy components with React.lazy
+import { lazy, Suspense } from 'react';
+
+const Dashboard = lazy(() => import('./Dashboard'));
+const HeavyChart = lazy(() => import('./HeavyChart'));
+
+<Suspense fallback={<ChartSkeleton />}>
+  <HeavyChart data={data} />
+</Suspense>
+
+// 2. Analyze the bundle (Vite)
+// vite.config.js
+import { visualizer } from 'rollup-plugin-visualizer';
+
+export default defineConfig({
+  plugins: [react(), visualizer({ open: true })],
+});
+
+// 3. Replace heavy libraries with lighter alternatives
+// moment.js (300KB) → date-fns (13KB) or dayjs (2KB)
+// lodash (70KB) → lodash-es (tree-shakeable)`,
+      "improve-inp": `// 1. Break up long tasks using scheduler
+function processLargeArray(items) {
+  const CHUNK_SIZE = 100;
+  let index = 0;
+
+  function processChunk() {
+    const chunk = items.slice(index, index + CHUNK_SIZE);
+    chunk.forEach(processItem);
+    index += CHUNK_SIZE;
+
+    if (index < items.length) {
+      // Yield to main thread
+      requestIdleCallback(processChunk);
+    }
+  }
+
+  processChunk();
+}
+
+// 2. Use React transitions for non-urgent updates
+import { useTransition } from 'react';
+
+function SearchResults() {
+  const [isPending, startTransition] = useTransition();
+
+  function handleSearch(query) {
+    startTransition(() => {
+      setResults(filterResults(query));
+    });
+  }
+}
+
+// 3. Debounce expensive handlers
+import { useDebouncedCallback } from 'use-debounce';
+
+const debouncedSearch = useDebouncedCallback(
+  (value) => search(value),
+  300
+);
+
+// 4. Use Web Workers for heavy computation
+const worker = new Worker('/heavy-computation.js');
+worker.postMessage(data);
+worker.onmessage = (e) => setResult(e.data);
+
+// 5. Virtualize long lists
+import { FixedSizeList } from 'react-window';
+
+<FixedSizeList
+  height={400}
+  itemCount={10000}
+  itemSize={50}
+>
+  {Row}
+</FixedSizeList>`,
+      "manage-third-party": `// 1. Load third-party scripts after the page is interactive
+useEffect(() => {
+  const id = requestIdleCallback(() => {
+    const script = document.createElement('script');
+    script.src = 'https://analytics.example.com/script.js';
+    script.async = true;
+    document.body.appendChild(script);
+  });
+  return () => cancelIdleCallback(id);
+}, []);
+
+// 2. Use facade pattern for heavy embeds
+function YouTubeEmbed({ videoId }) {
+  const [loaded, setLoaded] = useState(false);
+
+  if (!loaded) {
+    return (
+      <button onClick={() => setLoaded(true)}>
+        <img src={\`https://i.ytimg.com/vi/\${videoId}/hqdefault.jpg\`} />
+        <span>▶ Play Video</span>
+      </button>
+    );
+  }
+
+  return <iframe src={\`https://youtube.com/embed/\${videoId}\`} />;
+}
+
+// 3. Use Partytown to run scripts in web worker
+import { Partytown } from '@builder.io/partytown/react';
+
+<Partytown forward={['dataLayer.push']} />
+<script type="text/partytown" src="https://analytics.js" />`,
+      "implement-caching": `// 1. Cache hashed build output for a year, never index.html
+// Cache-Control for /assets/*
+Cache-Control: public, max-age=31536000, immutable
+// Cache-Control for /index.html
+Cache-Control: no-cache
+
+// 2. Implement stale-while-revalidate with SWR
+import useSWR from 'swr';
+
+function Profile() {
+  const { data } = useSWR('/api/user', fetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 60000,
+  });
+}`,
+    },
+  },
+  {
+    framework: "nuxt",
+    rules: [
+      {
+        id: "nuxt-lazy-hydration",
+        title: "Delay Hydration of Below-the-Fold Components",
+        description:
+          "Hydrating the whole Nuxt page at once keeps the main thread busy for {javascript.loadTime}. Lazy components with delayed hydration only load and run when they are needed.",
+        when: { component: "javascript", status: ["critical", "needs-improvement"] },
+        priority: "medium",
+        category: "performance",
+        effort: "easy",
+        potentialGain: 8,
+        estimatedImpact: "Less main-thread work during load, improving TBT and INP",
+        affectedComponents: ["javascript", "main-thread"],
+        learnMoreUrl: "https://nuxt.com/docs/guide/directory-structure/components#delayed-or-lazy-hydration",
+        actions: [
+          "Prefix heavy components with Lazy",
+          "Hydrate below-the-fold components when visible",
+          "Render static sections with no client-side JavaScript",
+        ],
+        codeExample: `<template>
+  <HeroBanner />
+
+  <!-- Loaded and hydrated only when scrolled into view -->
+  <LazyProductReviews hydrate-on-visible />
+
+  <!-- Hydrated when the browser is idle -->
+  <LazyNewsletterSignup hydrate-on-idle />
+
+  <!-- Never hydrated: static markup only -->
+  <LazySiteFooter hydrate-never />
+</template>`,
+      },
+    ],
+    examples: {
+      "optimize-ttfb": `// Cache rendered pages with route rules
+// nuxt.config.ts
+export default defineNuxtConfig({
+  routeRules: {
+    // Generated at build time
+    '/': { prerender: true },
+    // Served from cache, regenerated in the background
+    '/blog/**': { swr: 3600 },
+    // Cached on the CDN until the next deploy (on supporting hosts)
+    '/products/**': { isr: 600 },
+  },
+});`,
+      "optimize-lcp": `<!-- Preload the LCP image with high priority -->
+<template>
+  <NuxtImg
+    src="/hero.jpg"
+    alt="Hero"
+    width="1200"
+    height="600"
+    format="webp"
+    preload
+    fetchpriority="high"
+  />
+</template>`,
+      "optimize-images": `// 1. Install the image module
+// nuxt.config.ts
+export default defineNuxtConfig({
+  modules: ['@nuxt/image'],
+  image: { format: ['avif', 'webp'] },
+});
+
+<!-- 2. Serve modern formats with responsive sizes -->
+<NuxtPicture
+  src="/photo.jpg"
+  alt="Description"
+  width="800"
+  height="600"
+  sizes="100vw md:50vw"
+  loading="lazy"
+/>`,
+      "optimize-fonts": `// Self-host fonts with font-display and fallback metrics
+// nuxt.config.ts
+export default defineNuxtConfig({
+  modules: ['@nuxt/fonts'],
+  fonts: {
+    defaults: { weights: [400, 700], subsets: ['latin'] },
+  },
+});
+
+/* Then just use the family in CSS */
+body {
+  font-family: 'Inter', sans-serif;
+}`,
+      "manage-third-party": `// 1. Load analytics after Nuxt has hydrated
+const { proxy } = useScriptGoogleAnalytics({
+  id: 'G-XXXXXXX',
+  scriptOptions: { trigger: 'onNuxtReady' },
+});
+
+<!-- 2. Use a facade for heavy embeds -->
+<ScriptYouTubePlayer video-id="VIDEO_ID" />`,
+      "implement-caching": `// nuxt.config.ts
+export default defineNuxtConfig({
+  routeRules: {
+    // Hashed build assets
+    '/_nuxt/**': {
+      headers: { 'cache-control': 'public, max-age=31536000, immutable' },
+    },
+    // Cache API responses on the server
+    '/api/catalog/**': { cache: { maxAge: 300, swr: true } },
+  },
+});`,
+      "optimize-js-bundle": `<!-- 1. Load heavy components only when they are rendered -->
+<template>
+  <LazyHeavyChart v-if="showChart" :data="data" />
+</template>
+
+// 2. Analyze the bundle
+// npx nuxi analyze
+
+// 3. Replace heavy libraries with lighter alternatives
+// moment.js (300KB) → date-fns (13KB) or dayjs (2KB)
+// lodash (70KB) → lodash-es (tree-shakeable)`,
+    },
+  },
+  {
+    framework: "vue",
+    rules: [
+      {
+        id: "vue-prerender",
+        title: "Render the First View Before JavaScript Loads",
+        description:
+          "FCP of {fcp} on a client-rendered Vue app means visitors see a blank page until the bundle has downloaded and run. Static generation or server rendering sends meaningful HTML in the first response.",
+        when: { any: [{ metric: "fcp", rating: ["poor"] }, { metric: "lcp", gt: 4000 }] },
+        priority: "high",
+        category: "performance",
+        effort: "hard",
+        potentialGain: 15,
+        estimatedImpact: "Content paints as soon as the HTML arrives, improving FCP and LCP",
+        affectedComponents: ["javascript", "server-response"],
+        learnMoreUrl: "https://vuejs.org/guide/scaling-up/ssr.html",
+        actions: [
+          "Generate static HTML for each route at build time",
+          "Move to Nuxt for server rendering of dynamic routes",
+          "Show an HTML shell with the layout while JavaScript loads",
+        ],
+        codeExample: `// 1. Generate static HTML per route with vite-ssg
+// main.ts
+import { ViteSSG } from 'vite-ssg';
+import App from './App.vue';
+import { routes } from './routes';
+
+export const createApp = ViteSSG(App, { routes });
+
+// package.json
+{
+  "scripts": {
+    "build": "vite-ssg build"
+  }
+}
+
+// 2. Or server render with Nuxt, prerendering what is static
+// nuxt.config.ts
+export default defineNuxtConfig({
+  routeRules: {
+    '/': { prerender: true },
+    '/products/**': { swr: 600 },
+  },
+});`,
+      },
+    ],
+    examples: {
+      "optimize-lcp": `<!-- 1. Give the LCP image high priority, never lazy load it -->
+<template>
+  <img
+    src="/hero.webp"
+    alt="Hero"
+    width="1200"
+    height="600"
+    fetchpriority="high"
+  />
+</template>
+
+<!-- 2. Preload it in index.html so it starts before the bundle runs -->
+<link rel="preload" as="image" href="/hero.webp" fetchpriority="high" />
+
+<!-- 3. Don't hide above-the-fold content behind v-if="loaded" -->`,
+      "optimize-js-bundle": `// 1. Lazy load routes
+const routes = [
+  { path: '/', component: Home },
+  { path: '/dashboard', component: () => import('./views/Dashboard.vue') },
+];
+
+// 2. Lazy load heavy components
+import { defineAsyncComponent } from 'vue';
+
+const HeavyChart = defineAsyncComponent({
+  loader: () => import('./HeavyChart.vue'),
+  loadingComponent: ChartSkeleton,
+});
+
+// 3. Analyze the bundle (Vite)
+// vite.config.js
+import { visualizer } from 'rollup-plugin-visualizer';
+
+export default defineConfig({
+  plugins: [vue(), visualizer({ open: true })],
+});`,
+      "improve-inp": `// 1. Avoid deep reactivity for large data sets
+import { shallowRef } from 'vue';
+
+const rows = shallowRef([]);
+rows.value = await fetchRows(); // Replace, don't mutate
+
+// 2. Debounce expensive handlers
+import { useDebounceFn } from '@vueuse/core';
+
+const search = useDebounceFn((query) => runSearch(query), 300);
+
+// 3. Skip re-rendering unchanged list items
+<div v-for="item in items" :key="item.id" v-memo="[item.id === selectedId]">
+  <ItemRow :item="item" :selected="item.id === selectedId" />
+</div>
+
+// 4. Virtualize long lists
+<RecycleScroller :items="items" :item-size="50" key-field="id" v-slot="{ item }">
+  <ItemRow :item="item" />
+</RecycleScroller>`,
+    },
+  },
+  {
+    framework: "wordpress",
+    rules: [
+      {
+        id: "wordpress-plugin-assets",
+        title: "Stop Loading Plugin Assets on Every Page",
+        description:
+          "Plugins often enqueue their scripts and styles site-wide, even on pages that never use them. Dequeue them where they are not needed and drop WordPress features the site does not use.",
+        when: {
+          any: [
+            { resources: "script", count: { gt: 20 } },
+            { resources: "stylesheet", count: { gt: 10 } },
+          ],
+        },
+        priority: "medium",
+        category: "performance",
+        effort: "easy",
+        potentialGain: 8,
+        estimatedImpact: "Fewer requests and less render-blocking CSS and JavaScript",
+        affectedComponents: ["javascript", "css"],
+        learnMoreUrl: "https://developer.wordpress.org/reference/functions/wp_dequeue_script/",
+        actions: [
+          "Dequeue plugin scripts and styles on pages that do not use them",
+          "Remove unused plugins",
+          "Disable emoji and embed scripts if unused",
+        ],
+        codeExample: `// functions.php
+// 1. Only load the contact form plugin on the contact page
+add_action( 'wp_enqueue_scripts', function () {
+  if ( ! is_page( 'contact' ) ) {
+    wp_dequeue_script( 'contact-form-7' );
+    wp_dequeue_style( 'contact-form-7' );
+  }
+}, 100 );
+
+// 2. Remove the emoji detection script and styles
+remove_action( 'wp_head', 'print_emoji_detection_script', 7 );
+remove_action( 'wp_print_styles', 'print_emoji_styles' );
+
+// 3. Only load CSS for the blocks used on the page
+add_filter( 'should_load_separate_core_block_assets', '__return_true' );`,
+      },
+    ],
+    examples: {
+      "optimize-ttfb": `// 1. Enable full-page caching
+// wp-config.php (with a page cache plugin such as WP Super Cache)
+define( 'WP_CACHE', true );
+
+// 2. Add a persistent object cache for database queries
+// wp-config.php (with the Redis Object Cache plugin)
+define( 'WP_REDIS_HOST', '127.0.0.1' );
+
+// 3. Find slow plugins and queries
+// Install Query Monitor and check the Queries by Component panel`,
+      "optimize-lcp": `// 1. Load the hero image eagerly with high priority
+// In your theme template
+echo wp_get_attachment_image( $hero_id, 'full', false, array(
+  'fetchpriority' => 'high',
+  'loading'       => false,
+) );
+
+// 2. Don't lazy load the first images on the page
+// functions.php
+add_filter( 'wp_omit_loading_attr_threshold', function () {
+  return 2;
+} );`,
+      "optimize-images": `// 1. Generate AVIF instead of JPEG for uploads (WordPress 6.5+)
+// functions.php
+add_filter( 'image_editor_output_format', function ( $formats ) {
+  $formats['image/jpeg'] = 'image/avif';
+  return $formats;
+} );
+
+// 2. Lower the compression quality of generated sizes
+add_filter( 'wp_editor_set_quality', function () {
+  return 75;
+} );
+
+// 3. Output responsive images from the theme
+echo wp_get_attachment_image( $image_id, 'large' ); // Adds srcset and sizes`,
+      "optimize-js-bundle": `// 1. Defer theme and plugin scripts (WordPress 6.3+)
+// functions.php
+wp_enqueue_script( 'theme-app', get_template_directory_uri() . '/js/app.js',
+  array(), '1.0', array( 'strategy' => 'defer', 'in_footer' => true ) );
+
+// 2. Drop jQuery Migrate when no plugin needs it
+add_action( 'wp_default_scripts', function ( $scripts ) {
+  if ( ! is_admin() && isset( $scripts->registered['jquery'] ) ) {
+    $scripts->registered['jquery']->deps = array_diff(
+      $scripts->registered['jquery']->deps,
+      array( 'jquery-migrate' )
+    );
+  }
+} );`,
+      "optimize-css": `// 1. Only load CSS for the blocks used on the page
+// functions.php
+add_filter( 'should_load_separate_core_block_assets', '__return_true' );
+
+// 2. Drop the block library CSS on classic themes that don't use it
+add_action( 'wp_enqueue_scripts', function () {
+  wp_dequeue_style( 'wp-block-library' );
+  wp_dequeue_style( 'global-styles' );
+}, 100 );`,
+      "optimize-fonts": `// Self-host fonts with font-display in theme.json
+{
+  "settings": {
+    "typography": {
+      "fontFamilies": [
+        {
+          "name": "Inter",
+          "slug": "inter",
+          "fontFamily": "Inter, sans-serif",
+          "fontFace": [
+            {
+              "fontFamily": "Inter",
+              "fontWeight": "100 900",
+              "fontStyle": "normal",
+              "fontDisplay": "swap",
+              "src": ["file:./assets/fonts/inter-var.woff2"]
+            }
+          ]
+        }
+      ]
+    }
+  }
+}`,
+      "manage-third-party": `// Defer third-party scripts enqueued by the theme (WordPress 6.3+)
+// functions.php
+wp_enqueue_script( 'analytics', 'https://analytics.example.com/script.js',
+  array(), null, array( 'strategy' => 'async' ) );
+
+// Or add async to a script a plugin enqueues
+add_action( 'wp_enqueue_scripts', function () {
+  wp_script_add_data( 'plugin-chat-widget', 'strategy', 'defer' );
+}, 100 );`,
+      "implement-caching": `# .htaccess - long cache lifetimes for static files
+# WordPress adds ?ver= to asset URLs, so updates still reach visitors
+<IfModule mod_expires.c>
+  ExpiresActive On
+  ExpiresByType image/avif "access plus 1 year"
+  ExpiresByType image/webp "access plus 1 year"
+  ExpiresByType text/css "access plus 1 year"
+  ExpiresByType application/javascript "access plus 1 year"
+  ExpiresByType font/woff2 "access plus 1 year"
+</IfModule>
+
+<IfModule mod_deflate.c>
+  AddOutputFilterByType DEFLATE text/html text/css application/javascript
+</IfModule>`,
+    },
+  },
+];
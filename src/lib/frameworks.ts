@@ -0,0 +1,77 @@
+import { Framework, PerformanceEntry, ResourceTiming } from "@/types";
+
+/**
+ * Detection of the stack a page is built with, from the URLs of the
+ * resources it loads, so recommendations can show framework-specific code.
+ */
+
+export const FRAMEWORK_LABELS: Record<Framework, string> = {
+  nextjs: "Next.js",
+  nuxt: "Nuxt",
+  react: "React",
+  vue: "Vue",
+  wordpress: "WordPress",
+};
+
+/**
+ * Frameworks a pack falls back to for code examples it does not override:
+ * Next.js apps are React apps and Nuxt apps are Vue apps.
+ */
+export const FRAMEWORK_PARENTS: Partial<Record<Framework, Framework>> = {
+  nextjs: "react",
+  nuxt: "vue",
+};
+
+// Checked in order: meta-frameworks and WordPress (which may bundle React
+// for blocks) before the plain libraries
+const FRAMEWORK_SIGNATURES: { framework: Framework; pattern: RegExp }[] = [
+  { framework: "nextjs", pattern: /\/_next\/(static|image)\b/ },
+  { framework: "nuxt", pattern: /\/_nuxt\// },
+  { framework: "wordpress", pattern: /\/wp-(content|includes)\// },
+  {
+    framework: "react",
+    pattern:
+      /\/react(-dom)?([.@-][\w.-]*)?\.js\b|\/static\/js\/(main|bundle)\.[0-9a-f]+(\.chunk)?\.js\b/,
+  },
+  {
+    framework: "vue",
+    pattern:
+      /\/vue([.@-][\w.-]*)?\.js\b|\/js\/chunk-vendors\.[0-9a-f]+\.js\b/,
+  },
+];
+
+// Lighthouse stack pack ids (`lhr.stackPacks`) for the supported stacks
+const STACK_PACK_FRAMEWORKS: Record<string, Framework> = {
+  "next.js": "nextjs",
+  nuxt: "nuxt",
+  wordpress: "wordpress",
+  "wp-rocket": "wordpress",
+  react: "react",
+};
+
+/**
+ * Detect the framework from resource URLs, falling back to the stack packs
+ * Lighthouse detected from the page's JavaScript libraries. Returns
+ * undefined for unknown stacks.
+ */
+export function detectFramework(
+  resources: Pick<ResourceTiming, "name" | "url">[],
+  stackPacks: string[] = [],
+): Framework | undefined {
+  const urls = resources.map((resource) => resource.url || resource.name);
+  const signature = FRAMEWORK_SIGNATURES.find(({ pattern }) =>
+    urls.some((url) => pattern.test(url)),
+  );
+  if (signature) return signature.framework;
+
+  return stackPacks
+    .map((id) => STACK_PACK_FRAMEWORKS[id])
+    .find((framework) => framework !== undefined);
+}
+
+// Stored framework, detected on the fly for entries saved before detection
+export function getEntryFramework(
+  entry: Pick<PerformanceEntry, "framework" | "resourceTimings">,
+): Framework | undefined {
+  return entry.framework ?? detectFramework(entry.resourceTimings);
+}
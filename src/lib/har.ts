@@ -0,0 +1,394 @@
+import {
+  HttpHeader,
+  PerformanceEntry,
+  ResourceTiming,
+  ResourceTimingPhases,
+  Strategy,
+  calculateOverallScore,
+} from "@/types";
+import { detectFramework } from "./frameworks";
+
+/**
+ * HAR 1.2 (HTTP Archive) import and export, so network traces captured in
+ * DevTools can be analyzed here and entries can be opened in other tools.
+ * Spec: http://www.softwareishard.com/blog/har-12-spec/
+ */
+
+// Subset of HAR 1.2 read on import and written on export. Underscored
+// fields are extensions, mostly Chrome's.
+interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HttpHeader[];
+    queryString: HttpHeader[];
+    cookies: unknown[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HttpHeader[];
+    cookies: unknown[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _transferSize?: number;
+  };
+  cache: Record<string, unknown>;
+  timings: HarTimings;
+  _resourceType?: string;
+  _priority?: string;
+  _initiator?: { type?: string };
+}
+
+interface HarPage {
+  id: string;
+  startedDateTime: string;
+  title: string;
+  pageTimings: {
+    onContentLoad?: number;
+    onLoad?: number;
+    // Paint metrics, which HAR lacks, as written by `toHar`
+    _firstContentfulPaint?: number;
+    _largestContentfulPaint?: number;
+    _cumulativeLayoutShift?: number;
+  };
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages?: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+const HAR_CREATOR = { name: "perf-analyzer", version: "0.1.0" };
+
+// Credentials are dropped on import since entries are synced to the server
+const SENSITIVE_HEADERS = ["authorization", "cookie", "set-cookie"];
+
+// Chrome `_resourceType` values mapped onto the Lighthouse `resourceType`
+// and `initiatorType` vocabularies used by the other views
+const RESOURCE_TYPES: Record<
+  string,
+  { resourceType: string; initiatorType: string }
+> = {
+  document: { resourceType: "Document", initiatorType: "document" },
+  script: { resourceType: "Script", initiatorType: "script" },
+  stylesheet: { resourceType: "Stylesheet", initiatorType: "css" },
+  image: { resourceType: "Image", initiatorType: "img" },
+  font: { resourceType: "Font", initiatorType: "font" },
+  media: { resourceType: "Media", initiatorType: "media" },
+  fetch: { resourceType: "Fetch", initiatorType: "fetch" },
+  xhr: { resourceType: "XHR", initiatorType: "xmlhttprequest" },
+};
+
+// Fallback for HARs without `_resourceType` (Firefox, Safari)
+function getTypeFromMime(mimeType: string): string {
+  if (mimeType.includes("html")) return "document";
+  if (mimeType.includes("javascript")) return "script";
+  if (mimeType === "text/css") return "stylesheet";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("font/") || mimeType.includes("font")) return "font";
+  if (mimeType.startsWith("video/") || mimeType.startsWith("audio/")) {
+    return "media";
+  }
+  return "other";
+}
+
+// HAR uses -1 for phases that do not apply
+function phase(value: number | undefined): number | undefined {
+  return typeof value === "number" && value >= 0 ? value : undefined;
+}
+
+function toTimings(timings: HarTimings): ResourceTimingPhases {
+  return {
+    queueing: phase(timings.blocked),
+    dns: phase(timings.dns),
+    connect: phase(timings.connect),
+    ssl: phase(timings.ssl),
+    // Sending the request takes a fraction of a millisecond
+    wait: (phase(timings.send) ?? 0) + (phase(timings.wait) ?? 0),
+    download: phase(timings.receive),
+  };
+}
+
+function toHeaders(headers: HttpHeader[] | undefined): HttpHeader[] {
+  return (headers ?? [])
+    .filter((header) => !SENSITIVE_HEADERS.includes(header.name.toLowerCase()))
+    .map(({ name, value }) => ({ name, value }));
+}
+
+function getHeader(headers: HttpHeader[], name: string): string | undefined {
+  return headers.find((header) => header.name.toLowerCase() === name)?.value;
+}
+
+function toResourceTiming(
+  entry: HarEntry,
+  pageStart: number,
+  onContentLoad: number | undefined,
+): ResourceTiming {
+  const mimeType = entry.response.content?.mimeType?.split(";")[0].trim();
+  const type = (
+    entry._resourceType ?? getTypeFromMime(mimeType ?? "")
+  ).toLowerCase();
+  const types = RESOURCE_TYPES[type];
+  const startTime = new Date(entry.startedDateTime).getTime() - pageStart;
+  const bodySize = entry.response.bodySize;
+  const headersSize = entry.response.headersSize;
+
+  return {
+    name: entry.request.url,
+    url: entry.request.url,
+    origin: new URL(entry.request.url).origin,
+    initiatorType: types?.initiatorType ?? "other",
+    resourceType: types?.resourceType ?? "Other",
+    mimeType,
+    priority: entry._priority,
+    // HAR has no render-blocking flag: parser-inserted stylesheets and
+    // high-priority (so neither async nor deferred) parser-inserted scripts
+    // that finish before DOMContentLoaded are the ones that block
+    renderBlocking:
+      entry._initiator?.type === "parser" &&
+      (type === "stylesheet" ||
+        (type === "script" &&
+          ["VeryHigh", "High"].includes(entry._priority ?? ""))) &&
+      (onContentLoad === undefined ||
+        startTime + entry.time <= onContentLoad),
+    protocol: entry.response.httpVersion?.toLowerCase() || undefined,
+    statusCode: entry.response.status,
+    timings: toTimings(entry.timings),
+    requestHeaders: toHeaders(entry.request.headers),
+    responseHeaders: toHeaders(entry.response.headers),
+    duration: Math.max(0, entry.time),
+    transferSize:
+      entry.response._transferSize ??
+      (bodySize >= 0 ? bodySize + Math.max(headersSize, 0) : 0),
+    startTime,
+  };
+}
+
+function toEntry(
+  page: HarPage | undefined,
+  entries: HarEntry[],
+): Omit<PerformanceEntry, "id"> {
+  const sorted = [...entries].sort(
+    (a, b) =>
+      new Date(a.startedDateTime).getTime() -
+      new Date(b.startedDateTime).getTime(),
+  );
+  const pageStart = new Date(
+    page?.startedDateTime ?? sorted[0].startedDateTime,
+  ).getTime();
+  const timings = page?.pageTimings ?? {};
+  const onContentLoad = phase(timings.onContentLoad);
+  const resourceTimings = sorted.map((entry) =>
+    toResourceTiming(entry, pageStart, onContentLoad),
+  );
+
+  // The page's URL is its first document request, e.g. before redirects
+  const document =
+    resourceTimings.find((r) => r.resourceType === "Document") ??
+    resourceTimings[0];
+  const documentEntry = sorted.find(
+    (entry) => entry.request.url === document.url,
+  );
+  const phases = document.timings ?? {};
+  // `connect` already includes `ssl`
+  const ttfb =
+    document.startTime +
+    (phases.queueing ?? 0) +
+    (phases.dns ?? 0) +
+    (phases.connect ?? 0) +
+    (phases.wait ?? 0);
+
+  // DevTools HARs only yield TTFB; paint metrics round-trip through `toHar`
+  const metrics = Object.fromEntries(
+    Object.entries({
+      ttfb,
+      fcp: phase(timings._firstContentfulPaint),
+      lcp: phase(timings._largestContentfulPaint),
+      cls: phase(timings._cumulativeLayoutShift),
+    }).filter(([, value]) => value !== undefined),
+  ) as PerformanceEntry["metrics"];
+
+  // Chrome records the user agent of the emulated device
+  const userAgent = getHeader(
+    documentEntry?.request.headers ?? [],
+    "user-agent",
+  );
+  const strategy: Strategy = /Mobile|Android/.test(userAgent ?? "")
+    ? "mobile"
+    : "desktop";
+
+  return {
+    url: document.url ?? document.name,
+    timestamp: new Date(pageStart),
+    strategy,
+    source: "har",
+    framework: detectFramework(resourceTimings),
+    metrics,
+    resourceTimings,
+    pageTimings: {
+      onContentLoad,
+      onLoad: phase(timings.onLoad),
+    },
+    // Not a lab score (often TTFB alone); `hasLabScore` keeps it out of
+    // averages, trends, baselines and alerts
+    overallScore: calculateOverallScore(metrics),
+  };
+}
+
+/**
+ * Parse a HAR 1.2 document into one entry per page (or one entry for all
+ * requests when the HAR has no pages). Throws on malformed input.
+ */
+export function parseHar(json: unknown): Omit<PerformanceEntry, "id">[] {
+  const log = (json as Partial<HarLog> | null)?.log;
+  if (!log || typeof log !== "object" || !Array.isArray(log.entries)) {
+    throw new Error("Not a HAR file: expected a log with entries");
+  }
+
+  const entries = log.entries.filter((entry, index) => {
+    if (
+      !entry?.request?.url ||
+      !entry.response ||
+      !entry.timings ||
+      Number.isNaN(new Date(entry.startedDateTime).getTime())
+    ) {
+      throw new Error(`HAR entry #${index + 1} is incomplete`);
+    }
+    // Data and blob URLs are not network requests
+    return /^https?:/.test(entry.request.url);
+  });
+  if (entries.length === 0) {
+    throw new Error("The HAR file contains no HTTP requests");
+  }
+
+  const pages = log.pages ?? [];
+  if (pages.length === 0) return [toEntry(undefined, entries)];
+
+  return pages.flatMap((page) => {
+    const pageEntries = entries.filter((entry) => entry.pageref === page.id);
+    return pageEntries.length > 0 ? [toEntry(page, pageEntries)] : [];
+  });
+}
+
+function toHarTimings(resource: ResourceTiming): HarTimings {
+  const timings = resource.timings;
+  // Without phases the whole request is reported as download time
+  if (!timings) {
+    return { send: 0, wait: 0, receive: resource.duration };
+  }
+  return {
+    blocked: timings.queueing ?? -1,
+    dns: timings.dns ?? -1,
+    connect: timings.connect ?? -1,
+    ssl: timings.ssl ?? -1,
+    send: 0,
+    wait: timings.wait ?? 0,
+    receive: timings.download ?? 0,
+  };
+}
+
+function getQueryString(url: string): HttpHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Export an entry's requests as a single-page HAR 1.2 document. Values the
+ * entry does not record, such as methods and the status codes of older
+ * runs, are written as GET and 200.
+ */
+export function toHar(entry: PerformanceEntry): HarLog {
+  const pageStart = new Date(entry.timestamp).getTime();
+  const pageId = "page_1";
+
+  return {
+    log: {
+      version: "1.2",
+      creator: HAR_CREATOR,
+      pages: [
+        {
+          id: pageId,
+          startedDateTime: new Date(pageStart).toISOString(),
+          title: entry.url,
+          pageTimings: {
+            onContentLoad: entry.pageTimings?.onContentLoad ?? -1,
+            onLoad: entry.pageTimings?.onLoad ?? -1,
+            _firstContentfulPaint: entry.metrics.fcp,
+            _largestContentfulPaint: entry.metrics.lcp,
+            _cumulativeLayoutShift: entry.metrics.cls,
+          },
+        },
+      ],
+      entries: entry.resourceTimings.map((resource) => {
+        const url = resource.url ?? resource.name;
+        const httpVersion = resource.protocol ?? "";
+        return {
+          pageref: pageId,
+          startedDateTime: new Date(
+            pageStart + resource.startTime,
+          ).toISOString(),
+          time: resource.duration,
+          request: {
+            method: "GET",
+            url,
+            httpVersion,
+            headers: resource.requestHeaders ?? [],
+            queryString: getQueryString(url),
+            cookies: [],
+            headersSize: -1,
+            bodySize: 0,
+          },
+          response: {
+            status: resource.statusCode ?? 200,
+            statusText: "",
+            httpVersion,
+            headers: resource.responseHeaders ?? [],
+            cookies: [],
+            content: {
+              size: resource.transferSize,
+              mimeType: resource.mimeType ?? "",
+            },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: resource.transferSize,
+            _transferSize: resource.transferSize,
+          },
+          cache: {},
+          timings: toHarTimings(resource),
+          _resourceType: resource.resourceType?.toLowerCase(),
+          _priority: resource.priority,
+        };
+      }),
+    },
+  };
+}
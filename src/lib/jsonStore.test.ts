@@ -0,0 +1,90 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFileStore, createJsonLog } from "./jsonStore";
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "perf-store-"));
+  process.env.PERF_DATA_DIR = dataDir;
+});
+
+afterEach(async () => {
+  delete process.env.PERF_DATA_DIR;
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+async function countLines(name: string): Promise<number> {
+  const text = await fs.readFile(path.join(dataDir, `${name}.jsonl`), "utf8");
+  return text.split("\n").filter(Boolean).length;
+}
+
+describe("createJsonLog", () => {
+  it("lists newest first and replaces items by id", async () => {
+    const log = createJsonLog<Item>("items", 10);
+    await log.append([
+      { id: "a", value: 1 },
+      { id: "b", value: 2 },
+    ]);
+    await log.append([{ id: "a", value: 3 }]);
+
+    expect(await log.list()).toEqual([
+      { id: "a", value: 3 },
+      { id: "b", value: 2 },
+    ]);
+  });
+
+  it("appends without rewriting until the log is compacted", async () => {
+    const log = createJsonLog<Item>("compacted", 3);
+    for (let value = 1; value <= 5; value++) {
+      await log.append([{ id: `item-${value}`, value }]);
+    }
+    expect(await countLines("compacted")).toBe(5);
+
+    await log.append([{ id: "item-6", value: 6 }]);
+    expect(await countLines("compacted")).toBe(3);
+    expect((await log.list()).map((item) => item.value)).toEqual([6, 5, 4]);
+  });
+
+  it("skips a partial last line", async () => {
+    const log = createJsonLog<Item>("partial", 10);
+    await log.append([{ id: "a", value: 1 }]);
+    await fs.appendFile(path.join(dataDir, "partial.jsonl"), '{"id":"b"');
+    expect(await log.list()).toEqual([{ id: "a", value: 1 }]);
+
+    // A new process picks up after the partial line
+    await createJsonLog<Item>("partial", 10).append([{ id: "c", value: 2 }]);
+    expect(await log.list()).toEqual([
+      { id: "c", value: 2 },
+      { id: "a", value: 1 },
+    ]);
+  });
+});
+
+describe("createFileStore", () => {
+  it("stores each document unchanged in its own file", async () => {
+    const store = createFileStore("reports");
+    const text = '{ "lighthouseVersion": "12.0.0" }\n';
+    await store.write("report-1", text);
+
+    expect(await store.read("report-1")).toBe(text);
+    expect(await fs.readdir(path.join(dataDir, "reports"))).toEqual([
+      "report-1.json",
+    ]);
+    expect(await store.remove("report-1")).toBe(true);
+    expect(await store.read("report-1")).toBeUndefined();
+  });
+
+  it("rejects ids that are not plain file names", async () => {
+    await expect(createFileStore("reports").read("../secrets")).rejects.toThrow(
+      "Invalid file id: ../secrets",
+    );
+  });
+});
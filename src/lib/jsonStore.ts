@@ -0,0 +1,242 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Minimal file-backed persistence for server routes. Each collection is a
+ * JSON array stored under PERF_DATA_DIR (default `./data`). Writes go to a
+ * temp file and are renamed into place, and all access to a collection is
+ * serialized within the server process.
+ */
+
+export function getDataDir(): string {
+  return process.env.PERF_DATA_DIR || path.join(process.cwd(), "data");
+}
+
+export interface JsonCollection<T extends { id: string }> {
+  list: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  put: (item: T) => Promise<T>;
+  remove: (id: string) => Promise<boolean>;
+  clear: () => Promise<void>;
+  // Read-modify-write of the whole collection under the lock
+  update: (fn: (items: T[]) => T[]) => Promise<T[]>;
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<R>(file: string, task: () => Promise<R>): Promise<R> {
+  const previous = locks.get(file) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  locks.set(
+    file,
+    next.catch(() => undefined),
+  );
+  return next;
+}
+
+async function readItems<T>(file: string): Promise<T[]> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+async function writeItems<T>(file: string, items: T[]): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(items), "utf8");
+  await fs.rename(tmp, file);
+}
+
+export function createJsonCollection<T extends { id: string }>(
+  name: string,
+): JsonCollection<T> {
+  const file = () => path.join(getDataDir(), `${name}.json`);
+
+  const update = (fn: (items: T[]) => T[]) =>
+    withLock(file(), async () => {
+      const items = fn(await readItems<T>(file()));
+      await writeItems(file(), items);
+      return items;
+    });
+
+  return {
+    list: () => withLock(file(), () => readItems<T>(file())),
+
+    get: async (id) =>
+      (await withLock(file(), () => readItems<T>(file()))).find(
+        (item) => item.id === id,
+      ),
+
+    put: async (item) => {
+      await update((items) => [
+        item,
+        ...items.filter((existing) => existing.id !== item.id),
+      ]);
+      return item;
+    },
+
+    remove: async (id) => {
+      let removed = false;
+      await update((items) => {
+        const remaining = items.filter((item) => item.id !== id);
+        removed = remaining.length !== items.length;
+        return remaining;
+      });
+      return removed;
+    },
+
+    clear: async () => {
+      await update(() => []);
+    },
+
+    update,
+  };
+}
+
+export interface JsonLog<T extends { id: string }> {
+  // Newest first; a later item replaces an earlier one with the same id
+  list: () => Promise<T[]>;
+  append: (items: T[]) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+async function readLines<T>(file: string): Promise<T[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const items: T[] = [];
+  for (const line of text.split("\n")) {
+    if (!line) continue;
+    try {
+      items.push(JSON.parse(line) as T);
+    } catch {
+      // A partial line left by an interrupted append
+    }
+  }
+  return items;
+}
+
+function latestById<T extends { id: string }>(items: T[], max: number): T[] {
+  const byId = new Map<string, T>();
+  for (const item of items) {
+    byId.delete(item.id);
+    byId.set(item.id, item);
+  }
+  return Array.from(byId.values()).slice(-max).reverse();
+}
+
+/**
+ * Append-only collection stored as JSON lines (`<name>.jsonl`), for data
+ * written far more often than it is read. Appends never rewrite the file;
+ * once it holds twice `maxItems` lines it is compacted to the newest
+ * `maxItems` items.
+ */
+export function createJsonLog<T extends { id: string }>(
+  name: string,
+  maxItems: number,
+): JsonLog<T> {
+  const file = () => path.join(getDataDir(), `${name}.jsonl`);
+  // Lines in the file, counted on the first append
+  const lineCounts = new Map<string, number>();
+
+  const rewrite = async (items: T[]) => {
+    await fs.mkdir(path.dirname(file()), { recursive: true });
+    const tmp = `${file()}.${process.pid}.tmp`;
+    const lines = items.map((item) => `${JSON.stringify(item)}\n`);
+    await fs.writeFile(tmp, lines.join(""), "utf8");
+    await fs.rename(tmp, file());
+    lineCounts.set(file(), items.length);
+  };
+
+  return {
+    list: async () =>
+      latestById(await withLock(file(), () => readLines<T>(file())), maxItems),
+
+    append: (items) =>
+      withLock(file(), async () => {
+        if (items.length === 0) return;
+        let lines = items.map((item) => `${JSON.stringify(item)}\n`).join("");
+        let count = lineCounts.get(file());
+        if (count === undefined) {
+          const text = await fs.readFile(file(), "utf8").catch(() => "");
+          count = text.split("\n").filter(Boolean).length;
+          // Start on a fresh line after a partial one
+          if (text && !text.endsWith("\n")) lines = `\n${lines}`;
+        }
+
+        await fs.mkdir(path.dirname(file()), { recursive: true });
+        await fs.appendFile(file(), lines, "utf8");
+        count += items.length;
+        lineCounts.set(file(), count);
+
+        if (count >= maxItems * 2) {
+          const latest = latestById(await readLines<T>(file()), maxItems);
+          await rewrite(latest.reverse());
+        }
+      }),
+
+    clear: () => withLock(file(), () => rewrite([])),
+  };
+}
+
+export interface FileStore {
+  read: (id: string) => Promise<string | undefined>;
+  write: (id: string, text: string) => Promise<void>;
+  remove: (id: string) => Promise<boolean>;
+  clear: () => Promise<void>;
+}
+
+// Ids become file names, so they are limited to uuid-like characters
+const FILE_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Large documents stored one file per id under `<name>/<id>.json`, for
+ * bodies that should not be parsed and rewritten with every other item.
+ * Keep their metadata in a collection.
+ */
+export function createFileStore(name: string): FileStore {
+  const dir = () => path.join(getDataDir(), name);
+  const file = (id: string) => {
+    if (!FILE_ID_PATTERN.test(id)) throw new Error(`Invalid file id: ${id}`);
+    return path.join(dir(), `${id}.json`);
+  };
+
+  return {
+    read: async (id) => {
+      try {
+        return await fs.readFile(file(id), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    write: async (id, text) => {
+      await fs.mkdir(dir(), { recursive: true });
+      const tmp = `${file(id)}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, text, "utf8");
+      await fs.rename(tmp, file(id));
+    },
+
+    remove: async (id) => {
+      try {
+        await fs.unlink(file(id));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+        throw error;
+      }
+    },
+
+    clear: () => fs.rm(dir(), { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  PageSpeedResponse,
+  normalizePageSpeedResponse,
+  normalizeResourceTimings,
+} from "./lighthouse";
+import psiMobile from "./__fixtures__/psi-mobile.json";
+import psiDesktop from "./__fixtures__/psi-desktop.json";
+import psiNoLighthouseResult from "./__fixtures__/psi-no-lighthouse-result.json";
+
+// Saved PSI v5 responses, trimmed to the audits the normalizer reads
+const mobile = psiMobile as PageSpeedResponse;
+const desktop = psiDesktop as PageSpeedResponse;
+const noLighthouseResult = psiNoLighthouseResult as PageSpeedResponse;
+
+const ORIGIN = "https://www.example.com";
+const PAGE_URL = `${ORIGIN}/`;
+const FONTS_CSS =
+  "https://fonts.googleapis.com/css2?family=Inter:wght@400;700&display=swap";
+
+describe("normalizePageSpeedResponse", () => {
+  it("normalizes a mobile response", () => {
+    const entry = normalizePageSpeedResponse(mobile, PAGE_URL, "mobile");
+
+    expect(entry.url).toBe(PAGE_URL);
+    expect(entry.strategy).toBe("mobile");
+    expect(entry.timestamp).toBe("2025-01-14T09:21:37.512Z");
+    expect(entry.metrics).toEqual({
+      lcp: 4380.2,
+      fcp: 2104.6,
+      cls: 0.061,
+      fid: 212,
+      inp: 486.5, // No INP audit in navigation mode, falls back to TBT
+      ttfb: 318.4,
+    });
+    expect(entry.categoryScores).toEqual({
+      performance: 62,
+      accessibility: 93,
+      "best-practices": 96,
+      seo: 91,
+    });
+    expect(entry.fieldData?.page?.metrics.lcp?.p75).toBe(2890);
+    expect(entry.fieldData?.page?.metrics.cls?.p75).toBe(0.06);
+    expect(entry.fieldData?.origin?.scope).toBe("origin");
+  });
+
+  it("keeps every network request", () => {
+    const entry = normalizePageSpeedResponse(mobile, PAGE_URL, "mobile");
+    const requests =
+      mobile.lighthouseResult?.audits["network-requests"]?.details?.items ??
+      [];
+
+    expect(requests.length).toBeGreaterThan(10);
+    expect(entry.resourceTimings.map((timing) => timing.url)).toEqual(
+      requests.map((item) => item.url),
+    );
+  });
+
+  it("reads the origin, MIME type, priority and render blocking", () => {
+    const { resourceTimings } = normalizePageSpeedResponse(
+      mobile,
+      PAGE_URL,
+      "mobile",
+    );
+    const byUrl = new Map(
+      resourceTimings.map((timing) => [timing.url, timing]),
+    );
+
+    expect(byUrl.get(`${ORIGIN}/assets/main.css`)).toMatchObject({
+      origin: ORIGIN,
+      initiatorType: "css",
+      mimeType: "text/css",
+      priority: "VeryHigh",
+      renderBlocking: true,
+    });
+    expect(byUrl.get(FONTS_CSS)).toMatchObject({
+      origin: "https://fonts.googleapis.com",
+      renderBlocking: true,
+    });
+    expect(byUrl.get(`${ORIGIN}/assets/vendor.js`)).toMatchObject({
+      origin: ORIGIN,
+      initiatorType: "script",
+      mimeType: "application/javascript",
+      priority: "Low",
+      renderBlocking: false,
+    });
+    expect(
+      byUrl.get("https://www.google-analytics.com/g/collect?v=2&tid=G-XYZ"),
+    ).toMatchObject({
+      origin: "https://www.google-analytics.com",
+      initiatorType: "beacon",
+      protocol: "h3",
+      statusCode: 204,
+      transferSize: 0,
+    });
+    expect(
+      resourceTimings.filter((timing) => timing.renderBlocking),
+    ).toHaveLength(2);
+  });
+
+  it("normalizes a desktop response", () => {
+    const entry = normalizePageSpeedResponse(desktop, PAGE_URL, "desktop");
+
+    expect(entry.strategy).toBe("desktop");
+    expect(entry.metrics.lcp).toBe(1104.8);
+    expect(entry.categoryScores?.performance).toBe(91);
+    expect(entry.resourceTimings).toHaveLength(5);
+    expect(entry.resourceTimings[0]).toMatchObject({
+      url: PAGE_URL,
+      origin: ORIGIN,
+      initiatorType: "document",
+      mimeType: "text/html",
+      priority: "VeryHigh",
+      renderBlocking: false,
+      duration: 148.9,
+      startTime: 0,
+    });
+    expect(
+      entry.resourceTimings.some((timing) => timing.renderBlocking),
+    ).toBe(false);
+    // Page data fell back to the origin, so only origin data is kept
+    expect(entry.fieldData?.page).toBeUndefined();
+    expect(entry.fieldData?.origin?.metrics.lcp?.p75).toBe(1480);
+  });
+
+  it("rejects a response without a Lighthouse result", () => {
+    expect(() =>
+      normalizePageSpeedResponse(noLighthouseResult, PAGE_URL, "mobile"),
+    ).toThrow("PageSpeed response did not include a Lighthouse result");
+  });
+});
+
+describe("normalizeResourceTimings", () => {
+  it("estimates phases from per-origin round trips and latency", () => {
+    const audits = mobile.lighthouseResult?.audits ?? {};
+    const [document, stylesheet] = normalizeResourceTimings(audits);
+
+    // First request to the origin opens a TLS connection
+    expect(document.timings).toEqual({
+      connect: 285.2,
+      ssl: 142.6,
+      wait: expect.closeTo(238.9),
+      download: expect.closeTo(88.3),
+    });
+    expect(document.timingsEstimated).toBe(true);
+    // Later requests reuse it
+    expect(stylesheet.timings?.connect).toBeUndefined();
+    expect(stylesheet.timings?.wait).toBeCloseTo(238.9);
+  });
+
+  it("falls back to Lighthouse 9 request times", () => {
+    const [timing] = normalizeResourceTimings({
+      "network-requests": {
+        details: {
+          items: [
+            {
+              url: "https://legacy.example.com/app.js",
+              resourceType: "Script",
+              startTime: 120,
+              endTime: 180,
+            },
+          ],
+        },
+      },
+    });
+
+    expect(timing).toMatchObject({
+      url: "https://legacy.example.com/app.js",
+      origin: "https://legacy.example.com",
+      initiatorType: "script",
+      startTime: 120,
+      duration: 60,
+      renderBlocking: false,
+      timings: undefined,
+    });
+  });
+});
@@ -0,0 +1,730 @@
+import {
+  DiagnosticItem,
+  FieldData,
+  FieldMetric,
+  LighthouseAuditSummary,
+  LighthouseCategory,
+  LighthouseDiagnostics,
+  MetricKey,
+  PerformanceEntry,
+  ResourceTiming,
+  ResourceTimingPhases,
+  Strategy,
+  calculateOverallScore,
+} from "@/types";
+import { detectFramework } from "./frameworks";
+
+/**
+ * Server-side normalization of PageSpeed Insights / Lighthouse results into
+ * the `PerformanceEntry` shape stored by the app.
+ */
+
+// Subset of the Lighthouse result (LHR) read by the normalizer
+export interface LighthouseAudit {
+  id?: string;
+  title?: string;
+  description?: string;
+  score?: number | null;
+  scoreDisplayMode?: string;
+  numericValue?: number;
+  displayValue?: string;
+  // Lighthouse 10+, e.g. { LCP: 450, FCP: 300 }
+  metricSavings?: Record<string, number | undefined>;
+  details?: {
+    type?: string;
+    items?: Record<string, unknown>[];
+    overallSavingsMs?: number;
+    overallSavingsBytes?: number;
+  };
+}
+
+export interface LighthouseResult {
+  lighthouseVersion?: string;
+  requestedUrl?: string;
+  finalUrl?: string; // Lighthouse 9 and earlier
+  // Lighthouse 10+
+  mainDocumentUrl?: string;
+  finalDisplayedUrl?: string;
+  gatherMode?: "navigation" | "timespan" | "snapshot";
+  runtimeError?: { code?: string; message?: string };
+  fetchTime?: string;
+  configSettings?: {
+    formFactor?: Strategy;
+    emulatedFormFactor?: Strategy;
+  };
+  audits: Record<string, LighthouseAudit | undefined>;
+  categories?: Record<string, LighthouseCategoryResult | undefined>;
+  stackPacks?: { id: string; title?: string }[]; // Detected site stacks
+}
+
+export interface LighthouseCategoryResult {
+  id?: string;
+  title?: string;
+  score: number | null;
+  auditRefs?: { id: string; weight: number; group?: string }[];
+}
+
+// `loadingExperience` / `originLoadingExperience` blocks of a PSI response
+export interface LoadingExperience {
+  id?: string;
+  metrics?: Record<
+    string,
+    {
+      percentile: number;
+      distributions: { min: number; max?: number; proportion: number }[];
+      category?: string;
+    }
+  >;
+  overall_category?: string;
+  origin_fallback?: boolean;
+}
+
+export interface PageSpeedResponse {
+  id?: string;
+  lighthouseResult?: LighthouseResult;
+  loadingExperience?: LoadingExperience;
+  originLoadingExperience?: LoadingExperience;
+  analysisUTCTimestamp?: string;
+}
+
+/**
+ * JSON payload returned by `/api/pagespeed`: a `PerformanceEntry` without an
+ * id (the store assigns one) whose timestamp is serialized as an ISO string.
+ */
+export type PageSpeedPayload = Omit<PerformanceEntry, "id" | "timestamp"> & {
+  timestamp: string;
+};
+
+/**
+ * Lighthouse audits each lab metric is read from. Lab runs have no real
+ * interaction, so FID is approximated by `max-potential-fid` and INP falls
+ * back to Total Blocking Time when `interaction-to-next-paint` (timespan
+ * mode only) is absent.
+ */
+export const LAB_METRIC_AUDITS: Record<
+  keyof PerformanceEntry["metrics"],
+  string[]
+> = {
+  lcp: ["largest-contentful-paint"],
+  fcp: ["first-contentful-paint"],
+  cls: ["cumulative-layout-shift"],
+  fid: ["max-potential-fid"],
+  inp: ["interaction-to-next-paint", "total-blocking-time"],
+  ttfb: ["server-response-time"],
+};
+
+// CrUX metric ids in PSI field data. CLS percentiles are reported x100.
+const FIELD_METRIC_KEYS: Record<MetricKey, string> = {
+  lcp: "LARGEST_CONTENTFUL_PAINT_MS",
+  fcp: "FIRST_CONTENTFUL_PAINT_MS",
+  cls: "CUMULATIVE_LAYOUT_SHIFT_SCORE",
+  fid: "FIRST_INPUT_DELAY_MS",
+  inp: "INTERACTION_TO_NEXT_PAINT",
+  ttfb: "EXPERIMENTAL_TIME_TO_FIRST_BYTE",
+};
+
+export const LIGHTHOUSE_CATEGORIES: LighthouseCategory[] = [
+  "performance",
+  "accessibility",
+  "best-practices",
+  "seo",
+];
+
+/**
+ * Audits renamed or superseded between Lighthouse versions, keyed by the id
+ * the normalizer reads. Lighthouse 12 adds "insight" audits that replace the
+ * older diagnostics (which Lighthouse 13 drops); their items carry the same
+ * `url`, `wastedMs` and `entity` fields.
+ */
+const AUDIT_ALIASES: Record<string, string[]> = {
+  "interaction-to-next-paint": ["experimental-interaction-to-next-paint"],
+  "render-blocking-resources": ["render-blocking-insight"],
+  "font-display": ["font-display-insight"],
+  "third-party-summary": ["third-parties-insight"],
+};
+
+// Metric savings (Lighthouse 10+) counted as time saved by an opportunity
+const TIME_SAVINGS_METRICS = ["LCP", "FCP"];
+
+// Audits that are not pass/fail checks and never count as failing
+const UNSCORED_DISPLAY_MODES = ["notApplicable", "manual", "informative"];
+
+// Lighthouse `resourceType` values mapped onto the `initiatorType` vocabulary
+// used by the Resource Timing API and the resource views
+const RESOURCE_TYPE_MAP: Record<string, string> = {
+  Document: "document",
+  Script: "script",
+  Stylesheet: "css",
+  Image: "img",
+  Media: "media",
+  Font: "font",
+  Fetch: "fetch",
+  XHR: "xmlhttprequest",
+  Manifest: "manifest",
+  Ping: "beacon",
+};
+
+interface NetworkRequestItem {
+  url?: string;
+  resourceType?: string;
+  mimeType?: string;
+  priority?: string;
+  transferSize?: number;
+  protocol?: string;
+  statusCode?: number;
+  // Lighthouse 10+
+  networkRequestTime?: number;
+  networkEndTime?: number;
+  // Lighthouse 9 and earlier
+  startTime?: number;
+  endTime?: number;
+}
+
+function readNumber(
+  audits: LighthouseResult["audits"],
+  ids: string[],
+): number | undefined {
+  for (const id of ids) {
+    const value = audits[id]?.numericValue;
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+function getOrigin(url: string): string | undefined {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return undefined;
+  }
+}
+
+function auditItems<T>(audit: LighthouseAudit | undefined): T[] {
+  return (audit?.details?.items as T[] | undefined) ?? [];
+}
+
+/**
+ * The report's audits with every aliased id filled in from the audit that
+ * replaced it (or that it replaced), so reports from any supported
+ * Lighthouse version are read the same way.
+ */
+function resolveAuditAliases(
+  audits: LighthouseResult["audits"],
+): LighthouseResult["audits"] {
+  const resolved = { ...audits };
+  for (const [id, aliases] of Object.entries(AUDIT_ALIASES)) {
+    if (resolved[id]) continue;
+    const alias = aliases.find((aliasId) => audits[aliasId]);
+    if (alias) resolved[id] = audits[alias];
+  }
+  return resolved;
+}
+
+export function normalizeMetrics(
+  audits: LighthouseResult["audits"],
+): PerformanceEntry["metrics"] {
+  const metrics: PerformanceEntry["metrics"] = {};
+  for (const [key, ids] of Object.entries(LAB_METRIC_AUDITS)) {
+    metrics[key as keyof PerformanceEntry["metrics"]] =
+      readNumber(audits, ids) ?? 0;
+  }
+  return metrics;
+}
+
+/**
+ * Lighthouse reports no per-request phases, only per-origin round-trip
+ * times and server latency. The first request to an origin pays for the
+ * connection (one round trip, one more for TLS 1.3) and every request waits
+ * a round trip plus the server latency; the rest is download. Returns
+ * undefined when the estimate does not fit the request's duration.
+ */
+function estimatePhases(
+  url: string,
+  duration: number,
+  isNewConnection: boolean,
+  rtt: number | undefined,
+  serverLatency: number | undefined,
+): ResourceTimingPhases | undefined {
+  if (rtt === undefined) return undefined;
+  const ssl = isNewConnection && url.startsWith("https:") ? rtt : 0;
+  const connect = isNewConnection ? rtt + ssl : 0;
+  const wait = rtt + (serverLatency ?? 0);
+  if (connect + wait > duration) return undefined;
+
+  return {
+    connect: connect || undefined,
+    ssl: ssl || undefined,
+    wait,
+    download: duration - connect - wait,
+  };
+}
+
+/**
+ * Convert every item of the `network-requests` audit into a `ResourceTiming`
+ * keeping the full URL, origin, MIME type, priority and whether the request
+ * was flagged by `render-blocking-resources`.
+ */
+export function normalizeResourceTimings(
+  audits: LighthouseResult["audits"],
+): ResourceTiming[] {
+  const renderBlocking = new Set(
+    auditItems<{ url?: string }>(audits["render-blocking-resources"])
+      .map((item) => item.url)
+      .filter((url): url is string => !!url),
+  );
+  const rtts = new Map(
+    auditItems<{ origin?: string; rtt?: number }>(
+      audits["network-rtt"],
+    ).map((item) => [item.origin, item.rtt]),
+  );
+  const serverLatencies = new Map(
+    auditItems<{ origin?: string; serverResponseTime?: number }>(
+      audits["network-server-latency"],
+    ).map((item) => [item.origin, item.serverResponseTime]),
+  );
+
+  const requests = auditItems<NetworkRequestItem>(audits["network-requests"]);
+  // Connections are opened by the earliest request to each origin
+  const connected = new Set<string | undefined>();
+  const byStart = [...requests].sort(
+    (a, b) =>
+      (a.networkRequestTime ?? a.startTime ?? 0) -
+      (b.networkRequestTime ?? b.startTime ?? 0),
+  );
+  const opensConnection = new Set(
+    byStart.filter((item) => {
+      const origin = getOrigin(item.url || "");
+      if (connected.has(origin)) return false;
+      connected.add(origin);
+      return true;
+    }),
+  );
+
+  return requests.map((item) => {
+    const url = item.url || "unknown";
+    const origin = getOrigin(url);
+    const start = item.networkRequestTime ?? item.startTime ?? 0;
+    const end = item.networkEndTime ?? item.endTime ?? start;
+    const duration = Math.max(0, end - start);
+    const timings = estimatePhases(
+      url,
+      duration,
+      opensConnection.has(item),
+      rtts.get(origin),
+      serverLatencies.get(origin),
+    );
+
+    return {
+      name: url,
+      url,
+      origin,
+      initiatorType: RESOURCE_TYPE_MAP[item.resourceType ?? ""] || "other",
+      resourceType: item.resourceType,
+      mimeType: item.mimeType,
+      priority: item.priority,
+      renderBlocking: renderBlocking.has(url),
+      protocol: item.protocol,
+      statusCode: item.statusCode,
+      timings,
+      timingsEstimated: timings ? true : undefined,
+      duration,
+      transferSize: item.transferSize || 0,
+      startTime: start,
+    };
+  });
+}
+
+export function normalizeCategoryScores(
+  lhr: LighthouseResult,
+): Partial<Record<LighthouseCategory, number>> {
+  const scores: Partial<Record<LighthouseCategory, number>> = {};
+  for (const id of LIGHTHOUSE_CATEGORIES) {
+    const score = lhr.categories?.[id]?.score;
+    if (typeof score === "number") scores[id] = Math.round(score * 100);
+  }
+  return scores;
+}
+
+function summarizeAudit(
+  audit: LighthouseAudit,
+  id: string,
+  category: LighthouseCategory,
+  weight?: number,
+): LighthouseAuditSummary {
+  // Some Lighthouse 10+ opportunities only report per-metric savings
+  const metricSavingsMs = Math.max(
+    0,
+    ...TIME_SAVINGS_METRICS.map(
+      (metric) => audit.metricSavings?.[metric] ?? 0,
+    ),
+  );
+  return {
+    id,
+    title: audit.title || id,
+    description: audit.description,
+    category,
+    score: audit.score ?? null,
+    weight,
+    displayValue: audit.displayValue,
+    savingsMs:
+      audit.details?.overallSavingsMs ?? (metricSavingsMs || undefined),
+    savingsBytes: audit.details?.overallSavingsBytes,
+  };
+}
+
+/**
+ * Performance opportunities (e.g. `render-blocking-resources`,
+ * `unused-javascript`) that did not pass, ordered by estimated time saved.
+ */
+export function normalizeOpportunities(
+  lhr: LighthouseResult,
+): LighthouseAuditSummary[] {
+  const refs = lhr.categories?.performance?.auditRefs;
+  const ids = refs ? refs.map((ref) => ref.id) : Object.keys(lhr.audits);
+
+  return ids
+    .flatMap((id) => {
+      const audit = lhr.audits[id];
+      if (audit?.details?.type !== "opportunity") return [];
+      if (typeof audit.score === "number" && audit.score >= 0.9) return [];
+      return [summarizeAudit(audit, id, "performance")];
+    })
+    .sort(
+      (a, b) =>
+        (b.savingsMs || 0) - (a.savingsMs || 0) ||
+        (b.savingsBytes || 0) - (a.savingsBytes || 0),
+    );
+}
+
+/**
+ * Weighted audits of the non-performance categories that did not pass.
+ */
+export function normalizeFailedAudits(
+  lhr: LighthouseResult,
+): LighthouseAuditSummary[] {
+  return LIGHTHOUSE_CATEGORIES.filter((id) => id !== "performance").flatMap(
+    (category) =>
+      (lhr.categories?.[category]?.auditRefs || []).flatMap((ref) => {
+        const audit = lhr.audits[ref.id];
+        if (!audit || ref.weight === 0) return [];
+        if (UNSCORED_DISPLAY_MODES.includes(audit.scoreDisplayMode || "")) {
+          return [];
+        }
+        if (audit.score === null || audit.score === undefined) return [];
+        if (audit.score >= 1) return [];
+        return [summarizeAudit(audit, ref.id, category, ref.weight)];
+      }),
+  );
+}
+
+// Diagnostics keep only their largest contributors
+const MAX_DIAGNOSTIC_ITEMS = 10;
+
+// Audits estimating avoidable image bytes; their savings overlap, so an
+// image counts with its largest one
+const IMAGE_SAVINGS_AUDITS = [
+  "uses-optimized-images",
+  "modern-image-formats",
+  "uses-responsive-images",
+  "offscreen-images",
+  "efficient-animated-content",
+];
+
+interface WastedItem {
+  url?: string;
+  totalBytes?: number;
+  wastedBytes?: number;
+  wastedMs?: number;
+}
+
+function topItems(items: DiagnosticItem[]): DiagnosticItem[] {
+  return items
+    .filter((item) => item.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, MAX_DIAGNOSTIC_ITEMS);
+}
+
+function toWastedItems(
+  audit: LighthouseAudit | undefined,
+  field: "wastedBytes" | "wastedMs",
+): DiagnosticItem[] {
+  return auditItems<WastedItem>(audit).map((item) => ({
+    url: item.url || "unknown",
+    value: item[field] || 0,
+    total: item.totalBytes,
+  }));
+}
+
+function summarizeWastedBytes(audit: LighthouseAudit | undefined) {
+  if (!audit) return undefined;
+  const items = toWastedItems(audit, "wastedBytes");
+  return {
+    wastedBytes:
+      audit.details?.overallSavingsBytes ??
+      items.reduce((sum, item) => sum + item.value, 0),
+    items: topItems(items),
+  };
+}
+
+/**
+ * Condense the diagnostics behind the component analysis: main-thread work,
+ * script bootup time, unused JavaScript and CSS, render-blocking requests,
+ * font-display, image savings and the third-party summary.
+ */
+export function normalizeDiagnostics(
+  audits: LighthouseResult["audits"],
+): LighthouseDiagnostics {
+  const diagnostics: LighthouseDiagnostics = {
+    totalBlockingTime: readNumber(audits, ["total-blocking-time"]),
+    unusedJavascript: summarizeWastedBytes(audits["unused-javascript"]),
+    unusedCss: summarizeWastedBytes(audits["unused-css-rules"]),
+  };
+
+  const mainThread = audits["mainthread-work-breakdown"];
+  if (mainThread) {
+    const groups = auditItems<{
+      group?: string;
+      groupLabel?: string;
+      duration?: number;
+    }>(mainThread).map((item) => ({
+      group: item.group || "other",
+      label: item.groupLabel || item.group || "Other",
+      duration: item.duration || 0,
+    }));
+    diagnostics.mainThread = {
+      total:
+        mainThread.numericValue ??
+        groups.reduce((sum, group) => sum + group.duration, 0),
+      groups: groups.sort((a, b) => b.duration - a.duration),
+    };
+  }
+
+  const bootup = audits["bootup-time"];
+  if (bootup) {
+    const scripts = auditItems<{
+      url?: string;
+      total?: number;
+      scripting?: number;
+      scriptParseCompile?: number;
+    }>(bootup).map((item) => ({
+      url: item.url || "unknown",
+      value: item.total || 0,
+      scripting: item.scripting || 0,
+      parse: item.scriptParseCompile || 0,
+    }));
+    diagnostics.bootup = {
+      total:
+        bootup.numericValue ??
+        scripts.reduce((sum, script) => sum + script.value, 0),
+      scripts: scripts
+        .sort((a, b) => b.value - a.value)
+        .slice(0, MAX_DIAGNOSTIC_ITEMS),
+    };
+  }
+
+  const renderBlocking = audits["render-blocking-resources"];
+  if (renderBlocking) {
+    const items = toWastedItems(renderBlocking, "wastedMs");
+    diagnostics.renderBlocking = {
+      wastedMs:
+        renderBlocking.details?.overallSavingsMs ??
+        renderBlocking.metricSavings?.FCP ??
+        0,
+      // Every blocking request is listed, even without estimated savings
+      items: items.slice(0, MAX_DIAGNOSTIC_ITEMS),
+    };
+  }
+
+  if (audits["font-display"]) {
+    diagnostics.fontDisplay = toWastedItems(
+      audits["font-display"],
+      "wastedMs",
+    ).slice(0, MAX_DIAGNOSTIC_ITEMS);
+  }
+
+  const imageAudits = IMAGE_SAVINGS_AUDITS.filter((id) => audits[id]);
+  if (imageAudits.length > 0) {
+    const images = new Map<string, DiagnosticItem>();
+    for (const id of imageAudits) {
+      for (const item of toWastedItems(audits[id], "wastedBytes")) {
+        const existing = images.get(item.url);
+        if (!existing || item.value > existing.value) {
+          images.set(item.url, item);
+        }
+      }
+    }
+    diagnostics.imageSavings = {
+      wastedBytes: Array.from(images.values()).reduce(
+        (sum, item) => sum + item.value,
+        0,
+      ),
+      items: topItems(Array.from(images.values())),
+    };
+  }
+
+  if (audits["third-party-summary"]) {
+    diagnostics.thirdParty = auditItems<{
+      // A plain name since Lighthouse 6, a link before
+      entity?: string | { text?: string };
+      transferSize?: number;
+      blockingTime?: number;
+      mainThreadTime?: number;
+      subItems?: { items?: { url?: string }[] };
+    }>(audits["third-party-summary"]).map((item) => ({
+      entity:
+        (typeof item.entity === "string" ? item.entity : item.entity?.text) ||
+        "Unknown",
+      transferSize: item.transferSize || 0,
+      blockingTime: item.blockingTime || 0,
+      mainThreadTime: item.mainThreadTime || 0,
+      hosts: Array.from(
+        new Set(
+          (item.subItems?.items ?? []).flatMap((subItem) => {
+            try {
+              return [new URL(subItem.url ?? "").hostname];
+            } catch {
+              return [];
+            }
+          }),
+        ),
+      ),
+    }));
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Normalize a Lighthouse result into an entry payload. `url` and `strategy`
+ * default to what the report itself records.
+ */
+export function normalizeLighthouseResult(
+  lhr: LighthouseResult,
+  options: { url?: string; strategy?: Strategy; timestamp?: string } = {},
+): PageSpeedPayload {
+  const audits = resolveAuditAliases(lhr.audits);
+  const metrics = normalizeMetrics(audits);
+  const resourceTimings = normalizeResourceTimings(audits);
+
+  return {
+    url:
+      options.url ||
+      lhr.requestedUrl ||
+      lhr.mainDocumentUrl ||
+      lhr.finalDisplayedUrl ||
+      lhr.finalUrl ||
+      "",
+    timestamp: options.timestamp || lhr.fetchTime || new Date().toISOString(),
+    strategy:
+      options.strategy ||
+      lhr.configSettings?.formFactor ||
+      lhr.configSettings?.emulatedFormFactor ||
+      "mobile",
+    framework: detectFramework(
+      resourceTimings,
+      lhr.stackPacks?.map((pack) => pack.id),
+    ),
+    metrics,
+    resourceTimings,
+    overallScore: calculateOverallScore(metrics),
+    categoryScores: normalizeCategoryScores(lhr),
+    opportunities: normalizeOpportunities(lhr),
+    failedAudits: normalizeFailedAudits(lhr),
+    diagnostics: normalizeDiagnostics(audits),
+  };
+}
+
+/**
+ * Validate an uploaded Lighthouse JSON report, or a PSI response wrapping
+ * one, and return the Lighthouse result. Throws for other documents, for
+ * runs that failed and for timespan and snapshot reports, which have no
+ * page load to analyze.
+ */
+export function parseLighthouseReport(json: unknown): LighthouseResult {
+  const data = json as (LighthouseResult & PageSpeedResponse) | null;
+  const lhr = data?.lighthouseResult ?? data;
+  if (
+    !lhr ||
+    typeof lhr.lighthouseVersion !== "string" ||
+    !lhr.audits ||
+    typeof lhr.audits !== "object"
+  ) {
+    throw new Error("Not a Lighthouse report: expected lighthouseVersion");
+  }
+
+  // Lighthouse 9 and earlier always set a runtime error, NO_ERROR if none
+  const runtimeError = lhr.runtimeError;
+  if (runtimeError && runtimeError.code !== "NO_ERROR") {
+    throw new Error(
+      `Lighthouse run failed: ${runtimeError.message || runtimeError.code}`,
+    );
+  }
+  if (lhr.gatherMode && lhr.gatherMode !== "navigation") {
+    throw new Error(
+      `Only navigation reports can be imported, not ${lhr.gatherMode} reports`,
+    );
+  }
+
+  return lhr;
+}
+
+/**
+ * Convert a PSI loading experience into field data. Returns undefined when
+ * CrUX has no data, or when page-level data fell back to the origin.
+ */
+export function normalizeFieldData(
+  experience: LoadingExperience | undefined,
+  scope: FieldData["scope"],
+): FieldData | undefined {
+  if (!experience?.metrics || experience.origin_fallback) return undefined;
+
+  const metrics: FieldData["metrics"] = {};
+  for (const [key, id] of Object.entries(FIELD_METRIC_KEYS)) {
+    const metric = experience.metrics[id];
+    if (!metric || metric.distributions.length < 3) continue;
+
+    const [good, needsImprovement, poor] = metric.distributions;
+    const fieldMetric: FieldMetric = {
+      p75: key === "cls" ? metric.percentile / 100 : metric.percentile,
+      distribution: {
+        good: good.proportion,
+        needsImprovement: needsImprovement.proportion,
+        poor: poor.proportion,
+      },
+    };
+    metrics[key as MetricKey] = fieldMetric;
+  }
+
+  if (Object.keys(metrics).length === 0) return undefined;
+
+  return {
+    scope,
+    id: experience.id,
+    overallCategory: experience.overall_category,
+    metrics,
+  };
+}
+
+export function normalizePageSpeedResponse(
+  data: PageSpeedResponse,
+  url: string,
+  strategy: Strategy,
+): PageSpeedPayload {
+  if (!data.lighthouseResult) {
+    throw new Error("PageSpeed response did not include a Lighthouse result");
+  }
+
+  const payload = normalizeLighthouseResult(data.lighthouseResult, {
+    url,
+    strategy,
+    timestamp: data.analysisUTCTimestamp,
+  });
+
+  const page = normalizeFieldData(data.loadingExperience, "page");
+  const origin = normalizeFieldData(data.originLoadingExperience, "origin");
+  if (page || origin) {
+    payload.fieldData = { page, origin };
+  }
+
+  return payload;
+}
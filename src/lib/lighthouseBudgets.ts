@@ -0,0 +1,211 @@
+import { BudgetDefinition, BudgetResourceType, MetricKey } from "@/types";
+import { BUDGET_RESOURCE_TYPES } from "./budgets";
+
+/**
+ * Conversion between stored budgets and Lighthouse `budget.json`
+ * (https://web.dev/articles/use-lighthouse-for-performance-budgets).
+ * budget.json has no notion of strategy and only knows a subset of our
+ * metrics, so those parts are dropped on export and reported on import.
+ */
+
+interface LighthouseResourceBudget {
+  resourceType: BudgetResourceType;
+  budget: number; // KB for sizes, requests for counts
+}
+
+export interface LighthouseBudget {
+  path?: string;
+  options?: { firstPartyHostnames?: string[] };
+  timings?: { metric: string; budget: number }[];
+  resourceSizes?: LighthouseResourceBudget[];
+  resourceCounts?: LighthouseResourceBudget[];
+}
+
+export type BudgetInput = Omit<
+  BudgetDefinition,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+// Lighthouse timing metric ids for the metrics we track
+const TIMING_METRICS: Partial<Record<MetricKey, string>> = {
+  fcp: "first-contentful-paint",
+  lcp: "largest-contentful-paint",
+  cls: "cumulative-layout-shift",
+  fid: "max-potential-fid",
+};
+
+const KB = 1024;
+
+function toResourceBudgets(
+  limits: BudgetDefinition["resourceSizes"],
+  scale = 1,
+): LighthouseResourceBudget[] {
+  return BUDGET_RESOURCE_TYPES.filter(
+    (type) => limits[type] !== undefined,
+  ).map((type) => ({
+    resourceType: type,
+    budget: Math.round(limits[type]! / scale),
+  }));
+}
+
+export function toLighthouseBudgets(
+  budgets: BudgetDefinition[],
+): LighthouseBudget[] {
+  return budgets.map((budget) => {
+    const result: LighthouseBudget = { path: budget.path };
+
+    if (budget.firstPartyHostnames?.length) {
+      result.options = { firstPartyHostnames: budget.firstPartyHostnames };
+    }
+
+    const timings = Object.entries(TIMING_METRICS)
+      .filter(([key]) => budget.metrics[key as MetricKey] !== undefined)
+      .map(([key, metric]) => ({
+        metric,
+        budget: budget.metrics[key as MetricKey]!,
+      }));
+    if (timings.length > 0) result.timings = timings;
+
+    const sizes = toResourceBudgets(budget.resourceSizes, KB);
+    if (sizes.length > 0) result.resourceSizes = sizes;
+
+    const counts = toResourceBudgets(budget.resourceCounts);
+    if (counts.length > 0) result.resourceCounts = counts;
+
+    return result;
+  });
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Entries of a budget's `timings`, `resourceSizes` or `resourceCounts`
+function parseBudgetItems(
+  items: unknown,
+  where: string,
+  key: string,
+): Record<string, unknown>[] {
+  if (items === undefined) return [];
+  if (!Array.isArray(items)) {
+    throw new Error(`${where}: ${key} must be an array`);
+  }
+  if (!items.every(isObject)) {
+    throw new Error(`${where}: every ${key} entry must be an object`);
+  }
+  return items;
+}
+
+function parseResourceBudgets(
+  items: unknown,
+  where: string,
+  key: "resourceSizes" | "resourceCounts",
+  scale: number,
+  warnings: string[],
+): BudgetDefinition["resourceSizes"] {
+  const limits: BudgetDefinition["resourceSizes"] = {};
+
+  for (const item of parseBudgetItems(items, where, key)) {
+    const { resourceType, budget } = item;
+    if (typeof resourceType !== "string") {
+      throw new Error(`${where}: every ${key} entry needs a resourceType`);
+    }
+    if (!BUDGET_RESOURCE_TYPES.includes(resourceType as BudgetResourceType)) {
+      warnings.push(`Skipped unknown resource type '${resourceType}'`);
+      continue;
+    }
+    if (typeof budget !== "number" || budget < 0) {
+      throw new Error(
+        `${where}: ${key} budget for '${resourceType}' must be a non-negative number`,
+      );
+    }
+    limits[resourceType as BudgetResourceType] = budget * scale;
+  }
+  return limits;
+}
+
+/**
+ * Parse a budget.json document. Throws on malformed input; metrics we do
+ * not track are skipped with a warning.
+ */
+export function parseLighthouseBudgets(json: unknown): {
+  budgets: BudgetInput[];
+  warnings: string[];
+} {
+  if (!Array.isArray(json)) {
+    throw new Error("budget.json must contain an array of budgets");
+  }
+
+  const metricsById = Object.fromEntries(
+    Object.entries(TIMING_METRICS).map(([key, id]) => [id, key as MetricKey]),
+  );
+  const warnings: string[] = [];
+
+  const budgets = json.map((item: unknown, index) => {
+    const where = `Budget #${index + 1}`;
+    if (!isObject(item)) throw new Error(`${where} must be an object`);
+
+    const path = item.path ?? "/";
+    if (typeof path !== "string" || !path.startsWith("/")) {
+      throw new Error(
+        `${where}: path must start with '/', e.g. '/' or '/products/*'`,
+      );
+    }
+
+    const options = item.options ?? {};
+    if (!isObject(options)) {
+      throw new Error(`${where}: options must be an object`);
+    }
+    const { firstPartyHostnames } = options;
+    if (
+      firstPartyHostnames !== undefined &&
+      (!Array.isArray(firstPartyHostnames) ||
+        !firstPartyHostnames.every((h) => typeof h === "string"))
+    ) {
+      throw new Error(
+        `${where}: options.firstPartyHostnames must be a list of hostnames`,
+      );
+    }
+
+    const metrics: BudgetInput["metrics"] = {};
+    for (const timing of parseBudgetItems(item.timings, where, "timings")) {
+      const { metric, budget } = timing;
+      if (typeof metric !== "string") {
+        throw new Error(`${where}: every timings entry needs a metric`);
+      }
+      const key = metricsById[metric];
+      if (!key) {
+        warnings.push(`Skipped unsupported timing metric '${metric}'`);
+        continue;
+      }
+      if (typeof budget !== "number" || budget < 0) {
+        throw new Error(
+          `${where}: timing budget for '${metric}' must be a non-negative number`,
+        );
+      }
+      metrics[key] = budget;
+    }
+
+    return {
+      name: `budget.json ${path}`,
+      path,
+      metrics,
+      resourceSizes: parseResourceBudgets(
+        item.resourceSizes,
+        where,
+        "resourceSizes",
+        KB,
+        warnings,
+      ),
+      resourceCounts: parseResourceBudgets(
+        item.resourceCounts,
+        where,
+        "resourceCounts",
+        1,
+        warnings,
+      ),
+      firstPartyHostnames,
+    };
+  });
+
+  return { budgets, warnings: Array.from(new Set(warnings)) };
+}
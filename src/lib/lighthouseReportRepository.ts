@@ -0,0 +1,53 @@
+import { createFileStore, createJsonCollection } from "./jsonStore";
+import type { LighthouseResult } from "./lighthouse";
+
+/**
+ * Server-side storage of imported Lighthouse reports, kept byte for byte as
+ * uploaded (including a PageSpeed wrapper) so they can be downloaded again
+ * or opened in the Lighthouse viewer. Each report is its own file; the
+ * collection only holds metadata. A report shares its id with the entry
+ * normalized from it.
+ */
+
+export interface StoredLighthouseReport {
+  id: string; // Entry id
+  importedAt: string;
+  lighthouseVersion?: string;
+  size: number; // Characters in the uploaded text
+  report?: LighthouseResult; // Reports imported before files were used
+}
+
+const reports = createJsonCollection<StoredLighthouseReport>(
+  "lighthouse-reports",
+);
+const files = createFileStore("lighthouse-reports");
+
+// The report exactly as uploaded
+export async function readLighthouseReport(
+  id: string,
+): Promise<string | undefined> {
+  const stored = await reports.get(id);
+  if (!stored) return undefined;
+  return stored.report
+    ? JSON.stringify(stored.report)
+    : await files.read(stored.id);
+}
+
+export async function saveLighthouseReport(
+  report: Omit<StoredLighthouseReport, "size" | "report">,
+  text: string,
+): Promise<StoredLighthouseReport> {
+  await files.write(report.id, text);
+  return reports.put({ ...report, size: text.length });
+}
+
+export async function deleteLighthouseReport(id: string): Promise<boolean> {
+  const removed = await reports.remove(id);
+  if (removed) await files.remove(id);
+  return removed;
+}
+
+export async function clearLighthouseReports(): Promise<void> {
+  await reports.clear();
+  await files.clear();
+}
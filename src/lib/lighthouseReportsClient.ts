@@ -0,0 +1,37 @@
+import { PerformanceEntry } from "@/types";
+import type { PageSpeedPayload } from "./lighthouse";
+
+/**
+ * Browser client for the `/api/lighthouse-reports` routes.
+ */
+
+/**
+ * Upload a Lighthouse JSON report and revive the normalized entry for
+ * `addEntry`. The entry comes with the id its report is stored under.
+ * Throws with the API error message when the report is rejected.
+ */
+export async function importLighthouseReport(
+  report: string,
+): Promise<Omit<PerformanceEntry, "id"> & { id: string }> {
+  const response = await fetch("/api/lighthouse-reports", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: report,
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to import Lighthouse report");
+  }
+
+  const payload = data as PageSpeedPayload & { id: string };
+  return { ...payload, timestamp: new Date(payload.timestamp) };
+}
+
+// Download URL of an imported entry's original report
+export function getLighthouseReportUrl(entryId: string): string {
+  return `/api/lighthouse-reports/${encodeURIComponent(entryId)}`;
+}
@@ -0,0 +1,67 @@
+import { Monitor, MonitorRun } from "@/types";
+import { createJsonCollection } from "./jsonStore";
+
+/**
+ * Server-side storage for scheduled monitors and their run log.
+ */
+
+// Run log entries kept across all monitors, newest first
+const MAX_RUNS = 1000;
+
+const monitors = createJsonCollection<Monitor>("monitors");
+const runs = createJsonCollection<MonitorRun>("monitor-runs");
+
+export async function listMonitors(): Promise<Monitor[]> {
+  return (await monitors.list()).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+}
+
+export function getMonitor(id: string): Promise<Monitor | undefined> {
+  return monitors.get(id);
+}
+
+export function saveMonitor(monitor: Monitor): Promise<Monitor> {
+  return monitors.put(monitor);
+}
+
+/**
+ * Apply a partial update to a stored monitor. Returns undefined when the
+ * monitor no longer exists (e.g. deleted while a run was in progress).
+ */
+export async function updateMonitor(
+  id: string,
+  patch: Partial<Omit<Monitor, "id">>,
+): Promise<Monitor | undefined> {
+  let updated: Monitor | undefined;
+  await monitors.update((items) =>
+    items.map((item) => {
+      if (item.id !== id) return item;
+      updated = { ...item, ...patch };
+      return updated;
+    }),
+  );
+  return updated;
+}
+
+export async function deleteMonitor(id: string): Promise<boolean> {
+  const removed = await monitors.remove(id);
+  if (removed) {
+    await runs.update((items) => items.filter((run) => run.monitorId !== id));
+  }
+  return removed;
+}
+
+export async function listRuns(
+  monitorId?: string,
+  limit = 50,
+): Promise<MonitorRun[]> {
+  return (await runs.list())
+    .filter((run) => !monitorId || run.monitorId === monitorId)
+    .slice(0, limit);
+}
+
+export async function recordRun(run: MonitorRun): Promise<MonitorRun> {
+  await runs.update((items) => [run, ...items].slice(0, MAX_RUNS));
+  return run;
+}
@@ -0,0 +1,152 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  BudgetViolation,
+  Monitor,
+  MonitorRun,
+  MonitorRunStatus,
+} from "@/types";
+import { runPageSpeed } from "./pagespeed";
+import { saveEntry } from "./entryRepository";
+import { evaluateBudgets } from "./budgets";
+import { evaluateAlerts } from "./alerts";
+import { getNextRun } from "./schedule";
+import { listMonitors, recordRun, updateMonitor } from "./monitorRepository";
+
+/**
+ * In-process job runner for scheduled monitors. Started once per server
+ * process from `instrumentation.ts`; every tick runs the enabled monitors
+ * whose `nextRunAt` has passed, one at a time to stay within PageSpeed
+ * quota. Set PERF_DISABLE_MONITORS=1 to keep the runner from starting.
+ */
+
+const TICK_MS = 60 * 1000;
+
+interface RunnerState {
+  timer: ReturnType<typeof setInterval> | null;
+  running: Set<string>;
+  ticking: boolean;
+}
+
+// Kept on globalThis so hot reloads in development reuse a single runner
+const globalForRunner = globalThis as typeof globalThis & {
+  monitorRunner?: RunnerState;
+};
+
+const state: RunnerState = (globalForRunner.monitorRunner ??= {
+  timer: null,
+  running: new Set(),
+  ticking: false,
+});
+
+export function isMonitorRunning(id: string): boolean {
+  return state.running.has(id);
+}
+
+/**
+ * Run every strategy of a monitor now, store the results in the shared
+ * history and record the run. Failures of one strategy do not stop the
+ * others.
+ */
+export async function runMonitor(monitor: Monitor): Promise<MonitorRun> {
+  if (state.running.has(monitor.id)) {
+    throw new Error("Monitor is already running");
+  }
+  state.running.add(monitor.id);
+
+  const startedAt = new Date().toISOString();
+  const entryIds: string[] = [];
+  const violations: BudgetViolation[] = [];
+  const errors: string[] = [];
+
+  try {
+    for (const strategy of monitor.strategies) {
+      try {
+        const payload = await runPageSpeed(monitor.url, strategy);
+        const entry = await saveEntry({
+          ...payload,
+          id: uuidv4(),
+          monitorId: monitor.id,
+        });
+        entryIds.push(entry.id);
+        violations.push(...evaluateBudgets(entry, monitor.budgets));
+        await evaluateAlerts(entry).catch((error) =>
+          console.error("Alert evaluation error:", error),
+        );
+      } catch (error) {
+        errors.push(
+          `${strategy}: ${error instanceof Error ? error.message : "Analysis failed"}`,
+        );
+      }
+    }
+
+    const status: MonitorRunStatus =
+      errors.length > 0
+        ? "failed"
+        : violations.length > 0
+          ? "over-budget"
+          : "passed";
+    const finishedAt = new Date();
+
+    const run = await recordRun({
+      id: uuidv4(),
+      monitorId: monitor.id,
+      startedAt,
+      finishedAt: finishedAt.toISOString(),
+      status,
+      entryIds,
+      violations,
+      error: errors.length > 0 ? errors.join("; ") : undefined,
+    });
+
+    await updateMonitor(monitor.id, {
+      lastRunAt: finishedAt.toISOString(),
+      lastStatus: status,
+      nextRunAt: getNextRun(monitor.schedule, finishedAt).toISOString(),
+    });
+
+    return run;
+  } finally {
+    state.running.delete(monitor.id);
+  }
+}
+
+async function tick(): Promise<void> {
+  // A slow run can outlast the tick interval; never overlap ticks
+  if (state.ticking) return;
+  state.ticking = true;
+
+  try {
+    const now = new Date();
+    for (const monitor of await listMonitors()) {
+      if (!monitor.enabled || state.running.has(monitor.id)) continue;
+
+      if (!monitor.nextRunAt) {
+        await updateMonitor(monitor.id, {
+          nextRunAt: getNextRun(monitor.schedule, now).toISOString(),
+        });
+        continue;
+      }
+
+      if (new Date(monitor.nextRunAt) <= now) {
+        try {
+          await runMonitor(monitor);
+        } catch (error) {
+          console.error(`Monitor ${monitor.id} run error:`, error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Monitor runner error:", error);
+  } finally {
+    state.ticking = false;
+  }
+}
+
+export function startMonitorRunner(): void {
+  if (state.timer || process.env.PERF_DISABLE_MONITORS) return;
+
+  state.timer = setInterval(tick, TICK_MS);
+  // Don't keep the process alive just for the runner
+  state.timer.unref?.();
+  void tick();
+}
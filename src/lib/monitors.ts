@@ -0,0 +1,87 @@
+import { MetricBudgets, Monitor, Strategy } from "@/types";
+import { validateAnalysisInput } from "./pagespeed";
+import { validateSchedule } from "./schedule";
+
+/**
+ * Fields of a monitor that clients may set when creating or editing it.
+ */
+export type MonitorInput = Pick<
+  Monitor,
+  "name" | "url" | "schedule" | "strategies" | "budgets" | "enabled"
+>;
+
+const BUDGET_KEYS = ["lcp", "fcp", "cls", "fid", "inp", "ttfb", "score"];
+
+/**
+ * Validate a create (full) or edit (partial) request body. Returns an error
+ * message suitable for a 400 response, or null when the input is valid.
+ */
+export function validateMonitorInput(
+  body: unknown,
+  partial = false,
+): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+  const input = body as Partial<Record<keyof MonitorInput, unknown>>;
+
+  if (!partial || input.url !== undefined) {
+    const error = validateAnalysisInput(input.url as string, "mobile");
+    if (error) return error;
+  }
+
+  if (!partial || input.schedule !== undefined) {
+    if (typeof input.schedule !== "string") return "Schedule is required";
+    const error = validateSchedule(input.schedule);
+    if (error) return `Invalid schedule: ${error}`;
+  }
+
+  if (input.strategies !== undefined) {
+    if (
+      !Array.isArray(input.strategies) ||
+      input.strategies.length === 0 ||
+      !input.strategies.every((s) => s === "mobile" || s === "desktop")
+    ) {
+      return "Strategies must be a non-empty list of 'mobile' and/or 'desktop'";
+    }
+  }
+
+  if (input.budgets !== undefined) {
+    if (!input.budgets || typeof input.budgets !== "object") {
+      return "Budgets must be an object";
+    }
+    for (const [key, value] of Object.entries(input.budgets)) {
+      if (!BUDGET_KEYS.includes(key)) return `Unknown budget metric '${key}'`;
+      if (typeof value !== "number" || value < 0) {
+        return `Budget for '${key}' must be a non-negative number`;
+      }
+    }
+  }
+
+  if (input.name !== undefined && typeof input.name !== "string") {
+    return "Name must be a string";
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "Enabled must be true or false";
+  }
+
+  return null;
+}
+
+/**
+ * Pick the client-settable fields from a validated body.
+ */
+export function toMonitorInput(
+  body: Partial<MonitorInput>,
+): Partial<MonitorInput> {
+  const input: Partial<MonitorInput> = {};
+  if (body.url !== undefined) input.url = body.url.trim();
+  if (body.name !== undefined) input.name = body.name.trim();
+  if (body.schedule !== undefined) input.schedule = body.schedule.trim();
+  if (body.strategies !== undefined) {
+    input.strategies = Array.from(new Set<Strategy>(body.strategies));
+  }
+  if (body.budgets !== undefined) input.budgets = body.budgets as MetricBudgets;
+  if (body.enabled !== undefined) input.enabled = body.enabled;
+  return input;
+}
@@ -0,0 +1,76 @@
+import { Monitor, MonitorRun } from "@/types";
+import type { MonitorInput } from "./monitors";
+
+/**
+ * Browser client for the `/api/monitors` routes. Every function throws when
+ * the server cannot be reached or rejects the request.
+ */
+
+export type MonitorWithStatus = Monitor & { running: boolean };
+
+async function request<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export async function fetchMonitors(): Promise<MonitorWithStatus[]> {
+  const data = await request<{ monitors: MonitorWithStatus[] }>(
+    "/api/monitors",
+  );
+  return data.monitors;
+}
+
+export async function fetchMonitorRuns(id: string): Promise<MonitorRun[]> {
+  const data = await request<{ runs: MonitorRun[] }>(
+    `/api/monitors/${encodeURIComponent(id)}`,
+  );
+  return data.runs;
+}
+
+export async function createMonitor(
+  input: Partial<MonitorInput> & Pick<MonitorInput, "url" | "schedule">,
+): Promise<Monitor> {
+  const data = await request<{ monitor: Monitor }>("/api/monitors", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return data.monitor;
+}
+
+export async function updateMonitor(
+  id: string,
+  input: Partial<MonitorInput>,
+): Promise<Monitor> {
+  const data = await request<{ monitor: Monitor }>(
+    `/api/monitors/${encodeURIComponent(id)}`,
+    {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    },
+  );
+  return data.monitor;
+}
+
+export async function deleteMonitor(id: string): Promise<void> {
+  await request(`/api/monitors/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+}
+
+export async function runMonitorNow(id: string): Promise<MonitorRun> {
+  const data = await request<{ run: MonitorRun }>(
+    `/api/monitors/${encodeURIComponent(id)}/run`,
+    { method: "POST" },
+  );
+  return data.run;
+}
@@ -0,0 +1,110 @@
+import { Strategy } from "@/types";
+import {
+  PageSpeedPayload,
+  PageSpeedResponse,
+  normalizePageSpeedResponse,
+} from "./lighthouse";
+
+const PAGESPEED_API_URL =
+  "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
+
+const PAGESPEED_CATEGORIES = [
+  "PERFORMANCE",
+  "ACCESSIBILITY",
+  "BEST_PRACTICES",
+  "SEO",
+];
+
+export class PageSpeedError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: unknown,
+  ) {
+    super(message);
+    this.name = "PageSpeedError";
+  }
+}
+
+/**
+ * Validate the URL and strategy of an analysis request. Returns an error
+ * message suitable for a 400 response, or null when the input is valid.
+ */
+export function validateAnalysisInput(
+  url: string | null | undefined,
+  strategy: string,
+): string | null {
+  if (!url) return "URL is required";
+
+  try {
+    const parsedUrl = new URL(url);
+    if (!["http:", "https:"].includes(parsedUrl.protocol)) {
+      throw new Error("Invalid protocol");
+    }
+  } catch {
+    return "Invalid URL format. Please provide a valid HTTP or HTTPS URL.";
+  }
+
+  if (!["mobile", "desktop"].includes(strategy)) {
+    return "Invalid strategy. Must be 'mobile' or 'desktop'.";
+  }
+
+  return null;
+}
+
+/**
+ * Call the PageSpeed Insights API (server-side only, uses PAGESPEED_API_KEY)
+ * and return the raw response.
+ */
+export async function fetchPageSpeed(
+  url: string,
+  strategy: Strategy,
+): Promise<PageSpeedResponse> {
+  const apiKey = process.env.PAGESPEED_API_KEY;
+  if (!apiKey) {
+    throw new PageSpeedError(
+      "PageSpeed API key is not configured. Please set PAGESPEED_API_KEY in your environment variables.",
+      500,
+    );
+  }
+
+  const params = new URLSearchParams({
+    url,
+    strategy,
+    key: apiKey,
+  });
+  // PSI only runs the performance category unless others are requested
+  for (const category of PAGESPEED_CATEGORIES) {
+    params.append("category", category);
+  }
+
+  const response = await fetch(`${PAGESPEED_API_URL}?${params.toString()}`, {
+    method: "GET",
+    headers: {
+      Accept: "application/json",
+    },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new PageSpeedError(
+      data.error?.message || "Failed to fetch PageSpeed data",
+      response.status,
+      data.error,
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Run a PageSpeed analysis and normalize it into an entry payload.
+ */
+export async function runPageSpeed(
+  url: string,
+  strategy: Strategy,
+): Promise<PageSpeedPayload> {
+  const data = await fetchPageSpeed(url, strategy);
+  return normalizePageSpeedResponse(data, url, strategy);
+}
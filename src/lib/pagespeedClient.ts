@@ -0,0 +1,31 @@
+import { PerformanceEntry, Strategy } from "@/types";
+import type { PageSpeedPayload } from "./lighthouse";
+
+/**
+ * Run a PageSpeed Insights analysis through `/api/pagespeed`, which returns
+ * an already normalized entry, and revive it for `addEntry`.
+ * Throws with the API error message when the request fails.
+ */
+export async function fetchPageSpeedEntry(
+  url: string,
+  strategy: Strategy,
+  signal?: AbortSignal,
+): Promise<Omit<PerformanceEntry, "id">> {
+  const response = await fetch("/api/pagespeed", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ url, strategy }),
+    signal,
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to fetch PageSpeed data");
+  }
+
+  const payload = data as PageSpeedPayload;
+  return { ...payload, timestamp: new Date(payload.timestamp) };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { UnsafeUrlError, assertPublicUrl, isPublicAddress } from "./publicUrl";
+
+describe("isPublicAddress", () => {
+  it.each(["93.184.215.14", "8.8.8.8", "2606:2800:21f:cb07::1"])(
+    "allows %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "172.31.255.255",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "not an address",
+  ])("blocks %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it.each([
+    "http://127.0.0.1/sitemap.xml",
+    "http://[::1]:3000/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://localhost/",
+    "file:///etc/passwd",
+    "not a url",
+  ])("rejects %s", async (url) => {
+    await expect(assertPublicUrl(url)).rejects.toBeInstanceOf(UnsafeUrlError);
+  });
+
+  it("accepts a public IP address", async () => {
+    const url = await assertPublicUrl("https://93.184.215.14/sitemap.xml");
+    expect(url.hostname).toBe("93.184.215.14");
+  });
+});
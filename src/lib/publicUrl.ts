@@ -0,0 +1,97 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+
+/**
+ * Checks for URLs the server fetches on a client's behalf, so routes cannot
+ * be used to reach the server's own network.
+ */
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsafeUrlError";
+  }
+}
+
+// Loopback, private, link-local, shared (CGNAT), reserved and multicast
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+  });
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+  // IPv4-mapped, e.g. ::ffff:127.0.0.1
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isBlockedIpv4(mapped[1]);
+
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // Unique local fc00::/7
+    /^fe[89ab]/.test(normalized) || // Link-local fe80::/10
+    normalized.startsWith("ff") // Multicast
+  );
+}
+
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return !isBlockedIpv4(address);
+  if (version === 6) return !isBlockedIpv6(address);
+  return false;
+}
+
+/**
+ * Throw an `UnsafeUrlError` unless `url` is HTTP(S) and its host resolves
+ * only to public addresses. Call it again for every redirect.
+ */
+export async function assertPublicUrl(url: string): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError(`Invalid URL: ${url}`);
+  }
+  if (!["http:", "https:"].includes(parsed.protocol)) {
+    throw new UnsafeUrlError(`Only HTTP and HTTPS URLs are allowed: ${url}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true, verbatim: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => {
+          throw new UnsafeUrlError(`Could not resolve ${parsed.hostname}`);
+        });
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new UnsafeUrlError(
+      `${parsed.hostname} is not a public address and cannot be fetched`,
+    );
+  }
+  return parsed;
+}
@@ -0,0 +1,61 @@
+/**
+ * In-memory sliding-window rate limiting for server routes. Limits are per
+ * server process, which is enough to stop a single client from running up
+ * provider costs.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfter: number; // Seconds until the next request is allowed
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+export function createRateLimiter(
+  limit: number,
+  windowMs: number,
+): RateLimiter {
+  const hits = new Map<string, number[]>();
+
+  return {
+    check: (key) => {
+      if (limit <= 0) return { allowed: true, retryAfter: 0 };
+
+      const now = Date.now();
+      const recent = (hits.get(key) ?? []).filter(
+        (time) => time > now - windowMs,
+      );
+      // Drop idle clients so the map does not grow without bound
+      for (const [other, times] of hits) {
+        if (times[times.length - 1] <= now - windowMs) hits.delete(other);
+      }
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return {
+          allowed: false,
+          retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000),
+        };
+      }
+      hits.set(key, [...recent, now]);
+      return { allowed: true, retryAfter: 0 };
+    },
+  };
+}
+
+/**
+ * Client identity for rate limiting. Forwarded headers are only trusted when
+ * PERF_TRUST_PROXY says a proxy sets them; otherwise any client could pick
+ * its own key, so every request shares one bucket.
+ */
+export function getClientKey(headers: Headers): string {
+  if (!process.env.PERF_TRUST_PROXY) return "anonymous";
+  // The proxy appends the address it saw; earlier entries come from the client
+  return (
+    headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+    headers.get("x-real-ip") ||
+    "anonymous"
+  );
+}
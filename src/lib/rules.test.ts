@@ -0,0 +1,289 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ComponentAnalysis } from "@/types";
+import {
+  RuleContext,
+  SuggestionRule,
+  evaluateRules,
+  loadJsonRules,
+  matchesCondition,
+  mergeRules,
+  validateCondition,
+  validateRule,
+} from "./rules";
+import { BUILTIN_RULES } from "./builtinRules";
+
+// Every metric good, score high and no components
+const GOOD_METRICS = {
+  lcp: 1800,
+  fcp: 1200,
+  cls: 0.02,
+  fid: 40,
+  inp: 120,
+  ttfb: 400,
+};
+
+function makeContext(
+  overrides: {
+    metrics?: Partial<RuleContext["entry"]["metrics"]>;
+    overallScore?: number;
+    components?: Record<string, ComponentAnalysis["status"]>;
+  } = {},
+): RuleContext {
+  return {
+    entry: {
+      url: "https://www.example.com/",
+      metrics: { ...GOOD_METRICS, ...overrides.metrics },
+      overallScore: overrides.overallScore ?? 95,
+      resourceTimings: [],
+    },
+    components: Object.entries(overrides.components ?? {}).map(
+      ([id, status]) => ({
+        id,
+        name: id,
+        category: "rendering",
+        status,
+        impact: "medium",
+        metrics: {},
+        description: "",
+        affectedMetrics: [],
+      }),
+    ),
+  };
+}
+
+// A page each built-in rule fires for, and one it does not
+const BUILTIN_CASES: Record<
+  string,
+  { matching: RuleContext; nonMatching: RuleContext }
+> = {
+  "optimize-ttfb": {
+    matching: makeContext({ metrics: { ttfb: 1200 } }),
+    nonMatching: makeContext({ metrics: { ttfb: 600 } }),
+  },
+  "optimize-lcp": {
+    matching: makeContext({ metrics: { lcp: 3100 } }),
+    nonMatching: makeContext({ metrics: { lcp: 2400 } }),
+  },
+  "fix-cls": {
+    matching: makeContext({ metrics: { cls: 0.18 } }),
+    nonMatching: makeContext({ metrics: { cls: 0.08 } }),
+  },
+  "improve-fcp": {
+    matching: makeContext({ metrics: { fcp: 3500 } }),
+    // Needs improvement, not poor
+    nonMatching: makeContext({ metrics: { fcp: 2500 } }),
+  },
+  "optimize-js-bundle": {
+    matching: makeContext({ components: { javascript: "needs-improvement" } }),
+    nonMatching: makeContext({ components: { javascript: "good" } }),
+  },
+  "optimize-images": {
+    matching: makeContext({ components: { images: "critical" } }),
+    nonMatching: makeContext({ components: { images: "excellent" } }),
+  },
+  "improve-inp": {
+    matching: makeContext({ metrics: { inp: 320 } }),
+    nonMatching: makeContext({ metrics: { inp: 180 } }),
+  },
+  "improve-fid": {
+    matching: makeContext({ metrics: { fid: 150 } }),
+    nonMatching: makeContext({ metrics: { fid: 90 } }),
+  },
+  "optimize-css": {
+    matching: makeContext({ components: { css: "critical" } }),
+    nonMatching: makeContext({ components: { css: "good" } }),
+  },
+  "optimize-fonts": {
+    matching: makeContext({ components: { fonts: "needs-improvement" } }),
+    nonMatching: makeContext({ components: { fonts: "good" } }),
+  },
+  "manage-third-party": {
+    matching: makeContext({ components: { "third-party": "critical" } }),
+    nonMatching: makeContext({ components: { "third-party": "good" } }),
+  },
+  "implement-caching": {
+    matching: makeContext({ overallScore: 64 }),
+    nonMatching: makeContext({ overallScore: 85 }),
+  },
+};
+
+const VALID_RULE: SuggestionRule = {
+  id: "hero-image-weight",
+  title: "Shrink hero images",
+  description: "Images weigh {images.size} in total.",
+  when: { resources: "image", bytes: { gt: 1000000 } },
+  priority: "high",
+  category: "performance",
+  effort: "easy",
+  potentialGain: 10,
+  estimatedImpact: "Faster LCP on mobile",
+  affectedComponents: ["images"],
+};
+
+describe("built-in rules", () => {
+  it("has a test case for every rule", () => {
+    expect(Object.keys(BUILTIN_CASES).sort()).toEqual(
+      BUILTIN_RULES.map((rule) => rule.id).sort(),
+    );
+  });
+
+  describe.each(BUILTIN_RULES.map((rule) => [rule.id, rule] as const))(
+    "%s",
+    (id, rule) => {
+      it("matches", () => {
+        expect(matchesCondition(rule.when, BUILTIN_CASES[id].matching)).toBe(
+          true,
+        );
+      });
+
+      it("does not match", () => {
+        expect(
+          matchesCondition(rule.when, BUILTIN_CASES[id].nonMatching),
+        ).toBe(false);
+      });
+
+      it("is valid", () => {
+        expect(validateRule(rule)).toBeNull();
+      });
+    },
+  );
+
+  it("escalates and fills placeholders", () => {
+    const [suggestion] = evaluateRules(
+      makeContext({ metrics: { ttfb: 2000 } }),
+      BUILTIN_RULES.filter((rule) => rule.id === "optimize-ttfb"),
+    );
+
+    expect(suggestion.priority).toBe("critical");
+    expect(suggestion.description).toMatch(/^Your TTFB of 2000ms exceeds/);
+  });
+});
+
+describe("matchesCondition", () => {
+  it("never matches score conditions for HAR imports", () => {
+    const context = makeContext({ overallScore: 40 });
+    const condition = { score: { lt: 65 } };
+
+    expect(matchesCondition(condition, context)).toBe(true);
+    expect(
+      matchesCondition(condition, {
+        ...context,
+        entry: { ...context.entry, source: "har" },
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("validateCondition", () => {
+  it("accepts nested conditions", () => {
+    expect(
+      validateCondition({
+        all: [
+          { metric: "lcp", gt: 2500, rating: ["poor"] },
+          { not: { framework: ["nextjs"] } },
+          { any: [{ score: { lt: 50 } }, { category: "seo", score: {} }] },
+        ],
+      }),
+    ).toBeNull();
+  });
+
+  it.each([
+    [null, "when must be a condition object"],
+    [{ all: [] }, "when.all must be a non-empty array of conditions"],
+    [
+      { any: [{ metric: "tti" }] },
+      "when.any[0].metric must be one of lcp, fcp, cls, fid, inp, ttfb",
+    ],
+    [
+      { metric: "lcp", rating: ["bad"] },
+      "when.rating must be a list of good, needs-improvement, poor",
+    ],
+    [{ metric: "lcp", above: 2500 }, "when has unknown bound 'above'"],
+    [{ score: { lt: "50" } }, "when.score.lt must be a number"],
+    [{ resources: "script" }, "when needs bytes or count"],
+    [
+      { component: "images", status: [] },
+      "when.status must be a list of excellent, good, needs-improvement, critical",
+    ],
+    [{ framework: ["rails"] }, /^when\.framework must be a list of /],
+    [{ url: "/" }, /^when must have one of metric, score/],
+  ])("rejects %j", (condition, error) => {
+    expect(validateCondition(condition)).toMatch(error);
+  });
+});
+
+describe("validateRule", () => {
+  it("accepts a complete rule", () => {
+    expect(validateRule(VALID_RULE)).toBeNull();
+  });
+
+  it.each([
+    [
+      { id: "Hero Image" },
+      "Rule id must be lowercase letters, digits and dashes",
+    ],
+    [{ title: " " }, "Rule title must be a non-empty string"],
+    [{ priority: "urgent" }, /^Rule priority must be one of /],
+    [{ effort: "trivial" }, /^Rule effort must be one of /],
+    [
+      { potentialGain: 150 },
+      "Rule potentialGain must be a number between 0 and 100",
+    ],
+    [
+      { affectedComponents: "images" },
+      "Rule affectedComponents must be an array of strings",
+    ],
+    [
+      { examples: { rails: "..." } },
+      "Rule examples has unknown framework 'rails'",
+    ],
+    [{ when: { metric: "tti" } }, /^when\.metric must be one of /],
+    [
+      { escalate: [{ when: { score: { lt: 50 } }, priority: "urgent" }] },
+      /^escalate\[0\]\.priority must be one of /,
+    ],
+  ])("rejects %j", (overrides, error) => {
+    expect(validateRule({ ...VALID_RULE, ...overrides })).toMatch(error);
+  });
+});
+
+describe("mergeRules", () => {
+  it("replaces rules by id in place and appends new ones", () => {
+    const replacement = { ...BUILTIN_RULES[1], title: "Custom LCP advice" };
+    const merged = mergeRules(BUILTIN_RULES.slice(0, 3), [
+      VALID_RULE,
+      replacement,
+    ]);
+
+    expect(merged.map((rule) => rule.id)).toEqual([
+      "optimize-ttfb",
+      "optimize-lcp",
+      "fix-cls",
+      "hero-image-weight",
+    ]);
+    expect(merged[1]).toBe(replacement);
+  });
+});
+
+describe("loadJsonRules", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("skips invalid rules and reports them", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const rules = loadJsonRules([
+      VALID_RULE,
+      { ...VALID_RULE, id: "no-condition", when: undefined },
+      "not a rule",
+    ]);
+
+    expect(rules).toEqual([VALID_RULE]);
+    expect(error).toHaveBeenCalledWith(
+      "Custom rule 2 skipped: when must be a condition object",
+    );
+    expect(error).toHaveBeenCalledWith(
+      "Custom rule 3 skipped: Rule must be an object",
+    );
+  });
+});
@@ -0,0 +1,554 @@
+import {
+  AISuggestion,
+  BudgetResourceType,
+  ComponentAnalysis,
+  Framework,
+  LighthouseCategory,
+  MetricKey,
+  PerformanceEntry,
+  getMetricRating,
+} from "@/types";
+import { BUDGET_RESOURCE_TYPES, summarizeResources } from "./budgets";
+import { formatBytes, formatMetricValue, hasLabScore } from "./utils";
+import {
+  FRAMEWORK_LABELS,
+  FRAMEWORK_PARENTS,
+  getEntryFramework,
+} from "./frameworks";
+import { BUILTIN_RULES } from "./builtinRules";
+import { FRAMEWORK_RULE_PACKS } from "./frameworkRules";
+import { CUSTOM_JSON_RULES, CUSTOM_RULES } from "./customRules";
+
+/**
+ * Declarative rules behind the local (rule-based) suggestions, the
+ * Recommendations card and the per-metric tips. A rule is plain data: a
+ * condition over metrics, resources and components, plus the content and
+ * ranking of the suggestion it produces, so teams can add rules from JSON
+ * as well as TypeScript (see `customRules.ts`). Framework rule packs (see
+ * `frameworkRules.ts`) add stack-specific rules and code examples.
+ */
+
+export type RulePriority = AISuggestion["priority"];
+
+export interface NumericRange {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export type MetricRating = ReturnType<typeof getMetricRating>;
+
+export type RuleCondition =
+  // A lab metric, by value and/or Core Web Vitals rating
+  | ({ metric: MetricKey; rating?: MetricRating[] } & NumericRange)
+  // Overall performance score (0-100)
+  | { score: NumericRange }
+  // A Lighthouse category score (0-100)
+  | { category: LighthouseCategory; score: NumericRange }
+  // Transfer size (bytes) and request count of a resource group
+  | { resources: BudgetResourceType; bytes?: NumericRange; count?: NumericRange }
+  // Status of a component from the component analysis
+  | { component: string; status: ComponentAnalysis["status"][] }
+  // Detected site stack
+  | { framework: Framework[] }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+export interface SuggestionRule {
+  id: string;
+  /**
+   * Title, description and impact may use placeholders: `{lcp}` (any metric
+   * key), `{score}`, and `{<component id>.<metric>}` such as
+   * `{javascript.size}`.
+   */
+  title: string;
+  description: string;
+  when: RuleCondition;
+  priority: RulePriority;
+  // First matching escalation overrides `priority`
+  escalate?: { when: RuleCondition; priority: RulePriority }[];
+  category: AISuggestion["category"];
+  effort: AISuggestion["effort"];
+  potentialGain: number;
+  estimatedImpact: string;
+  affectedComponents: string[];
+  codeExample?: string;
+  // Stack-specific code examples, preferred over `codeExample`
+  examples?: Partial<Record<Framework, string>>;
+  actions?: string[]; // Short action items, also used as metric tips
+  metric?: MetricKey; // Metric the rule primarily improves
+  learnMoreUrl?: string;
+}
+
+export interface RuleContext {
+  entry: Pick<
+    PerformanceEntry,
+    | "url"
+    | "metrics"
+    | "overallScore"
+    | "source"
+    | "resourceTimings"
+    | "categoryScores"
+    | "framework"
+  >;
+  components: ComponentAnalysis[];
+}
+
+/**
+ * Rules and code examples for one stack. Pack rules only match pages built
+ * with that framework; examples are keyed by the id of the rule they
+ * illustrate and are also used for child frameworks without their own.
+ */
+export interface RulePack {
+  framework: Framework;
+  rules: SuggestionRule[];
+  examples: Record<string, string>;
+}
+
+// A produced suggestion, with the rule's action items and link
+export type RuleSuggestion = AISuggestion &
+  Pick<SuggestionRule, "actions" | "learnMoreUrl">;
+
+const METRIC_KEYS: MetricKey[] = ["lcp", "fcp", "cls", "fid", "inp", "ttfb"];
+const FRAMEWORKS = Object.keys(FRAMEWORK_LABELS) as Framework[];
+const RATINGS: MetricRating[] = ["good", "needs-improvement", "poor"];
+const COMPONENT_STATUSES: ComponentAnalysis["status"][] = [
+  "excellent",
+  "good",
+  "needs-improvement",
+  "critical",
+];
+const CATEGORIES: LighthouseCategory[] = [
+  "performance",
+  "accessibility",
+  "best-practices",
+  "seo",
+];
+const PRIORITIES: RulePriority[] = ["critical", "high", "medium", "low"];
+const SUGGESTION_CATEGORIES: AISuggestion["category"][] = [
+  "performance",
+  "accessibility",
+  "seo",
+  "best-practices",
+];
+const EFFORTS: AISuggestion["effort"][] = ["easy", "medium", "hard"];
+const PRIORITY_ORDER: Record<RulePriority, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+function inRange(value: number, range: NumericRange): boolean {
+  return (
+    (range.gt === undefined || value > range.gt) &&
+    (range.gte === undefined || value >= range.gte) &&
+    (range.lt === undefined || value < range.lt) &&
+    (range.lte === undefined || value <= range.lte)
+  );
+}
+
+export function matchesCondition(
+  condition: RuleCondition,
+  context: RuleContext,
+): boolean {
+  const { entry } = context;
+
+  if ("all" in condition) {
+    return condition.all.every((c) => matchesCondition(c, context));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => matchesCondition(c, context));
+  }
+  if ("not" in condition) {
+    return !matchesCondition(condition.not, context);
+  }
+  if ("metric" in condition) {
+    const value = entry.metrics[condition.metric];
+    // Zero means "not measured" for timing metrics in older entries
+    if (value === undefined || (value === 0 && condition.metric !== "cls")) {
+      return false;
+    }
+    return (
+      inRange(value, condition) &&
+      (!condition.rating ||
+        condition.rating.includes(
+          getMetricRating(condition.metric.toUpperCase(), value),
+        ))
+    );
+  }
+  if ("category" in condition) {
+    const score = entry.categoryScores?.[condition.category];
+    return score !== undefined && inRange(score, condition.score);
+  }
+  if ("score" in condition) {
+    return hasLabScore(entry) && inRange(entry.overallScore, condition.score);
+  }
+  if ("framework" in condition) {
+    const framework = getEntryFramework(entry);
+    return !!framework && condition.framework.includes(framework);
+  }
+  if ("resources" in condition) {
+    const group = summarizeResources(entry)[condition.resources];
+    return (
+      (!condition.bytes || inRange(group.bytes, condition.bytes)) &&
+      (!condition.count || inRange(group.count, condition.count))
+    );
+  }
+  const component = context.components.find(
+    (c) => c.id === condition.component,
+  );
+  return !!component && condition.status.includes(component.status);
+}
+
+// Fill `{lcp}`, `{score}` and `{component.metric}` placeholders
+function renderTemplate(template: string, context: RuleContext): string {
+  return template.replace(
+    /\{([a-z-]+)(?:\.([a-zA-Z]+))?\}/g,
+    (placeholder, name: string, field?: string) => {
+      if (!field) {
+        if (name === "score") return String(context.entry.overallScore);
+        const value = context.entry.metrics[name as MetricKey];
+        return METRIC_KEYS.includes(name as MetricKey) && value !== undefined
+          ? formatMetricValue(name.toUpperCase(), value)
+          : placeholder;
+      }
+
+      const component = context.components.find((c) => c.id === name);
+      const value =
+        component?.metrics[field as keyof ComponentAnalysis["metrics"]];
+      if (value === undefined) return placeholder;
+      return field === "size" || field === "wastedBytes"
+        ? formatBytes(value)
+        : `${Math.round(value)}ms`;
+    },
+  );
+}
+
+// Code example for the page's stack, then its parent stack, then generic
+function selectCodeExample(
+  rule: SuggestionRule,
+  framework: Framework | undefined,
+): string | undefined {
+  const parent = framework && FRAMEWORK_PARENTS[framework];
+  return (
+    (framework && rule.examples?.[framework]) ||
+    (parent && rule.examples?.[parent]) ||
+    rule.codeExample
+  );
+}
+
+/**
+ * Suggestions of every matching rule, in rule order. Later rules with the
+ * same id as an earlier one have already replaced it in the registry.
+ */
+export function evaluateRules(
+  context: RuleContext,
+  rules: SuggestionRule[] = getRules(),
+): RuleSuggestion[] {
+  const framework = getEntryFramework(context.entry);
+  return rules
+    .filter((rule) => matchesCondition(rule.when, context))
+    .map((rule) => ({
+      id: rule.id,
+      title: renderTemplate(rule.title, context),
+      description: renderTemplate(rule.description, context),
+      priority:
+        rule.escalate?.find((step) => matchesCondition(step.when, context))
+          ?.priority ?? rule.priority,
+      category: rule.category,
+      estimatedImpact: renderTemplate(rule.estimatedImpact, context),
+      effort: rule.effort,
+      codeExample: selectCodeExample(rule, framework),
+      affectedComponents: rule.affectedComponents,
+      potentialGain: rule.potentialGain,
+      actions: rule.actions,
+      learnMoreUrl: rule.learnMoreUrl,
+    }));
+}
+
+// Highest priority first, then largest potential gain
+export function sortSuggestions<T extends AISuggestion>(suggestions: T[]): T[] {
+  return [...suggestions].sort(
+    (a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      b.potentialGain - a.potentialGain,
+  );
+}
+
+function validateRange(value: unknown, label: string): string | null {
+  if (!value || typeof value !== "object") {
+    return `${label} must be an object with gt, gte, lt or lte`;
+  }
+  for (const [key, bound] of Object.entries(value)) {
+    if (!["gt", "gte", "lt", "lte"].includes(key)) {
+      return `${label} has unknown bound '${key}'`;
+    }
+    if (typeof bound !== "number" || !Number.isFinite(bound)) {
+      return `${label}.${key} must be a number`;
+    }
+  }
+  return null;
+}
+
+export function validateCondition(value: unknown, path = "when"): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return `${path} must be a condition object`;
+  }
+  const condition = value as Record<string, unknown>;
+
+  if ("all" in condition || "any" in condition) {
+    const key = "all" in condition ? "all" : "any";
+    const list = condition[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      return `${path}.${key} must be a non-empty array of conditions`;
+    }
+    for (let i = 0; i < list.length; i++) {
+      const error = validateCondition(list[i], `${path}.${key}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+  if ("not" in condition) {
+    return validateCondition(condition.not, `${path}.not`);
+  }
+  if ("metric" in condition) {
+    if (!METRIC_KEYS.includes(condition.metric as MetricKey)) {
+      return `${path}.metric must be one of ${METRIC_KEYS.join(", ")}`;
+    }
+    if (
+      condition.rating !== undefined &&
+      (!Array.isArray(condition.rating) ||
+        !condition.rating.every((r) => RATINGS.includes(r)))
+    ) {
+      return `${path}.rating must be a list of ${RATINGS.join(", ")}`;
+    }
+    const bounds = Object.fromEntries(
+      Object.entries(condition).filter(
+        ([key]) => key !== "metric" && key !== "rating",
+      ),
+    );
+    return Object.keys(bounds).length > 0
+      ? validateRange(bounds, path)
+      : null;
+  }
+  if ("category" in condition) {
+    if (!CATEGORIES.includes(condition.category as LighthouseCategory)) {
+      return `${path}.category must be one of ${CATEGORIES.join(", ")}`;
+    }
+    return validateRange(condition.score, `${path}.score`);
+  }
+  if ("score" in condition) {
+    return validateRange(condition.score, `${path}.score`);
+  }
+  if ("resources" in condition) {
+    if (!BUDGET_RESOURCE_TYPES.includes(condition.resources as BudgetResourceType)) {
+      return `${path}.resources must be one of ${BUDGET_RESOURCE_TYPES.join(", ")}`;
+    }
+    if (condition.bytes === undefined && condition.count === undefined) {
+      return `${path} needs bytes or count`;
+    }
+    return (
+      (condition.bytes !== undefined &&
+        validateRange(condition.bytes, `${path}.bytes`)) ||
+      (condition.count !== undefined &&
+        validateRange(condition.count, `${path}.count`)) ||
+      null
+    );
+  }
+  if ("component" in condition) {
+    if (typeof condition.component !== "string" || !condition.component) {
+      return `${path}.component must be a component id`;
+    }
+    if (
+      !Array.isArray(condition.status) ||
+      condition.status.length === 0 ||
+      !condition.status.every((s) => COMPONENT_STATUSES.includes(s))
+    ) {
+      return `${path}.status must be a list of ${COMPONENT_STATUSES.join(", ")}`;
+    }
+    return null;
+  }
+  if ("framework" in condition) {
+    if (
+      !Array.isArray(condition.framework) ||
+      condition.framework.length === 0 ||
+      !condition.framework.every((f) => FRAMEWORKS.includes(f))
+    ) {
+      return `${path}.framework must be a list of ${FRAMEWORKS.join(", ")}`;
+    }
+    return null;
+  }
+
+  return `${path} must have one of metric, score, category, resources, component, framework, all, any or not`;
+}
+
+/**
+ * Validate a rule definition, e.g. one loaded from JSON. Returns an error
+ * message, or null when the rule is valid.
+ */
+export function validateRule(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "Rule must be an object";
+  }
+  const rule = value as Record<string, unknown>;
+
+  if (typeof rule.id !== "string" || !/^[a-z0-9-]+$/.test(rule.id)) {
+    return "Rule id must be lowercase letters, digits and dashes";
+  }
+  for (const field of ["title", "description", "estimatedImpact"]) {
+    if (typeof rule[field] !== "string" || !(rule[field] as string).trim()) {
+      return `Rule ${field} must be a non-empty string`;
+    }
+  }
+  if (!PRIORITIES.includes(rule.priority as RulePriority)) {
+    return `Rule priority must be one of ${PRIORITIES.join(", ")}`;
+  }
+  if (!SUGGESTION_CATEGORIES.includes(rule.category as AISuggestion["category"])) {
+    return `Rule category must be one of ${SUGGESTION_CATEGORIES.join(", ")}`;
+  }
+  if (!EFFORTS.includes(rule.effort as AISuggestion["effort"])) {
+    return `Rule effort must be one of ${EFFORTS.join(", ")}`;
+  }
+  if (
+    typeof rule.potentialGain !== "number" ||
+    rule.potentialGain < 0 ||
+    rule.potentialGain > 100
+  ) {
+    return "Rule potentialGain must be a number between 0 and 100";
+  }
+  if (
+    !Array.isArray(rule.affectedComponents) ||
+    !rule.affectedComponents.every((c) => typeof c === "string")
+  ) {
+    return "Rule affectedComponents must be an array of strings";
+  }
+  if (
+    rule.actions !== undefined &&
+    (!Array.isArray(rule.actions) ||
+      !rule.actions.every((a) => typeof a === "string"))
+  ) {
+    return "Rule actions must be an array of strings";
+  }
+  if (rule.codeExample !== undefined && typeof rule.codeExample !== "string") {
+    return "Rule codeExample must be a string";
+  }
+  if (rule.examples !== undefined) {
+    if (!rule.examples || typeof rule.examples !== "object") {
+      return "Rule examples must map frameworks to code examples";
+    }
+    for (const [framework, example] of Object.entries(rule.examples)) {
+      if (!FRAMEWORKS.includes(framework as Framework)) {
+        return `Rule examples has unknown framework '${framework}'`;
+      }
+      if (typeof example !== "string") {
+        return `Rule examples.${framework} must be a string`;
+      }
+    }
+  }
+  if (rule.learnMoreUrl !== undefined && typeof rule.learnMoreUrl !== "string") {
+    return "Rule learnMoreUrl must be a string";
+  }
+  if (rule.metric !== undefined && !METRIC_KEYS.includes(rule.metric as MetricKey)) {
+    return `Rule metric must be one of ${METRIC_KEYS.join(", ")}`;
+  }
+
+  const conditionError = validateCondition(rule.when);
+  if (conditionError) return conditionError;
+
+  if (rule.escalate !== undefined) {
+    if (!Array.isArray(rule.escalate)) {
+      return "Rule escalate must be an array";
+    }
+    for (let i = 0; i < rule.escalate.length; i++) {
+      const step = rule.escalate[i];
+      if (!PRIORITIES.includes(step?.priority)) {
+        return `escalate[${i}].priority must be one of ${PRIORITIES.join(", ")}`;
+      }
+      const error = validateCondition(step.when, `escalate[${i}].when`);
+      if (error) return error;
+    }
+  }
+
+  return null;
+}
+
+// Add or replace rules by id, keeping the position of replaced rules
+export function mergeRules(
+  base: SuggestionRule[],
+  additions: SuggestionRule[],
+): SuggestionRule[] {
+  const merged = [...base];
+  for (const rule of additions) {
+    const index = merged.findIndex((existing) => existing.id === rule.id);
+    if (index === -1) merged.push(rule);
+    else merged[index] = rule;
+  }
+  return merged;
+}
+
+/**
+ * Fold framework packs into a rule list: examples are attached to the rules
+ * they illustrate, and pack rules are appended, limited to their stack.
+ */
+function applyRulePacks(
+  rules: SuggestionRule[],
+  packs: RulePack[],
+): SuggestionRule[] {
+  const withExamples = rules.map((rule) => {
+    const examples = { ...rule.examples };
+    for (const pack of packs) {
+      const example = pack.examples[rule.id];
+      if (example) examples[pack.framework] = example;
+    }
+    return Object.keys(examples).length > 0 ? { ...rule, examples } : rule;
+  });
+
+  const packRules = packs.flatMap((pack) =>
+    pack.rules.map((rule) => ({
+      ...rule,
+      when: { all: [{ framework: [pack.framework] }, rule.when] },
+    })),
+  );
+
+  return [...withExamples, ...packRules];
+}
+
+// Valid JSON rules; invalid ones are reported and skipped
+export function loadJsonRules(rules: unknown[]): SuggestionRule[] {
+  return rules.filter((rule, index): rule is SuggestionRule => {
+    const error = validateRule(rule);
+    if (error) console.error(`Custom rule ${index + 1} skipped: ${error}`);
+    return !error;
+  });
+}
+
+let registry = mergeRules(
+  applyRulePacks(BUILTIN_RULES, FRAMEWORK_RULE_PACKS),
+  [...loadJsonRules(CUSTOM_JSON_RULES), ...CUSTOM_RULES],
+);
+
+export function getRules(): SuggestionRule[] {
+  return registry;
+}
+
+/**
+ * Register rules at runtime. Rules with an existing id replace it. Throws
+ * with the first validation error, registering nothing.
+ */
+export function registerRules(rules: unknown[]): void {
+  rules.forEach((rule, index) => {
+    const error = validateRule(rule);
+    if (error) throw new Error(`Rule ${index + 1}: ${error}`);
+  });
+  registry = mergeRules(registry, rules as SuggestionRule[]);
+}
+
+// Action items of the rules targeting a metric, for per-metric tips
+export function getMetricTips(metric: MetricKey): string[] {
+  return registry
+    .filter((rule) => rule.metric === metric)
+    .flatMap((rule) => rule.actions ?? []);
+}
@@ -0,0 +1,280 @@
+import { DeviceClass, RumBeacon, WebVitalsMetric } from "@/types";
+import { percentile } from "./trends";
+
+/**
+ * Real User Monitoring: the beacon format sent by `rumReporter.ts` and the
+ * embeddable snippet, its validation and sampling on ingestion, and the p75
+ * summaries shown on the RUM dashboard.
+ */
+
+export const RUM_METRICS: WebVitalsMetric["name"][] = [
+  "LCP",
+  "INP",
+  "CLS",
+  "FCP",
+  "TTFB",
+];
+
+// Site key the dashboard reports its own Web Vitals under
+export const SELF_RUM_SITE = "this-app";
+
+const DEVICE_CLASSES: DeviceClass[] = ["mobile", "tablet", "desktop"];
+const MAX_METRICS_PER_BEACON = 20;
+
+// What a page sends, batched per page view
+export interface RumPayload {
+  site?: string;
+  url: string;
+  pageViewId: string;
+  deviceClass?: DeviceClass;
+  effectiveType?: string;
+  metrics: (Pick<
+    WebVitalsMetric,
+    "id" | "name" | "value" | "rating" | "navigationType"
+  > & { component?: string })[];
+}
+
+/**
+ * Validate a beacon body. Returns an error message suitable for a 400
+ * response, or null when the payload is valid.
+ */
+export function validateRumPayload(body: unknown): string | null {
+  if (!body || typeof body !== "object") {
+    return "Beacon must be a JSON object";
+  }
+  const payload = body as Partial<Record<keyof RumPayload, unknown>>;
+
+  try {
+    const url = new URL(payload.url as string);
+    if (!["http:", "https:"].includes(url.protocol)) throw new Error();
+  } catch {
+    return "Beacon url must be an HTTP or HTTPS URL";
+  }
+  if (typeof payload.pageViewId !== "string" || !payload.pageViewId) {
+    return "Beacon pageViewId is required";
+  }
+  if (payload.site !== undefined && typeof payload.site !== "string") {
+    return "Beacon site must be a string";
+  }
+  if (
+    payload.deviceClass !== undefined &&
+    !DEVICE_CLASSES.includes(payload.deviceClass as DeviceClass)
+  ) {
+    return "Beacon deviceClass must be 'mobile', 'tablet' or 'desktop'";
+  }
+
+  if (
+    !Array.isArray(payload.metrics) ||
+    payload.metrics.length === 0 ||
+    payload.metrics.length > MAX_METRICS_PER_BEACON
+  ) {
+    return `Beacon must contain 1 to ${MAX_METRICS_PER_BEACON} metrics`;
+  }
+  for (const metric of payload.metrics as Partial<
+    RumPayload["metrics"][number]
+  >[]) {
+    if (!metric || !RUM_METRICS.includes(metric.name!)) {
+      return `Unsupported metric '${metric?.name}'`;
+    }
+    if (
+      metric.component !== undefined &&
+      (typeof metric.component !== "string" || metric.component.length > 64)
+    ) {
+      return "Metric component must be a short string";
+    }
+    if (
+      typeof metric.id !== "string" ||
+      typeof metric.value !== "number" ||
+      !Number.isFinite(metric.value) ||
+      metric.value < 0
+    ) {
+      return `Invalid ${metric.name} measurement`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Deterministic sampling per page view: every beacon of a page view gets
+ * the same decision, so sampled views keep all their metrics.
+ */
+export function isSampled(pageViewId: string, rate: number): boolean {
+  if (rate >= 1) return true;
+  if (rate <= 0) return false;
+  // FNV-1a, mapped to [0, 1)
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < pageViewId.length; i++) {
+    hash ^= pageViewId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000 < rate;
+}
+
+export function getDeviceClass(userAgent: string | null): DeviceClass {
+  if (!userAgent) return "desktop";
+  if (/iPad|Tablet|PlayBook|Silk|Android(?!.*Mobile)/i.test(userAgent)) {
+    return "tablet";
+  }
+  if (/Mobi|iPhone|iPod|Android|BlackBerry|IEMobile/i.test(userAgent)) {
+    return "mobile";
+  }
+  return "desktop";
+}
+
+/**
+ * Whether beacons for a page may be stored. `allowedHosts` entries match
+ * the hostname exactly or, as "*.example.com", any subdomain.
+ */
+export function isAllowedHost(url: string, allowedHosts: string[]): boolean {
+  if (allowedHosts.length === 0) return true;
+  const hostname = new URL(url).hostname;
+  return allowedHosts.some((host) =>
+    host.startsWith("*.")
+      ? hostname === host.slice(2) || hostname.endsWith(host.slice(1))
+      : hostname === host,
+  );
+}
+
+/**
+ * Turn a validated payload into stored beacons. Query strings and hashes
+ * are dropped from the page URL so pages group together (and tokens in
+ * URLs are not stored).
+ */
+export function toRumBeacons(
+  payload: RumPayload,
+  userAgent: string | null,
+  receivedAt = new Date(),
+): RumBeacon[] {
+  const url = new URL(payload.url);
+  const page = `${url.origin}${url.pathname}`;
+  const deviceClass = payload.deviceClass ?? getDeviceClass(userAgent);
+
+  return payload.metrics.map((metric) => ({
+    id: metric.id,
+    site: payload.site?.trim() || undefined,
+    url: page,
+    pageViewId: payload.pageViewId,
+    name: metric.name,
+    value: metric.value,
+    rating: metric.rating,
+    navigationType: metric.navigationType || "navigate",
+    deviceClass,
+    effectiveType: payload.effectiveType,
+    component: metric.component,
+    receivedAt: receivedAt.toISOString(),
+  }));
+}
+
+export type RumGroupBy =
+  | "all"
+  | "url"
+  | "deviceClass"
+  | "navigationType"
+  | "component";
+
+export interface RumSummaryRow {
+  key: string;
+  pageViews: number;
+  metrics: Partial<
+    Record<WebVitalsMetric["name"], { p75: number; count: number }>
+  >;
+}
+
+export interface RumSummary {
+  sites: string[];
+  pageViews: number;
+  overall?: RumSummaryRow;
+  pages: RumSummaryRow[];
+  devices: RumSummaryRow[];
+  navigationTypes: RumSummaryRow[];
+  components: RumSummaryRow[];
+}
+
+/**
+ * p75 of every metric per page, device class, navigation type or component,
+ * busiest groups first. Component beacons only count towards the component
+ * grouping, since their interactions are already part of the page's INP.
+ */
+export function summarizeRum(
+  beacons: RumBeacon[],
+  groupBy: RumGroupBy,
+): RumSummaryRow[] {
+  const groups = new Map<
+    string,
+    { views: Set<string>; values: Map<WebVitalsMetric["name"], number[]> }
+  >();
+
+  for (const beacon of beacons) {
+    if ((groupBy === "component") !== !!beacon.component) continue;
+    const key = groupBy === "all" ? "all" : beacon[groupBy]!;
+    let group = groups.get(key);
+    if (!group) {
+      group = { views: new Set(), values: new Map() };
+      groups.set(key, group);
+    }
+    group.views.add(beacon.pageViewId);
+    const values = group.values.get(beacon.name) ?? [];
+    values.push(beacon.value);
+    group.values.set(beacon.name, values);
+  }
+
+  return Array.from(groups, ([key, group]) => {
+    const metrics: RumSummaryRow["metrics"] = {};
+    for (const [name, values] of group.values) {
+      metrics[name] = {
+        p75: percentile(
+          values.sort((a, b) => a - b),
+          75,
+        ),
+        count: values.length,
+      };
+    }
+    return { key, pageViews: group.views.size, metrics };
+  }).sort((a, b) => b.pageViews - a.pageViews);
+}
+
+/**
+ * HTML to paste into a site's pages. Loads web-vitals from a CDN so sites
+ * without a bundler can use it; bundled apps can call `startRum` from
+ * `rumReporter.ts` instead.
+ */
+export function buildRumSnippet(
+  endpoint: string,
+  options: { site?: string; sampleRate?: number } = {},
+): string {
+  const config = JSON.stringify({
+    endpoint,
+    site: options.site || undefined,
+    sampleRate: options.sampleRate ?? 1,
+  });
+
+  return `<script type="module">
+  import { onLCP, onINP, onCLS, onFCP, onTTFB } from "https://unpkg.com/web-vitals@5?module";
+
+  const config = ${config};
+  if (Math.random() < config.sampleRate) {
+    const pageViewId = crypto.randomUUID();
+    const queue = new Map();
+    const report = (metric) => queue.set(metric.id, metric);
+    const flush = () => {
+      if (queue.size === 0) return;
+      const body = JSON.stringify({
+        site: config.site,
+        url: location.href,
+        pageViewId,
+        effectiveType: navigator.connection?.effectiveType,
+        metrics: [...queue.values()].map(({ id, name, value, rating, navigationType }) => ({ id, name, value, rating, navigationType })),
+      });
+      queue.clear();
+      (navigator.sendBeacon && navigator.sendBeacon(config.endpoint, body)) ||
+        fetch(config.endpoint, { method: "POST", body, keepalive: true });
+    };
+    [onLCP, onINP, onCLS, onFCP, onTTFB].forEach((on) => on(report));
+    addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flush();
+    });
+    addEventListener("pagehide", flush);
+  }
+</script>`;
+}
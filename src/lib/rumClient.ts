@@ -0,0 +1,24 @@
+import type { RumSummary } from "./rum";
+
+/**
+ * Browser client for the RUM dashboard's `/api/rum/summary` route. Throws
+ * when the server cannot be reached or rejects the request.
+ */
+
+export const RUM_ENDPOINT = "/api/rum";
+
+export async function fetchRumSummary(
+  query: { site?: string; url?: string; days?: number } = {},
+): Promise<RumSummary> {
+  const params = new URLSearchParams();
+  if (query.site) params.set("site", query.site);
+  if (query.url) params.set("url", query.url);
+  if (query.days) params.set("days", String(query.days));
+
+  const response = await fetch(`${RUM_ENDPOINT}/summary?${params.toString()}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data as RumSummary;
+}
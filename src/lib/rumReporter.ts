@@ -0,0 +1,124 @@
+import { onCLS, onFCP, onINP, onLCP, onTTFB, Metric } from "web-vitals";
+import { getMetricRating } from "@/types";
+import type { RumPayload } from "./rum";
+
+/**
+ * Browser-side RUM reporter for bundled apps; the dashboard's HTML snippet
+ * does the same for any site. Metrics are queued per page view and sent
+ * in one beacon when the page is hidden, which is when CLS and INP are
+ * final.
+ */
+
+// Marks a component whose interactions are reported separately
+export const PERF_COMPONENT_ATTRIBUTE = "data-perf-component";
+
+export interface RumOptions {
+  endpoint?: string; // Defaults to this app's ingestion route
+  site?: string;
+  sampleRate?: number; // Share of page views to report, 0 to 1
+  /**
+   * Also report the slowest interaction inside every element marked with
+   * `data-perf-component`, as a per-component INP.
+   */
+  trackComponents?: boolean;
+}
+
+type QueuedMetric = RumPayload["metrics"][number];
+
+let started = false;
+
+/**
+ * Start reporting. Only the first call per page load has an effect, so
+ * React strict mode's double effects do not double-report.
+ */
+export function startRum({
+  endpoint = "/api/rum",
+  site,
+  sampleRate = 1,
+  trackComponents = false,
+}: RumOptions = {}): void {
+  if (typeof window === "undefined" || started) return;
+  started = true;
+  if (Math.random() >= sampleRate) return;
+
+  const pageViewId = crypto.randomUUID();
+  const queue = new Map<string, QueuedMetric>();
+  let navigationType: string = "navigate";
+
+  const flush = () => {
+    if (queue.size === 0) return;
+    const payload: RumPayload = {
+      site,
+      url: location.href,
+      pageViewId,
+      effectiveType: (
+        navigator as Navigator & { connection?: { effectiveType?: string } }
+      ).connection?.effectiveType,
+      metrics: Array.from(queue.values()),
+    };
+    queue.clear();
+
+    // A string body is sent as text/plain, which needs no CORS preflight
+    const body = JSON.stringify(payload);
+    if (!navigator.sendBeacon?.(endpoint, body)) {
+      fetch(endpoint, { method: "POST", body, keepalive: true }).catch(
+        () => undefined,
+      );
+    }
+  };
+
+  const report = (metric: Metric) => {
+    navigationType = metric.navigationType;
+    queue.set(metric.id, {
+      id: metric.id,
+      name: metric.name,
+      value: metric.value,
+      rating: metric.rating,
+      navigationType: metric.navigationType,
+    });
+  };
+  onLCP(report);
+  onINP(report);
+  onCLS(report);
+  onFCP(report);
+  onTTFB(report);
+
+  if (
+    trackComponents &&
+    PerformanceObserver.supportedEntryTypes?.includes("event")
+  ) {
+    const slowest = new Map<string, number>();
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries() as PerformanceEventTiming[]) {
+        if (!entry.interactionId || !(entry.target instanceof Element)) {
+          continue;
+        }
+        const component = entry.target
+          .closest(`[${PERF_COMPONENT_ATTRIBUTE}]`)
+          ?.getAttribute(PERF_COMPONENT_ATTRIBUTE);
+        if (!component || entry.duration <= (slowest.get(component) ?? 0)) {
+          continue;
+        }
+
+        slowest.set(component, entry.duration);
+        queue.set(`${pageViewId}-${component}`, {
+          id: `${pageViewId}-${component}`,
+          name: "INP",
+          value: entry.duration,
+          rating: getMetricRating("INP", entry.duration),
+          navigationType,
+          component,
+        });
+      }
+    }).observe({
+      type: "event",
+      buffered: true,
+      durationThreshold: 16,
+    } as PerformanceObserverInit);
+  }
+
+  addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flush();
+  });
+  addEventListener("pagehide", flush);
+}
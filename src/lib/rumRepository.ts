@@ -0,0 +1,40 @@
+import { RumBeacon } from "@/types";
+import { createJsonLog } from "./jsonStore";
+
+/**
+ * Server-side storage for RUM beacons, newest first. Beacons are appended
+ * to a log so ingestion never rewrites the whole store, and only the most
+ * recent are kept; the dashboard reports on recent traffic anyway.
+ */
+
+const MAX_BEACONS = 20000;
+
+const beacons = createJsonLog<RumBeacon>("rum-beacons", MAX_BEACONS);
+
+export interface RumQuery {
+  site?: string;
+  url?: string;
+  from?: Date;
+}
+
+export async function queryBeacons(query: RumQuery = {}): Promise<RumBeacon[]> {
+  const from = query.from?.getTime() ?? -Infinity;
+  return (await beacons.list()).filter(
+    (beacon) =>
+      (!query.site || beacon.site === query.site) &&
+      (!query.url || beacon.url === query.url) &&
+      new Date(beacon.receivedAt).getTime() >= from,
+  );
+}
+
+/**
+ * Store beacons. A page reports again when it is hidden a second time;
+ * later values replace earlier ones with the same metric id.
+ */
+export function recordBeacons(items: RumBeacon[]): Promise<void> {
+  return beacons.append(items);
+}
+
+export function clearBeacons(): Promise<void> {
+  return beacons.clear();
+}
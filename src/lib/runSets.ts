@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from "uuid";
+import { MetricKey, MetricSpread, PerformanceEntry, RunSet } from "@/types";
+
+/**
+ * Multi-run analysis. Lab runs of the same page vary by several percent, so
+ * a run set keeps the run closest to the median (as Lighthouse CI does)
+ * together with the spread of every metric across all runs.
+ */
+
+export const RUN_COUNT_OPTIONS = [1, 3, 5];
+export const MAX_RUNS = 5;
+
+const METRIC_KEYS: MetricKey[] = ["lcp", "fcp", "cls", "fid", "inp", "ttfb"];
+
+type RunLike = Pick<PerformanceEntry, "metrics" | "overallScore"> & {
+  timestamp: Date | string;
+};
+
+function median(sorted: number[]): number {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export function computeSpread(values: number[]): MetricSpread {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return {
+    median: median(sorted),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    stddev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Index of the run closest to the median FCP and LCP, so the representative
+ * run's resources and audits are consistent with its metrics. Falls back to
+ * the median score when the runs have no timings.
+ */
+export function pickMedianRun(runs: RunLike[]): number {
+  const keys = (["fcp", "lcp"] as const).filter((key) =>
+    runs.every((run) => run.metrics[key] !== undefined),
+  );
+  const medians = keys.map((key) =>
+    median(runs.map((run) => run.metrics[key]!).sort((a, b) => a - b)),
+  );
+  const scoreMedian = median(
+    runs.map((run) => run.overallScore).sort((a, b) => a - b),
+  );
+
+  const distance = (run: RunLike) =>
+    keys.length > 0
+      ? keys.reduce((sum, key, i) => {
+          const relative = (run.metrics[key]! - medians[i]) / (medians[i] || 1);
+          return sum + relative ** 2;
+        }, 0)
+      : Math.abs(run.overallScore - scoreMedian);
+
+  return runs.reduce(
+    (best, run, index) =>
+      distance(run) < distance(runs[best]) ? index : best,
+    0,
+  );
+}
+
+/**
+ * Combine the runs of one URL and strategy into the median run with a
+ * `runSet` attached. A single run is returned unchanged.
+ */
+export function aggregateRuns<T extends RunLike>(
+  runs: T[],
+): T & { runSet?: RunSet } {
+  if (runs.length === 0) throw new Error("No runs to aggregate");
+  if (runs.length === 1) return runs[0];
+
+  const medianRun = pickMedianRun(runs);
+  const metrics: RunSet["metrics"] = {};
+  for (const key of METRIC_KEYS) {
+    const values = runs
+      .map((run) => run.metrics[key])
+      .filter((value): value is number => value !== undefined);
+    if (values.length > 0) metrics[key] = computeSpread(values);
+  }
+
+  return {
+    ...runs[medianRun],
+    runSet: {
+      id: uuidv4(),
+      runs: runs.length,
+      medianRun,
+      score: computeSpread(runs.map((run) => run.overallScore)),
+      metrics,
+      samples: runs.map((run) => ({
+        timestamp: new Date(run.timestamp).toISOString(),
+        overallScore: run.overallScore,
+        metrics: run.metrics,
+      })),
+    },
+  };
+}
+
+/**
+ * Smallest change between two values that is likely real rather than run
+ * to run noise: twice the larger standard deviation. Undefined when neither
+ * side was measured more than once.
+ */
+export function getNoiseMargin(
+  ...spreads: (MetricSpread | undefined)[]
+): number | undefined {
+  const deviations = spreads
+    .filter((spread): spread is MetricSpread => spread !== undefined)
+    .map((spread) => spread.stddev);
+  return deviations.length > 0 ? 2 * Math.max(...deviations) : undefined;
+}
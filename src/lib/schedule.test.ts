@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { getNextRun, validateSchedule } from "./schedule";
+
+const TOO_TIGHT = "Schedules must be at least 5 minutes apart";
+
+describe("validateSchedule", () => {
+  it.each(["*/5 * * * *", "0,30 * * * *", "0 9 * * 1-5", "@hourly"])(
+    "accepts %s",
+    (expression) => {
+      expect(validateSchedule(expression)).toBeNull();
+    },
+  );
+
+  it.each(["* * * * *", "*/1 * * * *", "*/4 * * * *", "0,3 9 * * *"])(
+    "refuses runs less than 5 minutes apart in %s",
+    (expression) => {
+      expect(validateSchedule(expression)).toBe(TOO_TIGHT);
+    },
+  );
+
+  it("checks runs across the hour when consecutive hours fire", () => {
+    expect(validateSchedule("0,58 * * * *")).toBe(TOO_TIGHT);
+    expect(validateSchedule("0,58 9 * * *")).toBeNull();
+  });
+
+  it("applies the limit to intervals", () => {
+    expect(validateSchedule("@every 1m")).toBe(TOO_TIGHT);
+    expect(validateSchedule("@every 5m")).toBeNull();
+  });
+
+  it("reports invalid expressions", () => {
+    expect(validateSchedule("0 25 * * *")).toBe('Invalid value "25" in hour');
+    expect(validateSchedule("0 9 * *")).toMatch(/^Expected a 5-field cron/);
+  });
+});
+
+describe("getNextRun", () => {
+  it("finds the next matching minute in UTC", () => {
+    const after = new Date("2025-01-14T09:07:30Z");
+    expect(getNextRun("*/15 * * * *", after).toISOString()).toBe(
+      "2025-01-14T09:15:00.000Z",
+    );
+    expect(getNextRun("0 9 * * 1-5", after).toISOString()).toBe(
+      "2025-01-15T09:00:00.000Z",
+    );
+  });
+
+  it("runs intervals relative to the last run", () => {
+    const after = new Date("2025-01-14T09:07:30Z");
+    expect(getNextRun("@every 2h", after).toISOString()).toBe(
+      "2025-01-14T11:07:30.000Z",
+    );
+  });
+});
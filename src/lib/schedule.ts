@@ -0,0 +1,196 @@
+/**
+ * Monitor schedules. Accepts standard five-field cron expressions
+ * (minute hour day-of-month month day-of-week, evaluated in UTC), the
+ * "@hourly"/"@daily"/"@weekly" shortcuts and fixed intervals such as
+ * "@every 30m".
+ */
+
+// PageSpeed quota is per day, so very tight schedules are refused
+export const MIN_INTERVAL_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+const SHORTCUTS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+};
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: MINUTE_MS,
+  h: 60 * MINUTE_MS,
+  d: 24 * 60 * MINUTE_MS,
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+type ParsedSchedule =
+  | { kind: "interval"; ms: number }
+  | {
+      kind: "cron";
+      minutes: Set<number>;
+      hours: Set<number>;
+      days: Set<number>;
+      months: Set<number>;
+      weekdays: Set<number>;
+      anyDay: boolean;
+      anyWeekday: boolean;
+    };
+
+function parseField(
+  value: string,
+  field: (typeof CRON_FIELDS)[number],
+): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${part}" in ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = Number(from);
+      end = to === undefined ? (stepText ? field.max : start) : Number(to);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new Error(`Invalid value "${part}" in ${field.name}`);
+    }
+
+    for (let n = start; n <= end; n += step) result.add(n);
+  }
+
+  return result;
+}
+
+function parseSchedule(expression: string): ParsedSchedule {
+  const trimmed = expression.trim().toLowerCase();
+
+  const every = trimmed.match(/^@every\s+(\d+)\s*([mhd])$/);
+  if (every) {
+    const ms = Number(every[1]) * INTERVAL_UNITS[every[2]];
+    return { kind: "interval", ms };
+  }
+
+  const cron = SHORTCUTS[trimmed] ?? trimmed;
+  const parts = cron.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(
+      'Expected a 5-field cron expression, "@hourly", "@daily", "@weekly" or "@every <n>m|h|d"',
+    );
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+    parseField(part, CRON_FIELDS[i]),
+  );
+  // Both 0 and 7 mean Sunday
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    kind: "cron",
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === "*",
+    anyWeekday: parts[4] === "*",
+  };
+}
+
+/**
+ * The shortest time between two runs, in minutes. Cron runs within an hour
+ * are as far apart as their minutes; the last run of an hour and the first
+ * of the next are only both made when consecutive hours fire.
+ */
+function getMinGapMinutes(schedule: ParsedSchedule): number {
+  if (schedule.kind === "interval") return schedule.ms / MINUTE_MS;
+
+  const minutes = [...schedule.minutes].sort((a, b) => a - b);
+  let gap = Infinity;
+  for (let i = 1; i < minutes.length; i++) {
+    gap = Math.min(gap, minutes[i] - minutes[i - 1]);
+  }
+  const hours = schedule.hours;
+  if ([...hours].some((hour) => hours.has((hour + 1) % 24))) {
+    gap = Math.min(gap, 60 - minutes[minutes.length - 1] + minutes[0]);
+  }
+  return gap;
+}
+
+/**
+ * Returns an error message for an invalid schedule, or null when valid.
+ */
+export function validateSchedule(expression: string): string | null {
+  try {
+    if (getMinGapMinutes(parseSchedule(expression)) < MIN_INTERVAL_MINUTES) {
+      throw new Error(
+        `Schedules must be at least ${MIN_INTERVAL_MINUTES} minutes apart`,
+      );
+    }
+    getNextRun(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid schedule";
+  }
+}
+
+/**
+ * The first time strictly after `after` at which the schedule fires.
+ * Interval schedules fire relative to `after` (normally the last run).
+ */
+export function getNextRun(expression: string, after: Date = new Date()): Date {
+  const schedule = parseSchedule(expression);
+  if (schedule.kind === "interval") {
+    return new Date(after.getTime() + schedule.ms);
+  }
+
+  const date = new Date(after);
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Cron semantics: when both day fields are restricted, either may match
+  const dayMatches = () => {
+    const day = schedule.days.has(date.getUTCDate());
+    const weekday = schedule.weekdays.has(date.getUTCDay());
+    if (schedule.anyDay) return weekday;
+    if (schedule.anyWeekday) return day;
+    return day || weekday;
+  };
+
+  // Five years covers every valid expression (e.g. "0 0 29 2 *")
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * MINUTE_MS;
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!dayMatches()) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Schedule "${expression}" never fires`);
+}
@@ -0,0 +1,51 @@
+/**
+ * Server-sent events: encoding for streaming routes and a reader shared by
+ * the browser client and server-side calls to streaming provider APIs.
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read events from a `text/event-stream` body. Comment lines and fields
+ * other than `event` and `data` are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const frames = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : frames.pop()!;
+
+      for (const frame of frames) {
+        const event: ServerSentEvent = { data: "" };
+        const data: string[] = [];
+        for (const line of frame.split(/\r?\n/)) {
+          if (line.startsWith("event:")) event.event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) {
+          event.data = data.join("\n");
+          yield event;
+        }
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { getThirdPartyVendor, isThirdParty } from "./thirdParty";
+
+function resource(url: string) {
+  return { name: url, url };
+}
+
+describe("isThirdParty", () => {
+  it.each([
+    ["https://static.example.com/app.js", "https://www.example.com/", false],
+    ["https://cdn.example.net/app.js", "https://www.example.com/", true],
+    ["https://static.bbc.co.uk/app.js", "https://www.bbc.co.uk/", false],
+    ["https://www.other.co.uk/app.js", "https://www.bbc.co.uk/", true],
+    ["https://shop.example.com.au/", "https://www.example.com.au/", false],
+    ["https://other.github.io/lib.js", "https://me.github.io/", true],
+  ])("%s on %s is third party: %s", (url, pageUrl, expected) => {
+    expect(isThirdParty(resource(url), pageUrl)).toBe(expected);
+  });
+
+  it("uses the budget's first-party hostnames when given", () => {
+    const hostnames = ["www.example.com", "*.example-cdn.net"];
+    expect(
+      isThirdParty(
+        resource("https://img.example-cdn.net/hero.jpg"),
+        "https://www.example.com/",
+        hostnames,
+      ),
+    ).toBe(false);
+    expect(
+      isThirdParty(
+        resource("https://static.example.com/app.js"),
+        "https://www.example.com/",
+        hostnames,
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("getThirdPartyVendor", () => {
+  it("matches known vendors by domain", () => {
+    expect(getThirdPartyVendor("www.googletagmanager.com")).toMatchObject({
+      entity: "Google Tag Manager",
+    });
+  });
+
+  it("groups unknown hosts by registrable domain", () => {
+    expect(getThirdPartyVendor("cdn.shop.co.uk")).toEqual({
+      entity: "shop.co.uk",
+      category: "other",
+    });
+  });
+});
@@ -0,0 +1,346 @@
+import { getDomain } from "tldts";
+import { PerformanceEntry, ResourceTiming, Strategy } from "@/types";
+import { getEntryStrategy } from "./utils";
+
+/**
+ * Third-party impact: requests grouped by the vendor (entity) serving them,
+ * with bytes from the resource timings and main-thread cost from
+ * Lighthouse's third-party summary, for one entry and across a page's runs.
+ */
+
+export type ThirdPartyCategory =
+  | "analytics"
+  | "ads"
+  | "tag-manager"
+  | "chat"
+  | "social"
+  | "video"
+  | "cdn"
+  | "other";
+
+export const THIRD_PARTY_CATEGORY_LABELS: Record<ThirdPartyCategory, string> =
+  {
+    analytics: "Analytics",
+    ads: "Advertising",
+    "tag-manager": "Tag manager",
+    chat: "Customer chat",
+    social: "Social",
+    video: "Video",
+    cdn: "CDN",
+    other: "Other",
+  };
+
+interface ThirdPartyVendor {
+  entity: string;
+  category: ThirdPartyCategory;
+  domains: string[]; // Matched with their subdomains
+}
+
+// Entity names follow Lighthouse (third-party-web) so its costs line up
+const THIRD_PARTY_VENDORS: ThirdPartyVendor[] = [
+  {
+    entity: "Google Tag Manager",
+    category: "tag-manager",
+    domains: ["googletagmanager.com"],
+  },
+  {
+    entity: "Adobe Tag Manager",
+    category: "tag-manager",
+    domains: ["adobedtm.com"],
+  },
+  {
+    entity: "Tealium",
+    category: "tag-manager",
+    domains: ["tiqcdn.com", "tealiumiq.com"],
+  },
+  {
+    entity: "Google Analytics",
+    category: "analytics",
+    domains: ["google-analytics.com", "analytics.google.com"],
+  },
+  {
+    entity: "Hotjar",
+    category: "analytics",
+    domains: ["hotjar.com", "hotjar.io"],
+  },
+  {
+    entity: "Segment",
+    category: "analytics",
+    domains: ["segment.com", "segment.io"],
+  },
+  { entity: "Mixpanel", category: "analytics", domains: ["mixpanel.com"] },
+  { entity: "Amplitude", category: "analytics", domains: ["amplitude.com"] },
+  {
+    entity: "Microsoft Clarity",
+    category: "analytics",
+    domains: ["clarity.ms"],
+  },
+  {
+    entity: "Hubspot",
+    category: "analytics",
+    domains: ["hs-scripts.com", "hs-analytics.net", "hubspot.com"],
+  },
+  {
+    entity: "Google/Doubleclick Ads",
+    category: "ads",
+    domains: [
+      "doubleclick.net",
+      "googlesyndication.com",
+      "googleadservices.com",
+      "adservice.google.com",
+    ],
+  },
+  { entity: "Amazon Ads", category: "ads", domains: ["amazon-adsystem.com"] },
+  { entity: "Criteo", category: "ads", domains: ["criteo.com", "criteo.net"] },
+  { entity: "Taboola", category: "ads", domains: ["taboola.com"] },
+  {
+    entity: "Intercom",
+    category: "chat",
+    domains: ["intercom.io", "intercomcdn.com"],
+  },
+  { entity: "Drift", category: "chat", domains: ["drift.com", "driftt.com"] },
+  {
+    entity: "Zendesk",
+    category: "chat",
+    domains: ["zdassets.com", "zendesk.com"],
+  },
+  { entity: "LiveChat", category: "chat", domains: ["livechatinc.com"] },
+  {
+    entity: "Facebook",
+    category: "social",
+    domains: ["facebook.net", "facebook.com"],
+  },
+  {
+    entity: "Twitter",
+    category: "social",
+    domains: ["twitter.com", "twimg.com"],
+  },
+  {
+    entity: "LinkedIn",
+    category: "social",
+    domains: ["licdn.com", "linkedin.com"],
+  },
+  { entity: "TikTok", category: "social", domains: ["tiktok.com"] },
+  {
+    entity: "YouTube",
+    category: "video",
+    domains: ["youtube.com", "ytimg.com", "youtube-nocookie.com"],
+  },
+  {
+    entity: "Vimeo",
+    category: "video",
+    domains: ["vimeo.com", "vimeocdn.com"],
+  },
+  {
+    entity: "Google Fonts",
+    category: "cdn",
+    domains: ["fonts.googleapis.com", "fonts.gstatic.com"],
+  },
+  { entity: "Google CDN", category: "cdn", domains: ["ajax.googleapis.com"] },
+  {
+    entity: "Cloudflare CDN",
+    category: "cdn",
+    domains: ["cdnjs.cloudflare.com"],
+  },
+  { entity: "JSDelivr CDN", category: "cdn", domains: ["cdn.jsdelivr.net"] },
+  { entity: "Unpkg", category: "cdn", domains: ["unpkg.com"] },
+];
+
+function getHostname(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The registrable domain of a hostname, aware of public suffixes such as
+ * "co.uk" and hosting suffixes such as "github.io". IP addresses and
+ * single-label hosts are their own domain.
+ */
+function getRegistrableDomain(hostname: string): string {
+  return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname;
+}
+
+function matchesHostname(pattern: string, hostname: string): boolean {
+  if (pattern.startsWith("*.")) {
+    const domain = pattern.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  return hostname === pattern;
+}
+
+/**
+ * Whether a resource is served by a third party. Without explicit
+ * first-party hostnames, the page's domain and its subdomains count as
+ * first party.
+ */
+export function isThirdParty(
+  resource: Pick<ResourceTiming, "name" | "url">,
+  pageUrl: string,
+  firstPartyHostnames?: string[],
+): boolean {
+  const hostname = getHostname(resource.url ?? resource.name);
+  // Relative names (sample data) are always first party
+  if (!hostname) return false;
+
+  if (firstPartyHostnames && firstPartyHostnames.length > 0) {
+    return !firstPartyHostnames.some((p) => matchesHostname(p, hostname));
+  }
+
+  const pageHost = getHostname(pageUrl);
+  if (!pageHost) return false;
+  return getRegistrableDomain(hostname) !== getRegistrableDomain(pageHost);
+}
+
+/**
+ * The vendor behind a hostname. Unknown hosts are grouped by their
+ * registrable domain, e.g. "cdn.example.net" under "example.net".
+ */
+export function getThirdPartyVendor(
+  hostname: string,
+): Pick<ThirdPartyVendor, "entity" | "category"> {
+  const vendor = THIRD_PARTY_VENDORS.find((v) =>
+    v.domains.some((domain) => matchesHostname(`*.${domain}`, hostname)),
+  );
+  return (
+    vendor ?? {
+      entity: getRegistrableDomain(hostname),
+      category: "other",
+    }
+  );
+}
+
+export interface ThirdPartyEntity {
+  entity: string;
+  category: ThirdPartyCategory;
+  hosts: string[];
+  requests: number;
+  bytes: number;
+  // Lighthouse lab costs; undefined for entries saved without diagnostics
+  mainThreadTime?: number;
+  blockingTime?: number;
+}
+
+/**
+ * Third-party requests of an entry grouped by vendor, most expensive
+ * first. Lighthouse entities are matched by name or by the hosts they
+ * requested; ones missing from the resource timings are listed with
+ * Lighthouse's transfer size.
+ */
+export function summarizeThirdParties(
+  entry: Pick<PerformanceEntry, "url" | "resourceTimings" | "diagnostics">,
+  firstPartyHostnames?: string[],
+): ThirdPartyEntity[] {
+  const entities = new Map<string, ThirdPartyEntity>();
+  const byHost = new Map<string, ThirdPartyEntity>();
+  const lighthouse = entry.diagnostics?.thirdParty;
+
+  for (const resource of entry.resourceTimings) {
+    const hostname = getHostname(resource.url ?? resource.name);
+    if (!hostname || !isThirdParty(resource, entry.url, firstPartyHostnames)) {
+      continue;
+    }
+    const vendor = getThirdPartyVendor(hostname);
+    let row = entities.get(vendor.entity);
+    if (!row) {
+      row = {
+        entity: vendor.entity,
+        category: vendor.category,
+        hosts: [],
+        requests: 0,
+        bytes: 0,
+        mainThreadTime: lighthouse ? 0 : undefined,
+        blockingTime: lighthouse ? 0 : undefined,
+      };
+      entities.set(vendor.entity, row);
+    }
+    if (!row.hosts.includes(hostname)) row.hosts.push(hostname);
+    row.requests += 1;
+    row.bytes += resource.transferSize;
+    byHost.set(hostname, row);
+  }
+
+  for (const item of lighthouse ?? []) {
+    const hosts = item.hosts ?? [];
+    // Skip entities the budget counts as first party, e.g. the site's CDN
+    if (
+      hosts.length > 0 &&
+      !hosts.some((host) =>
+        isThirdParty(
+          { name: `https://${host}/` },
+          entry.url,
+          firstPartyHostnames,
+        ),
+      )
+    ) {
+      continue;
+    }
+
+    let row =
+      entities.get(item.entity) ??
+      hosts.map((host) => byHost.get(host)).find((match) => match);
+    if (!row) {
+      row = {
+        entity: item.entity,
+        category:
+          THIRD_PARTY_VENDORS.find((v) => v.entity === item.entity)?.category ??
+          "other",
+        hosts,
+        requests: 0,
+        bytes: item.transferSize,
+        mainThreadTime: 0,
+        blockingTime: 0,
+      };
+      entities.set(item.entity, row);
+    }
+    row.mainThreadTime = (row.mainThreadTime ?? 0) + item.mainThreadTime;
+    row.blockingTime = (row.blockingTime ?? 0) + item.blockingTime;
+  }
+
+  return Array.from(entities.values()).sort(
+    (a, b) =>
+      (b.blockingTime ?? 0) - (a.blockingTime ?? 0) || b.bytes - a.bytes,
+  );
+}
+
+export interface VendorCostPoint {
+  entryId: string;
+  timestamp: string;
+  vendors: Record<string, Pick<ThirdPartyEntity, "bytes" | "blockingTime">>;
+}
+
+/**
+ * Cost of every vendor per run of a page, oldest first, so a vendor's
+ * growth (or a new vendor) shows up as a change between runs. Runs are
+ * filtered to one strategy as in the trends view.
+ */
+export function computeVendorHistory(
+  entries: PerformanceEntry[],
+  options: { url: string; strategy: Strategy; firstPartyHostnames?: string[] },
+): VendorCostPoint[] {
+  return entries
+    .filter(
+      (entry) =>
+        entry.url === options.url &&
+        getEntryStrategy(entry) === options.strategy,
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    )
+    .map((entry) => ({
+      entryId: entry.id,
+      timestamp: new Date(entry.timestamp).toISOString(),
+      vendors: Object.fromEntries(
+        summarizeThirdParties(entry, options.firstPartyHostnames).map(
+          (row) => [
+            row.entity,
+            { bytes: row.bytes, blockingTime: row.blockingTime },
+          ],
+        ),
+      ),
+    }));
+}
@@ -0,0 +1,448 @@
+import { PerformanceEntry } from "@/types";
+
+/**
+ * Chrome DevTools performance traces (trace event JSON, as saved from the
+ * Performance panel) reduced to what the trace viewer shows: the main
+ * thread's call tree, its long tasks and the page's interactions.
+ * Format: https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+ */
+
+// Subset of a trace event read here; times are in microseconds
+interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  id?: string;
+  id2?: { local?: string; global?: string };
+  args?: {
+    name?: string;
+    frame?: string;
+    data?: Record<string, unknown>;
+  };
+}
+
+export type TraceCategory =
+  | "scripting"
+  | "rendering"
+  | "painting"
+  | "loading"
+  | "gc"
+  | "other";
+
+export const TRACE_CATEGORY_LABELS: Record<TraceCategory, string> = {
+  scripting: "Scripting",
+  rendering: "Rendering",
+  painting: "Painting",
+  loading: "Loading",
+  gc: "Garbage collection",
+  other: "Other",
+};
+
+// A main-thread event in the call tree; times in ms from the trace start
+export interface TraceSlice {
+  name: string;
+  category: TraceCategory;
+  start: number;
+  duration: number;
+  depth: number;
+  url?: string;
+}
+
+export interface LongTask {
+  start: number;
+  duration: number;
+  blockingTime: number; // Time past the 50ms budget
+  // Script time by URL, largest first
+  scripts: { url: string; duration: number }[];
+}
+
+export interface TraceInteraction {
+  id: number;
+  type: string; // Event type, e.g. "click" or "keydown"
+  start: number;
+  duration: number;
+  inputDelay: number;
+  processing: number;
+  presentationDelay: number;
+}
+
+export interface TraceProfile {
+  url?: string; // Page the trace was recorded on
+  duration: number;
+  slices: TraceSlice[];
+  longTasks: LongTask[];
+  interactions: TraceInteraction[];
+  totalBlockingTime: number;
+}
+
+export const LONG_TASK_MS = 50;
+
+// Shorter events are dropped from the call tree; they cannot be seen and
+// large traces hold hundreds of thousands of them
+const MIN_SLICE_MS = 0.1;
+
+const EVENT_LABELS: Record<string, string> = {
+  RunTask: "Task",
+  "ThreadControllerImpl::RunTask": "Task",
+  EvaluateScript: "Evaluate script",
+  "v8.compile": "Compile script",
+  "v8.compileModule": "Compile module",
+  "v8.evaluateModule": "Evaluate module",
+  FunctionCall: "Function call",
+  TimerFire: "Timer fired",
+  EventDispatch: "Event",
+  FireAnimationFrame: "Animation frame fired",
+  RunMicrotasks: "Run microtasks",
+  UpdateLayoutTree: "Recalculate style",
+  Layout: "Layout",
+  UpdateLayerTree: "Update layer tree",
+  HitTest: "Hit test",
+  PrePaint: "Pre-paint",
+  Paint: "Paint",
+  Layerize: "Layerize",
+  CompositeLayers: "Composite layers",
+  "Decode Image": "Decode image",
+  ParseHTML: "Parse HTML",
+  ParseAuthorStyleSheet: "Parse stylesheet",
+  MinorGC: "Minor GC",
+  MajorGC: "Major GC",
+};
+
+const EVENT_CATEGORIES: Record<string, TraceCategory> = {
+  EvaluateScript: "scripting",
+  "v8.compile": "scripting",
+  "v8.compileModule": "scripting",
+  "v8.evaluateModule": "scripting",
+  FunctionCall: "scripting",
+  TimerFire: "scripting",
+  EventDispatch: "scripting",
+  FireAnimationFrame: "scripting",
+  RunMicrotasks: "scripting",
+  UpdateLayoutTree: "rendering",
+  Layout: "rendering",
+  UpdateLayerTree: "rendering",
+  HitTest: "rendering",
+  PrePaint: "painting",
+  Paint: "painting",
+  Layerize: "painting",
+  CompositeLayers: "painting",
+  "Decode Image": "painting",
+  ParseHTML: "loading",
+  ParseAuthorStyleSheet: "loading",
+};
+
+function getCategory(event: TraceEvent): TraceCategory {
+  const category = EVENT_CATEGORIES[event.name];
+  if (category) return category;
+  if (/GC/.test(event.name)) return "gc";
+  if (event.cat?.includes("v8")) return "scripting";
+  return "other";
+}
+
+function isTask(name: string): boolean {
+  return name === "RunTask" || name === "ThreadControllerImpl::RunTask";
+}
+
+function getEvents(json: unknown): TraceEvent[] {
+  // DevTools saves { traceEvents, metadata }, older tools a bare array
+  const events = Array.isArray(json)
+    ? json
+    : (json as { traceEvents?: unknown } | null)?.traceEvents;
+  if (!Array.isArray(events)) {
+    throw new Error("Not a trace: expected an array of trace events");
+  }
+  return events.filter(
+    (event): event is TraceEvent =>
+      typeof event?.name === "string" && typeof event.ts === "number",
+  );
+}
+
+// The inspected page's main frame, as recorded by DevTools
+function getMainFrame(
+  events: TraceEvent[],
+): { processId?: number; url?: string } | undefined {
+  const started = events.find(
+    (event) => event.name === "TracingStartedInBrowser",
+  );
+  const frames = (started?.args?.data?.frames ?? []) as {
+    processId?: number;
+    url?: string;
+    parent?: string;
+  }[];
+  return frames.find((frame) => !frame.parent);
+}
+
+// The renderer main thread of the main frame's process; traces recorded
+// by other tools fall back to the busiest renderer
+function findMainThread(
+  events: TraceEvent[],
+): { pid: number; tid: number } | undefined {
+  const candidates = events.filter(
+    (event) =>
+      event.ph === "M" &&
+      event.name === "thread_name" &&
+      event.args?.name === "CrRendererMain",
+  );
+
+  const mainPid = getMainFrame(events)?.processId;
+  const main = candidates.find((event) => event.pid === mainPid);
+  if (main) return { pid: main.pid, tid: main.tid };
+
+  const taskCounts = new Map<string, number>();
+  for (const event of events) {
+    if (isTask(event.name)) {
+      const key = `${event.pid}:${event.tid}`;
+      taskCounts.set(key, (taskCounts.get(key) ?? 0) + 1);
+    }
+  }
+  const busiest = candidates.sort(
+    (a, b) =>
+      (taskCounts.get(`${b.pid}:${b.tid}`) ?? 0) -
+      (taskCounts.get(`${a.pid}:${a.tid}`) ?? 0),
+  )[0];
+  return busiest && { pid: busiest.pid, tid: busiest.tid };
+}
+
+function findPageUrl(events: TraceEvent[]): string | undefined {
+  const navigation = events.find(
+    (event) =>
+      event.name === "navigationStart" &&
+      event.args?.data?.isLoadingMainFrame === true,
+  );
+  const documentUrl = navigation?.args?.data?.documentLoaderURL;
+  if (typeof documentUrl === "string" && documentUrl) return documentUrl;
+
+  return getMainFrame(events)?.url || undefined;
+}
+
+// Complete events, with begin/end pairs merged into them, in call order
+function toCompleteEvents(events: TraceEvent[]): TraceEvent[] {
+  const complete: TraceEvent[] = [];
+  const open: TraceEvent[] = [];
+  for (const event of [...events].sort((a, b) => a.ts - b.ts)) {
+    if (event.ph === "X") {
+      complete.push(event);
+    } else if (event.ph === "B") {
+      open.push(event);
+    } else if (event.ph === "E") {
+      const begin = open.pop();
+      if (begin) {
+        complete.push({ ...begin, ph: "X", dur: event.ts - begin.ts });
+      }
+    }
+  }
+  // Parents (longer events) before the children starting with them
+  return complete.sort((a, b) => a.ts - b.ts || (b.dur ?? 0) - (a.dur ?? 0));
+}
+
+function getUrl(event: TraceEvent): string | undefined {
+  const url = event.args?.data?.url;
+  return typeof url === "string" && url ? url : undefined;
+}
+
+/**
+ * Build the main-thread call tree and its long tasks. Script time in a
+ * long task is attributed to the outermost event naming a script URL.
+ */
+function analyzeMainThread(events: TraceEvent[], origin: number) {
+  const slices: TraceSlice[] = [];
+  const longTasks: LongTask[] = [];
+  const taskScripts: Map<string, number>[] = [];
+  // Open ancestors, each with the nearest script URL at or above it
+  const stack: { end: number; url?: string }[] = [];
+  let taskEnd = -Infinity;
+
+  for (const event of toCompleteEvents(events)) {
+    const eventEnd = event.ts + (event.dur ?? 0);
+    const start = (event.ts - origin) / 1000;
+    const duration = (event.dur ?? 0) / 1000;
+    while (stack.length > 0 && stack[stack.length - 1].end <= event.ts) {
+      stack.pop();
+    }
+
+    const inheritedUrl = stack[stack.length - 1]?.url;
+    const url = getUrl(event);
+    if (stack.length === 0 && isTask(event.name)) {
+      if (duration > LONG_TASK_MS) {
+        longTasks.push({
+          start,
+          duration,
+          blockingTime: duration - LONG_TASK_MS,
+          scripts: [],
+        });
+        taskScripts.push(new Map());
+        taskEnd = eventEnd;
+      }
+    } else if (url && !inheritedUrl && event.ts < taskEnd) {
+      const scripts = taskScripts[taskScripts.length - 1];
+      scripts.set(url, (scripts.get(url) ?? 0) + duration);
+    }
+
+    if (duration >= MIN_SLICE_MS) {
+      slices.push({
+        name: EVENT_LABELS[event.name] ?? event.name,
+        category: getCategory(event),
+        start,
+        duration,
+        depth: stack.length,
+        url: url ?? inheritedUrl,
+      });
+    }
+    stack.push({ end: eventEnd, url: url ?? inheritedUrl });
+  }
+
+  longTasks.forEach((longTask, index) => {
+    longTask.scripts = Array.from(taskScripts[index], ([url, duration]) => ({
+      url,
+      duration,
+    })).sort((a, b) => b.duration - a.duration);
+  });
+  return { slices, longTasks };
+}
+
+/**
+ * Interactions from the EventTiming events Chrome records for every input.
+ * An interaction (one tap or key press) dispatches several events; as in
+ * INP, the longest one stands for it. The breakdown follows DevTools:
+ * input delay until the handlers start, processing while they run, and
+ * presentation delay until the next frame is shown.
+ */
+function findInteractions(
+  events: TraceEvent[],
+  origin: number,
+): TraceInteraction[] {
+  const ends = new Map<string, number>();
+  for (const event of events) {
+    if (event.name === "EventTiming" && event.ph === "e") {
+      ends.set(event.id2?.local ?? event.id ?? "", event.ts);
+    }
+  }
+
+  const interactions = new Map<number, TraceInteraction>();
+  for (const event of events) {
+    if (event.name !== "EventTiming" || event.ph !== "b") continue;
+    const data = event.args?.data as
+      | {
+          interactionId?: number;
+          type?: string;
+          timeStamp?: number;
+          processingStart?: number;
+          processingEnd?: number;
+        }
+      | undefined;
+    const end = ends.get(event.id2?.local ?? event.id ?? "");
+    if (
+      !data?.interactionId ||
+      end === undefined ||
+      data.timeStamp === undefined ||
+      data.processingStart === undefined ||
+      data.processingEnd === undefined
+    ) {
+      continue;
+    }
+
+    const duration = (end - event.ts) / 1000;
+    const inputDelay = Math.max(0, data.processingStart - data.timeStamp);
+    const processing = Math.max(0, data.processingEnd - data.processingStart);
+    const interaction: TraceInteraction = {
+      id: data.interactionId,
+      type: data.type ?? "unknown",
+      start: (event.ts - origin) / 1000,
+      duration,
+      inputDelay,
+      processing,
+      presentationDelay: Math.max(0, duration - inputDelay - processing),
+    };
+    const existing = interactions.get(interaction.id);
+    if (!existing || interaction.duration > existing.duration) {
+      interactions.set(interaction.id, interaction);
+    }
+  }
+
+  return Array.from(interactions.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse a trace into a profile of its main thread. Times are relative to
+ * the main frame's navigation when the trace recorded one, else to the
+ * first main-thread event. Throws on malformed input.
+ */
+export function parseTrace(json: unknown): TraceProfile {
+  const events = getEvents(json);
+  const thread = findMainThread(events);
+  if (!thread) {
+    throw new Error("The trace has no renderer main thread");
+  }
+
+  const mainThread = events.filter(
+    (event) =>
+      event.pid === thread.pid &&
+      event.tid === thread.tid &&
+      ["X", "B", "E"].includes(event.ph),
+  );
+  if (mainThread.length === 0) {
+    throw new Error("The trace recorded no main-thread activity");
+  }
+
+  const navigation = events.find(
+    (event) =>
+      event.name === "navigationStart" &&
+      event.pid === thread.pid &&
+      event.args?.data?.isLoadingMainFrame === true,
+  );
+  // Reduced rather than spread: traces hold too many events for arguments
+  const origin =
+    navigation?.ts ??
+    mainThread.reduce((min, event) => Math.min(min, event.ts), Infinity);
+  const end = mainThread.reduce(
+    (max, event) => Math.max(max, event.ts + (event.dur ?? 0)),
+    -Infinity,
+  );
+
+  const { slices, longTasks } = analyzeMainThread(mainThread, origin);
+  return {
+    url: findPageUrl(events),
+    duration: (end - origin) / 1000,
+    slices,
+    longTasks,
+    interactions: findInteractions(
+      events.filter((event) => event.pid === thread.pid),
+      origin,
+    ),
+    totalBlockingTime: longTasks.reduce(
+      (total, longTask) => total + longTask.blockingTime,
+      0,
+    ),
+  };
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname.replace(/\/$/, "")}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The latest analysis of the page a trace was recorded on, ignoring query
+ * strings, hashes and trailing slashes.
+ */
+export function findEntryForTrace(
+  entries: PerformanceEntry[],
+  profile: Pick<TraceProfile, "url">,
+): PerformanceEntry | undefined {
+  if (!profile.url) return undefined;
+  const url = normalizeUrl(profile.url);
+  return entries
+    .filter((entry) => normalizeUrl(entry.url) === url)
+    .sort(
+      (a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+    )[0];
+}
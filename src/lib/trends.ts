@@ -0,0 +1,105 @@
+import { MetricKey, PerformanceEntry, Strategy } from "@/types";
+import { getEntryStrategy, hasLabScore } from "./utils";
+
+/**
+ * Trends engine: buckets entries by day or week and aggregates one metric
+ * per bucket. Entries are always filtered to a single strategy so mobile
+ * and desktop runs are never mixed in one series.
+ */
+
+export type TrendMetric = MetricKey | "score";
+export type TrendInterval = "day" | "week";
+export type TrendAggregation = "median" | "p75" | "min" | "max";
+
+export interface TrendPoint {
+  date: string; // Bucket start, YYYY-MM-DD (UTC)
+  count: number;
+  median: number;
+  p75: number;
+  min: number;
+  max: number;
+}
+
+export interface TrendOptions {
+  metric: TrendMetric;
+  strategy: Strategy;
+  interval: TrendInterval;
+  url?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Percentile using linear interpolation between closest ranks.
+ * `values` must be sorted ascending.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const rank = (p / 100) * (values.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+}
+
+export function getTrendValue(
+  entry: Pick<PerformanceEntry, "metrics" | "overallScore" | "source">,
+  metric: TrendMetric,
+): number | undefined {
+  if (metric === "score") {
+    return hasLabScore(entry) ? entry.overallScore : undefined;
+  }
+  return entry.metrics[metric];
+}
+
+function bucketStart(
+  timestamp: Date | string,
+  interval: TrendInterval,
+): string {
+  const date = new Date(timestamp);
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  if (interval === "week") {
+    // ISO weeks start on Monday
+    const offset = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - offset);
+  }
+  return day.toISOString().split("T")[0];
+}
+
+export function computeTrends(
+  entries: PerformanceEntry[],
+  options: TrendOptions,
+): TrendPoint[] {
+  const from = options.from?.getTime() ?? -Infinity;
+  const to = options.to?.getTime() ?? Infinity;
+  const buckets = new Map<string, number[]>();
+
+  for (const entry of entries) {
+    if (options.url && entry.url !== options.url) continue;
+    if (getEntryStrategy(entry) !== options.strategy) continue;
+
+    const time = new Date(entry.timestamp).getTime();
+    if (time < from || time > to) continue;
+
+    const value = getTrendValue(entry, options.metric);
+    if (value === undefined) continue;
+
+    const key = bucketStart(entry.timestamp, options.interval);
+    buckets.set(key, [...(buckets.get(key) ?? []), value]);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, values]) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        date,
+        count: sorted.length,
+        median: percentile(sorted, 50),
+        p75: percentile(sorted, 75),
+        min: sorted[0],
+        max: sorted[sorted.length - 1],
+      };
+    });
+}
@@ -1,4 +1,11 @@
 import { type ClassValue, clsx } from "clsx";
+import type {
+  FieldData,
+  FieldMetric,
+  MetricKey,
+  PerformanceEntry,
+  Strategy,
+} from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
@@ -90,3 +97,45 @@ export function formatDate(
     timeZone: "UTC",
   });
 }
+
+/**
+ * Resolve the device strategy of an entry. Entries persisted before the
+ * strategy selector existed were always analyzed as mobile.
+ */
+export function getEntryStrategy(
+  entry: Pick<PerformanceEntry, "strategy">,
+): Strategy {
+  return entry.strategy ?? "mobile";
+}
+
+/**
+ * Whether an entry's overall score comes from a Lighthouse lab run. HAR
+ * imports only carry the timings the browser recorded (often just TTFB),
+ * so their score is left out of averages, trends, baselines and alerts.
+ */
+export function hasLabScore(entry: Pick<PerformanceEntry, "source">): boolean {
+  return entry.source !== "har";
+}
+
+export function filterByStrategy<T extends { strategy?: Strategy }>(
+  items: T[],
+  strategy: Strategy | "all",
+): T[] {
+  if (strategy === "all") return items;
+  return items.filter((item) => getEntryStrategy(item) === strategy);
+}
+
+/**
+ * Real-user p75 for a metric, preferring page-level CrUX data over the
+ * origin aggregate.
+ */
+export function getFieldMetric(
+  entry: Pick<PerformanceEntry, "fieldData">,
+  key: MetricKey,
+): { metric: FieldMetric; scope: FieldData["scope"] } | undefined {
+  const page = entry.fieldData?.page?.metrics[key];
+  if (page) return { metric: page, scope: "page" };
+  const origin = entry.fieldData?.origin?.metrics[key];
+  if (origin) return { metric: origin, scope: "origin" };
+  return undefined;
+}
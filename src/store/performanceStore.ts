@@ -1,45 +1,53 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import { PerformanceEntry, HistoricalData } from "@/types";
+import { PerformanceEntry } from "@/types";
 import { v4 as uuidv4 } from "uuid";
+import * as entriesApi from "@/lib/entriesClient";
+
+// Local cache size; the server keeps the full history
+const MAX_LOCAL_ENTRIES = 100;
+
+// Rejected changes kept for display
+const MAX_REJECTED_OPS = 20;
+
+// Changes made while the server was unreachable, replayed on the next sync
+type PendingOp =
+  | { type: "add"; entry: PerformanceEntry; backfill?: boolean }
+  | { type: "remove"; id: string }
+  | { type: "clear" };
+
+// Changes the server refused, e.g. an entry failing validation
+export interface RejectedOp {
+  op: PendingOp;
+  error: string;
+  rejectedAt: string;
+}
+
+export type SyncStatus = "idle" | "syncing" | "synced" | "offline";
 
 interface PerformanceState {
   entries: PerformanceEntry[];
-  historicalData: HistoricalData[];
   isMonitoring: boolean;
   currentUrl: string;
   isHydrated: boolean;
+  syncStatus: SyncStatus;
+  pendingOps: PendingOp[];
+  rejectedOps: RejectedOp[];
+  lastSyncedAt: string | null;
 
   // Actions
-  addEntry: (entry: Omit<PerformanceEntry, "id">) => void;
+  addEntry: (
+    entry: Omit<PerformanceEntry, "id"> & { id?: string },
+  ) => PerformanceEntry;
   removeEntry: (id: string) => void;
   clearEntries: () => void;
+  syncWithServer: () => Promise<void>;
   setMonitoring: (isMonitoring: boolean) => void;
   setCurrentUrl: (url: string) => void;
-  addHistoricalData: (data: Omit<HistoricalData, "date">) => void;
   initializeSampleData: () => void;
   setHydrated: (hydrated: boolean) => void;
 }
 
-// Completely static sample historical data - no randomness at all
-const staticHistoricalData: HistoricalData[] = [
-  { date: "2024-01-01", lcp: 2100, fcp: 1400, cls: 0.08, ttfb: 520, score: 78 },
-  { date: "2024-01-02", lcp: 2250, fcp: 1520, cls: 0.12, ttfb: 580, score: 72 },
-  { date: "2024-01-03", lcp: 1950, fcp: 1350, cls: 0.06, ttfb: 480, score: 82 },
-  { date: "2024-01-04", lcp: 2400, fcp: 1600, cls: 0.15, ttfb: 620, score: 68 },
-  { date: "2024-01-05", lcp: 2050, fcp: 1420, cls: 0.09, ttfb: 510, score: 76 },
-  { date: "2024-01-06", lcp: 1850, fcp: 1280, cls: 0.05, ttfb: 450, score: 85 },
-  { date: "2024-01-07", lcp: 2150, fcp: 1480, cls: 0.11, ttfb: 560, score: 74 },
-  { date: "2024-01-08", lcp: 2300, fcp: 1550, cls: 0.13, ttfb: 600, score: 70 },
-  { date: "2024-01-09", lcp: 1900, fcp: 1320, cls: 0.07, ttfb: 470, score: 80 },
-  { date: "2024-01-10", lcp: 2000, fcp: 1380, cls: 0.08, ttfb: 500, score: 77 },
-  { date: "2024-01-11", lcp: 2200, fcp: 1500, cls: 0.1, ttfb: 550, score: 73 },
-  { date: "2024-01-12", lcp: 1800, fcp: 1250, cls: 0.04, ttfb: 420, score: 88 },
-  { date: "2024-01-13", lcp: 2350, fcp: 1580, cls: 0.14, ttfb: 610, score: 69 },
-  { date: "2024-01-14", lcp: 2100, fcp: 1450, cls: 0.09, ttfb: 530, score: 75 },
-  { date: "2024-01-15", lcp: 1950, fcp: 1340, cls: 0.06, ttfb: 490, score: 81 },
-];
-
 // Completely static sample entries - no randomness at all
 const staticSampleEntries: PerformanceEntry[] = [
   {
@@ -194,46 +202,164 @@ const staticSampleEntries: PerformanceEntry[] = [
   },
 ];
 
+function applyOp(op: PendingOp): Promise<void> {
+  switch (op.type) {
+    case "add":
+      return entriesApi.createEntry(op.entry, { backfill: op.backfill });
+    case "remove":
+      return entriesApi.deleteEntry(op.id);
+    case "clear":
+      return entriesApi.clearEntries();
+  }
+}
+
+// The server answered but refused the change (4xx), so replaying it cannot
+// succeed. Network errors and 5xx responses are retried.
+function isRejection(error: unknown): error is entriesApi.EntriesApiError {
+  return error instanceof entriesApi.EntriesApiError && error.status < 500;
+}
+
+function addRejection(
+  rejectedOps: RejectedOp[],
+  op: PendingOp,
+  error: Error,
+): RejectedOp[] {
+  const rejected = {
+    op,
+    error: error.message,
+    rejectedAt: new Date().toISOString(),
+  };
+  return [...rejectedOps, rejected].slice(-MAX_REJECTED_OPS);
+}
+
+// Send a change to the server, queueing it for the next sync when the server
+// cannot be reached or fails
+function pushToServer(op: PendingOp) {
+  const { pendingOps } = usePerformanceStore.getState();
+  if (pendingOps.length > 0) {
+    usePerformanceStore.setState({ pendingOps: [...pendingOps, op] });
+    return;
+  }
+
+  applyOp(op)
+    .then(() => usePerformanceStore.setState({ syncStatus: "synced" }))
+    .catch((error) =>
+      usePerformanceStore.setState((state) =>
+        isRejection(error)
+          ? {
+              rejectedOps: addRejection(state.rejectedOps, op, error),
+              syncStatus: "synced",
+            }
+          : {
+              pendingOps: [...state.pendingOps, op],
+              syncStatus: "offline",
+            },
+      ),
+    );
+}
+
 export const usePerformanceStore = create<PerformanceState>()(
   persist(
     (set, get) => ({
       entries: staticSampleEntries,
-      historicalData: staticHistoricalData,
       isMonitoring: false,
       currentUrl: "",
       isHydrated: false,
 
-      addEntry: (entry) =>
+      syncStatus: "idle",
+      pendingOps: [],
+      rejectedOps: [],
+      lastSyncedAt: null,
+
+      // Entry changes are applied locally first, then sent to the server
+      addEntry: (entry) => {
+        const newEntry = { ...entry, id: entry.id ?? uuidv4() };
         set((state) => ({
-          entries: [{ ...entry, id: uuidv4() }, ...state.entries].slice(0, 100),
-        })),
+          entries: [newEntry, ...state.entries].slice(0, MAX_LOCAL_ENTRIES),
+        }));
+        pushToServer({ type: "add", entry: newEntry });
+        return newEntry;
+      },
 
-      removeEntry: (id) =>
+      removeEntry: (id) => {
         set((state) => ({
           entries: state.entries.filter((e) => e.id !== id),
-        })),
+        }));
+        pushToServer({ type: "remove", id });
+      },
+
+      clearEntries: () => {
+        set({ entries: [] });
+        pushToServer({ type: "clear" });
+      },
+
+      syncWithServer: async () => {
+        set({ syncStatus: "syncing" });
+
+        if (!get().lastSyncedAt) {
+          // First sync from this browser: upload history that so far only
+          // lived in local storage (saving is an upsert, so repeats are safe)
+          const localEntries = get().entries.filter(
+            (e) => !e.id.startsWith("sample-"),
+          );
+          set((state) => ({
+            pendingOps: [
+              ...localEntries.map((entry) => ({
+                type: "add" as const,
+                entry,
+                backfill: true,
+              })),
+              ...state.pendingOps,
+            ],
+          }));
+        }
 
-      clearEntries: () => set({ entries: [] }),
+        // Replay offline changes in order, stopping when the server cannot
+        // be reached. Rejected changes are set aside so they do not block
+        // the ones after them.
+        while (get().pendingOps.length > 0) {
+          const op = get().pendingOps[0];
+          try {
+            await applyOp(op);
+            set((state) => ({ pendingOps: state.pendingOps.slice(1) }));
+          } catch (error) {
+            if (!isRejection(error)) {
+              set({ syncStatus: "offline" });
+              return;
+            }
+            set((state) => ({
+              pendingOps: state.pendingOps.slice(1),
+              rejectedOps: addRejection(state.rejectedOps, op, error),
+            }));
+          }
+        }
+
+        try {
+          const remote = await entriesApi.fetchEntries({
+            limit: MAX_LOCAL_ENTRIES,
+          });
+          set((state) => ({
+            // Keep the sample entries until the first real analysis is stored
+            entries:
+              remote.length > 0
+                ? remote
+                : state.entries.filter((e) => e.id.startsWith("sample-")),
+            syncStatus: "synced",
+            lastSyncedAt: new Date().toISOString(),
+          }));
+        } catch {
+          set({ syncStatus: "offline" });
+        }
+      },
 
       setMonitoring: (isMonitoring) => set({ isMonitoring }),
 
       setCurrentUrl: (currentUrl) => set({ currentUrl }),
 
-      addHistoricalData: (data) =>
-        set((state) => ({
-          historicalData: [
-            ...state.historicalData,
-            { ...data, date: new Date().toISOString().split("T")[0] },
-          ].slice(-90),
-        })),
-
       initializeSampleData: () => {
         const state = get();
         if (state.entries.length === 0) {
-          set({
-            entries: staticSampleEntries,
-            historicalData: staticHistoricalData,
-          });
+          set({ entries: staticSampleEntries });
         }
       },
 
@@ -242,6 +368,13 @@ export const usePerformanceStore = create<PerformanceState>()(
     {
       name: "performance-store",
       storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        entries: state.entries,
+        currentUrl: state.currentUrl,
+        pendingOps: state.pendingOps,
+        rejectedOps: state.rejectedOps,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
       onRehydrateStorage: () => (state) => {
         state?.setHydrated(true);
       },
@@ -7,10 +7,21 @@ export interface WebVitalsMetric {
   navigationType: string;
 }
 
+export type Strategy = "mobile" | "desktop";
+
+// Site stack detected from the page's resources, used to pick rule packs
+export type Framework = "nextjs" | "nuxt" | "react" | "vue" | "wordpress";
+
+// How an entry was captured; entries without a source are PageSpeed runs
+export type EntrySource = "har" | "lighthouse";
+
 export interface PerformanceEntry {
   id: string;
   url: string;
   timestamp: Date;
+  strategy?: Strategy; // Entries saved before the selector existed are mobile
+  framework?: Framework; // Unset when no known stack was detected
+  source?: EntrySource;
   metrics: {
     lcp?: number;
     fcp?: number;
@@ -20,9 +31,147 @@ export interface PerformanceEntry {
     ttfb?: number;
   };
   resourceTimings: ResourceTiming[];
+  pageTimings?: { onContentLoad?: number; onLoad?: number }; // ms, from HAR imports
   overallScore: number;
   componentAnalysis?: ComponentAnalysis[];
   aiSuggestions?: AISuggestion[];
+  categoryScores?: Partial<Record<LighthouseCategory, number>>; // Lighthouse category scores, 0-100
+  opportunities?: LighthouseAuditSummary[]; // Performance opportunities, largest savings first
+  failedAudits?: LighthouseAuditSummary[]; // Failing accessibility, SEO and best-practices audits
+  diagnostics?: LighthouseDiagnostics; // Behind the component analysis
+  fieldData?: {
+    page?: FieldData;
+    origin?: FieldData;
+  };
+  monitorId?: string; // Set when the run was triggered by a scheduled monitor
+  runSet?: RunSet; // Set when the entry is the median of several runs
+}
+
+export type MetricKey = keyof PerformanceEntry["metrics"];
+
+// Distribution of one value across the runs of a run set
+export interface MetricSpread {
+  median: number;
+  min: number;
+  max: number;
+  stddev: number;
+}
+
+/**
+ * Several runs of the same URL and strategy. The entry carrying the run set
+ * holds the full result of the median run; the other runs are kept only as
+ * samples for spread reporting.
+ */
+export interface RunSet {
+  id: string;
+  runs: number;
+  medianRun: number; // Index into `samples`
+  score: MetricSpread;
+  metrics: Partial<Record<MetricKey, MetricSpread>>;
+  samples: {
+    timestamp: string;
+    overallScore: number;
+    metrics: PerformanceEntry["metrics"];
+  }[];
+}
+
+// Real-user (CrUX) p75 value and rating distribution for one metric
+export interface FieldMetric {
+  p75: number;
+  distribution: {
+    good: number; // Proportions between 0 and 1
+    needsImprovement: number;
+    poor: number;
+  };
+}
+
+export interface FieldData {
+  scope: "page" | "origin";
+  id?: string; // URL or origin the data was collected for
+  overallCategory?: string;
+  metrics: Partial<Record<MetricKey, FieldMetric>>;
+}
+
+export type LighthouseCategory =
+  | "performance"
+  | "accessibility"
+  | "best-practices"
+  | "seo";
+
+export interface LighthouseAuditSummary {
+  id: string;
+  title: string;
+  description?: string;
+  category: LighthouseCategory;
+  score: number | null; // 0-1 as reported by Lighthouse
+  weight?: number; // Weight of the audit within its category
+  displayValue?: string;
+  savingsMs?: number;
+  savingsBytes?: number;
+}
+
+// A file and the time (ms) or bytes a diagnostic attributes to it
+export interface DiagnosticItem {
+  url: string;
+  value: number;
+  total?: number; // e.g. the file's transfer size next to its unused bytes
+}
+
+export interface ThirdPartyEntitySummary {
+  entity: string; // e.g. "Google Analytics"
+  transferSize: number;
+  blockingTime: number; // ms of main-thread blocking time
+  mainThreadTime: number;
+  hosts?: string[]; // Hostnames of the entity's requests
+}
+
+/**
+ * Lighthouse diagnostics condensed to totals and their largest
+ * contributors. Each field is unset when the report did not include the
+ * audit.
+ */
+export interface LighthouseDiagnostics {
+  totalBlockingTime?: number;
+  // `mainthread-work-breakdown`, e.g. script evaluation, style & layout
+  mainThread?: {
+    total: number;
+    groups: { group: string; label: string; duration: number }[];
+  };
+  // `bootup-time`: CPU time per script
+  bootup?: {
+    total: number;
+    scripts: (DiagnosticItem & { scripting: number; parse: number })[];
+  };
+  unusedJavascript?: { wastedBytes: number; items: DiagnosticItem[] };
+  unusedCss?: { wastedBytes: number; items: DiagnosticItem[] };
+  // Render-blocking requests, valued by the time Lighthouse estimates
+  // deferring them would save
+  renderBlocking?: { wastedMs: number; items: DiagnosticItem[] };
+  // Fonts without font-display, valued by the time text stays invisible
+  fontDisplay?: DiagnosticItem[];
+  // Combined savings of the image audits (format, sizing, compression,
+  // offscreen), per image
+  imageSavings?: { wastedBytes: number; items: DiagnosticItem[] };
+  thirdParty?: ThirdPartyEntitySummary[];
+}
+
+/**
+ * Phases of a request in ms, laid out in this order from `startTime` as in
+ * HAR timings. `connect` includes `ssl`; phases that did not happen (e.g.
+ * on a reused connection) are unset.
+ */
+export interface ResourceTimingPhases {
+  queueing?: number; // Blocked or stalled before the request was sent
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  wait?: number; // Waiting for the first byte
+  download?: number;
+}
+
+export interface HttpHeader {
+  name: string;
+  value: string;
 }
 
 export interface ResourceTiming {
@@ -31,15 +180,158 @@ export interface ResourceTiming {
   duration: number;
   transferSize: number;
   startTime: number;
+  // Populated for Lighthouse network requests
+  url?: string;
+  origin?: string;
+  resourceType?: string;
+  mimeType?: string;
+  priority?: string;
+  renderBlocking?: boolean;
+  protocol?: string; // e.g. "h2", "http/1.1"
+  statusCode?: number;
+  timings?: ResourceTimingPhases;
+  timingsEstimated?: boolean; // Derived from per-origin RTT and server latency
+  requestHeaders?: HttpHeader[];
+  responseHeaders?: HttpHeader[];
 }
 
-export interface HistoricalData {
-  date: string;
-  lcp: number;
-  fcp: number;
-  cls: number;
-  ttfb: number;
-  score: number;
+// Upper limits for metrics (ms, CLS unitless) and a lower limit for the score
+export type MetricBudgets = Partial<Record<MetricKey, number>> & {
+  score?: number;
+};
+
+// Resource groups used by Lighthouse budget.json
+export type BudgetResourceType =
+  | "total"
+  | "document"
+  | "script"
+  | "stylesheet"
+  | "image"
+  | "media"
+  | "font"
+  | "other"
+  | "third-party";
+
+export interface BudgetDefinition {
+  id: string;
+  name: string;
+  path: string; // Lighthouse path pattern, e.g. "/products/*" or "/$"
+  strategy?: Strategy; // Both strategies when unset
+  metrics: MetricBudgets;
+  resourceSizes: Partial<Record<BudgetResourceType, number>>; // Bytes
+  resourceCounts: Partial<Record<BudgetResourceType, number>>;
+  firstPartyHostnames?: string[]; // e.g. "*.example.com"; page host when unset
+  mustJustifyVendors?: string[]; // Third-party entities flagged for review, e.g. "Hotjar"
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BudgetCheckStatus = "pass" | "warning" | "fail";
+
+// One row of a budget report, shared by the budget view and the CI gate
+export interface BudgetCheck {
+  id: string; // e.g. "metric:lcp", "size:script", "count:total"
+  name: string;
+  description: string;
+  unit: "ms" | "score" | "unitless" | "bytes" | "count";
+  actual: number;
+  budget: number;
+  source: string; // "lab", "field p75" or "field p75, origin"
+  status: BudgetCheckStatus;
+  higherIsBetter?: boolean;
+  mustJustify?: boolean; // Flagged vendor: reviewed rather than held to a limit
+}
+
+export type MonitorRunStatus = "passed" | "over-budget" | "failed";
+
+export interface Monitor {
+  id: string;
+  name: string;
+  url: string;
+  schedule: string; // Cron expression, "@hourly"/"@daily" or "@every 30m"
+  strategies: Strategy[];
+  budgets: MetricBudgets;
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastStatus?: MonitorRunStatus;
+}
+
+export interface BudgetViolation {
+  metric: MetricKey | "score";
+  strategy: Strategy;
+  actual: number;
+  budget: number;
+}
+
+export interface MonitorRun {
+  id: string;
+  monitorId: string;
+  startedAt: string;
+  finishedAt: string;
+  status: MonitorRunStatus;
+  entryIds: string[];
+  violations: BudgetViolation[];
+  error?: string;
+}
+
+export type AlertChannelType = "webhook" | "slack" | "teams";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  urlPattern?: string; // Substring of the URL; empty matches every URL
+  strategy?: Strategy; // Both strategies when unset
+  metric: MetricKey | "score";
+  threshold?: number; // Upper limit for metrics, lower limit for the score
+  regressionPercent?: number; // Worse than the rolling median by this much
+  baselineRuns: number; // Previous runs in the rolling median
+  consecutive: number; // Breaching runs in a row before the alert fires
+  channel: {
+    type: AlertChannelType;
+    url: string;
+  };
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type AlertEvent = "triggered" | "resolved" | "test";
+
+export interface AlertDelivery {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  event: AlertEvent;
+  url: string;
+  strategy: Strategy;
+  metric: MetricKey | "score";
+  value?: number;
+  baseline?: number;
+  reason?: string;
+  entryId?: string;
+  status: "delivered" | "failed";
+  statusCode?: number;
+  error?: string;
+  sentAt: string;
+}
+
+export type DeviceClass = "mobile" | "tablet" | "desktop";
+
+// One Web Vitals measurement reported by a real user's browser
+export interface RumBeacon {
+  id: string; // web-vitals metric id, unique per page view and metric
+  site?: string; // Optional site key from the snippet, e.g. "shop"
+  url: string; // Page URL without query string or hash
+  pageViewId: string;
+  name: WebVitalsMetric["name"];
+  value: number;
+  rating: WebVitalsMetric["rating"];
+  navigationType: string;
+  deviceClass: DeviceClass;
+  effectiveType?: string; // Network Information API, e.g. "4g"
+  component?: string; // Set for per-component interaction latency (self-monitoring)
+  receivedAt: string;
 }
 
 export interface ComponentAnalysis {
@@ -61,9 +353,27 @@ export interface ComponentAnalysis {
     size?: number;
     renderTime?: number;
     blockingTime?: number;
+    wastedBytes?: number; // Unused code or avoidable image bytes
   };
   description: string;
   affectedMetrics: string[];
+  // Largest contributors, e.g. scripts by CPU time
+  details?: {
+    label: string;
+    url?: string;
+    value: number;
+    unit: "ms" | "bytes";
+  }[];
+  // "resources" marks estimates for entries saved without diagnostics
+  source?: "diagnostics" | "resources";
+}
+
+// A component to scroll to in the deep analysis, e.g. from a trace's long
+// task; `url` highlights one of its contributors
+export interface ComponentFocus {
+  componentId: ComponentAnalysis["id"];
+  url?: string;
+  note?: string;
 }
 
 export interface AISuggestion {